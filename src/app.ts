@@ -6,10 +6,16 @@ import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import hyperliquidRoutes from './routes/hyperliquid';
 import driftRoutes from './routes/drift';
+import lighterRoutes from './routes/lighter';
 import configRoutes from './routes/config';
 import positionsRoutes from './routes/positions';
 import authRoutes from './routes/auth';
 import jobsRoutes from './routes/jobs';
+import fundingRatesRoutes from './routes/funding-rates';
+import opportunitiesRoutes from './routes/opportunities';
+import strategyPoliciesRoutes from './routes/strategy-policies';
+import portfolioRoutes from './routes/portfolio';
+import telegramRoutes from './routes/telegram';
 
 // Load environment variables
 dotenv.config();
@@ -51,7 +57,13 @@ app.use('/api/config', configRoutes);
 app.use('/api/positions', positionsRoutes);
 app.use('/api/hyperliquid', hyperliquidRoutes);
 app.use('/api/drift', driftRoutes);
+app.use('/api/lighter', lighterRoutes);
 app.use('/api/jobs', jobsRoutes);
+app.use('/api/funding-rates', fundingRatesRoutes);
+app.use('/api/opportunities', opportunitiesRoutes);
+app.use('/api/strategy-policies', strategyPoliciesRoutes);
+app.use('/api/portfolio', portfolioRoutes);
+app.use('/api/telegram', telegramRoutes);
 
 // 404 handler
 app.use((req, res) => {
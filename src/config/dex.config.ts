@@ -11,6 +11,7 @@ interface DexConfig {
     programId: string;
     rpcUrl: string;
     dataApiUrl: string;
+    dlobUrl: string;
     env: 'mainnet-beta' | 'devnet';
     webAppUrl: string;
   };
@@ -28,6 +29,7 @@ const configs: Record<NetworkEnvironment, DexConfig> = {
       programId: 'dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH',
       rpcUrl: 'https://api.devnet.solana.com',
       dataApiUrl: 'https://master-data.drift.trade',
+      dlobUrl: 'https://master.dlob.drift.trade',
       env: 'devnet',
       webAppUrl: 'https://app.drift.trade',
     },
@@ -43,6 +45,7 @@ const configs: Record<NetworkEnvironment, DexConfig> = {
       programId: 'dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH',
       rpcUrl: 'https://api.mainnet-beta.solana.com',
       dataApiUrl: 'https://data.api.drift.trade',
+      dlobUrl: 'https://dlob.drift.trade',
       env: 'mainnet-beta',
       webAppUrl: 'https://app.drift.trade',
     },
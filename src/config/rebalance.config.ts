@@ -0,0 +1,72 @@
+import { DexType } from '@/types/exchange';
+
+/**
+ * Rules the funding engine applies before flipping a leg
+ */
+export interface RebalancePolicy {
+  horizonHours: number; // How far ahead funding is projected when weighing a flip
+  minHoldHours: number; // Minimum time a leg is held before it may be flipped
+  rateBandHourly: number; // Rate must be beyond +/- this band (hourly decimal) before a flip
+  slippageBps: number; // Estimated slippage per market order
+  maxFlipsPerDay: number | null; // Completed rebalances allowed per position in any 24h window
+  maxNotionalPerFlip: number | null; // USD notional above which a leg is left alone
+  allowedVenues: DexType[] | null; // Venues the engine may trade on, null for all
+  onUnfavorable: 'flip' | 'close'; // Flip the paying leg, or close the whole position
+  deltaTolerance: number; // Net base exposure tolerated before the delta monitor corrects it, as a share of the hedged size
+  deltaCorrection: 'reduce' | 'add'; // Trim the over-exposed side (reduce-only) or top up the under-exposed side
+  minLiquidationDistance: number; // Distance from mark to liquidation price, as a share of the mark, below which a leg is at risk
+  onLiquidationRisk: 'top_up' | 'deleverage'; // Add isolated margin to the leg, or reduce every leg by the same share
+}
+
+// Base-tier taker fees as a fraction of notional
+export const TAKER_FEES: Record<DexType, number> = {
+  hyperliquid: 0.00045,
+  drift: 0.00035,
+  lighter: 0,
+};
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+};
+
+/**
+ * Scheduled engine runs only simulate rebalances when FUNDING_ENGINE_MODE=dry-run
+ */
+export function isFundingEngineDryRun(): boolean {
+  return process.env.FUNDING_ENGINE_MODE === 'dry-run';
+}
+
+/**
+ * Scheduled delta monitor runs only simulate corrections when DELTA_MONITOR_MODE=dry-run
+ */
+export function isDeltaMonitorDryRun(): boolean {
+  return process.env.DELTA_MONITOR_MODE === 'dry-run';
+}
+
+/**
+ * Scheduled liquidation risk runs only simulate top-ups and deleveraging when LIQUIDATION_RISK_MODE=dry-run
+ */
+export function isLiquidationRiskDryRun(): boolean {
+  return process.env.LIQUIDATION_RISK_MODE === 'dry-run';
+}
+
+/**
+ * Engine-wide defaults, overridable per environment and by strategy policies
+ */
+export function getDefaultRebalancePolicy(): RebalancePolicy {
+  return {
+    horizonHours: numberFromEnv('REBALANCE_HORIZON_HOURS', 24),
+    minHoldHours: numberFromEnv('REBALANCE_MIN_HOLD_HOURS', 4),
+    rateBandHourly: numberFromEnv('REBALANCE_RATE_BAND_HOURLY', 0.0001), // 0.01% per hour
+    slippageBps: numberFromEnv('REBALANCE_SLIPPAGE_BPS', 10),
+    maxFlipsPerDay: null,
+    maxNotionalPerFlip: null,
+    allowedVenues: null,
+    onUnfavorable: 'flip',
+    deltaTolerance: numberFromEnv('REBALANCE_DELTA_TOLERANCE', 0.02), // 2% of the hedged size
+    deltaCorrection: 'reduce',
+    minLiquidationDistance: numberFromEnv('RISK_MIN_LIQUIDATION_DISTANCE', 0.1), // 10% of the mark price
+    onLiquidationRisk: 'top_up',
+  };
+}
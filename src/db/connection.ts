@@ -6,6 +6,7 @@ import * as dotenv from 'dotenv';
 dotenv.config();
 
 let queryClient: postgres.Sql | null = null;
+let lockClient: postgres.Sql | null = null;
 let dbInstance: ReturnType<typeof drizzle> | null = null;
 
 // Lazy initialization
@@ -41,6 +42,25 @@ export const db = new Proxy({} as ReturnType<typeof drizzle>, {
   }
 });
 
+/**
+ * Connections that hold session-level advisory locks. They are kept apart from the query pool,
+ * so lock holders never wait on their own locks for a connection to run queries.
+ */
+export function getLockClient(): postgres.Sql {
+  if (!lockClient) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('Database not initialized. DATABASE_URL is not set.');
+    }
+
+    lockClient = postgres(process.env.DATABASE_URL, {
+      max: 20, // Locks held at once across jobs and positions
+      idle_timeout: 20,
+      connect_timeout: 10,
+    });
+  }
+  return lockClient;
+}
+
 // Export the query client for migrations
 export { queryClient };
 
@@ -49,10 +69,16 @@ process.on('SIGINT', async () => {
   if (queryClient) {
     await queryClient.end();
   }
+  if (lockClient) {
+    await lockClient.end();
+  }
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   await queryClient.end();
+  if (lockClient) {
+    await lockClient.end();
+  }
   process.exit(0);
 });
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { db } from './connection';
-import { eq, and, desc } from 'drizzle-orm';
+import { db, getLockClient } from './connection';
+import { eq, and, or, ne, desc, gt, gte, lt, lte, asc, isNull, isNotNull, inArray, sql } from 'drizzle-orm';
 import {
   users,
   userWallets,
@@ -9,6 +9,15 @@ import {
   lighterOrders,
   positions,
   positionSnapshots,
+  fundingRates,
+  fundingPayments,
+  positionExecutions,
+  strategyPolicies,
+  jobRuns,
+  orderStatusEvents,
+  fills,
+  positionValuations,
+  telegramLinkCodes,
 } from './schema';
 
 export class DatabaseRepository {
@@ -58,7 +67,30 @@ export class DatabaseRepository {
     });
   }
 
-  async updateUser(userId: number, data: Partial<{ email: string }>) {
+  async getUser(userId: number) {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    return user;
+  }
+
+  async findUserByTelegramChatId(chatId: string) {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.telegramChatId, chatId))
+      .limit(1);
+    return user;
+  }
+
+  async updateUser(userId: number, data: Partial<{
+    email: string;
+    telegramChatId: string | null;
+    telegramUsername: string | null;
+    telegramVerified: boolean;
+  }>) {
     const [updated] = await db
       .update(users)
       .set(data)
@@ -113,10 +145,11 @@ export class DatabaseRepository {
   // ========== DEX Account Management ==========
   async createDexAccount(data: {
     userId: number;
-    dexType: 'hyperliquid' | 'drift';
+    dexType: 'hyperliquid' | 'drift' | 'lighter';
     address: string;
     accountType: 'master' | 'agent_wallet' | 'subaccount';
     encryptedPrivateKey?: string;
+    keyVersion?: string;
     agentName?: string;
     subaccountId?: number;
     nonce?: string;
@@ -133,6 +166,8 @@ export class DatabaseRepository {
     nonce: string;
     isActive: boolean;
     metadata: any;
+    encryptedPrivateKey: string;
+    keyVersion: string;
   }>) {
     const [updated] = await db
       .update(dexAccounts)
@@ -142,6 +177,22 @@ export class DatabaseRepository {
     return updated;
   }
 
+  /**
+   * Set one top-level key of an account's metadata, or remove it when value is null, leaving the other keys as they are
+   */
+  async setDexAccountMetadataKey(accountId: number, key: string, value: unknown) {
+    const [updated] = await db
+      .update(dexAccounts)
+      .set({
+        metadata: value === null
+          ? sql`${dexAccounts.metadata} - ${key}::text`
+          : sql`${dexAccounts.metadata} || jsonb_build_object(${key}::text, ${JSON.stringify(value)}::jsonb)`,
+      })
+      .where(eq(dexAccounts.id, accountId))
+      .returning();
+    return updated;
+  }
+
   async getDexAccount(accountId: number) {
     const [account] = await db
       .select()
@@ -151,7 +202,62 @@ export class DatabaseRepository {
     return account;
   }
 
-  async getUserDexAccounts(userId: number, dexType?: 'hyperliquid' | 'drift') {
+  async getDexAccountsWithStoredKeys(afterId: number, limit: number) {
+    return await db
+      .select()
+      .from(dexAccounts)
+      .where(and(
+        isNotNull(dexAccounts.encryptedPrivateKey),
+        gt(dexAccounts.id, afterId)
+      ))
+      .orderBy(asc(dexAccounts.id))
+      .limit(limit);
+  }
+
+  async getDexAccountsPendingKeyRotation(keyVersion: string, afterId: number, limit: number) {
+    return await db
+      .select()
+      .from(dexAccounts)
+      .where(and(
+        isNotNull(dexAccounts.encryptedPrivateKey),
+        or(isNull(dexAccounts.keyVersion), ne(dexAccounts.keyVersion, keyVersion)),
+        gt(dexAccounts.id, afterId)
+      ))
+      .orderBy(asc(dexAccounts.id))
+      .limit(limit);
+  }
+
+  async countDexAccountsPendingKeyRotation(keyVersion: string) {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(dexAccounts)
+      .where(and(
+        isNotNull(dexAccounts.encryptedPrivateKey),
+        or(isNull(dexAccounts.keyVersion), ne(dexAccounts.keyVersion, keyVersion))
+      ));
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Replace a stored private key only if it still holds the expected value,
+   * so a concurrent write is never overwritten with stale key material
+   */
+  async swapDexAccountPrivateKey(accountId: number, expected: string, data: {
+    encryptedPrivateKey: string;
+    keyVersion: string;
+  }) {
+    const [updated] = await db
+      .update(dexAccounts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(
+        eq(dexAccounts.id, accountId),
+        eq(dexAccounts.encryptedPrivateKey, expected)
+      ))
+      .returning();
+    return updated;
+  }
+
+  async getUserDexAccounts(userId: number, dexType?: 'hyperliquid' | 'drift' | 'lighter') {
     const conditions = [eq(dexAccounts.userId, userId)];
     if (dexType) {
       conditions.push(eq(dexAccounts.dexType, dexType));
@@ -164,7 +270,18 @@ export class DatabaseRepository {
       .orderBy(desc(dexAccounts.createdAt));
   }
 
-  async getDexAccountByAddress(address: string, dexType: 'hyperliquid' | 'drift') {
+  async getActiveDexAccounts(dexType: 'hyperliquid' | 'drift' | 'lighter') {
+    return await db
+      .select()
+      .from(dexAccounts)
+      .where(and(
+        eq(dexAccounts.dexType, dexType),
+        eq(dexAccounts.isActive, true)
+      ))
+      .orderBy(asc(dexAccounts.id));
+  }
+
+  async getDexAccountByAddress(address: string, dexType: 'hyperliquid' | 'drift' | 'lighter') {
     const [account] = await db
       .select()
       .from(dexAccounts)
@@ -263,6 +380,36 @@ export class DatabaseRepository {
       .orderBy(desc(hyperliquidOrders.createdAt));
   }
 
+  async getHyperliquidOrdersByExchangeIds(userId: number, hlOrderIds: string[], clientOrderIds: string[]) {
+    const matches = [];
+    if (hlOrderIds.length > 0) {
+      matches.push(inArray(hyperliquidOrders.hlOrderId, hlOrderIds));
+    }
+    if (clientOrderIds.length > 0) {
+      matches.push(inArray(hyperliquidOrders.clientOrderId, clientOrderIds));
+    }
+    if (matches.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select()
+      .from(hyperliquidOrders)
+      .where(and(
+        eq(hyperliquidOrders.userId, userId),
+        or(...matches)
+      ));
+  }
+
+  async getActiveHyperliquidOrders(limit: number) {
+    return await db
+      .select()
+      .from(hyperliquidOrders)
+      .where(inArray(hyperliquidOrders.status, ['pending', 'open', 'triggered']))
+      .orderBy(sql`${hyperliquidOrders.lastCheckedAt} asc nulls first`, asc(hyperliquidOrders.createdAt))
+      .limit(limit);
+  }
+
   // ========== Drift Orders ==========
   async createDriftOrder(data: {
     dexAccountId: number;
@@ -295,6 +442,29 @@ export class DatabaseRepository {
     return order;
   }
 
+  async getDriftOrdersByExchangeIds(dexAccountId: number, driftOrderIds: string[]) {
+    if (driftOrderIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select()
+      .from(driftOrders)
+      .where(and(
+        eq(driftOrders.dexAccountId, dexAccountId),
+        inArray(driftOrders.driftOrderId, driftOrderIds)
+      ));
+  }
+
+  async getActiveDriftOrders(limit: number) {
+    return await db
+      .select()
+      .from(driftOrders)
+      .where(inArray(driftOrders.status, ['pending', 'open', 'triggered']))
+      .orderBy(sql`${driftOrders.lastCheckedAt} asc nulls first`, asc(driftOrders.createdAt))
+      .limit(limit);
+  }
+
   // ========== Lighter Orders ==========
   async createLighterOrder(data: {
     dexAccountId: number;
@@ -327,6 +497,87 @@ export class DatabaseRepository {
     return order;
   }
 
+  async updateLighterOrder(orderId: number, data: Partial<{
+    lighterOrderId: string;
+    filledAmount: string;
+    avgFillPrice: string;
+    status: 'open' | 'filled' | 'cancelled' | 'failed' | 'pending' | 'rejected' | 'triggered' | 'marginCanceled' | 'liquidatedCanceled' | 'expired';
+    price: string;
+    baseAmount: string;
+    triggerPrice: string;
+    nonce: string;
+    signature: string;
+    rawParams: any;
+  }>) {
+    const [updated] = await db
+      .update(lighterOrders)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(lighterOrders.id, orderId))
+      .returning();
+    return updated;
+  }
+
+  async getLighterOrders(filters: {
+    userId?: number;
+    dexAccountId?: number;
+    marketId?: number;
+    status?: 'open' | 'filled' | 'cancelled' | 'failed' | 'pending' | 'rejected' | 'triggered' | 'marginCanceled' | 'liquidatedCanceled' | 'expired';
+  }) {
+    const conditions = [];
+
+    if (filters.userId) {
+      conditions.push(eq(lighterOrders.userId, filters.userId));
+    }
+    if (filters.dexAccountId) {
+      conditions.push(eq(lighterOrders.dexAccountId, filters.dexAccountId));
+    }
+    if (filters.marketId !== undefined) {
+      conditions.push(eq(lighterOrders.marketId, filters.marketId));
+    }
+    if (filters.status) {
+      conditions.push(eq(lighterOrders.status, filters.status));
+    }
+
+    return await db
+      .select()
+      .from(lighterOrders)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(lighterOrders.createdAt));
+  }
+
+  async getActiveLighterOrders(limit: number) {
+    return await db
+      .select()
+      .from(lighterOrders)
+      .where(inArray(lighterOrders.status, ['pending', 'open', 'triggered']))
+      .orderBy(sql`${lighterOrders.lastCheckedAt} asc nulls first`, asc(lighterOrders.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Stamp lastCheckedAt on reconciled orders, so the least recently checked orders go first next run
+   */
+  async markOrdersChecked(dexType: 'hyperliquid' | 'drift' | 'lighter', orderIds: number[]) {
+    if (orderIds.length === 0) {
+      return;
+    }
+
+    const table = dexType === 'hyperliquid' ? hyperliquidOrders : dexType === 'drift' ? driftOrders : lighterOrders;
+    await db
+      .update(table)
+      .set({ lastCheckedAt: new Date() })
+      .where(inArray(table.id, orderIds));
+  }
+
+  async getLighterOrderByClientIndex(clientOrderIndex: number) {
+    const [order] = await db
+      .select()
+      .from(lighterOrders)
+      .where(eq(lighterOrders.clientOrderIndex, clientOrderIndex))
+      .limit(1);
+    return order;
+  }
+
   async updateDriftOrder(orderId: number, data: Partial<{
     driftOrderId: string;
     filledAmount: string;
@@ -383,6 +634,7 @@ export class DatabaseRepository {
     userId: number;
     positionType: 'single' | 'delta_neutral';
     name: string;
+    fundingOptimizationEnabled?: boolean;
     metadata?: any;
   }) {
     const [position] = await db
@@ -436,6 +688,14 @@ export class DatabaseRepository {
       .orderBy(desc(positions.createdAt));
   }
 
+  async getOpenPositions() {
+    return await db
+      .select()
+      .from(positions)
+      .where(eq(positions.status, 'open'))
+      .orderBy(desc(positions.createdAt));
+  }
+
   async getOpenPositionsWithFundingOptimization() {
     return await db
       .select()
@@ -449,6 +709,44 @@ export class DatabaseRepository {
       .orderBy(desc(positions.createdAt));
   }
 
+  async getPosition(positionId: number) {
+    const [position] = await db
+      .select()
+      .from(positions)
+      .where(eq(positions.id, positionId))
+      .limit(1);
+    return position;
+  }
+
+  /**
+   * Stamp lastAlertSentAt if the position has notifications on and no alert was sent since sentBefore.
+   * Returns undefined when the alert is throttled or disabled. Without sentBefore only notificationsEnabled is checked.
+   */
+  async claimPositionAlert(positionId: number, sentBefore: Date | null) {
+    const conditions = [eq(positions.id, positionId), eq(positions.notificationsEnabled, true)];
+
+    if (sentBefore) {
+      conditions.push(or(isNull(positions.lastAlertSentAt), lt(positions.lastAlertSentAt, sentBefore))!);
+    }
+
+    const [claimed] = await db
+      .update(positions)
+      .set({ lastAlertSentAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return claimed;
+  }
+
+  /**
+   * Undo a claim whose alert was not sent, unless another alert has claimed the position since
+   */
+  async releasePositionAlert(positionId: number, claimedAt: Date, previousSentAt: Date | null) {
+    await db
+      .update(positions)
+      .set({ lastAlertSentAt: previousSentAt })
+      .where(and(eq(positions.id, positionId), eq(positions.lastAlertSentAt, claimedAt)));
+  }
+
   async getPositionWithSnapshots(positionId: number) {
     const [position] = await db
       .select()
@@ -496,7 +794,7 @@ export class DatabaseRepository {
   // ========== Position Snapshots ==========
   async createPositionSnapshot(data: {
     positionId: number;
-    dexType: 'hyperliquid' | 'drift';
+    dexType: 'hyperliquid' | 'drift' | 'lighter';
     dexAccountId: number;
     symbol: string;
     side: 'long' | 'short' | 'spot';
@@ -508,6 +806,7 @@ export class DatabaseRepository {
     notionalValue: string;
     hyperliquidOrderId?: number;
     driftOrderId?: number;
+    lighterOrderId?: number;
     metadata?: any;
   }) {
     const [snapshot] = await db
@@ -521,6 +820,8 @@ export class DatabaseRepository {
     currentPrice: string;
     markPrice: string;
     liquidationPrice: string;
+    size: string;
+    notionalValue: string;
     metadata: any;
   }>) {
     const [updated] = await db
@@ -560,6 +861,30 @@ export class DatabaseRepository {
     return Array.from(latestByDexSymbol.values());
   }
 
+  /**
+   * Positions whose legs were opened by the given orders
+   */
+  async getPositionIdsByOrders(dexType: 'hyperliquid' | 'drift' | 'lighter', orderIds: number[]) {
+    if (orderIds.length === 0) {
+      return [];
+    }
+
+    const orderColumn = dexType === 'hyperliquid'
+      ? positionSnapshots.hyperliquidOrderId
+      : dexType === 'drift' ? positionSnapshots.driftOrderId : positionSnapshots.lighterOrderId;
+
+    return await db
+      .selectDistinct({
+        positionId: positionSnapshots.positionId,
+        orderId: sql<number>`${orderColumn}`,
+      })
+      .from(positionSnapshots)
+      .where(and(
+        eq(positionSnapshots.dexType, dexType),
+        inArray(orderColumn, orderIds)
+      ));
+  }
+
   async deletePositionSnapshot(snapshotId: number) {
     const [deleted] = await db
       .delete(positionSnapshots)
@@ -568,7 +893,636 @@ export class DatabaseRepository {
     return deleted;
   }
 
+  // ========== Funding Rates ==========
+  async insertFundingRates(data: Array<typeof fundingRates.$inferInsert>) {
+    if (data.length === 0) {
+      return [];
+    }
+
+    // A sample already recorded for the same market and time is skipped
+    return await db
+      .insert(fundingRates)
+      .values(data)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async getFundingRateBuckets(filters: {
+    asset?: string;
+    dexType?: 'hyperliquid' | 'drift' | 'lighter';
+    from: Date;
+    to: Date;
+    bucketSeconds: number;
+  }) {
+    const conditions = [
+      gte(fundingRates.recordedAt, filters.from),
+      lte(fundingRates.recordedAt, filters.to),
+    ];
+
+    if (filters.asset) {
+      conditions.push(eq(fundingRates.asset, filters.asset.toUpperCase()));
+    }
+    if (filters.dexType) {
+      conditions.push(eq(fundingRates.dexType, filters.dexType));
+    }
+
+    // Inlined rather than bound so the SELECT and GROUP BY expressions are identical
+    const bucketSeconds = sql.raw(Math.floor(filters.bucketSeconds).toString());
+    const bucketStart = sql<string>`to_timestamp(floor(extract(epoch from ${fundingRates.recordedAt}) / ${bucketSeconds}) * ${bucketSeconds})`;
+
+    return await db
+      .select({
+        bucketStart,
+        dexType: fundingRates.dexType,
+        asset: fundingRates.asset,
+        avgHourlyRate: sql<string>`avg(${fundingRates.hourlyRate})`,
+        minHourlyRate: sql<string>`min(${fundingRates.hourlyRate})`,
+        maxHourlyRate: sql<string>`max(${fundingRates.hourlyRate})`,
+        samples: sql<number>`count(*)::int`,
+      })
+      .from(fundingRates)
+      .where(and(...conditions))
+      .groupBy(bucketStart, fundingRates.dexType, fundingRates.asset)
+      .orderBy(asc(bucketStart), fundingRates.asset, fundingRates.dexType);
+  }
+
+  async getHourlyFundingSamples(filters: {
+    asset: string;
+    dexTypes: Array<'hyperliquid' | 'drift' | 'lighter'>;
+    from: Date;
+    to: Date;
+  }) {
+    const hour = sql<string>`date_trunc('hour', ${fundingRates.recordedAt})`;
+
+    return await db
+      .select({
+        hour,
+        dexType: fundingRates.dexType,
+        hourlyRate: sql<string>`avg(${fundingRates.hourlyRate})`,
+        predictedHourlyRate: sql<string | null>`avg(${fundingRates.predictedHourlyRate})`,
+        markPrice: sql<string | null>`avg(${fundingRates.markPrice})`,
+      })
+      .from(fundingRates)
+      .where(and(
+        eq(fundingRates.asset, filters.asset.toUpperCase()),
+        inArray(fundingRates.dexType, filters.dexTypes),
+        gte(fundingRates.recordedAt, filters.from),
+        lte(fundingRates.recordedAt, filters.to)
+      ))
+      .groupBy(hour, fundingRates.dexType)
+      .orderBy(asc(hour), fundingRates.dexType);
+  }
+
+  // ========== Funding Payments ==========
+  async insertFundingPayments(data: Array<typeof fundingPayments.$inferInsert>) {
+    if (data.length === 0) {
+      return [];
+    }
+
+    // Payments already recorded for the account are skipped
+    return await db
+      .insert(fundingPayments)
+      .values(data)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async getLatestFundingPaymentTime(dexAccountIds: number[]) {
+    const [result] = await db
+      .select({ paidAt: sql<string | null>`max(${fundingPayments.paidAt})` })
+      .from(fundingPayments)
+      .where(inArray(fundingPayments.dexAccountId, dexAccountIds));
+    return result?.paidAt ? new Date(result.paidAt) : null;
+  }
+
+  async getFundingAttributionLegs(closedSince: Date) {
+    return await db
+      .select({
+        snapshot: positionSnapshots,
+        position: {
+          id: positions.id,
+          userId: positions.userId,
+          status: positions.status,
+          closedAt: positions.closedAt,
+        },
+        dexAccount: {
+          id: dexAccounts.id,
+          address: dexAccounts.address,
+          subaccountId: dexAccounts.subaccountId,
+          metadata: dexAccounts.metadata,
+        },
+      })
+      .from(positionSnapshots)
+      .innerJoin(positions, eq(positionSnapshots.positionId, positions.id))
+      .innerJoin(dexAccounts, eq(positionSnapshots.dexAccountId, dexAccounts.id))
+      .where(
+        and(
+          ne(positionSnapshots.side, 'spot'),
+          or(
+            eq(positions.status, 'open'),
+            gte(positions.closedAt, closedSince)
+          )
+        )
+      );
+  }
+
+  async getPositionFundingSummary(positionId: number) {
+    return await db
+      .select({
+        positionSnapshotId: fundingPayments.positionSnapshotId,
+        dexType: fundingPayments.dexType,
+        asset: fundingPayments.asset,
+        earned: sql<string>`coalesce(sum(case when ${fundingPayments.amount} > 0 then ${fundingPayments.amount} else 0 end), 0)`,
+        paid: sql<string>`coalesce(sum(case when ${fundingPayments.amount} < 0 then -${fundingPayments.amount} else 0 end), 0)`,
+        payments: sql<number>`count(*)::int`,
+        lastPaidAt: sql<string>`max(${fundingPayments.paidAt})`,
+      })
+      .from(fundingPayments)
+      .where(eq(fundingPayments.positionId, positionId))
+      .groupBy(fundingPayments.positionSnapshotId, fundingPayments.dexType, fundingPayments.asset);
+  }
+
+  async getNetFundingByPosition(positionIds: number[]) {
+    if (positionIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select({
+        positionId: sql<number>`${fundingPayments.positionId}`,
+        amount: sql<string>`coalesce(sum(${fundingPayments.amount}), 0)`,
+      })
+      .from(fundingPayments)
+      .where(inArray(fundingPayments.positionId, positionIds))
+      .groupBy(fundingPayments.positionId);
+  }
+
+  // ========== Position Valuations ==========
+  async insertPositionValuations(data: Array<typeof positionValuations.$inferInsert>) {
+    if (data.length === 0) {
+      return [];
+    }
+
+    return await db.insert(positionValuations).values(data).returning();
+  }
+
+  async getPositionValuationBuckets(filters: {
+    positionIds: number[];
+    from: Date;
+    to: Date;
+    bucketSeconds: number;
+  }) {
+    if (filters.positionIds.length === 0) {
+      return [];
+    }
+
+    // Inlined rather than bound so the SELECT and GROUP BY expressions are identical
+    const bucketSeconds = sql.raw(Math.floor(filters.bucketSeconds).toString());
+    const bucketStart = sql<string>`to_timestamp(floor(extract(epoch from ${positionValuations.valuedAt}) / ${bucketSeconds}) * ${bucketSeconds})`;
+
+    // The last valuation in each bucket
+    return await db
+      .select({
+        positionId: positionValuations.positionId,
+        bucketStart,
+        unrealizedPnl: sql<string>`(array_agg(${positionValuations.unrealizedPnl} order by ${positionValuations.valuedAt} desc))[1]`,
+        netDelta: sql<string>`(array_agg(${positionValuations.netDelta} order by ${positionValuations.valuedAt} desc))[1]`,
+        grossNotional: sql<string>`(array_agg(${positionValuations.grossNotional} order by ${positionValuations.valuedAt} desc))[1]`,
+      })
+      .from(positionValuations)
+      .where(and(
+        inArray(positionValuations.positionId, filters.positionIds),
+        gte(positionValuations.valuedAt, filters.from),
+        lte(positionValuations.valuedAt, filters.to)
+      ))
+      .groupBy(positionValuations.positionId, bucketStart)
+      .orderBy(asc(bucketStart));
+  }
+
+  async getLatestPositionValuationsBefore(positionIds: number[], before: Date) {
+    if (positionIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .selectDistinctOn([positionValuations.positionId])
+      .from(positionValuations)
+      .where(and(
+        inArray(positionValuations.positionId, positionIds),
+        lt(positionValuations.valuedAt, before)
+      ))
+      .orderBy(positionValuations.positionId, desc(positionValuations.valuedAt));
+  }
+
+  async getPositionFundingBuckets(filters: {
+    positionIds: number[];
+    to: Date;
+    bucketSeconds: number;
+  }) {
+    if (filters.positionIds.length === 0) {
+      return [];
+    }
+
+    const bucketSeconds = sql.raw(Math.floor(filters.bucketSeconds).toString());
+    const bucketStart = sql<string>`to_timestamp(floor(extract(epoch from ${fundingPayments.paidAt}) / ${bucketSeconds}) * ${bucketSeconds})`;
+
+    return await db
+      .select({
+        positionId: sql<number>`${fundingPayments.positionId}`,
+        bucketStart,
+        amount: sql<string>`coalesce(sum(${fundingPayments.amount}), 0)`,
+      })
+      .from(fundingPayments)
+      .where(and(
+        inArray(fundingPayments.positionId, filters.positionIds),
+        lte(fundingPayments.paidAt, filters.to)
+      ))
+      .groupBy(fundingPayments.positionId, bucketStart)
+      .orderBy(asc(bucketStart));
+  }
+
+  /**
+   * Fees and venue-reported closed PnL of fills on the orders behind each position's legs
+   */
+  async getPositionFillBuckets(filters: {
+    positionIds: number[];
+    to: Date;
+    bucketSeconds: number;
+  }) {
+    if (filters.positionIds.length === 0) {
+      return [];
+    }
+
+    // Distinct so legs snapshotted more than once do not count their fills twice
+    const positionOrders = db
+      .selectDistinct({
+        positionId: positionSnapshots.positionId,
+        dexType: positionSnapshots.dexType,
+        orderId: sql<number>`coalesce(${positionSnapshots.hyperliquidOrderId}, ${positionSnapshots.driftOrderId}, ${positionSnapshots.lighterOrderId})`.as('snapshot_order_id'), // Distinct from fills.order_id in the join
+      })
+      .from(positionSnapshots)
+      .where(inArray(positionSnapshots.positionId, filters.positionIds))
+      .as('position_orders');
+
+    // Each venue trade once, even if it was stored under several accounts of the same wallet
+    const positionFills = db
+      .selectDistinctOn([positionOrders.positionId, fills.dexType, fills.orderId, fills.externalId], {
+        positionId: positionOrders.positionId,
+        fee: fills.fee,
+        feeToken: fills.feeToken,
+        closedPnl: fills.closedPnl,
+        filledAt: fills.filledAt,
+      })
+      .from(fills)
+      .innerJoin(positionOrders, and(
+        eq(fills.dexType, positionOrders.dexType),
+        eq(fills.orderId, positionOrders.orderId)
+      ))
+      .where(lte(fills.filledAt, filters.to))
+      .as('position_fills');
+
+    const bucketSeconds = sql.raw(Math.floor(filters.bucketSeconds).toString());
+    const bucketStart = sql<string>`to_timestamp(floor(extract(epoch from ${positionFills.filledAt}) / ${bucketSeconds}) * ${bucketSeconds})`;
+
+    return await db
+      .select({
+        positionId: positionFills.positionId,
+        bucketStart,
+        // Fees charged in other tokens (e.g. spot buys on Hyperliquid) are not converted
+        fees: sql<string>`coalesce(sum(case when ${positionFills.feeToken} = 'USDC' then ${positionFills.fee} else 0 end), 0)`,
+        realizedPnl: sql<string>`coalesce(sum(${positionFills.closedPnl}), 0)`,
+      })
+      .from(positionFills)
+      .groupBy(positionFills.positionId, bucketStart)
+      .orderBy(asc(bucketStart));
+  }
+
   // ========== Transactions ==========
+  // ========== Position Executions ==========
+  async createPositionExecution(data: typeof positionExecutions.$inferInsert) {
+    const [execution] = await db.insert(positionExecutions).values(data).returning();
+    return execution;
+  }
+
+  async updatePositionExecution(executionId: number, data: Partial<{
+    positionId: number;
+    status: typeof positionExecutions.$inferSelect['status'];
+    steps: any[];
+    error: string | null;
+    completedAt: Date;
+  }>) {
+    const [execution] = await db
+      .update(positionExecutions)
+      .set(data)
+      .where(eq(positionExecutions.id, executionId))
+      .returning();
+    return execution;
+  }
+
+  async getPositionExecutions(positionId: number) {
+    return await db
+      .select()
+      .from(positionExecutions)
+      .where(eq(positionExecutions.positionId, positionId))
+      .orderBy(desc(positionExecutions.createdAt));
+  }
+
+  async countPositionExecutionsSince(
+    positionId: number,
+    kind: typeof positionExecutions.$inferSelect['kind'],
+    since: Date,
+    reason?: string
+  ) {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(positionExecutions)
+      .where(
+        and(
+          eq(positionExecutions.positionId, positionId),
+          eq(positionExecutions.kind, kind),
+          eq(positionExecutions.status, 'completed'),
+          gte(positionExecutions.createdAt, since),
+          // Executions recorded before reasons were stored have none
+          reason !== undefined ? or(eq(positionExecutions.reason, reason), isNull(positionExecutions.reason)) : undefined
+        )
+      );
+    return result?.count || 0;
+  }
+
+  // ========== Strategy Policies ==========
+  async createStrategyPolicy(data: typeof strategyPolicies.$inferInsert) {
+    const [policy] = await db.insert(strategyPolicies).values(data).returning();
+    return policy;
+  }
+
+  async getStrategyPolicy(policyId: number) {
+    const [policy] = await db
+      .select()
+      .from(strategyPolicies)
+      .where(eq(strategyPolicies.id, policyId))
+      .limit(1);
+    return policy;
+  }
+
+  async getUserStrategyPolicies(userId: number, positionId?: number) {
+    return await db
+      .select()
+      .from(strategyPolicies)
+      .where(
+        and(
+          eq(strategyPolicies.userId, userId),
+          positionId !== undefined ? eq(strategyPolicies.positionId, positionId) : undefined
+        )
+      )
+      .orderBy(asc(strategyPolicies.id));
+  }
+
+  /**
+   * The user-wide policy (positionId null) or the policy attached to a position
+   */
+  async getStrategyPolicyForScope(userId: number, positionId: number | null) {
+    const [policy] = await db
+      .select()
+      .from(strategyPolicies)
+      .where(
+        and(
+          eq(strategyPolicies.userId, userId),
+          positionId === null ? isNull(strategyPolicies.positionId) : eq(strategyPolicies.positionId, positionId)
+        )
+      )
+      .limit(1);
+    return policy;
+  }
+
+  async updateStrategyPolicy(policyId: number, data: Partial<Omit<typeof strategyPolicies.$inferInsert, 'id' | 'userId' | 'positionId' | 'createdAt'>>) {
+    const [policy] = await db
+      .update(strategyPolicies)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(strategyPolicies.id, policyId))
+      .returning();
+    return policy;
+  }
+
+  async deleteStrategyPolicy(policyId: number) {
+    const [deleted] = await db
+      .delete(strategyPolicies)
+      .where(eq(strategyPolicies.id, policyId))
+      .returning();
+    return deleted;
+  }
+
+  // ========== Job Runs ==========
+  async createJobRun(data: typeof jobRuns.$inferInsert) {
+    const [run] = await db.insert(jobRuns).values(data).returning();
+    return run;
+  }
+
+  async updateJobRun(runId: number, data: Partial<{
+    status: typeof jobRuns.$inferSelect['status'];
+    dryRun: boolean;
+    summary: Record<string, unknown>;
+    positionOutcomes: any[];
+    error: string | null;
+    finishedAt: Date;
+  }>) {
+    const [run] = await db
+      .update(jobRuns)
+      .set(data)
+      .where(eq(jobRuns.id, runId))
+      .returning();
+    return run;
+  }
+
+  async getJobRun(runId: number) {
+    const [run] = await db
+      .select()
+      .from(jobRuns)
+      .where(eq(jobRuns.id, runId))
+      .limit(1);
+    return run;
+  }
+
+  async getJobRuns(filters: {
+    jobName?: string;
+    status?: typeof jobRuns.$inferSelect['status'];
+    positionId?: number;
+    from?: Date;
+    to?: Date;
+    limit: number;
+    offset: number;
+  }) {
+    const conditions = [];
+
+    if (filters.jobName) {
+      conditions.push(eq(jobRuns.jobName, filters.jobName));
+    }
+    if (filters.status) {
+      conditions.push(eq(jobRuns.status, filters.status));
+    }
+    if (filters.positionId !== undefined) {
+      conditions.push(sql`${jobRuns.positionOutcomes} @> ${JSON.stringify([{ positionId: filters.positionId }])}::jsonb`);
+    }
+    if (filters.from) {
+      conditions.push(gte(jobRuns.startedAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(jobRuns.startedAt, filters.to));
+    }
+
+    return await db
+      .select()
+      .from(jobRuns)
+      .where(and(...conditions))
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(filters.limit)
+      .offset(filters.offset);
+  }
+
+  // ========== Order Status Events ==========
+  async createOrderStatusEvent(data: typeof orderStatusEvents.$inferInsert) {
+    const [event] = await db.insert(orderStatusEvents).values(data).returning();
+    return event;
+  }
+
+  // ========== Fills ==========
+  async insertFills(data: Array<typeof fills.$inferInsert>) {
+    if (data.length === 0) {
+      return [];
+    }
+
+    // Fills already recorded for the account are skipped
+    return await db
+      .insert(fills)
+      .values(data)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async getLatestFillTime(dexAccountIds: number[]) {
+    const [result] = await db
+      .select({ filledAt: sql<string | null>`max(${fills.filledAt})` })
+      .from(fills)
+      .where(inArray(fills.dexAccountId, dexAccountIds));
+    return result?.filledAt ? new Date(result.filledAt) : null;
+  }
+
+  async getFillTotalsByOrder(dexType: 'hyperliquid' | 'drift' | 'lighter', orderIds: number[]) {
+    if (orderIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select({
+        orderId: sql<number>`${fills.orderId}`,
+        size: sql<string>`sum(${fills.size})`,
+        notional: sql<string>`sum(${fills.size} * ${fills.price})`,
+      })
+      .from(fills)
+      .where(and(
+        eq(fills.dexType, dexType),
+        inArray(fills.orderId, orderIds)
+      ))
+      .groupBy(fills.orderId);
+  }
+
+  async getFills(filters: {
+    dexAccountIds: number[];
+    asset?: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+    offset: number;
+  }) {
+    const conditions = [inArray(fills.dexAccountId, filters.dexAccountIds)];
+
+    if (filters.asset) {
+      conditions.push(eq(fills.asset, filters.asset));
+    }
+    if (filters.from) {
+      conditions.push(gte(fills.filledAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(fills.filledAt, filters.to));
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(fills)
+        .where(and(...conditions))
+        .orderBy(desc(fills.filledAt), desc(fills.id))
+        .limit(filters.limit)
+        .offset(filters.offset),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(fills)
+        .where(and(...conditions)),
+    ]);
+
+    return { fills: rows, total };
+  }
+
+  // ========== Telegram Link Codes ==========
+  async createTelegramLinkCode(data: typeof telegramLinkCodes.$inferInsert) {
+    const [linkCode] = await db.insert(telegramLinkCodes).values(data).returning();
+    return linkCode;
+  }
+
+  /**
+   * Mark an unused, unexpired code as used. Returns undefined if the code cannot be used.
+   */
+  async consumeTelegramLinkCode(code: string) {
+    const now = new Date();
+    const [linkCode] = await db
+      .update(telegramLinkCodes)
+      .set({ usedAt: now })
+      .where(and(
+        eq(telegramLinkCodes.code, code),
+        isNull(telegramLinkCodes.usedAt),
+        gt(telegramLinkCodes.expiresAt, now)
+      ))
+      .returning();
+    return linkCode;
+  }
+
+  // ========== Locks ==========
+  /**
+   * Run fn while holding a session-level advisory lock on (namespace, key).
+   * Returns acquired: false without running fn when another session holds the lock.
+   * The lock is held on a reserved connection from the lock client, outside any transaction, and is
+   * released when fn settles, or by Postgres if the connection drops.
+   */
+  async withAdvisoryLock<T>(
+    namespace: number,
+    key: number | string,
+    fn: () => Promise<T>
+  ): Promise<{ acquired: true; result: T } | { acquired: false }> {
+    const lockKey = typeof key === 'number' ? '$2::int' : 'hashtext($2)';
+    const connection = await getLockClient().reserve();
+
+    try {
+      const [row] = await connection.unsafe<Array<{ locked: boolean }>>(
+        `select pg_try_advisory_lock($1::int, ${lockKey}) as locked`,
+        [namespace, key]
+      );
+
+      if (!row?.locked) {
+        return { acquired: false as const };
+      }
+
+      try {
+        return { acquired: true as const, result: await fn() };
+      } finally {
+        // A failed unlock means the connection dropped, which already released the lock
+        await connection
+          .unsafe(`select pg_advisory_unlock($1::int, ${lockKey})`, [namespace, key])
+          .catch(() => undefined);
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
   async transaction<T>(fn: (tx: typeof db) => Promise<T>): Promise<T> {
     return await db.transaction(fn);
   }
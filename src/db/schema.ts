@@ -21,6 +21,20 @@ export const positionStatusEnum = pgEnum('position_status', ['open', 'closed', '
 export const positionTypeEnum = pgEnum('position_type', ['single', 'delta_neutral']);
 export const legSideEnum = pgEnum('leg_side', ['long', 'short', 'spot']);
 export const walletTypeEnum = pgEnum('wallet_type', ['evm', 'solana']);
+export const executionKindEnum = pgEnum('execution_kind', ['open', 'rebalance', 'close']);
+export const executionStatusEnum = pgEnum('execution_status', [
+  'pending',
+  'completed',
+  'failed', // Nothing was filled, nothing to unwind
+  'unwound', // Filled legs were reversed after a later leg failed
+  'unwind_failed' // Reversal failed - exposure is left on the venue
+]);
+export const unfavorableActionEnum = pgEnum('unfavorable_action', ['flip', 'close']);
+export const deltaCorrectionEnum = pgEnum('delta_correction', ['reduce', 'add']);
+export const liquidationRiskActionEnum = pgEnum('liquidation_risk_action', ['top_up', 'deleverage']);
+export const jobTriggerEnum = pgEnum('job_trigger', ['schedule', 'manual']);
+export const jobRunStatusEnum = pgEnum('job_run_status', ['running', 'completed', 'failed']);
+export const fillLiquidityEnum = pgEnum('fill_liquidity', ['maker', 'taker']);
 
 // Users table
 export const users = pgTable('users', {
@@ -57,6 +71,7 @@ export const dexAccounts = pgTable('dex_accounts', {
   address: text('address').notNull(),
   accountType: accountTypeEnum('account_type').notNull(),
   encryptedPrivateKey: text('encrypted_private_key'), // Only for Hyperliquid agent wallets
+  keyVersion: text('key_version'), // Master key version wrapping encryptedPrivateKey (null = legacy plain text)
   agentName: text('agent_name'), // For Hyperliquid agent wallets
   subaccountId: integer('subaccount_id'), // For Drift subaccounts
   nonce: numeric('nonce', { precision: 20, scale: 0 }), // For Hyperliquid nonce tracking
@@ -70,6 +85,7 @@ export const dexAccounts = pgTable('dex_accounts', {
     userDexIdx: index('idx_user_dex').on(table.userId, table.dexType),
     addressIdx: index('idx_address').on(table.address),
     activeIdx: index('idx_active').on(table.isActive),
+    keyVersionIdx: index('idx_dex_accounts_key_version').on(table.keyVersion),
   };
 });
 
@@ -102,6 +118,7 @@ export const hyperliquidOrders = pgTable('hyperliquid_orders', {
   nonce: numeric('nonce', { precision: 20, scale: 0 }),
   builderFee: numeric('builder_fee', { precision: 10, scale: 4 }),
   rawResponse: jsonb('raw_response'),
+  lastCheckedAt: timestamp('last_checked_at'), // Last reconciliation against the venue
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => {
@@ -142,6 +159,7 @@ export const driftOrders = pgTable('drift_orders', {
   auctionStartPrice: numeric('auction_start_price', { precision: 30, scale: 10 }),
   auctionEndPrice: numeric('auction_end_price', { precision: 30, scale: 10 }),
   rawParams: jsonb('raw_params'),
+  lastCheckedAt: timestamp('last_checked_at'), // Last reconciliation against the venue
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => {
@@ -180,6 +198,7 @@ export const lighterOrders = pgTable('lighter_orders', {
   accountIndex: integer('account_index').notNull(), // Lighter account index
   signature: text('signature'),
   rawParams: jsonb('raw_params'),
+  lastCheckedAt: timestamp('last_checked_at'), // Last reconciliation against the venue
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => {
@@ -249,6 +268,212 @@ export const positionSnapshots = pgTable('position_snapshots', {
   };
 });
 
+// Funding Rates table - periodic samples collected from every venue
+export const fundingRates = pgTable('funding_rates', {
+  id: serial('id').primaryKey(),
+  dexType: dexTypeEnum('dex_type').notNull(),
+  asset: text('asset').notNull(), // Base asset, e.g. "ETH"
+  symbol: text('symbol').notNull(), // Venue market symbol, e.g. "ETH", "ETH-PERP"
+  marketIndex: integer('market_index'), // Hyperliquid asset id / Drift market index / Lighter market id
+  hourlyRate: numeric('hourly_rate', { precision: 30, scale: 18 }).notNull(),
+  predictedHourlyRate: numeric('predicted_hourly_rate', { precision: 30, scale: 18 }),
+  apr: numeric('apr', { precision: 30, scale: 18 }).notNull(),
+  markPrice: numeric('mark_price', { precision: 30, scale: 10 }),
+  fundingIntervalHours: integer('funding_interval_hours').notNull().default(1),
+  nextFundingTime: timestamp('next_funding_time'),
+  source: text('source').notNull(),
+  recordedAt: timestamp('recorded_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    assetDexTimeIdx: index('idx_funding_rates_asset_dex_time').on(table.asset, table.dexType, table.recordedAt),
+    recordedIdx: index('idx_funding_rates_recorded').on(table.recordedAt),
+    sampleIdx: uniqueIndex('idx_funding_rates_sample').on(table.dexType, table.symbol, table.recordedAt),
+  };
+});
+
+// Funding Payments table - realized funding per account, attributed to position legs
+export const fundingPayments = pgTable('funding_payments', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  dexAccountId: integer('dex_account_id').notNull().references(() => dexAccounts.id, { onDelete: 'cascade' }),
+  dexType: dexTypeEnum('dex_type').notNull(),
+  positionId: integer('position_id').references(() => positions.id, { onDelete: 'set null' }),
+  positionSnapshotId: integer('position_snapshot_id').references(() => positionSnapshots.id, { onDelete: 'set null' }),
+  asset: text('asset').notNull(), // Base asset, e.g. "ETH"
+  marketIndex: integer('market_index'), // Drift market index when the venue reports it
+  amount: numeric('amount', { precision: 30, scale: 10 }).notNull(), // USDC, positive = received, negative = paid
+  positionSize: numeric('position_size', { precision: 30, scale: 10 }), // Signed size the payment was charged on
+  fundingRate: numeric('funding_rate', { precision: 30, scale: 18 }),
+  externalId: text('external_id').notNull(), // Venue record id used for de-duplication
+  paidAt: timestamp('paid_at').notNull(),
+  metadata: jsonb('metadata').default({}).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    accountExternalIdx: uniqueIndex('idx_funding_payments_account_external').on(table.dexAccountId, table.externalId),
+    positionIdx: index('idx_funding_payments_position').on(table.positionId),
+    snapshotIdx: index('idx_funding_payments_snapshot').on(table.positionSnapshotId),
+    accountPaidIdx: index('idx_funding_payments_account_paid').on(table.dexAccountId, table.paidAt),
+  };
+});
+
+// Position Executions table - step log of every multi-leg order execution
+export const positionExecutions = pgTable('position_executions', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  positionId: integer('position_id').references(() => positions.id, { onDelete: 'set null' }), // Null until the position is created, or when opening failed
+  kind: executionKindEnum('kind').notNull(),
+  status: executionStatusEnum('status').notNull().default('pending'),
+  legs: jsonb('legs').default([]).notNull(), // Requested leg orders
+  steps: jsonb('steps').default([]).notNull(), // Every place / verify / cancel / unwind step with its outcome
+  reason: text('reason'), // Why an automated execution ran: funding_rate_flipped, delta_drift or liquidation_risk
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+}, (table) => {
+  return {
+    positionIdx: index('idx_position_executions_position').on(table.positionId),
+    userCreatedIdx: index('idx_position_executions_user_created').on(table.userId, table.createdAt),
+    statusIdx: index('idx_position_executions_status').on(table.status),
+  };
+});
+
+// Strategy Policies table - rebalancing rules per user (positionId null) or per position.
+// Null columns inherit from the user policy, then from the engine defaults.
+export const strategyPolicies = pgTable('strategy_policies', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  positionId: integer('position_id').references(() => positions.id, { onDelete: 'cascade' }),
+  name: text('name'),
+  rateBandHourly: numeric('rate_band_hourly', { precision: 30, scale: 18 }), // Rate must be beyond this band before acting
+  horizonHours: numeric('horizon_hours', { precision: 10, scale: 2 }),
+  minHoldHours: numeric('min_hold_hours', { precision: 10, scale: 2 }),
+  slippageBps: numeric('slippage_bps', { precision: 10, scale: 2 }),
+  maxFlipsPerDay: integer('max_flips_per_day'),
+  maxNotionalPerFlip: numeric('max_notional_per_flip', { precision: 30, scale: 10 }), // USD
+  allowedVenues: jsonb('allowed_venues'), // DexType[] the engine may trade on
+  onUnfavorable: unfavorableActionEnum('on_unfavorable'), // Flip the paying leg or close the whole position
+  deltaTolerance: numeric('delta_tolerance', { precision: 10, scale: 6 }), // Net base exposure tolerated, as a share of the hedged size
+  deltaCorrection: deltaCorrectionEnum('delta_correction'), // Trim the over-exposed side or top up the under-exposed side
+  minLiquidationDistance: numeric('min_liquidation_distance', { precision: 10, scale: 6 }), // Share of the mark price a leg must stay away from liquidation
+  onLiquidationRisk: liquidationRiskActionEnum('on_liquidation_risk'), // Add isolated margin or reduce every leg
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('idx_strategy_policies_user').on(table.userId),
+    positionIdx: uniqueIndex('idx_strategy_policies_position').on(table.positionId),
+  };
+});
+
+// Job Runs table - one row per scheduled or manual job execution
+export const jobRuns = pgTable('job_runs', {
+  id: serial('id').primaryKey(),
+  jobName: text('job_name').notNull(), // Scheduler job name, e.g. "delta-neutral-funding"
+  trigger: jobTriggerEnum('trigger').notNull(),
+  triggeredBy: integer('triggered_by').references(() => users.id, { onDelete: 'set null' }), // User for manual runs
+  dryRun: boolean('dry_run').default(false).notNull(),
+  status: jobRunStatusEnum('status').notNull().default('running'),
+  summary: jsonb('summary').default({}).notNull(), // Job-specific counts
+  positionOutcomes: jsonb('position_outcomes').default([]).notNull(), // JobPositionOutcome[] for jobs that act on positions
+  error: text('error'),
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  finishedAt: timestamp('finished_at'),
+}, (table) => {
+  return {
+    jobStartedIdx: index('idx_job_runs_job_started').on(table.jobName, table.startedAt),
+    startedIdx: index('idx_job_runs_started').on(table.startedAt),
+  };
+});
+
+// Order Status Events table - audit trail of every status or fill change applied to a venue order row
+export const orderStatusEvents = pgTable('order_status_events', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  dexAccountId: integer('dex_account_id').notNull().references(() => dexAccounts.id, { onDelete: 'cascade' }),
+  dexType: dexTypeEnum('dex_type').notNull(),
+  orderId: integer('order_id').notNull(), // Row id in hyperliquid_orders, drift_orders or lighter_orders per dexType
+  fromStatus: orderStatusEnum('from_status').notNull(),
+  toStatus: orderStatusEnum('to_status').notNull(),
+  filledSize: numeric('filled_size', { precision: 30, scale: 10 }),
+  avgFillPrice: numeric('avg_fill_price', { precision: 30, scale: 10 }),
+  source: text('source').notNull(), // What applied the change, e.g. "reconciler"
+  detail: jsonb('detail').default({}).notNull(), // Venue status payload the change was derived from
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    orderIdx: index('idx_order_status_events_order').on(table.dexType, table.orderId),
+    accountCreatedIdx: index('idx_order_status_events_account_created').on(table.dexAccountId, table.createdAt),
+  };
+});
+
+// Fills table - executed trades per account, as reported by each venue
+export const fills = pgTable('fills', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  dexAccountId: integer('dex_account_id').notNull().references(() => dexAccounts.id, { onDelete: 'cascade' }),
+  dexType: dexTypeEnum('dex_type').notNull(),
+  orderId: integer('order_id'), // Row id in the venue's orders table when the fill was matched to one of our orders
+  exchangeOrderId: text('exchange_order_id'), // Venue order id (Hyperliquid oid, Drift order id)
+  clientOrderId: text('client_order_id'), // Hyperliquid cloid
+  asset: text('asset').notNull(), // Venue market symbol, e.g. "ETH" or "@107" for Hyperliquid spot
+  marketIndex: integer('market_index'), // Drift market index
+  side: orderSideEnum('side').notNull(),
+  price: numeric('price', { precision: 30, scale: 10 }).notNull(),
+  size: numeric('size', { precision: 30, scale: 10 }).notNull(),
+  fee: numeric('fee', { precision: 30, scale: 10 }).notNull(), // Negative for maker rebates
+  feeToken: text('fee_token').notNull(),
+  liquidity: fillLiquidityEnum('liquidity').notNull(),
+  crossed: boolean('crossed').notNull(), // True when the fill crossed the spread (taker)
+  closedPnl: numeric('closed_pnl', { precision: 30, scale: 10 }), // Realized PnL when the fill reduced a position
+  direction: text('direction'), // Hyperliquid fill direction, e.g. "Open Long", "Close Short"
+  startPosition: numeric('start_position', { precision: 30, scale: 10 }), // Signed position size before the fill
+  externalId: text('external_id').notNull(), // Venue trade id used for de-duplication
+  txHash: text('tx_hash'),
+  filledAt: timestamp('filled_at').notNull(),
+  metadata: jsonb('metadata').default({}).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    accountExternalIdx: uniqueIndex('idx_fills_account_external').on(table.dexAccountId, table.externalId),
+    accountFilledIdx: index('idx_fills_account_filled').on(table.dexAccountId, table.filledAt),
+    orderIdx: index('idx_fills_order').on(table.dexType, table.orderId),
+  };
+});
+
+// Position Valuations table - periodic mark-to-market of open positions. Entry snapshots are left unchanged.
+export const positionValuations = pgTable('position_valuations', {
+  id: serial('id').primaryKey(),
+  positionId: integer('position_id').notNull().references(() => positions.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  unrealizedPnl: numeric('unrealized_pnl', { precision: 30, scale: 10 }).notNull(), // USD, sum over legs
+  fundingPnl: numeric('funding_pnl', { precision: 30, scale: 10 }).notNull(), // USD, net funding attributed so far
+  netDelta: numeric('net_delta', { precision: 30, scale: 10 }).notNull(), // USD, long legs positive, short legs negative
+  grossNotional: numeric('gross_notional', { precision: 30, scale: 10 }).notNull(), // USD, sum of absolute leg notionals
+  legs: jsonb('legs').default([]).notNull(), // LegValuation[]
+  valuedAt: timestamp('valued_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    positionValuedIdx: index('idx_position_valuations_position_valued').on(table.positionId, table.valuedAt),
+    userValuedIdx: index('idx_position_valuations_user_valued').on(table.userId, table.valuedAt),
+  };
+});
+
+// Telegram Link Codes table - one-time codes a user sends to the bot to link their Telegram chat
+export const telegramLinkCodes = pgTable('telegram_link_codes', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  code: text('code').notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index('idx_telegram_link_codes_user').on(table.userId),
+  };
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   wallets: many(userWallets),
@@ -0,0 +1,62 @@
+import { DeltaMonitorResult, DeltaMonitorService } from '@/services/delta-monitor';
+import { logger } from '@/utils/logger';
+
+/**
+ * Delta Monitor Job
+ *
+ * Measures the net base-asset exposure of open delta neutral positions on the venues and places
+ * a corrective order on positions that drifted beyond their tolerance, e.g. after a partial
+ * liquidation or a partial fill.
+ */
+
+export class DeltaMonitorJob {
+  private deltaMonitorService: DeltaMonitorService;
+
+  constructor() {
+    this.deltaMonitorService = new DeltaMonitorService();
+  }
+
+  /**
+   * Execute the delta monitor.
+   * In dry-run mode nothing is submitted and the outcomes describe the corrections it would make.
+   */
+  async execute(options: { dryRun?: boolean } = {}): Promise<DeltaMonitorResult> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting delta monitor', { dryRun: options.dryRun || false });
+
+      const result = await this.deltaMonitorService.checkOpenPositions(options);
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Delta monitor completed', {
+        executionTime: `${executionTime}ms`,
+        dryRun: result.dryRun,
+        checkedPositions: result.checkedPositions,
+        imbalanced: result.imbalanced,
+        corrected: result.corrected,
+      });
+
+      return result;
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Delta monitor failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runDeltaMonitorJob(options: { dryRun?: boolean } = {}): Promise<DeltaMonitorResult> {
+  const job = new DeltaMonitorJob();
+  return await job.execute(options);
+}
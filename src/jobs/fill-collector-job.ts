@@ -0,0 +1,62 @@
+import { FillService } from '@/services/fills';
+import { JobRunReport } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+/**
+ * Fill Collector Job
+ *
+ * Pulls executed trades for every active account into the fills table, with fees,
+ * liquidity and realized PnL as reported by the venue.
+ */
+
+export class FillCollectorJob {
+  private fillService: FillService;
+
+  constructor() {
+    this.fillService = new FillService();
+  }
+
+  /**
+   * Execute the fill collection
+   */
+  async execute(): Promise<JobRunReport> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting fill collection');
+
+      const result = await this.fillService.collectFills();
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Fill collection completed', {
+        executionTime: `${executionTime}ms`,
+        ...result,
+      });
+
+      if (result.failed > 0) {
+        throw new Error(`Failed to collect fills for ${result.failed} account(s)`);
+      }
+
+      return { summary: result };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Fill collection failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runFillCollectorJob(): Promise<JobRunReport> {
+  const job = new FillCollectorJob();
+  return await job.execute();
+}
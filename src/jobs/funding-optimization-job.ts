@@ -1,4 +1,4 @@
-import { DeltaNeutralFundingService } from '@/services/delta-neutral-engine';
+import { DeltaNeutralFundingService, FundingEngineResult } from '@/services/delta-neutral-engine';
 import { logger } from '@/utils/logger';
 
 /**
@@ -23,25 +23,29 @@ export class DeltaNeutralFundingJob {
   }
 
   /**
-   * Execute the delta neutral funding engine
+   * Execute the delta neutral funding engine.
+   * In dry-run mode nothing is submitted and the result carries the simulated rebalances.
    */
-  async execute(): Promise<void> {
+  async execute(options: { dryRun?: boolean } = {}): Promise<FundingEngineResult> {
     const startTime = Date.now();
     
     try {
-      logger.info('Starting delta neutral funding engine');
+      logger.info('Starting delta neutral funding engine', { dryRun: options.dryRun || false });
 
-      const result = await this.deltaEngine.runFundingEngine();
+      const result = await this.deltaEngine.runFundingEngine(options);
 
       const executionTime = Date.now() - startTime;
 
       logger.info('Delta neutral funding engine completed successfully', {
         executionTime: `${executionTime}ms`,
+        dryRun: result.dryRun,
         checkedPositions: result.checkedPositions,
         positionsToRebalance: result.positionsToRebalance,
         successfullyRebalanced: result.successfullyRebalanced,
       });
 
+      return result;
+
     } catch (error) {
       const executionTime = Date.now() - startTime;
       
@@ -79,7 +83,7 @@ export const FundingOptimizationJob = DeltaNeutralFundingJob;
 /**
  * Main function to run the job (useful for testing or manual execution)
  */
-export async function runFundingOptimizationJob(): Promise<void> {
+export async function runFundingOptimizationJob(options: { dryRun?: boolean } = {}): Promise<FundingEngineResult> {
   const job = new DeltaNeutralFundingJob();
   
   const isValid = await job.validatePrerequisites();
@@ -87,7 +91,7 @@ export async function runFundingOptimizationJob(): Promise<void> {
     throw new Error('Job prerequisites validation failed');
   }
 
-  await job.execute();
+  return await job.execute(options);
 }
 
 export const runDeltaNeutralFundingJob = runFundingOptimizationJob;
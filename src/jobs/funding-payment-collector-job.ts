@@ -0,0 +1,62 @@
+import { FundingPaymentService } from '@/services/funding-payments';
+import { JobRunReport } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+/**
+ * Funding Payment Collector Job
+ *
+ * Pulls realized funding payments for accounts with open position legs and attributes
+ * them to those legs, so funding earned and paid can be reported per position.
+ */
+
+export class FundingPaymentCollectorJob {
+  private fundingPaymentService: FundingPaymentService;
+
+  constructor() {
+    this.fundingPaymentService = new FundingPaymentService();
+  }
+
+  /**
+   * Execute the funding payment collection
+   */
+  async execute(): Promise<JobRunReport> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting funding payment collection');
+
+      const result = await this.fundingPaymentService.collectFundingPayments();
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Funding payment collection completed', {
+        executionTime: `${executionTime}ms`,
+        ...result,
+      });
+
+      if (result.failed > 0) {
+        throw new Error(`Failed to collect funding payments for ${result.failed} account(s)`);
+      }
+
+      return { summary: result };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Funding payment collection failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runFundingPaymentCollectorJob(): Promise<JobRunReport> {
+  const job = new FundingPaymentCollectorJob();
+  return await job.execute();
+}
@@ -0,0 +1,63 @@
+import { getFundingRateService, FundingRateService } from '@/services/funding-rates';
+import { JobRunReport } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+/**
+ * Funding Rate Collector Job
+ *
+ * Samples current and predicted funding for every perp market on Hyperliquid, Drift and
+ * Lighter and stores them in funding_rates. The history backs GET /api/funding-rates
+ * and is what venue selection and backtests of the rebalancing rules are run against.
+ */
+
+export class FundingRateCollectorJob {
+  private fundingRateService: FundingRateService;
+
+  constructor() {
+    this.fundingRateService = getFundingRateService();
+  }
+
+  /**
+   * Execute the funding rate collection
+   */
+  async execute(): Promise<JobRunReport> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting funding rate collection');
+
+      const result = await this.fundingRateService.collectFundingRates();
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Funding rate collection completed', {
+        executionTime: `${executionTime}ms`,
+        ...result,
+      });
+
+      if (result.collected === 0) {
+        throw new Error('No funding rates returned by any venue');
+      }
+
+      return { summary: result };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Funding rate collection failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runFundingRateCollectorJob(): Promise<JobRunReport> {
+  const job = new FundingRateCollectorJob();
+  return await job.execute();
+}
@@ -0,0 +1,66 @@
+import { KeyRotationService } from '@/services/key-rotation';
+import { logger } from '@/utils/logger';
+
+/**
+ * Agent Key Rotation Job
+ *
+ * Re-wraps stored agent private keys that are not yet on the active master key version.
+ * Rotating the master key is an operational step (publish a new key version and keep the
+ * old one in the keyring); this job then migrates the rows in the background. When every
+ * row is already on the active version it is a single count query.
+ */
+
+// Cap the work per run so a large backlog is spread across several runs
+const MAX_BATCHES_PER_RUN = 5;
+
+export class AgentKeyRotationJob {
+  private keyRotationService: KeyRotationService;
+
+  constructor() {
+    this.keyRotationService = new KeyRotationService();
+  }
+
+  /**
+   * Execute the agent key rotation
+   */
+  async execute(): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting agent key rotation job');
+
+      const result = await this.keyRotationService.rotateAgentKeys({
+        maxBatches: MAX_BATCHES_PER_RUN,
+      });
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Agent key rotation job completed', {
+        executionTime: `${executionTime}ms`,
+        ...result,
+      });
+
+      if (result.failed > 0) {
+        throw new Error(`Failed to rotate ${result.failed} agent key(s)`);
+      }
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Agent key rotation job failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runAgentKeyRotationJob(): Promise<void> {
+  const job = new AgentKeyRotationJob();
+  await job.execute();
+}
@@ -0,0 +1,64 @@
+import { LiquidationRiskResult, LiquidationRiskService } from '@/services/liquidation-risk';
+import { logger } from '@/utils/logger';
+
+/**
+ * Liquidation Risk Job
+ *
+ * Measures how far every leg of the open delta neutral positions is from liquidation and,
+ * for legs closer than their policy allows, adds isolated margin or deleverages the whole
+ * position so a single leg is never liquidated on its own.
+ */
+
+export class LiquidationRiskJob {
+  private liquidationRiskService: LiquidationRiskService;
+
+  constructor() {
+    this.liquidationRiskService = new LiquidationRiskService();
+  }
+
+  /**
+   * Execute the liquidation risk check.
+   * In dry-run mode no margin is moved and no order is placed.
+   */
+  async execute(options: { dryRun?: boolean } = {}): Promise<LiquidationRiskResult> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting liquidation risk check', { dryRun: options.dryRun || false });
+
+      const result = await this.liquidationRiskService.checkOpenPositions(options);
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Liquidation risk check completed', {
+        executionTime: `${executionTime}ms`,
+        dryRun: result.dryRun,
+        checkedPositions: result.checkedPositions,
+        atRisk: result.atRisk,
+        toppedUp: result.toppedUp,
+        deleveraged: result.deleveraged,
+        closed: result.closed,
+      });
+
+      return result;
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Liquidation risk check failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runLiquidationRiskJob(options: { dryRun?: boolean } = {}): Promise<LiquidationRiskResult> {
+  const job = new LiquidationRiskJob();
+  return await job.execute(options);
+}
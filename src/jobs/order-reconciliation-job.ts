@@ -0,0 +1,58 @@
+import { OrderReconciliationService } from '@/services/order-reconciliation';
+import { JobRunReport } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+/**
+ * Order Status Reconciliation Job
+ *
+ * Polls the venues for orders we still hold as pending or open and records fills,
+ * cancels and rejects, so order history does not depend on clients pushing updates.
+ */
+
+export class OrderReconciliationJob {
+  private orderReconciliationService: OrderReconciliationService;
+
+  constructor() {
+    this.orderReconciliationService = new OrderReconciliationService();
+  }
+
+  /**
+   * Execute the order reconciliation
+   */
+  async execute(): Promise<JobRunReport> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting order status reconciliation');
+
+      const result = await this.orderReconciliationService.reconcileOrders();
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Order status reconciliation completed', {
+        executionTime: `${executionTime}ms`,
+        ...result,
+      });
+
+      return { summary: result };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Order status reconciliation failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runOrderReconciliationJob(): Promise<JobRunReport> {
+  const job = new OrderReconciliationJob();
+  return await job.execute();
+}
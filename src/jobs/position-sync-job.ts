@@ -0,0 +1,62 @@
+import { PositionSyncService } from '@/services/position-sync';
+import { JobRunReport } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+/**
+ * Position Sync Job
+ *
+ * Checks the legs of every open position against the positions held on each venue and
+ * flags legs that were closed, liquidated or resized outside the app.
+ */
+
+export class PositionSyncJob {
+  private positionSyncService: PositionSyncService;
+
+  constructor() {
+    this.positionSyncService = new PositionSyncService();
+  }
+
+  /**
+   * Execute the position sync
+   */
+  async execute(): Promise<JobRunReport> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting position sync');
+
+      const result = await this.positionSyncService.syncOpenPositions();
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Position sync completed', {
+        executionTime: `${executionTime}ms`,
+        ...result,
+      });
+
+      if (result.failed > 0 && result.failed === result.markets) {
+        throw new Error(`Failed to sync all ${result.failed} venue position(s)`);
+      }
+
+      return { summary: result };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Position sync failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runPositionSyncJob(): Promise<JobRunReport> {
+  const job = new PositionSyncJob();
+  return await job.execute();
+}
@@ -0,0 +1,62 @@
+import { PositionValuationService } from '@/services/valuation';
+import { JobRunReport } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+/**
+ * Position Valuation Job
+ *
+ * Marks every open position to market and stores the result as a time series,
+ * so unrealized PnL and net delta can be charted per position.
+ */
+
+export class PositionValuationJob {
+  private positionValuationService: PositionValuationService;
+
+  constructor() {
+    this.positionValuationService = new PositionValuationService();
+  }
+
+  /**
+   * Execute the position valuation
+   */
+  async execute(): Promise<JobRunReport> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Starting position valuation');
+
+      const result = await this.positionValuationService.valueOpenPositions();
+
+      const executionTime = Date.now() - startTime;
+
+      logger.info('Position valuation completed', {
+        executionTime: `${executionTime}ms`,
+        ...result,
+      });
+
+      if (result.failed > 0 && result.failed === result.positions) {
+        throw new Error(`Failed to value all ${result.failed} position(s)`);
+      }
+
+      return { summary: result };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      logger.error('Position valuation failed', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        executionTime: `${executionTime}ms`,
+      });
+
+      throw error;
+    }
+  }
+}
+
+/**
+ * Main function to run the job
+ */
+export async function runPositionValuationJob(): Promise<JobRunReport> {
+  const job = new PositionValuationJob();
+  return await job.execute();
+}
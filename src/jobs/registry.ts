@@ -0,0 +1,186 @@
+import { runFundingOptimizationJob } from './funding-optimization-job';
+import { runAgentKeyRotationJob } from './key-rotation-job';
+import { runFundingRateCollectorJob } from './funding-rate-collector-job';
+import { runFundingPaymentCollectorJob } from './funding-payment-collector-job';
+import { runPositionSyncJob } from './position-sync-job';
+import { runOrderReconciliationJob } from './order-reconciliation-job';
+import { runFillCollectorJob } from './fill-collector-job';
+import { runPositionValuationJob } from './position-valuation-job';
+import { runDeltaMonitorJob } from './delta-monitor-job';
+import { runLiquidationRiskJob } from './liquidation-risk-job';
+import { isDeltaMonitorDryRun, isFundingEngineDryRun, isLiquidationRiskDryRun } from '@/config/rebalance.config';
+import { parseCron } from '@/utils/cron';
+import { JobRunReport } from '@/types/jobs';
+
+/**
+ * A scheduled job, run by the in-process JobScheduler or the EventBridge Lambda
+ */
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // 5-field cron expression, UTC
+  run: () => Promise<JobRunReport | void>;
+  jitterMs: number; // Random delay added to each in-process run so instances and venues are not hit at the same instant
+  timeoutMs: number; // An attempt still running after this is treated as failed
+  retries: number; // Extra attempts after a failure
+  retryDelayMs: number;
+  environments?: string[]; // NODE_ENV values the job runs in, all when omitted
+}
+
+const MINUTE = 60 * 1000;
+
+// JobsFunction timeout in template.yaml. Every attempt and retry delay of a job must fit in one invocation.
+const LAMBDA_TIMEOUT_MS = 15 * MINUTE;
+
+/**
+ * All venues settle funding on the hour, so the engine runs shortly before settlement
+ * and payments are collected shortly after it.
+ */
+export const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    name: 'delta-neutral-funding',
+    description: 'Flip or close legs paying funding (simulation only when FUNDING_ENGINE_MODE=dry-run)',
+    schedule: '50 * * * *',
+    run: async () => {
+      const { outcomes, dryRun, ...summary } = await runFundingOptimizationJob({ dryRun: isFundingEngineDryRun() });
+      return { dryRun, summary, positionOutcomes: outcomes };
+    },
+    jitterMs: MINUTE,
+    timeoutMs: 10 * MINUTE,
+    retries: 0, // Never retry trading; the next hour re-evaluates
+    retryDelayMs: 0,
+  },
+  {
+    name: 'funding-rate-collector',
+    description: 'Sample current and predicted funding on every venue',
+    schedule: '*/15 * * * *', // Also captures the intra-hour predicted rate
+    run: runFundingRateCollectorJob,
+    jitterMs: 30 * 1000,
+    timeoutMs: 2 * MINUTE,
+    retries: 2,
+    retryDelayMs: 30 * 1000,
+  },
+  {
+    name: 'funding-payment-collector',
+    description: 'Attribute realized funding payments to position legs',
+    schedule: '5 * * * *',
+    run: runFundingPaymentCollectorJob,
+    jitterMs: MINUTE,
+    timeoutMs: 6 * MINUTE,
+    retries: 1,
+    retryDelayMs: MINUTE,
+  },
+  {
+    name: 'position-sync',
+    description: 'Compare position legs with the positions held on each venue',
+    schedule: '*/5 * * * *',
+    run: runPositionSyncJob,
+    jitterMs: 30 * 1000,
+    timeoutMs: 4 * MINUTE,
+    retries: 0,
+    retryDelayMs: 0,
+  },
+  {
+    name: 'order-status-reconciliation',
+    description: 'Move pending and open orders on every venue to their final status',
+    schedule: '2-57/5 * * * *', // Offset from position-sync
+    run: runOrderReconciliationJob,
+    jitterMs: 30 * 1000,
+    timeoutMs: 4 * MINUTE,
+    retries: 1,
+    retryDelayMs: 30 * 1000,
+  },
+  {
+    name: 'fill-collector',
+    description: 'Store new venue fills with fees and realized PnL',
+    schedule: '1-56/5 * * * *', // Offset from position-sync and order reconciliation
+    run: runFillCollectorJob,
+    jitterMs: 30 * 1000,
+    timeoutMs: 4 * MINUTE,
+    retries: 1,
+    retryDelayMs: 30 * 1000,
+  },
+  {
+    name: 'position-valuation',
+    description: 'Mark open positions to market and store unrealized PnL and net delta',
+    schedule: '3-58/5 * * * *',
+    run: runPositionValuationJob,
+    jitterMs: 30 * 1000,
+    timeoutMs: 4 * MINUTE,
+    retries: 1,
+    retryDelayMs: 30 * 1000,
+  },
+  {
+    name: 'delta-monitor',
+    description: 'Correct delta neutral positions whose net exposure drifted beyond tolerance (simulation only when DELTA_MONITOR_MODE=dry-run)',
+    schedule: '4-59/5 * * * *', // Offset from the other five-minute jobs
+    run: async () => {
+      const { outcomes, dryRun, ...summary } = await runDeltaMonitorJob({ dryRun: isDeltaMonitorDryRun() });
+      return { dryRun, summary, positionOutcomes: outcomes };
+    },
+    jitterMs: 30 * 1000,
+    timeoutMs: 4 * MINUTE,
+    retries: 0, // Never retry trading; the next run re-measures
+    retryDelayMs: 0,
+  },
+  {
+    name: 'liquidation-risk',
+    description: 'Top up margin or deleverage positions with a leg near liquidation (simulation only when LIQUIDATION_RISK_MODE=dry-run)',
+    schedule: '*/2 * * * *',
+    run: async () => {
+      const { outcomes, dryRun, ...summary } = await runLiquidationRiskJob({ dryRun: isLiquidationRiskDryRun() });
+      return { dryRun, summary, positionOutcomes: outcomes };
+    },
+    jitterMs: 10 * 1000,
+    timeoutMs: 2 * MINUTE,
+    retries: 0, // Never retry trading; the next run re-measures
+    retryDelayMs: 0,
+  },
+  {
+    name: 'agent-key-rotation',
+    description: 'Re-wrap stored agent keys onto the active master key version',
+    schedule: '30 3 * * *',
+    run: runAgentKeyRotationJob,
+    jitterMs: 5 * MINUTE,
+    timeoutMs: 6 * MINUTE, // Runs are capped in batches; the next night picks up the rest
+    retries: 1,
+    retryDelayMs: MINUTE,
+  },
+];
+
+// Validate every schedule and time budget at load time rather than at the first run
+JOB_DEFINITIONS.forEach(definition => {
+  parseCron(definition.schedule);
+
+  const budgetMs = definition.timeoutMs * (definition.retries + 1) + definition.retryDelayMs * definition.retries;
+  if (budgetMs >= LAMBDA_TIMEOUT_MS) {
+    throw new Error(`Job ${definition.name} may run for ${budgetMs}ms, beyond the ${LAMBDA_TIMEOUT_MS}ms Lambda timeout`);
+  }
+});
+
+const listFromEnv = (name: string): string[] =>
+  (process.env[name] || '').split(',').map(value => value.trim()).filter(Boolean);
+
+/**
+ * A job runs when its environments include NODE_ENV (or it lists none).
+ * JOBS_DISABLED and JOBS_ENABLED (comma-separated job names) override this per deployment.
+ */
+export function isJobEnabled(definition: JobDefinition): boolean {
+  if (listFromEnv('JOBS_DISABLED').includes(definition.name)) {
+    return false;
+  }
+  if (listFromEnv('JOBS_ENABLED').includes(definition.name)) {
+    return true;
+  }
+
+  const environment = process.env.NODE_ENV || 'development';
+  return !definition.environments || definition.environments.includes(environment);
+}
+
+export function getEnabledJobs(): JobDefinition[] {
+  return JOB_DEFINITIONS.filter(isJobEnabled);
+}
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return JOB_DEFINITIONS.find(definition => definition.name === name);
+}
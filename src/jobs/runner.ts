@@ -0,0 +1,106 @@
+import { JobDefinition } from './registry';
+import { JobRunService } from '@/services/job-runs';
+import { DistributedLockService } from '@/services/distributed-lock';
+import { JobRunReport, JobTrigger } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+const jobRuns = new JobRunService();
+const locks = new DistributedLockService();
+
+export type JobExecutionStatus = 'completed' | 'failed' | 'skipped';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * An attempt that outlived its timeout. The attempt is not cancelled and may still be trading,
+ * so it is kept to be awaited before the job's lock is released.
+ */
+class JobTimeoutError extends Error {
+  constructor(message: string, public attempt: Promise<unknown>) {
+    super(message);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+/**
+ * Reject with a JobTimeoutError when the job outlives its timeout
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, jobName: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new JobTimeoutError(`Job ${jobName} timed out after ${timeoutMs}ms`, promise)),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a job definition once: take the job's lock, then record the run while the job
+ * is attempted up to `retries + 1` times, each attempt bounded by `timeoutMs`.
+ * A timed-out attempt is recorded as failed and not retried. The lock is kept until the
+ * attempt settles, so the job never runs alongside itself.
+ * Never throws - the outcome is logged and returned.
+ */
+export async function executeJob(
+  definition: JobDefinition,
+  options: { trigger: JobTrigger; triggeredBy?: number } = { trigger: 'schedule' }
+): Promise<JobExecutionStatus> {
+  let timedOutAttempt: Promise<unknown> | undefined;
+
+  const attemptJob = async (): Promise<JobRunReport | void> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await withTimeout(definition.run(), definition.timeoutMs, definition.name);
+      } catch (error) {
+        if (error instanceof JobTimeoutError) {
+          timedOutAttempt = error.attempt;
+          throw error;
+        }
+        if (attempt > definition.retries) {
+          throw error;
+        }
+
+        logger.warn(`Job attempt failed: ${definition.name}`, {
+          attempt,
+          retryInMs: definition.retryDelayMs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await sleep(definition.retryDelayMs);
+      }
+    }
+  };
+
+  try {
+    const lock = await locks.withJobLock(definition.name, async () => {
+      logger.info(`Executing job: ${definition.name}`);
+      try {
+        await jobRuns.record(definition.name, options, attemptJob);
+      } finally {
+        if (timedOutAttempt) {
+          logger.warn(`Job ${definition.name} timed out - holding its lock until the attempt stops`);
+          await timedOutAttempt.catch(() => undefined);
+        }
+      }
+    });
+
+    if (!lock.acquired) {
+      logger.info(`Skipping job: ${definition.name} - already running on another instance`);
+      return 'skipped';
+    }
+
+    return 'completed';
+  } catch (error) {
+    logger.error(`Job failed: ${definition.name}`, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return 'failed';
+  }
+}
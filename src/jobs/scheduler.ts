@@ -1,15 +1,18 @@
 import { logger } from '@/utils/logger';
-import { runFundingOptimizationJob } from './funding-optimization-job';
+import { nextCronTime } from '@/utils/cron';
+import { getEnabledJobs, JobDefinition } from './registry';
+import { executeJob } from './runner';
 
 /**
  * Simple Job Scheduler
  * 
- * Manages the execution of periodic jobs for the application.
- * Currently supports the funding rate optimization job.
+ * Runs the jobs in the job registry (see registry.ts) in-process on their cron schedules.
+ * Under Lambda the same registry is driven by EventBridge through lambda/job-handler.ts instead.
  */
 
 export class JobScheduler {
-  private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private nextRuns: Map<string, Date> = new Map();
   private isRunning = false;
 
   /**
@@ -23,12 +26,9 @@ export class JobScheduler {
 
     logger.info('Starting job scheduler');
 
-    // Schedule delta neutral funding engine to run every hour
-    // Funding rates are typically updated hourly on most DEXes
-    this.scheduleJob('delta-neutral-funding', this.runDeltaNeutralFunding.bind(this), 60 * 60 * 1000); // 1 hour
-
-    // You can add more jobs here as needed
-    // this.scheduleJob('position-sync', this.runPositionSync.bind(this), 5 * 60 * 1000); // 5 minutes
+    for (const definition of getEnabledJobs()) {
+      this.scheduleJob(definition);
+    }
 
     this.isRunning = true;
     logger.info('Job scheduler started successfully');
@@ -45,55 +45,36 @@ export class JobScheduler {
 
     logger.info('Stopping job scheduler');
 
-    // Clear all intervals
-    for (const [jobName, interval] of this.intervals) {
-      clearInterval(interval);
+    // Clear all timers
+    for (const [jobName, timer] of this.timers) {
+      clearTimeout(timer);
       logger.info(`Stopped job: ${jobName}`);
     }
 
-    this.intervals.clear();
+    this.timers.clear();
+    this.nextRuns.clear();
     this.isRunning = false;
     logger.info('Job scheduler stopped successfully');
   }
 
   /**
-   * Schedule a job to run at specified intervals
+   * Schedule the next run of a job from its cron expression, plus a random jitter
    */
-  private scheduleJob(jobName: string, jobFunction: () => Promise<void>, intervalMs: number): void {
-    logger.info(`Scheduling job: ${jobName}`, { intervalMs: `${intervalMs}ms` });
-
-    // Run immediately
-    this.safeExecuteJob(jobName, jobFunction);
+  private scheduleJob(definition: JobDefinition): void {
+    const nextRun = nextCronTime(definition.schedule);
+    const delay = nextRun.getTime() - Date.now() + Math.floor(Math.random() * definition.jitterMs);
 
-    // Schedule to run at intervals
-    const interval = setInterval(() => {
-      this.safeExecuteJob(jobName, jobFunction);
-    }, intervalMs);
+    const timer = setTimeout(async () => {
+      await executeJob(definition);
 
-    this.intervals.set(jobName, interval);
-  }
+      if (this.timers.has(definition.name)) {
+        this.scheduleJob(definition);
+      }
+    }, delay);
 
-  /**
-   * Safely execute a job with error handling
-   */
-  private async safeExecuteJob(jobName: string, jobFunction: () => Promise<void>): Promise<void> {
-    try {
-      logger.info(`Executing job: ${jobName}`);
-      await jobFunction();
-    } catch (error) {
-      logger.error(`Job failed: ${jobName}`, {
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-      });
-      // Don't re-throw - we want the scheduler to continue running other jobs
-    }
-  }
-
-  /**
-   * Delta neutral funding engine runner
-   */
-  private async runDeltaNeutralFunding(): Promise<void> {
-    await runFundingOptimizationJob();
+    this.timers.set(definition.name, timer);
+    this.nextRuns.set(definition.name, nextRun);
+    logger.info(`Scheduled job: ${definition.name}`, { schedule: definition.schedule, nextRun: nextRun.toISOString() });
   }
 
   /**
@@ -102,11 +83,15 @@ export class JobScheduler {
   getStatus(): { 
     isRunning: boolean; 
     activeJobs: string[]; 
+    nextRuns: Record<string, string>;
     uptime?: number;
   } {
     return {
       isRunning: this.isRunning,
-      activeJobs: Array.from(this.intervals.keys()),
+      activeJobs: Array.from(this.timers.keys()),
+      nextRuns: Object.fromEntries(
+        Array.from(this.nextRuns.entries()).map(([jobName, nextRun]) => [jobName, nextRun.toISOString()])
+      ),
     };
   }
 }
@@ -0,0 +1,39 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { getEnabledJobs, getJobDefinition, isJobEnabled } from '../jobs/registry';
+import { executeJob, JobExecutionStatus } from '../jobs/runner';
+import { matchesCron } from '../utils/cron';
+import { logger } from '../utils/logger';
+
+/**
+ * EventBridge entry point for scheduled jobs.
+ *
+ * - With a `{ "job": "<name>" }` rule input, runs that job.
+ * - Otherwise (a rate(1 minute) rule) runs every enabled job whose cron schedule matches the event time.
+ *
+ * Job locks make concurrent or duplicate invocations safe: a job already running elsewhere is skipped.
+ */
+export const handler = async (
+  event: Partial<ScheduledEvent> & { job?: string }
+): Promise<Record<string, JobExecutionStatus>> => {
+  const firedAt = event.time ? new Date(event.time) : new Date();
+
+  let definitions = getEnabledJobs().filter(definition => matchesCron(definition.schedule, firedAt));
+  if (event.job) {
+    const definition = getJobDefinition(event.job);
+    if (!definition) {
+      throw new Error(`Unknown job: ${event.job}`);
+    }
+    definitions = isJobEnabled(definition) ? [definition] : [];
+  }
+
+  logger.info('Scheduled job invocation', {
+    firedAt: firedAt.toISOString(),
+    jobs: definitions.map(definition => definition.name),
+  });
+
+  const results = await Promise.all(
+    definitions.map(async definition => [definition.name, await executeJob(definition)] as const)
+  );
+
+  return Object.fromEntries(results);
+};
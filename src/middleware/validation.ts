@@ -1,7 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
-import { ZodSchema, ZodError } from 'zod';
+import { z, ZodSchema, ZodError } from 'zod';
 import { ErrorCode } from '@/types/common';
 
+/**
+ * Date query parameter: accepts ISO strings or epoch milliseconds
+ */
+export const dateParam = z
+  .string()
+  .transform(value => new Date(/^\d+$/.test(value) ? Number(value) : value))
+  .refine(date => !isNaN(date.getTime()), 'Invalid date');
+
 interface ValidationSchemas {
   body?: ZodSchema;
   query?: ZodSchema;
@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { DriftService } from '@/services/drift';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+import { dateParam } from '@/middleware/validation';
+
+const driftService = new DriftService();
+
+/**
+ * Validation schemas for getting fills
+ */
+export const getFillsParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+});
+
+export const getFillsQuerySchema = z.object({
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(1000)).default('100'),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).default('0'),
+  startDate: dateParam.optional(),
+  endDate: dateParam.optional(),
+  symbol: z.string().optional(), // e.g. "SOL-PERP"
+});
+
+export type GetFillsParams = z.infer<typeof getFillsParamsSchema>;
+export type GetFillsQuery = z.infer<typeof getFillsQuerySchema>;
+
+/**
+ * Get fills for an account, newest first
+ * GET /api/drift/dex-accounts/:dexAccountId/fills
+ */
+export const getFillsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId } = req.params;
+    const query = req.query as unknown as GetFillsQuery;
+    
+    const result = await driftService.getFills(
+      ctx,
+      Number(dexAccountId),
+      {
+        limit: query.limit,
+        offset: query.offset,
+        startDate: query.startDate,
+        endDate: query.endDate,
+        symbol: query.symbol,
+      }
+    );
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
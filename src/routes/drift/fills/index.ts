@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { validateRequest } from '@/middleware/validation';
+import { getFillsHandler, getFillsParamsSchema, getFillsQuerySchema } from './get';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /api/drift/dex-accounts/:dexAccountId/fills
+ * Get fills for an account, newest first (paginated with limit/offset, filtered by startDate/endDate/symbol)
+ */
+router.get(
+  '/',
+  validateRequest({
+    params: getFillsParamsSchema,
+    query: getFillsQuerySchema,
+  }),
+  getFillsHandler
+);
+
+export default router;
\ No newline at end of file
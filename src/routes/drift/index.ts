@@ -5,6 +5,7 @@ import { rateLimiter } from '@/middleware/rateLimiter';
 // Import sub-routers
 import dexAccountsRouter from './dex-accounts';
 import ordersRouter from './orders';
+import fillsRouter from './fills';
 import positionsRouter from './positions';
 import transactionsRouter from './transactions';
 
@@ -25,6 +26,9 @@ router.use('/dex-accounts', dexAccountsRouter);
 // Orders routes (nested under dex-accounts)
 router.use('/dex-accounts/:dexAccountId/orders', ordersRouter);
 
+// Fills routes (nested under dex-accounts)
+router.use('/dex-accounts/:dexAccountId/fills', fillsRouter);
+
 // Transactions routes (handles deposits, withdrawals, and history)
 router.use('/dex-accounts/:dexAccountId', transactionsRouter);
 
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '@/types/common';
+import { z } from 'zod';
+import { dateParam } from '@/middleware/validation';
+import { dexTypeEnum } from '@/db/schema';
+import { getFundingRateService } from '@/services/funding-rates';
+import { FUNDING_RATE_BUCKETS, FundingRateBucket } from '@/types/funding';
+
+const fundingRateService = getFundingRateService();
+
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Validation schema for funding rate history
+ */
+export const getFundingRatesQuerySchema = z.object({
+  asset: z.string().min(1).optional(),
+  dex: z.enum(dexTypeEnum.enumValues).optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  bucket: z.enum(Object.keys(FUNDING_RATE_BUCKETS) as [FundingRateBucket, ...FundingRateBucket[]]).default('1h'),
+});
+
+export type GetFundingRatesQuery = z.infer<typeof getFundingRatesQuerySchema>;
+
+/**
+ * Get bucketed funding rate history and cross-venue spreads
+ * GET /api/funding-rates
+ */
+export const getFundingRatesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const query = req.query as unknown as GetFundingRatesQuery;
+    const to = query.to || new Date();
+    const from = query.from || new Date(to.getTime() - DEFAULT_RANGE_MS);
+
+    const history = await fundingRateService.getFundingRateHistory({
+      asset: query.asset,
+      dexType: query.dex,
+      from,
+      to,
+      bucket: query.bucket,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        asset: query.asset?.toUpperCase(),
+        dex: query.dex,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        bucket: query.bucket,
+        ...history,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { authenticateUser } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { getFundingRatesHandler, getFundingRatesQuerySchema } from './get';
+
+const router = Router();
+
+/**
+ * Apply authentication middleware to all funding rate routes
+ */
+router.use(authenticateUser);
+
+/**
+ * GET /api/funding-rates?asset=&dex=&from=&to=&bucket=
+ * Get stored funding rate history aggregated into buckets (1h, 4h, 8h, 1d)
+ */
+router.get(
+  '/',
+  validateRequest({
+    query: getFundingRatesQuerySchema,
+  }),
+  getFundingRatesHandler
+);
+
+export default router;
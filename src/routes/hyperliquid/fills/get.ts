@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { HyperliquidService } from '@/services/hyperliquid';
 import { ApiResponse, RequestContext } from '@/types/common';
 import { z } from 'zod';
+import { dateParam } from '@/middleware/validation';
 
 const hyperliquidService = new HyperliquidService();
 
@@ -13,18 +14,18 @@ export const getFillsParamsSchema = z.object({
 });
 
 export const getFillsQuerySchema = z.object({
-  limit: z.string().transform(Number).optional(),
-  startDate: z.string().transform((val) => new Date(val)).optional(),
-  endDate: z.string().transform((val) => new Date(val)).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(1000)).default('100'),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).default('0'),
+  startDate: dateParam.optional(),
+  endDate: dateParam.optional(),
   assetSymbol: z.string().optional(),
-  assetIndex: z.string().transform((val) => Number(val)).optional(),
 });
 
 export type GetFillsParams = z.infer<typeof getFillsParamsSchema>;
 export type GetFillsQuery = z.infer<typeof getFillsQuerySchema>;
 
 /**
- * Get order fills/trades
+ * Get fills for an account, newest first
  * GET /api/hyperliquid/dex-accounts/:dexAccountId/fills
  */
 export const getFillsHandler = async (
@@ -35,17 +36,17 @@ export const getFillsHandler = async (
   try {
     const ctx = req.context as RequestContext;
     const { dexAccountId } = req.params;
-    const query = req.query as GetFillsQuery;
+    const query = req.query as unknown as GetFillsQuery;
     
     const result = await hyperliquidService.getFills(
       ctx,
       Number(dexAccountId),
       {
         limit: query.limit,
+        offset: query.offset,
         startDate: query.startDate,
         endDate: query.endDate,
         assetSymbol: query.assetSymbol,
-        assetIndex: query.assetIndex,
       }
     );
     
@@ -6,7 +6,7 @@ const router = Router({ mergeParams: true });
 
 /**
  * GET /api/hyperliquid/dex-accounts/:dexAccountId/fills
- * Get order fills/trades
+ * Get fills for an account, newest first (paginated with limit/offset, filtered by startDate/endDate/assetSymbol)
  */
 router.get(
   '/',
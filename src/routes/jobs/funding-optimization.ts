@@ -1,12 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiResponse, RequestContext } from '@/types/common';
+import { ApiResponse, RequestContext, ApiError, ErrorCode } from '@/types/common';
+import { z } from 'zod';
 import { logger } from '@/utils/logger';
 import { runFundingOptimizationJob } from '@/jobs/funding-optimization-job';
 import { getScheduler } from '@/jobs/scheduler';
+import { JobRunService } from '@/services/job-runs';
+import { DistributedLockService } from '@/services/distributed-lock';
+
+const jobRuns = new JobRunService();
+const locks = new DistributedLockService();
+
+export const fundingOptimizationQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+
+export type FundingOptimizationQuery = z.infer<typeof fundingOptimizationQuerySchema>;
 
 /**
  * Manually trigger funding optimization job
- * POST /api/jobs/funding-optimization
+ * POST /api/jobs/funding-optimization?dryRun=true
  */
 export const fundingOptimizationHandler = async (
   req: Request,
@@ -15,20 +27,47 @@ export const fundingOptimizationHandler = async (
 ) => {
   try {
     const ctx = req.context as RequestContext;
+    const { dryRun } = req.query as unknown as FundingOptimizationQuery;
     
-    logger.info('Manual funding optimization job triggered', { userId: ctx.userId });
+    logger.info('Manual funding optimization job triggered', { userId: ctx.userId, dryRun });
     
     const startTime = Date.now();
     
-    // Run the funding optimization job
-    await runFundingOptimizationJob();
+    // Run the funding optimization job; a dry run returns the orders it would place instead of placing them
+    const run = () => jobRuns.record(
+      'delta-neutral-funding',
+      { trigger: 'manual', triggeredBy: ctx.userId, dryRun },
+      async () => {
+        const { outcomes, dryRun: engineDryRun, ...summary } = await runFundingOptimizationJob({ dryRun });
+        return { dryRun: engineDryRun, summary, positionOutcomes: outcomes };
+      }
+    );
+
+    // A live run shares the scheduler's lock so the two never trade at the same time
+    let recorded: Awaited<ReturnType<typeof run>>;
+    if (dryRun) {
+      recorded = await run();
+    } else {
+      const lock = await locks.withJobLock('delta-neutral-funding', run);
+      if (!lock.acquired) {
+        throw new ApiError(ErrorCode.CONFLICT, 'Funding optimization is already running', 409);
+      }
+      recorded = lock.result;
+    }
+    const { runId, report } = recorded;
     
     const executionTime = Date.now() - startTime;
     
     const response: ApiResponse = {
       success: true,
       data: {
-        message: 'Funding optimization job completed successfully',
+        message: dryRun
+          ? 'Funding optimization dry run completed - no orders were placed'
+          : 'Funding optimization job completed successfully',
+        dryRun,
+        runId,
+        // The engine plans for every user's positions; only the caller's are returned
+        plan: report.summary.plan?.filter(rebalance => rebalance.userId === ctx.userId),
         executionTime: `${executionTime}ms`,
         triggeredBy: ctx.userId,
         timestamp: new Date().toISOString(),
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { authenticateUser } from '@/middleware/auth';
-import { fundingOptimizationHandler, getJobStatusHandler } from './funding-optimization';
+import { validateRequest } from '@/middleware/validation';
+import { fundingOptimizationHandler, fundingOptimizationQuerySchema, getJobStatusHandler } from './funding-optimization';
+import { getJobRunsHandler, getJobRunsQuerySchema, getJobRunHandler, getJobRunParamsSchema } from './runs';
 
 const router = Router();
 
@@ -10,10 +12,16 @@ const router = Router();
 router.use(authenticateUser);
 
 /**
- * POST /api/jobs/funding-optimization
- * Manually trigger funding optimization job
+ * POST /api/jobs/funding-optimization?dryRun=true
+ * Manually trigger funding optimization job, or simulate it with dryRun
  */
-router.post('/funding-optimization', fundingOptimizationHandler);
+router.post(
+  '/funding-optimization',
+  validateRequest({
+    query: fundingOptimizationQuerySchema,
+  }),
+  fundingOptimizationHandler
+);
 
 /**
  * GET /api/jobs/status
@@ -21,4 +29,28 @@ router.post('/funding-optimization', fundingOptimizationHandler);
  */
 router.get('/status', getJobStatusHandler);
 
+/**
+ * GET /api/jobs/runs?jobName=&status=&positionId=&from=&to=&limit=&offset=
+ * List recorded job runs, newest first
+ */
+router.get(
+  '/runs',
+  validateRequest({
+    query: getJobRunsQuerySchema,
+  }),
+  getJobRunsHandler
+);
+
+/**
+ * GET /api/jobs/runs/:id
+ * Get a job run with its outcomes
+ */
+router.get(
+  '/runs/:id',
+  validateRequest({
+    params: getJobRunParamsSchema,
+  }),
+  getJobRunHandler
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import { DatabaseRepository } from '@/db/repository';
+import { ApiResponse, RequestContext, ApiError, ErrorCode } from '@/types/common';
+import { JobPositionOutcome } from '@/types/jobs';
+import { SimulatedRebalance } from '@/types/execution';
+import { z } from 'zod';
+import { dateParam } from '@/middleware/validation';
+
+const db = new DatabaseRepository();
+
+/**
+ * Validation schemas for job run history
+ */
+export const getJobRunsQuerySchema = z.object({
+  jobName: z.string().min(1).optional(),
+  status: z.enum(['running', 'completed', 'failed']).optional(),
+  positionId: z.string().regex(/^\d+$/).transform(Number).optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(200)).default('50'),
+  offset: z.string().transform(Number).pipe(z.number().int().min(0)).default('0'),
+});
+
+export const getJobRunParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/).transform(Number),
+});
+
+export type GetJobRunsQuery = z.infer<typeof getJobRunsQuerySchema>;
+export type GetJobRunParams = z.infer<typeof getJobRunParamsSchema>;
+
+/**
+ * Runs are shared across users; only the caller's own position outcomes and dry-run plan entries are returned
+ */
+const withUserOutcomes = <T extends { positionOutcomes: unknown; summary: unknown }>(run: T, userId: number) => {
+  const summary = run.summary as { plan?: SimulatedRebalance[] } | null;
+
+  return {
+    ...run,
+    summary: summary?.plan
+      ? { ...summary, plan: summary.plan.filter(rebalance => rebalance.userId === userId) }
+      : summary,
+    positionOutcomes: (run.positionOutcomes as JobPositionOutcome[]).filter(outcome => outcome.userId === userId),
+  };
+};
+
+/**
+ * List job runs, newest first. positionId narrows to runs that touched that position.
+ * GET /api/jobs/runs
+ */
+export const getJobRunsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const query = req.query as unknown as GetJobRunsQuery;
+
+    if (query.positionId !== undefined) {
+      const position = await db.getPositionWithSnapshots(query.positionId);
+
+      if (!position) {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Position not found', 404);
+      }
+
+      if (position.userId !== ctx.userId) {
+        throw new ApiError(ErrorCode.FORBIDDEN, 'You do not have permission to view this position', 403);
+      }
+    }
+
+    const runs = await db.getJobRuns(query);
+
+    const response: ApiResponse = {
+      success: true,
+      data: runs.map(run => withUserOutcomes(run, ctx.userId)),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a job run with its summary, error and the caller's position outcomes
+ * GET /api/jobs/runs/:id
+ */
+export const getJobRunHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { id } = req.params as unknown as GetJobRunParams;
+
+    const run = await db.getJobRun(Number(id));
+
+    if (!run) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Job run not found', 404);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: withUserOutcomes(run, ctx.userId),
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { validateRequest } from '@/middleware/validation';
+import { getAccountPositionsHandler, getAccountPositionsParamsSchema } from './positions';
+import { getPnLHandler, getPnLParamsSchema, getPnLQuerySchema } from './pnl';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /api/lighter/dex-accounts/:dexAccountId/positions
+ * Get open positions from the exchange
+ */
+router.get(
+  '/positions',
+  validateRequest({ params: getAccountPositionsParamsSchema }),
+  getAccountPositionsHandler
+);
+
+/**
+ * GET /api/lighter/dex-accounts/:dexAccountId/pnl
+ * Get PnL chart
+ */
+router.get(
+  '/pnl',
+  validateRequest({
+    params: getPnLParamsSchema,
+    query: getPnLQuerySchema,
+  }),
+  getPnLHandler
+);
+
+export default router;
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schemas for getting the PnL chart
+ */
+export const getPnLParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+});
+
+export const getPnLQuerySchema = z.object({
+  resolution: z.enum(['1m', '5m', '15m', '1h', '4h', '1d']).default('1h'),
+  startTimestamp: z.string().transform(Number).optional(),
+  endTimestamp: z.string().transform(Number).optional(),
+  countBack: z.string().transform(Number).optional(),
+  ignoreTransfers: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export type GetPnLParams = z.infer<typeof getPnLParamsSchema>;
+export type GetPnLQuery = z.infer<typeof getPnLQuerySchema>;
+
+/**
+ * Get PnL chart (defaults to the last 24 hours)
+ * GET /api/lighter/dex-accounts/:dexAccountId/pnl
+ */
+export const getPnLHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId } = req.params;
+    const query = req.query as unknown as GetPnLQuery;
+    
+    const endTimestamp = query.endTimestamp || Date.now();
+    const startTimestamp = query.startTimestamp || endTimestamp - 24 * 60 * 60 * 1000;
+    
+    const result = await lighterService.getAccountPnL(
+      ctx,
+      Number(dexAccountId),
+      {
+        resolution: query.resolution,
+        startTimestamp,
+        endTimestamp,
+        countBack: query.countBack || 0,
+        ignoreTransfers: query.ignoreTransfers,
+      }
+    );
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
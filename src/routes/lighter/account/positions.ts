@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schema for getting account positions
+ */
+export const getAccountPositionsParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+});
+
+export type GetAccountPositionsParams = z.infer<typeof getAccountPositionsParamsSchema>;
+
+/**
+ * Get open positions from the exchange
+ * GET /api/lighter/dex-accounts/:dexAccountId/positions
+ */
+export const getAccountPositionsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId } = req.params;
+    
+    const result = await lighterService.getAccountPositions(ctx, Number(dexAccountId));
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+
+const lighterService = new LighterService();
+
+/**
+ * Get user's Lighter DEX accounts
+ * GET /api/lighter/dex-accounts
+ */
+export const getDexAccountsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const result = await lighterService.getUserDexAccounts(ctx);
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { validateRequest } from '@/middleware/validation';
+import { getDexAccountsHandler } from './get';
+import { createDexAccountHandler, createDexAccountSchema } from './post';
+
+const router = Router();
+
+/**
+ * GET /api/lighter/dex-accounts
+ * Get user's Lighter DEX accounts
+ */
+router.get('/', getDexAccountsHandler);
+
+/**
+ * POST /api/lighter/dex-accounts
+ * Create or update a DEX account (account index + API key)
+ */
+router.post(
+  '/',
+  validateRequest({ body: createDexAccountSchema }),
+  createDexAccountHandler
+);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schema for creating/updating DEX accounts
+ */
+export const createDexAccountSchema = z.object({
+  address: z.string(), // L1 address that owns the Lighter account
+  accountIndex: z.number().int().nonnegative(),
+  apiKeyIndex: z.number().int().min(0).max(254),
+  apiKeyPrivateKey: z.string().optional(), // Required for server-side order signing
+  metadata: z.any().optional(),
+});
+
+export type CreateDexAccountRequest = z.infer<typeof createDexAccountSchema>;
+
+/**
+ * Create or update a DEX account
+ * POST /api/lighter/dex-accounts
+ */
+export const createDexAccountHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const result = await lighterService.createOrUpdateDexAccount(ctx, req.body);
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { authenticateUser } from '@/middleware/auth';
+import { rateLimiter } from '@/middleware/rateLimiter';
+
+// Import sub-routers
+import dexAccountsRouter from './dex-accounts';
+import ordersRouter from './orders';
+import accountRouter from './account';
+import transactionsRouter from './transactions';
+import positionsRouter from './positions';
+import marketsRouter from './markets';
+
+const router = Router();
+
+/**
+ * Apply middleware to all Lighter routes
+ */
+router.use(authenticateUser);
+router.use(rateLimiter);
+
+/**
+ * Mount sub-routers
+ */
+// DEX Accounts routes
+router.use('/dex-accounts', dexAccountsRouter);
+
+// Orders routes (nested under dex-accounts)
+router.use('/dex-accounts/:dexAccountId/orders', ordersRouter);
+
+// Live exchange data for an account (positions, PnL)
+router.use('/dex-accounts/:dexAccountId', accountRouter);
+
+// Transactions routes (account history and lookup by hash)
+router.use('/dex-accounts/:dexAccountId', transactionsRouter);
+
+// Positions routes
+router.use('/positions', positionsRouter);
+
+// Market data routes
+router.use('/markets', marketsRouter);
+
+export default router;
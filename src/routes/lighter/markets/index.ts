@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { validateRequest } from '@/middleware/validation';
+import { getOrderBookHandler, getOrderBookDetailsHandler, getOrderBookParamsSchema } from './orderbook';
+
+const router = Router();
+
+/**
+ * GET /api/lighter/markets/:marketId/orderbook
+ * Get order book for a market
+ */
+router.get(
+  '/:marketId/orderbook',
+  validateRequest({ params: getOrderBookParamsSchema }),
+  getOrderBookHandler
+);
+
+/**
+ * GET /api/lighter/markets/:marketId/details
+ * Get market details (decimals, last trade price, open interest)
+ */
+router.get(
+  '/:marketId/details',
+  validateRequest({ params: getOrderBookParamsSchema }),
+  getOrderBookDetailsHandler
+);
+
+export default router;
@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schema for market data
+ */
+export const getOrderBookParamsSchema = z.object({
+  marketId: z.string().transform(Number),
+});
+
+export type GetOrderBookParams = z.infer<typeof getOrderBookParamsSchema>;
+
+/**
+ * Get order book for a market
+ * GET /api/lighter/markets/:marketId/orderbook
+ */
+export const getOrderBookHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { marketId } = req.params;
+    const result = await lighterService.getOrderBook(Number(marketId));
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get market details
+ * GET /api/lighter/markets/:marketId/details
+ */
+export const getOrderBookDetailsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { marketId } = req.params;
+    const result = await lighterService.getOrderBookDetails(Number(marketId));
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schemas for canceling orders
+ */
+export const cancelOrderParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+});
+
+export const cancelOrderBodySchema = z.object({
+  marketId: z.number().int().min(0).max(255),
+  clientOrderIndex: z.number().int().positive(),
+});
+
+export type CancelOrderParams = z.infer<typeof cancelOrderParamsSchema>;
+export type CancelOrderBody = z.infer<typeof cancelOrderBodySchema>;
+
+/**
+ * Cancel an order
+ * POST /api/lighter/dex-accounts/:dexAccountId/orders/cancel
+ */
+export const cancelOrderHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId } = req.params;
+    
+    const result = await lighterService.cancelOrder(
+      ctx,
+      Number(dexAccountId),
+      req.body
+    );
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
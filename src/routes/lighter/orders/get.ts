@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schemas for getting orders
+ */
+export const getOrdersParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+});
+
+export const getOrdersQuerySchema = z.object({
+  marketId: z.string().transform(Number).optional(),
+  status: z.enum(['pending', 'open', 'filled', 'cancelled', 'rejected', 'failed']).optional(),
+});
+
+export type GetOrdersParams = z.infer<typeof getOrdersParamsSchema>;
+export type GetOrdersQuery = z.infer<typeof getOrdersQuerySchema>;
+
+/**
+ * Get orders
+ * GET /api/lighter/dex-accounts/:dexAccountId/orders
+ */
+export const getOrdersHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId } = req.params;
+    const { marketId, status } = req.query;
+    
+    const result = await lighterService.getOrders(
+      ctx,
+      Number(dexAccountId),
+      {
+        marketId: marketId !== undefined ? Number(marketId) : undefined,
+        status: status as 'open' | 'filled' | 'cancelled' | 'failed' | 'pending' | 'rejected' | undefined,
+      }
+    );
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { validateRequest } from '@/middleware/validation';
+import { getOrdersHandler, getOrdersParamsSchema, getOrdersQuerySchema } from './get';
+import { placeOrderHandler, placeOrderParamsSchema, placeOrderBodySchema } from './post';
+import { cancelOrderHandler, cancelOrderParamsSchema, cancelOrderBodySchema } from './cancel';
+import { modifyOrderHandler, modifyOrderParamsSchema, modifyOrderBodySchema } from './modify';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /api/lighter/dex-accounts/:dexAccountId/orders
+ * Get orders
+ */
+router.get(
+  '/',
+  validateRequest({
+    params: getOrdersParamsSchema,
+    query: getOrdersQuerySchema,
+  }),
+  getOrdersHandler
+);
+
+/**
+ * POST /api/lighter/dex-accounts/:dexAccountId/orders
+ * Sign and place orders
+ */
+router.post(
+  '/',
+  validateRequest({
+    params: placeOrderParamsSchema,
+    body: placeOrderBodySchema,
+  }),
+  placeOrderHandler
+);
+
+/**
+ * POST /api/lighter/dex-accounts/:dexAccountId/orders/cancel
+ * Cancel an order by client order index
+ */
+router.post(
+  '/cancel',
+  validateRequest({
+    params: cancelOrderParamsSchema,
+    body: cancelOrderBodySchema,
+  }),
+  cancelOrderHandler
+);
+
+/**
+ * POST /api/lighter/dex-accounts/:dexAccountId/orders/modify
+ * Modify an order's size and price
+ */
+router.post(
+  '/modify',
+  validateRequest({
+    params: modifyOrderParamsSchema,
+    body: modifyOrderBodySchema,
+  }),
+  modifyOrderHandler
+);
+
+export default router;
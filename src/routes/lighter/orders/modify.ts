@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schemas for modifying orders
+ */
+export const modifyOrderParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+});
+
+export const modifyOrderBodySchema = z.object({
+  marketId: z.number().int().min(0).max(255),
+  clientOrderIndex: z.number().int().positive(),
+  baseAmount: z.string(),
+  price: z.string(),
+  triggerPrice: z.string().optional(),
+});
+
+export type ModifyOrderParams = z.infer<typeof modifyOrderParamsSchema>;
+export type ModifyOrderBody = z.infer<typeof modifyOrderBodySchema>;
+
+/**
+ * Modify an order
+ * POST /api/lighter/dex-accounts/:dexAccountId/orders/modify
+ */
+export const modifyOrderHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId } = req.params;
+    
+    const result = await lighterService.modifyOrder(
+      ctx,
+      Number(dexAccountId),
+      req.body
+    );
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
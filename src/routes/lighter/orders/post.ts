@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schemas for placing orders
+ */
+export const placeOrderParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+});
+
+export const placeOrderBodySchema = z.object({
+  orders: z.array(z.object({
+    marketId: z.number().int().min(0).max(255),
+    side: z.enum(['buy', 'sell']),
+    orderType: z.enum([
+      'ORDER_TYPE_LIMIT',
+      'ORDER_TYPE_MARKET',
+      'ORDER_TYPE_STOP_LOSS',
+      'ORDER_TYPE_STOP_LOSS_LIMIT',
+      'ORDER_TYPE_TAKE_PROFIT',
+      'ORDER_TYPE_TAKE_PROFIT_LIMIT',
+    ]),
+    baseAmount: z.string(),
+    price: z.string().optional(), // Required for limit orders
+    timeInForce: z.enum([
+      'ORDER_TIME_IN_FORCE_IMMEDIATE_OR_CANCEL',
+      'ORDER_TIME_IN_FORCE_GOOD_TILL_TIME',
+      'ORDER_TIME_IN_FORCE_POST_ONLY',
+    ]).optional(),
+    clientOrderIndex: z.number().int().positive().optional(),
+    reduceOnly: z.boolean().optional(),
+    triggerPrice: z.string().optional(),
+  }).refine(
+    order => !order.orderType.endsWith('_LIMIT') || !!order.price,
+    { message: 'price is required for limit orders' }
+  )).min(1),
+});
+
+export type PlaceOrderParams = z.infer<typeof placeOrderParamsSchema>;
+export type PlaceOrderBody = z.infer<typeof placeOrderBodySchema>;
+
+/**
+ * Sign and place orders (multiple orders are sent as one batch)
+ * POST /api/lighter/dex-accounts/:dexAccountId/orders
+ */
+export const placeOrderHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId } = req.params;
+    
+    const result = await lighterService.createOrders(
+      ctx,
+      Number(dexAccountId),
+      req.body.orders
+    );
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
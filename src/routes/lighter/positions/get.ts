@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schema for getting positions
+ */
+export const getPositionsQuerySchema = z.object({
+  status: z.enum(['open', 'closed', 'liquidated']).optional(),
+  positionType: z.enum(['single', 'delta_neutral']).optional(),
+});
+
+export type GetPositionsQuery = z.infer<typeof getPositionsQuerySchema>;
+
+/**
+ * Get user's Lighter positions
+ * GET /api/lighter/positions
+ */
+export const getPositionsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { status, positionType } = req.query;
+    
+    // Get positions filtered by Lighter DEX type
+    const result = await lighterService.getUserLighterPositions(
+      ctx,
+      {
+        status: status as string,
+        positionType: positionType as string,
+      }
+    );
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { validateRequest } from '@/middleware/validation';
+import { getPositionsHandler, getPositionsQuerySchema } from './get';
+
+const router = Router();
+
+/**
+ * GET /api/lighter/positions
+ * Get user's positions with a Lighter leg
+ */
+router.get(
+  '/',
+  validateRequest({ query: getPositionsQuerySchema }),
+  getPositionsHandler
+);
+
+export default router;
@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schema for getting a transaction
+ */
+export const getTransactionParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+  txHash: z.string().min(1),
+});
+
+export type GetTransactionParams = z.infer<typeof getTransactionParamsSchema>;
+
+/**
+ * Get a transaction by hash
+ * GET /api/lighter/dex-accounts/:dexAccountId/transactions/:txHash
+ */
+export const getTransactionHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId, txHash } = req.params;
+    
+    const result = await lighterService.getAccountTransaction(ctx, Number(dexAccountId), txHash);
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
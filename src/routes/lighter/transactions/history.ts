@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { LighterService } from '@/services/lighter';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+
+const lighterService = new LighterService();
+
+/**
+ * Validation schemas for getting transaction history
+ */
+export const getTransactionHistoryParamsSchema = z.object({
+  dexAccountId: z.string().transform(Number),
+});
+
+export const getTransactionHistoryQuerySchema = z.object({
+  limit: z.string().transform(Number).optional(),
+  index: z.string().transform(Number).optional(), // Cursor: return transactions before this index
+});
+
+export type GetTransactionHistoryParams = z.infer<typeof getTransactionHistoryParamsSchema>;
+export type GetTransactionHistoryQuery = z.infer<typeof getTransactionHistoryQuerySchema>;
+
+/**
+ * Get transaction history
+ * GET /api/lighter/dex-accounts/:dexAccountId/transactions
+ */
+export const getTransactionHistoryHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { dexAccountId } = req.params;
+    const { limit, index } = req.query;
+    
+    const result = await lighterService.getAccountTransactionHistory(
+      ctx,
+      Number(dexAccountId),
+      {
+        limit: limit ? Number(limit) : undefined,
+        index: index !== undefined ? Number(index) : undefined,
+      }
+    );
+    
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+    
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
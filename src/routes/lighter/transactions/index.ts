@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { validateRequest } from '@/middleware/validation';
+import { getTransactionHistoryHandler, getTransactionHistoryParamsSchema, getTransactionHistoryQuerySchema } from './history';
+import { getTransactionHandler, getTransactionParamsSchema } from './get';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /api/lighter/dex-accounts/:dexAccountId/transactions
+ * Get transaction history from the exchange
+ */
+router.get(
+  '/transactions',
+  validateRequest({
+    params: getTransactionHistoryParamsSchema,
+    query: getTransactionHistoryQuerySchema,
+  }),
+  getTransactionHistoryHandler
+);
+
+/**
+ * GET /api/lighter/dex-accounts/:dexAccountId/transactions/:txHash
+ * Get a transaction by hash
+ */
+router.get(
+  '/transactions/:txHash',
+  validateRequest({ params: getTransactionParamsSchema }),
+  getTransactionHandler
+);
+
+export default router;
@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '@/types/common';
+import { z } from 'zod';
+import { dexTypeEnum } from '@/db/schema';
+import { OpportunityService } from '@/services/opportunities';
+
+const opportunityService = new OpportunityService();
+
+/**
+ * Validation schema for the opportunity scanner
+ */
+export const getOpportunitiesQuerySchema = z.object({
+  asset: z.string().min(1).optional(),
+  // Comma-separated venues to consider, e.g. "hyperliquid,drift"
+  dexes: z
+    .string()
+    .transform(value => value.split(',').map(dex => dex.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(dexTypeEnum.enumValues)).min(2))
+    .optional(),
+  holdDays: z.string().transform(Number).pipe(z.number().positive()).default('7'),
+  minNetApr: z.string().transform(Number).pipe(z.number()).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(50)).default('10'),
+});
+
+export type GetOpportunitiesQuery = z.infer<typeof getOpportunitiesQuerySchema>;
+
+/**
+ * Rank assets by cross-venue funding spread, net of taker fees
+ * GET /api/opportunities
+ */
+export const getOpportunitiesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const query = req.query as unknown as GetOpportunitiesQuery;
+
+    const opportunities = await opportunityService.getOpportunities({
+      asset: query.asset,
+      dexTypes: query.dexes,
+      holdDays: query.holdDays,
+      minNetApr: query.minNetApr,
+      limit: query.limit,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        holdDays: query.holdDays,
+        opportunities,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
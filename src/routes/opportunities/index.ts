@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { authenticateUser } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { getOpportunitiesHandler, getOpportunitiesQuerySchema } from './get';
+
+const router = Router();
+
+/**
+ * Apply authentication middleware to all opportunity routes
+ */
+router.use(authenticateUser);
+
+/**
+ * GET /api/opportunities?asset=&dexes=&holdDays=&minNetApr=&limit=
+ * Rank assets by funding spread between venues, with net APR after taker fees, open interest and depth
+ */
+router.get(
+  '/',
+  validateRequest({
+    query: getOpportunitiesQuerySchema,
+  }),
+  getOpportunitiesHandler
+);
+
+export default router;
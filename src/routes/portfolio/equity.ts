@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+import { dateParam } from '@/middleware/validation';
+import { PnlHistoryService } from '@/services/pnl-history';
+import { PNL_HISTORY_INTERVALS, PnlHistoryInterval } from '@/types/valuation';
+
+const pnlHistoryService = new PnlHistoryService();
+
+/**
+ * Validation schema for the portfolio equity curve
+ */
+export const getPortfolioEquityQuerySchema = z.object({
+  interval: z.enum(Object.keys(PNL_HISTORY_INTERVALS) as [PnlHistoryInterval, ...PnlHistoryInterval[]]).default('1h'),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+});
+
+export type GetPortfolioEquityQuery = z.infer<typeof getPortfolioEquityQuerySchema>;
+
+/**
+ * Get the user's combined PnL across all positions over time
+ * GET /api/portfolio/equity
+ */
+export const getPortfolioEquityHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const query = req.query as unknown as GetPortfolioEquityQuery;
+
+    const equity = await pnlHistoryService.getPortfolioEquity(ctx, query);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        interval: query.interval,
+        from: equity.from.toISOString(),
+        to: equity.to.toISOString(),
+        positions: equity.positions,
+        points: equity.points,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
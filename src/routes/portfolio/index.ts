@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { authenticateUser } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { getPortfolioEquityHandler, getPortfolioEquityQuerySchema } from './equity';
+
+const router = Router();
+
+/**
+ * Apply authentication middleware to all portfolio routes
+ */
+router.use(authenticateUser);
+
+/**
+ * GET /api/portfolio/equity?interval=&from=&to=
+ * Get cumulative PnL across all of the user's positions, bucketed by interval (5m, 15m, 1h, 4h, 1d)
+ */
+router.get(
+  '/equity',
+  validateRequest({
+    query: getPortfolioEquityQuerySchema,
+  }),
+  getPortfolioEquityHandler
+);
+
+export default router;
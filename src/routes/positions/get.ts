@@ -1,10 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { DatabaseRepository } from '@/db/repository';
-import { ApiResponse, RequestContext } from '@/types/common';
+import { ApiResponse, RequestContext, ApiError, ErrorCode } from '@/types/common';
 import { z } from 'zod';
 import { logger } from '@/utils/logger';
+import { FundingPaymentService } from '@/services/funding-payments';
 
 const db = new DatabaseRepository();
+const fundingPaymentService = new FundingPaymentService();
 
 /**
  * Validation schema for getting positions
@@ -17,6 +19,12 @@ export const getPositionsQuerySchema = z.object({
 
 export type GetPositionsQuery = z.infer<typeof getPositionsQuerySchema>;
 
+export const getPositionParamsSchema = z.object({
+  id: z.string().transform(Number),
+});
+
+export type GetPositionParams = z.infer<typeof getPositionParamsSchema>;
+
 /**
  * Get user's positions across all platforms
  * GET /api/positions
@@ -100,4 +108,98 @@ export const getPositionsHandler = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get a single position with its legs and cumulative funding earned and paid
+ * GET /api/positions/:id
+ */
+export const getPositionHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const positionId = Number(req.params.id);
+
+    const position = await db.getPositionWithSnapshots(positionId);
+
+    if (!position) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Position not found', 404);
+    }
+
+    if (position.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'You do not have permission to view this position', 403);
+    }
+
+    const [funding, executions] = await Promise.all([
+      fundingPaymentService.getPositionFunding(positionId),
+      db.getPositionExecutions(positionId),
+    ]);
+
+    const legs = position.snapshots.map(snapshot => {
+      const legFunding = funding.legs.find(leg => leg.positionSnapshotId === snapshot.id);
+      return {
+        id: snapshot.id,
+        dex: snapshot.dexType,
+        dexAccountId: snapshot.dexAccountId,
+        symbol: snapshot.symbol,
+        side: snapshot.side,
+        entryPrice: snapshot.entryPrice,
+        currentPrice: snapshot.currentPrice,
+        markPrice: snapshot.markPrice,
+        liquidationPrice: snapshot.liquidationPrice,
+        size: snapshot.size,
+        notionalValue: snapshot.notionalValue,
+        metadata: snapshot.metadata,
+        funding: {
+          earned: legFunding?.earned || '0',
+          paid: legFunding?.paid || '0',
+          net: legFunding?.net || '0',
+          payments: legFunding?.payments || 0,
+          lastPaidAt: legFunding?.lastPaidAt || null,
+        },
+      };
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        id: position.id,
+        name: position.name,
+        positionType: position.positionType,
+        status: position.status,
+        totalPnl: position.totalPnl,
+        closedPnl: position.closedPnl,
+        // Includes payments from legs that have since been flipped or removed
+        funding: {
+          earned: funding.earned,
+          paid: funding.paid,
+          net: funding.net,
+          payments: funding.payments,
+        },
+        legs,
+        // Order placement log for the opening and every rebalance, newest first
+        executions: executions.map(execution => ({
+          id: execution.id,
+          kind: execution.kind,
+          reason: execution.reason,
+          status: execution.status,
+          steps: execution.steps,
+          error: execution.error,
+          createdAt: execution.createdAt,
+          completedAt: execution.completedAt,
+        })),
+        metadata: position.metadata,
+        createdAt: position.createdAt,
+        closedAt: position.closedAt,
+        updatedAt: position.updatedAt,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { z } from 'zod';
+import { dateParam } from '@/middleware/validation';
+import { PnlHistoryService } from '@/services/pnl-history';
+import { PNL_HISTORY_INTERVALS, PnlHistoryInterval } from '@/types/valuation';
+
+const pnlHistoryService = new PnlHistoryService();
+
+export const getPositionHistoryParamsSchema = z.object({
+  id: z.string().transform(Number),
+});
+
+/**
+ * Validation schema for position PnL history
+ */
+export const getPositionHistoryQuerySchema = z.object({
+  interval: z.enum(Object.keys(PNL_HISTORY_INTERVALS) as [PnlHistoryInterval, ...PnlHistoryInterval[]]).default('1h'),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+});
+
+export type GetPositionHistoryQuery = z.infer<typeof getPositionHistoryQuerySchema>;
+
+/**
+ * Get a position's bucketed mark-to-market, realized PnL, funding and fees over time
+ * GET /api/positions/:id/history
+ */
+export const getPositionHistoryHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const positionId = Number(req.params.id);
+    const query = req.query as unknown as GetPositionHistoryQuery;
+
+    const history = await pnlHistoryService.getPositionHistory(ctx, positionId, query);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        positionId,
+        interval: query.interval,
+        from: history.from.toISOString(),
+        to: history.to.toISOString(),
+        points: history.points,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,11 +1,12 @@
 import { Router } from 'express';
 import { authenticateUser } from '@/middleware/auth';
 import { validateRequest } from '@/middleware/validation';
-import { getPositionsHandler, getPositionsQuerySchema } from './get';
+import { getPositionsHandler, getPositionsQuerySchema, getPositionHandler, getPositionParamsSchema } from './get';
 import { createPositionHandler, createPositionBodySchema } from './post';
 import { createCustomOrderPositionHandler, createCustomOrderPositionBodySchema } from './custom-order';
 import { closePositionHandler, closePositionParamsSchema, closePositionBodySchema } from './close';
 import { deletePositionHandler, deletePositionParamsSchema } from './delete';
+import { getPositionHistoryHandler, getPositionHistoryParamsSchema, getPositionHistoryQuerySchema } from './history';
 
 const router = Router();
 
@@ -26,6 +27,31 @@ router.get(
   getPositionsHandler
 );
 
+/**
+ * GET /api/positions/:id
+ * Get a position with its legs and cumulative funding earned and paid
+ */
+router.get(
+  '/:id',
+  validateRequest({
+    params: getPositionParamsSchema,
+  }),
+  getPositionHandler
+);
+
+/**
+ * GET /api/positions/:id/history?interval=&from=&to=
+ * Get a position's cumulative PnL over time, bucketed by interval (5m, 15m, 1h, 4h, 1d)
+ */
+router.get(
+  '/:id/history',
+  validateRequest({
+    params: getPositionHistoryParamsSchema,
+    query: getPositionHistoryQuerySchema,
+  }),
+  getPositionHistoryHandler
+);
+
 /**
  * POST /api/positions
  * Create a new position with multiple legs
@@ -3,12 +3,12 @@ import { DatabaseRepository } from '@/db/repository';
 import { ApiResponse, RequestContext, ApiError, ErrorCode } from '@/types/common';
 import { z } from 'zod';
 import { logger } from '@/utils/logger';
-import { HyperliquidService } from '@/services/hyperliquid';
-import { DriftService } from '@/services/drift';
+import { dexTypeEnum } from '@/db/schema';
+import { getExchangeAdapter } from '@/services/exchanges/registry';
+import { LegExecutionCoordinator } from '@/services/leg-executor';
 
 const db = new DatabaseRepository();
-const hyperliquidService = new HyperliquidService();
-const driftService = new DriftService();
+const legExecutor = new LegExecutionCoordinator();
 
 /**
  * Validation schema for position legs
@@ -16,7 +16,7 @@ const driftService = new DriftService();
  */
 const positionLegSchema = z.object({
   // Platform information
-  dexType: z.enum(['hyperliquid', 'drift']),
+  dexType: z.enum(dexTypeEnum.enumValues),
   dexAccountId: z.number(),
   
   // Market information
@@ -34,6 +34,9 @@ const positionLegSchema = z.object({
   // For Drift orders
   marketIndex: z.number().optional(), // Required for Drift
   
+  // For Lighter orders
+  marketId: z.number().optional(), // Required for Lighter
+  
   // Optional order reference
   orderId: z.number().optional(),
   orderType: z.enum(['hyperliquid', 'drift']).optional(),
@@ -49,6 +52,7 @@ export const createPositionBodySchema = z.object({
   name: z.string().min(1, "Position name is required"),
   asset: z.string().min(1, "Asset is required"), // The underlying asset for all legs
   legs: z.array(positionLegSchema).min(2).max(2), // Exactly 2 legs for delta neutral
+  fundingOptimizationEnabled: z.boolean().optional(), // Let the funding engine flip legs automatically
   metadata: z.record(z.any()).optional(),
 });
 
@@ -74,292 +78,130 @@ export const createPositionHandler = async (
       legCount: validated.legs.length,
     });
     
-    // Start a database transaction
-    const result = await db.transaction(async () => {
-      // 1. Verify DEX account ownership for all legs
-      const dexAccountIds = [...new Set(validated.legs.map(leg => leg.dexAccountId))];
-      
-      for (const accountId of dexAccountIds) {
-        const account = await db.getDexAccount(accountId);
-        if (!account || account.userId !== ctx.userId) {
-          throw new ApiError(
-            ErrorCode.FORBIDDEN,
-            `Access denied to DEX account ${accountId}`
-          );
-        }
-      }
-      
-      // 2. Validate delta neutral position requirements
-      const hasLong = validated.legs.some(leg => leg.side === 'long' || leg.side === 'spot');
-      const hasShort = validated.legs.some(leg => leg.side === 'short');
-      
-      if (!hasLong || !hasShort) {
-        throw new ApiError(
-          ErrorCode.INVALID_REQUEST,
-          'Delta neutral positions must have one long/spot leg and one short leg'
-        );
-      }
-      
-      // 3. Validate all legs use the same underlying asset
-      const assetSymbols = validated.legs.map(leg => {
-        // Extract base asset from symbol (e.g., "ETH" from "ETH-PERP")
-        const baseAsset = leg.symbol.split('-')[0].toUpperCase();
-        return baseAsset;
-      });
-      
-      const uniqueAssets = [...new Set(assetSymbols)];
-      if (uniqueAssets.length > 1) {
-        throw new ApiError(
-          ErrorCode.INVALID_REQUEST,
-          `All legs must use the same underlying asset. Found: ${uniqueAssets.join(', ')}`
-        );
-      }
-      
-      // Verify the asset matches what was specified
-      if (uniqueAssets[0] !== validated.asset.toUpperCase()) {
-        throw new ApiError(
-          ErrorCode.INVALID_REQUEST,
-          `Asset mismatch: specified ${validated.asset} but legs use ${uniqueAssets[0]}`
-        );
-      }
-      
-      // 4. Validate position combinations
-      
-      // Find long/spot and short legs
-      const longLeg = validated.legs.find(leg => leg.side === 'long' || leg.side === 'spot');
-      const shortLeg = validated.legs.find(leg => leg.side === 'short');
-      
-      if (!longLeg || !shortLeg) {
-        throw new ApiError(
-          ErrorCode.INVALID_REQUEST,
-          'Delta neutral positions must have one long/spot leg and one short leg'
-        );
-      }
-      
-      // Validate spot positions can only use 'spot' side
-      if (longLeg.marketType === 'spot' && longLeg.side !== 'spot') {
-        throw new ApiError(
-          ErrorCode.INVALID_REQUEST,
-          'Spot market positions must use side: "spot"'
-        );
-      }
-      
-      // Spot can only be on the long side of delta neutral
-      if (shortLeg.marketType === 'spot') {
+    // 1. Verify DEX account ownership for all legs
+    const dexAccountIds = [...new Set(validated.legs.map(leg => leg.dexAccountId))];
+    
+    for (const accountId of dexAccountIds) {
+      const account = await db.getDexAccount(accountId);
+      if (!account || account.userId !== ctx.userId) {
         throw new ApiError(
-          ErrorCode.INVALID_REQUEST,
-          'Cannot short spot markets. Spot positions can only be on the long side.'
+          ErrorCode.FORBIDDEN,
+          `Access denied to DEX account ${accountId}`
         );
       }
-      
-      // 5. Place orders on exchanges and get actual execution data
-      interface ExecutedOrder {
-        dexType: 'hyperliquid' | 'drift';
-        dexAccountId: number;
-        marketType: string;
-        symbol: string;
-        side: 'long' | 'short' | 'spot';
-        entryPrice: string;
-        size: string;
-        orderId: number;
-        orderType: 'hyperliquid' | 'drift';
-        orderResult: any;
-        assetId?: number;
-        marketIndex?: number;
-        metadata?: any;
-      }
-      const executedOrders: ExecutedOrder[] = [];
-      
-      for (const leg of validated.legs) {
-        try {
-          logger.info('Placing order for leg', {
-            dexType: leg.dexType,
-            symbol: leg.symbol,
-            side: leg.side,
-            size: leg.size,
-            marketType: leg.marketType
-          });
-          
-          if (leg.dexType === 'hyperliquid') {
-            // For Hyperliquid, we need assetId
-            if (leg.assetId === undefined) {
-              throw new ApiError(
-                ErrorCode.INVALID_REQUEST,
-                `assetId is required for Hyperliquid orders. Please provide assetId for ${leg.symbol}`
-              );
-            }
-            
-            // Place order on Hyperliquid
-            const orderResult = await hyperliquidService.placeOrder(ctx, leg.dexAccountId, {
-              orders: [{
-                assetSymbol: leg.symbol,
-                assetIndex: leg.assetId,
-                asset: leg.symbol, // For backward compatibility
-                assetId: leg.assetId, // For backward compatibility
-                side: leg.side === 'long' || leg.side === 'spot' ? 'buy' : 'sell',
-                orderType: 'market',
-                size: leg.size,
-                reduceOnly: false,
-                isSpot: leg.marketType === 'spot', // Explicitly mark spot orders
-              }],
-            });
-            
-            // Get the fill price from the order
-            const orderStatus = orderResult.statuses?.[0];
-            let avgFillPrice = '0';
-            let orderId = 0;
-            
-            if (orderStatus?.filled) {
-              avgFillPrice = orderStatus.filled.avgPx || '0';
-              // For filled orders, we might not get an order ID
-            } else if (orderStatus?.resting) {
-              orderId = orderStatus.resting.oid;
-              // For resting orders, we might not have a fill price yet
-              // Try to get a reference price for the position snapshot
-              try {
-                const priceResponse = await hyperliquidService.getAssetPrices();
-                // priceResponse is a Map, not an array
-                const priceData = priceResponse.get(leg.assetId);
-                if (priceData) {
-                  avgFillPrice = priceData.midPx?.toString() || priceData.markPx?.toString() || '0';
-                }
-              } catch (err) {
-                logger.error('Failed to get reference price', { error: err });
-              }
-            }
-            
-            logger.info('Hyperliquid order placed successfully', {
-              orderId,
-              avgFillPrice,
-              symbol: leg.symbol,
-              orderStatus,
-            });
-            
-            // Create order record in database
-            let dbOrderId: number | undefined;
-            try {
-              const dbOrder = await db.createHyperliquidOrder({
-                dexAccountId: leg.dexAccountId,
-                userId: ctx.userId!,
-                assetSymbol: leg.symbol,
-                assetIndex: leg.assetId,
-                hlOrderId: orderId > 0 ? orderId.toString() : undefined,
-                clientOrderId: undefined,
-                side: leg.side === 'long' || leg.side === 'spot' ? 'buy' : 'sell',
-                orderType: 'market',
-                size: leg.size,
-                price: avgFillPrice !== '0' ? avgFillPrice : undefined,
-                status: orderStatus?.filled ? 'filled' : (orderId > 0 ? 'open' : 'pending'),
-                reduceOnly: false,
-                rawResponse: orderResult,
-              });
-              dbOrderId = dbOrder.id;
-              logger.info('Created Hyperliquid order record', {
-                dbOrderId,
-                hlOrderId: orderId,
-                status: dbOrder.status,
-              });
-            } catch (dbError) {
-              logger.error('Failed to create Hyperliquid order record', {
-                error: dbError,
-                orderId,
-                symbol: leg.symbol,
-              });
-              // Don't set dbOrderId, it will remain undefined
-            }
-            
-            executedOrders.push({
-              ...leg,
-              orderId: dbOrderId || 0, // Use database order ID or 0 if not created
-              orderType: 'hyperliquid',
-              entryPrice: avgFillPrice !== '0' ? avgFillPrice : '116000', // Use a reasonable default if no price
-              orderResult
-            });
-            
-          } else if (leg.dexType === 'drift') {
-            // For Drift, we need marketIndex
-            if (leg.marketIndex === undefined) {
-              throw new ApiError(
-                ErrorCode.INVALID_REQUEST,
-                `marketIndex is required for Drift orders. Please provide marketIndex for ${leg.symbol}`
-              );
-            }
-            
-            // Place order on Drift
-            const orderResult = await driftService.placeOrder(ctx, leg.dexAccountId, {
-              marketIndex: leg.marketIndex,
-              marketType: leg.marketType === 'perp' ? 'PERP' : 'SPOT',
-              direction: leg.side === 'short' ? 'short' : 'long',
-              amount: leg.size,
-              orderType: 'market', // Market order for immediate execution
-            });
-            
-            // Get the fill price from the order
-            const fillPrice = orderResult.averagePrice || orderResult.price || leg.entryPrice || '0';
-            
-            logger.info('Drift order placed successfully', {
-              orderId: orderResult.orderId,
-              fillPrice,
-              txSignature: orderResult.txSignature,
-            });
-            
-            executedOrders.push({
-              ...leg,
-              orderId: orderResult.orderId,
-              orderType: 'drift',
-              entryPrice: fillPrice !== '0' ? fillPrice : '116000', // Use a reasonable default if no price
-              orderResult
-            });
-          }
-          
-        } catch (error) {
-          logger.error('Failed to place order for leg', {
-            dexType: leg.dexType,
-            symbol: leg.symbol,
-            error: error instanceof Error ? error.message : error,
-            errorStack: error instanceof Error ? error.stack : undefined,
-            legDetails: leg,
-          });
-          
-          // Cancel any previously placed orders
-          for (const executedOrder of executedOrders) {
-            try {
-              if (executedOrder.orderType === 'hyperliquid') {
-                await hyperliquidService.cancelOrder(
-                  ctx,
-                  executedOrder.dexAccountId,
-                  {
-                    cancels: [{
-                      asset: executedOrder.symbol,
-                      assetId: executedOrder.assetId,
-                      orderId: executedOrder.orderId.toString()
-                    }]
-                  }
-                );
-              } else if (executedOrder.orderType === 'drift') {
-                await driftService.cancelOrder(
-                  ctx,
-                  executedOrder.dexAccountId,
-                  executedOrder.orderId
-                );
-              }
-            } catch (cancelError) {
-              logger.error('Failed to cancel order during rollback', {
-                orderId: executedOrder.orderId,
-                error: cancelError
-              });
-            }
-          }
-          
-          throw error;
-        }
-      }
-      
+    }
+    
+    // 2. Validate delta neutral position requirements
+    const hasLong = validated.legs.some(leg => leg.side === 'long' || leg.side === 'spot');
+    const hasShort = validated.legs.some(leg => leg.side === 'short');
+    
+    if (!hasLong || !hasShort) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        'Delta neutral positions must have one long/spot leg and one short leg'
+      );
+    }
+    
+    // 3. Validate all legs use the same underlying asset
+    const assetSymbols = validated.legs.map(leg => {
+      // Extract base asset from symbol (e.g., "ETH" from "ETH-PERP")
+      const baseAsset = leg.symbol.split('-')[0].toUpperCase();
+      return baseAsset;
+    });
+    
+    const uniqueAssets = [...new Set(assetSymbols)];
+    if (uniqueAssets.length > 1) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        `All legs must use the same underlying asset. Found: ${uniqueAssets.join(', ')}`
+      );
+    }
+    
+    // Verify the asset matches what was specified
+    if (uniqueAssets[0] !== validated.asset.toUpperCase()) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        `Asset mismatch: specified ${validated.asset} but legs use ${uniqueAssets[0]}`
+      );
+    }
+    
+    // 4. Validate position combinations
+    
+    // Find long/spot and short legs
+    const longLeg = validated.legs.find(leg => leg.side === 'long' || leg.side === 'spot');
+    const shortLeg = validated.legs.find(leg => leg.side === 'short');
+    
+    if (!longLeg || !shortLeg) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        'Delta neutral positions must have one long/spot leg and one short leg'
+      );
+    }
+    
+    // Validate spot positions can only use 'spot' side
+    if (longLeg.marketType === 'spot' && longLeg.side !== 'spot') {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        'Spot market positions must use side: "spot"'
+      );
+    }
+    
+    // Spot can only be on the long side of delta neutral
+    if (shortLeg.marketType === 'spot') {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        'Cannot short spot markets. Spot positions can only be on the long side.'
+      );
+    }
+    
+    // 5. Place both legs; a failed leg unwinds the ones already filled
+    const markets = validated.legs.map(leg => getExchangeAdapter(leg.dexType).resolveMarket({
+      symbol: leg.symbol,
+      metadata: {
+        marketType: leg.marketType,
+        assetId: leg.assetId,
+        marketIndex: leg.marketIndex,
+        marketId: leg.marketId,
+      },
+    }));
+    
+    const execution = await legExecutor.execute(ctx, {
+      kind: 'open',
+      legs: validated.legs.map((leg, index) => ({
+        dexType: leg.dexType,
+        dexAccountId: leg.dexAccountId,
+        market: markets[index],
+        side: leg.side === 'short' ? 'sell' as const : 'buy' as const,
+        size: leg.size,
+      })),
+    });
+    
+    if (execution.status !== 'completed') {
+      throw new ApiError(
+        ErrorCode.ORDER_REJECTED,
+        execution.status === 'unwind_failed'
+          ? `Position could not be opened and unwinding the filled legs failed: ${execution.error}`
+          : `Position could not be opened: ${execution.error}`,
+        execution.status === 'unwind_failed' ? 500 : 400,
+        { executionId: execution.executionId, status: execution.status, steps: execution.steps }
+      );
+    }
+    
+    const executedOrders = validated.legs.map((leg, index) => ({
+      ...leg,
+      market: markets[index],
+      placed: execution.legs[index].placed!,
+      entryPrice: execution.legs[index].fillPrice !== '0' ? execution.legs[index].fillPrice : leg.entryPrice || '0',
+    }));
+    
+    // Start a database transaction
+    const result = await db.transaction(async () => {
       // 6. Create the position (always delta_neutral)
       const position = await db.createPosition({
         userId: ctx.userId!,
         positionType: 'delta_neutral',
         name: validated.name,
+        fundingOptimizationEnabled: validated.fundingOptimizationEnabled,
         metadata: {
           asset: validated.asset,
           ...validated.metadata,
@@ -384,19 +226,23 @@ export const createPositionHandler = async (
             currentPrice: executedOrder.entryPrice, // Initially same as entry
             size: executedOrder.size,
             notionalValue,
-            hyperliquidOrderId: executedOrder.orderType === 'hyperliquid' && executedOrder.orderId > 0 ? executedOrder.orderId : undefined,
-            driftOrderId: executedOrder.orderType === 'drift' && executedOrder.orderId > 0 ? executedOrder.orderId : undefined,
+            hyperliquidOrderId: executedOrder.dexType === 'hyperliquid' ? executedOrder.placed.orderId : undefined,
+            driftOrderId: executedOrder.dexType === 'drift' ? executedOrder.placed.orderId : undefined,
+            lighterOrderId: executedOrder.dexType === 'lighter' ? executedOrder.placed.orderId : undefined,
             metadata: {
               marketType: executedOrder.marketType,
-              assetId: executedOrder.assetId,
-              marketIndex: executedOrder.marketIndex,
-              orderResult: executedOrder.orderResult,
+              assetId: executedOrder.market.assetId,
+              marketIndex: executedOrder.market.marketIndex,
+              marketId: executedOrder.market.marketId,
+              orderResult: executedOrder.placed.raw,
               ...executedOrder.metadata,
             },
           });
         })
       );
       
+      await legExecutor.linkPosition(execution.executionId, position.id);
+      
       // 8. Return the complete position with snapshots
       return {
         ...position,
@@ -414,6 +260,7 @@ export const createPositionHandler = async (
           notionalValue: snapshot.notionalValue,
           metadata: snapshot.metadata,
         })),
+        executionId: execution.executionId,
       };
     });
     
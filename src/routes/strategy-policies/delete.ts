@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import { DatabaseRepository } from '@/db/repository';
+import { ApiResponse, RequestContext, ApiError, ErrorCode } from '@/types/common';
+import { z } from 'zod';
+import { logger } from '@/utils/logger';
+
+const db = new DatabaseRepository();
+
+export const deleteStrategyPolicyParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/).transform(Number),
+});
+
+export type DeleteStrategyPolicyParams = z.infer<typeof deleteStrategyPolicyParamsSchema>;
+
+/**
+ * Delete a strategy policy - the position or user falls back to the next policy layer
+ * DELETE /api/strategy-policies/:id
+ */
+export const deleteStrategyPolicyHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { id } = req.params as unknown as DeleteStrategyPolicyParams;
+
+    const policy = await db.getStrategyPolicy(Number(id));
+
+    if (!policy) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Strategy policy not found', 404);
+    }
+
+    if (policy.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'You do not have permission to delete this strategy policy', 403);
+    }
+
+    await db.deleteStrategyPolicy(policy.id);
+
+    logger.info('Strategy policy deleted', {
+      policyId: policy.id,
+      userId: ctx.userId,
+      positionId: policy.positionId,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: 'Strategy policy deleted successfully',
+        deletedPolicy: policy,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
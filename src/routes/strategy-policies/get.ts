@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from 'express';
+import { DatabaseRepository } from '@/db/repository';
+import { ApiResponse, RequestContext, ApiError, ErrorCode } from '@/types/common';
+import { z } from 'zod';
+
+const db = new DatabaseRepository();
+
+/**
+ * Validation schemas for getting strategy policies
+ */
+export const getStrategyPoliciesQuerySchema = z.object({
+  positionId: z.string().regex(/^\d+$/).transform(Number).optional(),
+});
+
+export const getStrategyPolicyParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/).transform(Number),
+});
+
+export type GetStrategyPoliciesQuery = z.infer<typeof getStrategyPoliciesQuerySchema>;
+export type GetStrategyPolicyParams = z.infer<typeof getStrategyPolicyParamsSchema>;
+
+/**
+ * List the user's strategy policies
+ * GET /api/strategy-policies
+ */
+export const getStrategyPoliciesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const query = req.query as unknown as GetStrategyPoliciesQuery;
+
+    const policies = await db.getUserStrategyPolicies(ctx.userId!, query.positionId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: policies,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a single strategy policy
+ * GET /api/strategy-policies/:id
+ */
+export const getStrategyPolicyHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { id } = req.params as unknown as GetStrategyPolicyParams;
+
+    const policy = await db.getStrategyPolicy(Number(id));
+
+    if (!policy) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Strategy policy not found', 404);
+    }
+
+    if (policy.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'You do not have permission to view this strategy policy', 403);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: policy,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { authenticateUser } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import {
+  getStrategyPoliciesHandler,
+  getStrategyPoliciesQuerySchema,
+  getStrategyPolicyHandler,
+  getStrategyPolicyParamsSchema,
+} from './get';
+import { createStrategyPolicyHandler, createStrategyPolicyBodySchema } from './post';
+import { updateStrategyPolicyHandler, updateStrategyPolicyParamsSchema, updateStrategyPolicyBodySchema } from './patch';
+import { deleteStrategyPolicyHandler, deleteStrategyPolicyParamsSchema } from './delete';
+
+const router = Router();
+
+/**
+ * Apply authentication middleware to all strategy policy routes
+ */
+router.use(authenticateUser);
+
+/**
+ * GET /api/strategy-policies?positionId=
+ * List the user's strategy policies
+ */
+router.get(
+  '/',
+  validateRequest({
+    query: getStrategyPoliciesQuerySchema,
+  }),
+  getStrategyPoliciesHandler
+);
+
+/**
+ * GET /api/strategy-policies/:id
+ * Get a strategy policy
+ */
+router.get(
+  '/:id',
+  validateRequest({
+    params: getStrategyPolicyParamsSchema,
+  }),
+  getStrategyPolicyHandler
+);
+
+/**
+ * POST /api/strategy-policies
+ * Create the user-wide policy, or a policy for one position
+ */
+router.post(
+  '/',
+  validateRequest({
+    body: createStrategyPolicyBodySchema,
+  }),
+  createStrategyPolicyHandler
+);
+
+/**
+ * PATCH /api/strategy-policies/:id
+ * Update a strategy policy
+ */
+router.patch(
+  '/:id',
+  validateRequest({
+    params: updateStrategyPolicyParamsSchema,
+    body: updateStrategyPolicyBodySchema,
+  }),
+  updateStrategyPolicyHandler
+);
+
+/**
+ * DELETE /api/strategy-policies/:id
+ * Delete a strategy policy
+ */
+router.delete(
+  '/:id',
+  validateRequest({
+    params: deleteStrategyPolicyParamsSchema,
+  }),
+  deleteStrategyPolicyHandler
+);
+
+export default router;
@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { DatabaseRepository } from '@/db/repository';
+import { ApiResponse, RequestContext, ApiError, ErrorCode } from '@/types/common';
+import { z } from 'zod';
+import { logger } from '@/utils/logger';
+import { strategyPolicyFieldsSchema, StrategyPolicyFields, toStrategyPolicyColumns } from './post';
+
+const db = new DatabaseRepository();
+
+/**
+ * Validation schemas for updating a strategy policy
+ */
+export const updateStrategyPolicyParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/).transform(Number),
+});
+
+export const updateStrategyPolicyBodySchema = strategyPolicyFieldsSchema;
+
+export type UpdateStrategyPolicyParams = z.infer<typeof updateStrategyPolicyParamsSchema>;
+
+/**
+ * Update a strategy policy. Fields set to null fall back to the user policy / engine defaults.
+ * PATCH /api/strategy-policies/:id
+ */
+export const updateStrategyPolicyHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const { id } = req.params as unknown as UpdateStrategyPolicyParams;
+    const body = req.body as StrategyPolicyFields;
+
+    const policy = await db.getStrategyPolicy(Number(id));
+
+    if (!policy) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Strategy policy not found', 404);
+    }
+
+    if (policy.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'You do not have permission to update this strategy policy', 403);
+    }
+
+    const updated = await db.updateStrategyPolicy(policy.id, toStrategyPolicyColumns(body));
+
+    logger.info('Strategy policy updated', {
+      policyId: policy.id,
+      userId: ctx.userId,
+      fields: Object.keys(body),
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: updated,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express';
+import { DatabaseRepository } from '@/db/repository';
+import { ApiResponse, RequestContext, ApiError, ErrorCode } from '@/types/common';
+import { z } from 'zod';
+import { logger } from '@/utils/logger';
+import { dexTypeEnum } from '@/db/schema';
+
+const db = new DatabaseRepository();
+
+/**
+ * Policy rules - every field is optional, and null inherits from the user policy / engine defaults
+ */
+export const strategyPolicyFieldsSchema = z.object({
+  name: z.string().min(1).nullable().optional(),
+  rateBandHourly: z.number().nonnegative().nullable().optional(), // Hourly decimal, 0.0001 = 0.01%/h
+  horizonHours: z.number().positive().nullable().optional(),
+  minHoldHours: z.number().nonnegative().nullable().optional(),
+  slippageBps: z.number().nonnegative().nullable().optional(),
+  maxFlipsPerDay: z.number().int().nonnegative().nullable().optional(),
+  maxNotionalPerFlip: z.number().positive().nullable().optional(), // USD
+  allowedVenues: z.array(z.enum(dexTypeEnum.enumValues)).min(1).nullable().optional(),
+  onUnfavorable: z.enum(['flip', 'close']).nullable().optional(),
+  deltaTolerance: z.number().positive().max(1).nullable().optional(), // Share of the hedged size, 0.02 = 2%
+  deltaCorrection: z.enum(['reduce', 'add']).nullable().optional(),
+  minLiquidationDistance: z.number().positive().max(1).nullable().optional(), // Share of the mark price, 0.1 = 10%
+  onLiquidationRisk: z.enum(['top_up', 'deleverage']).nullable().optional(),
+});
+
+export type StrategyPolicyFields = z.infer<typeof strategyPolicyFieldsSchema>;
+
+/**
+ * Validation schema for creating a strategy policy
+ */
+export const createStrategyPolicyBodySchema = strategyPolicyFieldsSchema.extend({
+  positionId: z.number().int().positive().optional(), // Omit for the user-wide policy
+});
+
+export type CreateStrategyPolicyBody = z.infer<typeof createStrategyPolicyBodySchema>;
+
+/**
+ * Map validated fields to column values (numeric columns are stored as strings)
+ */
+export const toStrategyPolicyColumns = (fields: StrategyPolicyFields) => {
+  const numeric = (value: number | null | undefined) =>
+    value === undefined ? undefined : value === null ? null : value.toString();
+
+  return {
+    name: fields.name,
+    rateBandHourly: numeric(fields.rateBandHourly),
+    horizonHours: numeric(fields.horizonHours),
+    minHoldHours: numeric(fields.minHoldHours),
+    slippageBps: numeric(fields.slippageBps),
+    maxFlipsPerDay: fields.maxFlipsPerDay,
+    maxNotionalPerFlip: numeric(fields.maxNotionalPerFlip),
+    allowedVenues: fields.allowedVenues,
+    onUnfavorable: fields.onUnfavorable,
+    deltaTolerance: numeric(fields.deltaTolerance),
+    deltaCorrection: fields.deltaCorrection,
+    minLiquidationDistance: numeric(fields.minLiquidationDistance),
+    onLiquidationRisk: fields.onLiquidationRisk,
+  };
+};
+
+/**
+ * Create a strategy policy for the user or for one of their positions
+ * POST /api/strategy-policies
+ */
+export const createStrategyPolicyHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+    const body = req.body as CreateStrategyPolicyBody;
+    const positionId = body.positionId ?? null;
+
+    if (positionId !== null) {
+      const position = await db.getPositionWithSnapshots(positionId);
+      if (!position) {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Position not found', 404);
+      }
+      if (position.userId !== ctx.userId) {
+        throw new ApiError(ErrorCode.FORBIDDEN, 'You do not have permission to configure this position', 403);
+      }
+    }
+
+    const existing = await db.getStrategyPolicyForScope(ctx.userId!, positionId);
+    if (existing) {
+      throw new ApiError(
+        ErrorCode.CONFLICT,
+        positionId !== null
+          ? `Position ${positionId} already has a strategy policy (${existing.id})`
+          : `A user-wide strategy policy already exists (${existing.id})`,
+        409
+      );
+    }
+
+    const policy = await db.createStrategyPolicy({
+      userId: ctx.userId!,
+      positionId,
+      ...toStrategyPolicyColumns(body),
+    });
+
+    logger.info('Strategy policy created', {
+      policyId: policy.id,
+      userId: ctx.userId,
+      positionId,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: policy,
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { authenticateUser } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { getTelegramStatusHandler, createTelegramLinkHandler, deleteTelegramLinkHandler } from './link';
+import { telegramWebhookHandler, telegramWebhookBodySchema } from './webhook';
+
+const router = Router();
+
+/**
+ * GET /api/telegram
+ * Get whether the authenticated user has linked a Telegram chat
+ * Requires authentication
+ */
+router.get(
+  '/',
+  authenticateUser,
+  getTelegramStatusHandler
+);
+
+/**
+ * POST /api/telegram/link
+ * Create a one-time t.me link that connects the user's chat when opened
+ * Requires authentication
+ */
+router.post(
+  '/link',
+  authenticateUser,
+  createTelegramLinkHandler
+);
+
+/**
+ * DELETE /api/telegram/link
+ * Disconnect the user's Telegram chat
+ * Requires authentication
+ */
+router.delete(
+  '/link',
+  authenticateUser,
+  deleteTelegramLinkHandler
+);
+
+/**
+ * POST /api/telegram/webhook
+ * Bot API updates, authenticated by the X-Telegram-Bot-Api-Secret-Token header
+ */
+router.post(
+  '/webhook',
+  validateRequest({
+    body: telegramWebhookBodySchema,
+  }),
+  telegramWebhookHandler
+);
+
+export default router;
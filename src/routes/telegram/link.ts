@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse, RequestContext } from '@/types/common';
+import { NotificationService } from '@/services/notifications';
+import { logger } from '@/utils/logger';
+
+const notificationService = new NotificationService();
+
+/**
+ * Get whether the user has linked a Telegram chat
+ * GET /api/telegram
+ */
+export const getTelegramStatusHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+
+    const status = await notificationService.getTelegramStatus(ctx);
+
+    const response: ApiResponse = {
+      success: true,
+      data: status,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a one-time link to connect the user's Telegram chat to the bot
+ * POST /api/telegram/link
+ */
+export const createTelegramLinkHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+
+    const link = await notificationService.createTelegramLinkCode(ctx);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        code: link.code,
+        url: link.url,
+        expiresAt: link.expiresAt.toISOString(),
+      },
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Disconnect the user's Telegram chat - no further alerts are sent
+ * DELETE /api/telegram/link
+ */
+export const deleteTelegramLinkHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ctx = req.context as RequestContext;
+
+    await notificationService.unlinkTelegram(ctx);
+
+    logger.info('Telegram chat unlinked', { userId: ctx.userId });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        message: 'Telegram unlinked successfully',
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
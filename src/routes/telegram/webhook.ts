@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiError, ApiResponse, ErrorCode } from '@/types/common';
+import { z } from 'zod';
+import { NotificationService } from '@/services/notifications';
+import { SecretsService } from '@/services/secrets';
+import { TelegramUpdate } from '@/services/telegram';
+
+const notificationService = new NotificationService();
+
+// Digests have the same byte length whatever was sent, so timingSafeEqual can always compare them
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Validation schema for Bot API updates - fields the bot does not read are kept as sent
+ */
+export const telegramWebhookBodySchema = z.object({
+  update_id: z.number().int(),
+}).passthrough();
+
+/**
+ * Receive an update from the Telegram bot
+ * POST /api/telegram/webhook
+ */
+export const telegramWebhookHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // Set on the webhook by `npm run telegram:webhook`
+    const secret = process.env.TELEGRAM_WEBHOOK_SECRET || await SecretsService.getSecret('telegram_webhook_secret');
+    const provided = req.header('X-Telegram-Bot-Api-Secret-Token') || '';
+
+    if (!secret || !timingSafeEqual(digest(provided), digest(secret))) {
+      throw new ApiError(ErrorCode.UNAUTHORIZED, 'Invalid webhook secret', 401);
+    }
+
+    await notificationService.handleTelegramUpdate(req.body as TelegramUpdate);
+
+    const response: ApiResponse = {
+      success: true,
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,93 @@
+import { readFile, writeFile } from 'fs/promises';
+import { queryClient } from '../db/connection';
+import { BacktestService } from '../services/backtest';
+import { BacktestReport, BacktestStrategy, FundingSample } from '../types/backtest';
+import { logger } from '../utils/logger';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Replay funding history through one or more strategy configurations and write a JSON report.
+ * History comes from a fixture file, or from the funding_rates table when no fixture is given.
+ *
+ * Usage: npm run backtest -- --config=strategies.json [-- --fixture=rates.csv]
+ *        [-- --from=2025-01-01] [-- --to=2025-02-01] [-- --out=report.json]
+ */
+async function backtest() {
+  const arg = (name: string) => {
+    const value = process.argv.find(candidate => candidate.startsWith(`--${name}=`));
+    return value?.slice(value.indexOf('=') + 1);
+  };
+  const configPath = arg('config');
+  const fixturePath = arg('fixture');
+  const outPath = arg('out');
+  const to = arg('to') ? new Date(arg('to')!) : new Date();
+  const from = arg('from') ? new Date(arg('from')!) : new Date(to.getTime() - 30 * DAY_MS);
+
+  if (!configPath) {
+    logger.error('Missing --config=<strategies.json>');
+    process.exit(1);
+  }
+
+  try {
+    const service = new BacktestService();
+    const config = JSON.parse(await readFile(configPath, 'utf8'));
+    const strategies: BacktestStrategy[] = Array.isArray(config) ? config : [config];
+
+    let samples: FundingSample[] = [];
+    if (fixturePath) {
+      samples = await service.loadFixture(fixturePath);
+    } else {
+      const assets = [...new Set(strategies.map(strategy => strategy.asset.toUpperCase()))];
+      for (const asset of assets) {
+        const dexTypes = [...new Set(strategies
+          .filter(strategy => strategy.asset.toUpperCase() === asset)
+          .flatMap(strategy => strategy.legs.map(leg => leg.dexType)))];
+        samples.push(...await service.loadHistory({ asset, dexTypes, from, to }));
+      }
+    }
+
+    const report: BacktestReport = {
+      generatedAt: new Date().toISOString(),
+      source: fixturePath ? 'fixture' : 'database',
+      from: fixturePath ? null : from.toISOString(),
+      to: fixturePath ? null : to.toISOString(),
+      results: strategies.map(strategy => service.run(strategy, samples)),
+    };
+
+    for (const result of report.results) {
+      logger.info(`Backtest ${result.name}`, {
+        asset: result.asset,
+        hours: result.hours,
+        pnlUsd: result.pnlUsd.toFixed(2),
+        fundingUsd: result.fundingUsd.toFixed(2),
+        feesUsd: result.feesUsd.toFixed(2),
+        flips: result.flips,
+        maxDrawdownPct: (result.maxDrawdownPct * 100).toFixed(2),
+      });
+    }
+
+    const json = JSON.stringify(report, null, 2);
+    if (outPath) {
+      await writeFile(outPath, json);
+      logger.info(`Backtest report written to ${outPath}`);
+    } else {
+      console.log(json);
+    }
+
+    if (!fixturePath) {
+      await queryClient?.end();
+    }
+    process.exit(0);
+  } catch (error) {
+    logger.error('Backtest failed', { error: error instanceof Error ? error.message : error });
+    await queryClient?.end();
+    process.exit(1);
+  }
+}
+
+// Run backtest
+backtest();
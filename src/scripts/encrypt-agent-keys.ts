@@ -0,0 +1,91 @@
+import { ethers } from 'ethers';
+import { queryClient } from '../db/connection';
+import { DatabaseRepository } from '../db/repository';
+import { KeyCustodyService, keyCustodyService } from '../services/key-custody';
+import { logger } from '../utils/logger';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+const BATCH_SIZE = 100;
+
+/**
+ * One-off migration: envelope-encrypt every plain-text agent private key in dex_accounts.
+ * Safe to re-run - rows that are already encrypted are skipped.
+ *
+ * Usage: npm run keys:encrypt [-- --dry-run]
+ */
+async function encryptAgentKeys() {
+  const dryRun = process.argv.includes('--dry-run');
+  const db = new DatabaseRepository();
+
+  let lastId = 0;
+  let encrypted = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  try {
+    logger.info('Starting agent key encryption migration...', { dryRun });
+
+    while (true) {
+      const accounts = await db.getDexAccountsWithStoredKeys(lastId, BATCH_SIZE);
+      if (accounts.length === 0) {
+        break;
+      }
+
+      for (const account of accounts) {
+        lastId = account.id;
+        const stored = account.encryptedPrivateKey!;
+
+        if (KeyCustodyService.isEncrypted(stored)) {
+          skipped++;
+          continue;
+        }
+
+        try {
+          // Refuse to encrypt anything that does not derive to the account address
+          const privateKey = stored.startsWith('0x') ? stored : `0x${stored}`;
+          const derivedAddress = new ethers.Wallet(privateKey).address;
+          if (derivedAddress.toLowerCase() !== account.address.toLowerCase()) {
+            throw new Error('Stored private key does not derive to the account address');
+          }
+
+          const encryptedKey = await keyCustodyService.encryptForStorage(stored, account.address);
+
+          // Verify the round trip before overwriting the plain-text value
+          const roundTrip = await keyCustodyService.decryptPrivateKey(
+            encryptedKey.encryptedPrivateKey,
+            account.address
+          );
+          if (roundTrip !== stored) {
+            throw new Error('Round-trip decryption mismatch');
+          }
+
+          if (!dryRun) {
+            await db.swapDexAccountPrivateKey(account.id, stored, encryptedKey);
+          }
+          encrypted++;
+        } catch (error) {
+          failed++;
+          logger.error('Failed to encrypt agent key', {
+            accountId: account.id,
+            address: account.address,
+            error: error instanceof Error ? error.message : error,
+          });
+        }
+      }
+    }
+
+    logger.info('Agent key encryption migration completed', { dryRun, encrypted, skipped, failed });
+
+    await queryClient?.end();
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error('Agent key encryption migration failed', { error, lastId });
+    await queryClient?.end();
+    process.exit(1);
+  }
+}
+
+// Run migration
+encryptAgentKeys();
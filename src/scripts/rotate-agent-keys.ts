@@ -0,0 +1,32 @@
+import { queryClient } from '../db/connection';
+import { KeyRotationService } from '../services/key-rotation';
+import { logger } from '../utils/logger';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Re-encrypt all stored agent keys under the active master key version.
+ * Resumable - re-running only touches rows that are not yet on the active version.
+ *
+ * Usage: npm run keys:rotate [-- --dry-run] [-- --batch-size=100]
+ */
+async function rotateAgentKeys() {
+  const dryRun = process.argv.includes('--dry-run');
+  const batchSizeArg = process.argv.find(arg => arg.startsWith('--batch-size='));
+  const batchSize = batchSizeArg ? parseInt(batchSizeArg.split('=')[1], 10) : undefined;
+
+  try {
+    const result = await new KeyRotationService().rotateAgentKeys({ batchSize, dryRun });
+
+    await queryClient?.end();
+    process.exit(result.failed > 0 ? 1 : 0);
+  } catch (error) {
+    logger.error('Agent key rotation failed', { error });
+    await queryClient?.end();
+    process.exit(1);
+  }
+}
+
+// Run rotation
+rotateAgentKeys();
@@ -0,0 +1,34 @@
+import { TelegramService } from '../services/telegram';
+import { logger } from '../utils/logger';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Point the Telegram bot's webhook at this API, signed with TELEGRAM_WEBHOOK_SECRET.
+ *
+ * Usage: npm run telegram:webhook -- https://<api-host>
+ */
+async function setTelegramWebhook() {
+  const baseUrl = process.argv[2];
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+
+  if (!baseUrl || !secret) {
+    logger.error('Usage: npm run telegram:webhook -- https://<api-host> (requires TELEGRAM_WEBHOOK_SECRET)');
+    process.exit(1);
+  }
+
+  try {
+    const url = `${baseUrl.replace(/\/+$/, '')}/api/telegram/webhook`;
+    await new TelegramService().setWebhook(url, secret);
+
+    logger.info('Telegram webhook set', { url });
+    process.exit(0);
+  } catch (error) {
+    logger.error('Failed to set Telegram webhook', { error });
+    process.exit(1);
+  }
+}
+
+// Set webhook
+setTelegramWebhook();
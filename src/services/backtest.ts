@@ -0,0 +1,294 @@
+import { readFile } from 'fs/promises';
+import { DatabaseRepository } from '@/db/repository';
+import { getDefaultRebalancePolicy, RebalancePolicy } from '@/config/rebalance.config';
+import {
+  DecisionLeg,
+  DecisionRate,
+  evaluateFundingClose,
+  evaluateRebalance,
+  legNotionalUsd,
+  orderCostUsd,
+} from '@/services/rebalance-decision';
+import { BacktestAction, BacktestResult, BacktestStrategy, FundingSample } from '@/types/backtest';
+import { DexType } from '@/types/exchange';
+
+const HOUR_MS = 3_600_000;
+
+interface SimulatedLeg extends DecisionLeg {
+  side: 'long' | 'short';
+  entryPrice: number;
+}
+
+/**
+ * Replays funding history through the same decision rules as the funding engine
+ */
+export class BacktestService {
+  private db: DatabaseRepository;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+  }
+
+  /**
+   * Hourly averages of the funding rates recorded by the collector job
+   */
+  async loadHistory(query: { asset: string; dexTypes: DexType[]; from: Date; to: Date }): Promise<FundingSample[]> {
+    const rows = await this.db.getHourlyFundingSamples(query);
+
+    return rows.map(row => ({
+      time: new Date(row.hour),
+      dexType: row.dexType,
+      asset: query.asset.toUpperCase(),
+      hourlyRate: parseFloat(row.hourlyRate),
+      predictedHourlyRate: row.predictedHourlyRate !== null ? parseFloat(row.predictedHourlyRate) : null,
+      markPrice: row.markPrice !== null ? parseFloat(row.markPrice) : null,
+    }));
+  }
+
+  /**
+   * Load samples from a JSON array or a CSV file with a header row.
+   * Columns: time, dexType, asset, hourlyRate, predictedHourlyRate (optional), markPrice (optional)
+   */
+  async loadFixture(path: string): Promise<FundingSample[]> {
+    const content = await readFile(path, 'utf8');
+
+    const records: Array<Record<string, unknown>> = path.toLowerCase().endsWith('.csv')
+      ? this.parseCsv(content)
+      : JSON.parse(content);
+
+    if (!Array.isArray(records)) {
+      throw new Error(`Fixture ${path} must contain an array of samples`);
+    }
+
+    return records.map((record, index) => {
+      const time = new Date(String(record.time));
+      const hourlyRate = Number(record.hourlyRate);
+      if (isNaN(time.getTime()) || !Number.isFinite(hourlyRate) || !record.dexType || !record.asset) {
+        throw new Error(`Invalid sample ${index} in ${path}`);
+      }
+
+      return {
+        time,
+        dexType: String(record.dexType) as DexType,
+        asset: String(record.asset).toUpperCase(),
+        hourlyRate,
+        predictedHourlyRate: this.optionalNumber(record.predictedHourlyRate),
+        markPrice: this.optionalNumber(record.markPrice),
+      };
+    });
+  }
+
+  /**
+   * Replay one strategy hour by hour. Each hour the position is marked, the decision rules run
+   * against that hour's rates, and funding accrues on the legs held after any action.
+   * The engine's rule (`evaluateRebalance`) runs first; with `fundingMonitorClose`, the funding
+   * monitor's close rule (`evaluateFundingClose`) then runs on the legs it left.
+   */
+  run(strategy: BacktestStrategy, samples: FundingSample[]): BacktestResult {
+    const policy: RebalancePolicy = { ...getDefaultRebalancePolicy(), ...strategy.policy };
+    const asset = strategy.asset.toUpperCase();
+
+    const hours = new Map<number, Map<DexType, FundingSample>>();
+    for (const sample of samples) {
+      if (sample.asset !== asset) {
+        continue;
+      }
+
+      const hour = Math.floor(sample.time.getTime() / HOUR_MS) * HOUR_MS;
+      const venues = hours.get(hour) || new Map<DexType, FundingSample>();
+      venues.set(sample.dexType, sample);
+      hours.set(hour, venues);
+    }
+
+    const result: BacktestResult = {
+      name: strategy.name,
+      asset,
+      policy,
+      openedAt: null,
+      closedAt: null,
+      hours: 0,
+      pnlUsd: 0,
+      fundingUsd: 0,
+      feesUsd: 0,
+      slippageUsd: 0,
+      pricePnlUsd: 0,
+      flips: 0,
+      maxDrawdownUsd: 0,
+      maxDrawdownPct: 0,
+      actions: [],
+    };
+
+    const lastPrices = new Map<DexType, number>();
+    const flipTimes: number[] = [];
+    let legs: SimulatedLeg[] = [];
+    let realizedPricePnl = 0;
+    let peakEquity = 0;
+
+    const payCosts = (orders: SimulatedLeg[]) => {
+      let cost = 0;
+      for (const order of orders) {
+        const { feeUsd, slippageUsd } = orderCostUsd(order.dexType, legNotionalUsd(order), policy.slippageBps);
+        result.feesUsd += feeUsd;
+        result.slippageUsd += slippageUsd;
+        cost += feeUsd + slippageUsd;
+      }
+      return cost;
+    };
+
+    for (const hour of [...hours.keys()].sort((a, b) => a - b)) {
+      const venues = hours.get(hour)!;
+      const now = new Date(hour);
+
+      for (const [dexType, sample] of venues) {
+        if (sample.markPrice !== null) {
+          lastPrices.set(dexType, sample.markPrice);
+        }
+      }
+
+      // Venues without a price of their own are marked at another venue's price for the asset
+      const priceFor = (dexType: DexType) => lastPrices.get(dexType) ?? [...lastPrices.values()][0];
+
+      if (legs.length === 0) {
+        const prices = strategy.legs.map(leg => priceFor(leg.dexType));
+        if (prices.some(price => price === undefined)) {
+          continue;
+        }
+
+        legs = strategy.legs.map((leg, index) => ({
+          id: index,
+          dexType: leg.dexType,
+          side: leg.side,
+          size: strategy.notionalUsd / prices[index]!,
+          price: prices[index]!,
+          entryPrice: prices[index]!,
+          openedAt: now,
+        }));
+        result.openedAt = now.toISOString();
+        payCosts(legs);
+      }
+
+      for (const leg of legs) {
+        leg.price = priceFor(leg.dexType)!;
+      }
+
+      const rates = new Map<number, DecisionRate>();
+      for (const leg of legs) {
+        const sample = venues.get(leg.dexType);
+        if (sample) {
+          rates.set(leg.id, { currentHourly: sample.hourlyRate, predictedHourly: sample.predictedHourlyRate });
+        }
+      }
+
+      const { decision } = evaluateRebalance({
+        legs,
+        rates,
+        policy,
+        now,
+        flipsInLastDay: flipTimes.filter(time => time > hour - 24 * HOUR_MS).length,
+      });
+
+      if (decision) {
+        const leg = legs.find(candidate => candidate.id === decision.legId)!;
+        const action: BacktestAction = {
+          time: now.toISOString(),
+          source: 'engine',
+          action: decision.action,
+          dexType: leg.dexType,
+          side: leg.side,
+          currentFundingRate: decision.currentFundingRate,
+          expectedFundingRate: decision.expectedFundingRate,
+          costUsd: 0,
+        };
+
+        if (decision.action === 'flip') {
+          realizedPricePnl += this.legPricePnl(leg);
+          action.costUsd = payCosts([leg, leg]);
+          leg.side = leg.side === 'long' ? 'short' : 'long';
+          leg.entryPrice = leg.price;
+          leg.openedAt = now;
+          flipTimes.push(hour);
+          result.flips++;
+        } else {
+          realizedPricePnl += legs.reduce((pnl, open) => pnl + this.legPricePnl(open), 0);
+          action.costUsd = payCosts(legs);
+          result.closedAt = now.toISOString();
+        }
+
+        result.actions.push(action);
+      }
+
+      const monitorClose = strategy.fundingMonitorClose && !result.closedAt
+        ? evaluateFundingClose(legs, new Map([...rates].map(([legId, rate]) => [legId, rate.currentHourly])))
+        : null;
+      if (monitorClose) {
+        const leg = legs.find(candidate => candidate.id === monitorClose.legId)!;
+        realizedPricePnl += legs.reduce((pnl, open) => pnl + this.legPricePnl(open), 0);
+        result.actions.push({
+          time: now.toISOString(),
+          source: 'funding_monitor',
+          action: 'close',
+          dexType: leg.dexType,
+          side: leg.side,
+          currentFundingRate: monitorClose.fundingRate,
+          expectedFundingRate: monitorClose.fundingRate,
+          costUsd: payCosts(legs),
+        });
+        result.closedAt = now.toISOString();
+      }
+
+      if (!result.closedAt) {
+        // Positive funding: longs pay shorts
+        for (const leg of legs) {
+          const rate = rates.get(leg.id);
+          if (rate) {
+            result.fundingUsd -= (leg.side === 'long' ? 1 : -1) * rate.currentHourly * legNotionalUsd(leg);
+          }
+        }
+        result.hours++;
+      }
+
+      const unrealized = result.closedAt ? 0 : legs.reduce((pnl, leg) => pnl + this.legPricePnl(leg), 0);
+      result.pricePnlUsd = realizedPricePnl + unrealized;
+      result.pnlUsd = result.fundingUsd + result.pricePnlUsd - result.feesUsd - result.slippageUsd;
+
+      const equity = strategy.notionalUsd * legs.length + result.pnlUsd;
+      peakEquity = Math.max(peakEquity, equity);
+      if (peakEquity - equity > result.maxDrawdownUsd) {
+        result.maxDrawdownUsd = peakEquity - equity;
+        result.maxDrawdownPct = result.maxDrawdownUsd / peakEquity;
+      }
+
+      if (result.closedAt) {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  private legPricePnl(leg: SimulatedLeg): number {
+    return (leg.side === 'long' ? 1 : -1) * leg.size * (leg.price - leg.entryPrice);
+  }
+
+  private parseCsv(content: string): Array<Record<string, string>> {
+    const [header, ...lines] = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.split(',').map(column => column.trim());
+    return lines.map(line => {
+      const values = line.split(',');
+      return Object.fromEntries(columns.map((column, index) => [column, (values[index] ?? '').trim()]));
+    });
+  }
+
+  private optionalNumber(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+}
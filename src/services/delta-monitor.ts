@@ -0,0 +1,350 @@
+import { DatabaseRepository } from '@/db/repository';
+import { positionSnapshots } from '@/db/schema';
+import { getExchangeAdapter } from '@/services/exchanges/registry';
+import { LegExecutionCoordinator } from '@/services/leg-executor';
+import { StrategyPolicyService } from '@/services/strategy-policies';
+import { DistributedLockService } from '@/services/distributed-lock';
+import { RebalancePolicy } from '@/config/rebalance.config';
+import { RequestContext } from '@/types/common';
+import { MarketRef } from '@/types/exchange';
+import { LegOrder } from '@/types/execution';
+import { JobPositionOutcome } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+// Smallest correction worth placing; venues reject orders below ~$10 notional
+const MIN_CORRECTION_USD = 10;
+// Decimals kept on correction sizes
+const SIZE_DECIMALS = 6;
+
+type Snapshot = typeof positionSnapshots.$inferSelect;
+type PositionLeg = NonNullable<Awaited<ReturnType<DatabaseRepository['getPositionWithSnapshots']>>>['snapshots'][number];
+
+/**
+ * A leg with its recorded and live signed size in base units (long positive, short negative)
+ */
+interface LegExposure {
+  snapshot: Snapshot;
+  market: MarketRef;
+  recorded: number;
+  live: number;
+}
+
+/**
+ * A corrective order for one leg
+ */
+interface DeltaCorrection {
+  leg: LegExposure;
+  action: RebalancePolicy['deltaCorrection'];
+  side: 'buy' | 'sell';
+  size: number;
+}
+
+export interface DeltaMonitorResult {
+  checkedPositions: number;
+  imbalanced: number; // Positions whose net exposure was beyond their tolerance
+  corrected: number;
+  dryRun: boolean;
+  outcomes: JobPositionOutcome[]; // One per checked position
+}
+
+/**
+ * Delta Monitor Service
+ *
+ * Measures the net base-asset exposure of every open delta neutral position from the sizes held
+ * on each venue. When the net exposure is beyond the position's `deltaTolerance` (a share of the
+ * hedged size), one corrective market order is placed through the leg executor and recorded as a
+ * `rebalance` execution with reason `delta_drift`:
+ * - `deltaCorrection: 'reduce'` trims the leg that grew most on the over-exposed side, reduce-only
+ * - `deltaCorrection: 'add'` tops up the leg that shrank most on the under-exposed side
+ *
+ * Spot legs count at their recorded size and are never traded. Positions with legs on more than one
+ * asset, a leg missing on its venue, or a leg whose venue market also holds other legs are skipped.
+ */
+export class DeltaMonitorService {
+  private db: DatabaseRepository;
+  private policies: StrategyPolicyService;
+  private legExecutor: LegExecutionCoordinator;
+  private locks: DistributedLockService;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.policies = new StrategyPolicyService();
+    this.legExecutor = new LegExecutionCoordinator();
+    this.locks = new DistributedLockService();
+  }
+
+  /**
+   * Check every open delta neutral position and correct those beyond tolerance.
+   * With `dryRun` the corrections are only reported.
+   */
+  async checkOpenPositions(options: { dryRun?: boolean } = {}): Promise<DeltaMonitorResult> {
+    const dryRun = options.dryRun || false;
+    const openPositions = (await this.db.getOpenPositions())
+      .filter(position => position.positionType === 'delta_neutral');
+
+    const result: DeltaMonitorResult = {
+      checkedPositions: openPositions.length,
+      imbalanced: 0,
+      corrected: 0,
+      dryRun,
+      outcomes: [],
+    };
+
+    // Count the legs held in each venue market first, so shared markets are known before any position is checked
+    const legsPerMarket = new Map<string, number>();
+    const checkable: Array<{ positionId: number; outcome: JobPositionOutcome }> = [];
+    for (const position of openPositions) {
+      const outcome: JobPositionOutcome = { positionId: position.id, userId: position.userId, status: 'failed' };
+      result.outcomes.push(outcome);
+
+      try {
+        const current = await this.db.getPositionWithSnapshots(position.id);
+        for (const leg of (current?.snapshots || []).filter(snapshot => snapshot.side !== 'spot')) {
+          const key = this.marketKey(leg);
+          legsPerMarket.set(key, (legsPerMarket.get(key) || 0) + 1);
+        }
+        checkable.push({ positionId: position.id, outcome });
+      } catch (error) {
+        outcome.error = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to check delta of position ${position.id}`, { error: outcome.error });
+      }
+    }
+
+    for (const { positionId, outcome } of checkable) {
+      try {
+        const lock = await this.locks.withPositionLock(positionId, () =>
+          this.checkPosition(positionId, legsPerMarket, dryRun, outcome)
+        );
+
+        if (!lock.acquired) {
+          outcome.status = 'skipped';
+          outcome.reasons = ['another run is acting on this position'];
+        }
+      } catch (error) {
+        outcome.error = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to check delta of position ${positionId}`, { error: outcome.error });
+      }
+    }
+
+    result.imbalanced = result.outcomes.filter(outcome => outcome.action).length;
+    result.corrected = result.outcomes.filter(outcome => outcome.status === 'rebalanced').length;
+
+    return result;
+  }
+
+  /**
+   * Check one position. Runs under the position lock, so the position and its legs are re-read
+   * in case another run changed or closed it since the markets were counted.
+   */
+  private async checkPosition(
+    positionId: number,
+    legsPerMarket: Map<string, number>,
+    dryRun: boolean,
+    outcome: JobPositionOutcome
+  ): Promise<void> {
+    const position = await this.db.getPositionWithSnapshots(positionId);
+    if (position?.status !== 'open') {
+      outcome.status = 'skipped';
+      outcome.reasons = ['position is no longer open'];
+      return;
+    }
+
+    const snapshots = position.snapshots;
+    const shared = snapshots.find(snapshot => snapshot.side !== 'spot' && (legsPerMarket.get(this.marketKey(snapshot)) || 0) > 1);
+    if (shared) {
+      outcome.status = 'skipped';
+      outcome.reasons = [`${shared.dexType} ${shared.symbol} position is shared with other legs; exposure cannot be attributed`];
+      return;
+    }
+
+    const assets = new Set(snapshots.map(snapshot => snapshot.symbol.split(/[-/]/)[0].toUpperCase()));
+    if (assets.size > 1) {
+      outcome.status = 'skipped';
+      outcome.reasons = [`legs span several assets (${[...assets].join(', ')})`];
+      return;
+    }
+
+    const ctx: RequestContext = {
+      userId: position.userId,
+      timestamp: new Date(),
+      requestId: `delta-monitor-${position.id}-${Date.now()}`,
+    };
+
+    const legs = await this.getLegExposures(ctx, snapshots);
+    const missing = legs.find(leg => leg.recorded !== 0 && leg.live === 0);
+    if (missing) {
+      outcome.status = 'skipped';
+      outcome.reasons = [`${missing.snapshot.dexType} ${missing.snapshot.symbol} leg has no venue position`];
+      return;
+    }
+
+    const net = legs.reduce((total, leg) => total + leg.live, 0);
+    const hedged = Math.max(
+      legs.reduce((total, leg) => total + Math.max(leg.live, 0), 0),
+      legs.reduce((total, leg) => total + Math.max(-leg.live, 0), 0)
+    );
+    if (legs.length < 2 || hedged === 0) {
+      outcome.status = 'unchanged';
+      outcome.reasons = ['no hedged exposure on the venues'];
+      return;
+    }
+
+    const policy = await this.policies.resolvePolicy(position.userId, position.id);
+    const drift = Math.abs(net) / hedged;
+    const measurement = `net exposure ${net.toFixed(SIZE_DECIMALS)} (${(drift * 100).toFixed(2)}% of hedged size ${hedged.toFixed(SIZE_DECIMALS)})`;
+    outcome.netExposure = net;
+
+    if (drift <= policy.deltaTolerance) {
+      outcome.status = 'unchanged';
+      outcome.reasons = [`${measurement} within tolerance of ${(policy.deltaTolerance * 100).toFixed(2)}%`];
+      return;
+    }
+
+    const correction = this.planCorrection(legs, net, policy.deltaCorrection);
+    outcome.action = policy.deltaCorrection;
+    outcome.reasons = [`${measurement} beyond tolerance of ${(policy.deltaTolerance * 100).toFixed(2)}%`];
+
+    if (!correction) {
+      outcome.status = 'skipped';
+      outcome.reasons.push(`no perp leg to ${policy.deltaCorrection}`);
+      return;
+    }
+
+    const { snapshot, market } = correction.leg;
+    if (policy.allowedVenues && !policy.allowedVenues.includes(snapshot.dexType)) {
+      outcome.status = 'skipped';
+      outcome.reasons.push(`${snapshot.dexType} is not an allowed venue`);
+      return;
+    }
+
+    const markPrice = await getExchangeAdapter(snapshot.dexType).getMarkPrice(market)
+      ?? parseFloat(snapshot.markPrice || snapshot.currentPrice);
+    const notional = correction.size * markPrice;
+    if (notional < MIN_CORRECTION_USD) {
+      outcome.status = 'unchanged';
+      outcome.reasons.push(`correction of ${notional.toFixed(2)} USD is below the venue minimum`);
+      return;
+    }
+    if (policy.maxNotionalPerFlip !== null && notional > policy.maxNotionalPerFlip) {
+      outcome.status = 'skipped';
+      outcome.reasons.push(`correction of ${notional.toFixed(2)} USD above policy limit of ${policy.maxNotionalPerFlip}`);
+      return;
+    }
+
+    const order: LegOrder = {
+      dexType: snapshot.dexType,
+      dexAccountId: snapshot.dexAccountId,
+      market,
+      side: correction.side,
+      size: correction.size.toFixed(SIZE_DECIMALS),
+      reduceOnly: correction.action === 'reduce',
+    };
+    outcome.reasons.push(`${correction.side} ${order.size} ${snapshot.symbol} on ${snapshot.dexType}${order.reduceOnly ? ' (reduce-only)' : ''}`);
+
+    if (dryRun) {
+      outcome.status = 'simulated';
+      return;
+    }
+
+    logger.warn(`Correcting delta drift of position ${position.id}`, {
+      net,
+      hedged,
+      tolerance: policy.deltaTolerance,
+      action: correction.action,
+      snapshotId: snapshot.id,
+      side: order.side,
+      size: order.size,
+    });
+
+    const execution = await this.legExecutor.execute(ctx, {
+      kind: 'rebalance',
+      positionId: position.id,
+      reason: 'delta_drift',
+      legs: [order],
+    });
+    outcome.executionId = execution.executionId;
+
+    if (execution.status !== 'completed') {
+      throw new Error(`Execution ${execution.executionId} ${execution.status}: ${execution.error}`);
+    }
+
+    // Record the sizes now held, so valuation and position sync work from the corrected hedge
+    const filled = parseFloat(execution.legs[0].filledSize) * (correction.side === 'buy' ? 1 : -1);
+    for (const leg of legs.filter(candidate => candidate.snapshot.side !== 'spot')) {
+      const size = Math.abs(leg.live + (leg === correction.leg ? filled : 0));
+      await this.db.updatePositionSnapshot(leg.snapshot.id, {
+        size: size.toString(),
+        notionalValue: (size * parseFloat(leg.snapshot.entryPrice)).toString(),
+      });
+    }
+
+    outcome.status = 'rebalanced';
+  }
+
+  /**
+   * Live signed size of every leg. Perp legs are read from the venue; spot legs use the recorded size.
+   */
+  private async getLegExposures(ctx: RequestContext, snapshots: Snapshot[]): Promise<LegExposure[]> {
+    return await Promise.all(snapshots.map(async snapshot => {
+      const adapter = getExchangeAdapter(snapshot.dexType);
+      const market = adapter.resolveMarket(snapshot);
+      const recorded = (snapshot.side === 'short' ? -1 : 1) * parseFloat(snapshot.size);
+
+      if (snapshot.side === 'spot') {
+        return { snapshot, market, recorded, live: recorded };
+      }
+
+      const venuePosition = await adapter.getPosition(ctx, snapshot.dexAccountId, market);
+      const live = venuePosition ? (venuePosition.side === 'long' ? 1 : -1) * parseFloat(venuePosition.size) : 0;
+
+      return { snapshot, market, recorded, live };
+    }));
+  }
+
+  /**
+   * Pick the leg to trade and the order that brings the net exposure back to zero
+   */
+  private planCorrection(
+    legs: LegExposure[],
+    net: number,
+    action: RebalancePolicy['deltaCorrection']
+  ): DeltaCorrection | null {
+    const overSign = Math.sign(net);
+    // How much a leg grew beyond its recorded size, in the direction it faces
+    const growth = (leg: LegExposure) => (leg.live - leg.recorded) * Math.sign(leg.live);
+
+    const candidates = legs.filter(leg =>
+      leg.snapshot.side !== 'spot'
+      && Math.sign(leg.live) === (action === 'reduce' ? overSign : -overSign)
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const leg = candidates.reduce((best, candidate) =>
+      action === 'reduce'
+        ? (growth(candidate) > growth(best) ? candidate : best)
+        : (growth(candidate) < growth(best) ? candidate : best)
+    );
+
+    return {
+      leg,
+      action,
+      side: net > 0 ? 'sell' : 'buy',
+      // A reduce-only order cannot take the leg past flat
+      size: action === 'reduce' ? Math.min(Math.abs(net), Math.abs(leg.live)) : Math.abs(net),
+    };
+  }
+
+  /**
+   * The venue market a leg is held in. Hyperliquid agent accounts trade for their master wallet, so
+   * legs on accounts of the same master share one venue position.
+   */
+  private marketKey(leg: PositionLeg): string {
+    const market = getExchangeAdapter(leg.dexType).resolveMarket(leg);
+    const wallet = leg.dexType === 'hyperliquid' && leg.dexAccount
+      ? ((leg.dexAccount.metadata as any)?.masterAddress || leg.dexAccount.address).toLowerCase()
+      : leg.dexAccountId;
+    return JSON.stringify([leg.dexType, wallet, market]);
+  }
+}
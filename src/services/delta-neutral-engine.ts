@@ -1,33 +1,39 @@
 import { DatabaseRepository } from '@/db/repository';
-import { HyperliquidService } from '@/services/hyperliquid';
-import { DriftService } from '@/services/drift';
 import { logger } from '@/utils/logger';
 import { RequestContext } from '@/types/common';
 import { positionSnapshots } from '@/db/schema';
-
-interface FundingRateData {
-  coin: string;
-  fundingRate: string;
-  premium?: string;
-  time: number;
-}
+import { getExchangeAdapter } from '@/services/exchanges/registry';
+import { getFundingRateService, FundingRateService } from '@/services/funding-rates';
+import { LegExecutionCoordinator } from '@/services/leg-executor';
+import { StrategyPolicyService } from '@/services/strategy-policies';
+import { DistributedLockService } from '@/services/distributed-lock';
+import { DexType } from '@/types/exchange';
+import { LegOrder, SimulatedOrder, SimulatedRebalance } from '@/types/execution';
+import { RebalancePolicy } from '@/config/rebalance.config';
+import { DecisionRate, evaluateRebalance, orderCostUsd } from '@/services/rebalance-decision';
+import { JobPositionOutcome } from '@/types/jobs';
 
 interface PositionToRebalance {
   positionId: number;
   userId: number;
   reason: 'funding_rate_flipped';
+  action: RebalancePolicy['onUnfavorable'];
   currentFundingRate: number;
+  expectedFundingRate: number;
+  projectedGainUsd: number; // Funding improvement over the policy horizon
+  estimatedCostUsd: number; // Fees and slippage of the orders the action places
+  slippageBps: number; // From the position's policy
   legToClose: {
     snapshotId: number;
-    dexType: 'hyperliquid' | 'drift';
+    dexType: DexType;
     symbol: string;
     side: 'long' | 'short';
     dexAccountId: number;
     metadata?: any;
     size: number;
   };
-  legToOpen: {
-    dexType: 'hyperliquid' | 'drift';
+  legToOpen?: { // Not set when the policy closes the position instead of flipping
+    dexType: DexType;
     symbol: string;
     side: 'long' | 'short';
     size: number;
@@ -36,6 +42,15 @@ interface PositionToRebalance {
   };
 }
 
+export interface FundingEngineResult {
+  checkedPositions: number;
+  positionsToRebalance: number;
+  successfullyRebalanced: number; // Positions flipped or closed without error
+  dryRun: boolean;
+  outcomes: JobPositionOutcome[]; // One per checked position
+  plan?: SimulatedRebalance[]; // Dry runs only
+}
+
 /**
  * Delta Neutral Funding Engine
  * 
@@ -45,237 +60,62 @@ interface PositionToRebalance {
  */
 export class DeltaNeutralFundingService {
   private db: DatabaseRepository;
-  private hyperliquidService: HyperliquidService;
-  private driftService: DriftService;
-
-  // Minimum funding rate threshold to trigger rebalancing (0.01% per hour)
-  private static readonly MIN_PROFITABLE_RATE = 0.0001;
+  private fundingRates: FundingRateService;
+  private policies: StrategyPolicyService;
+  private legExecutor: LegExecutionCoordinator;
+  private locks: DistributedLockService;
 
   constructor() {
     this.db = new DatabaseRepository();
-    this.hyperliquidService = new HyperliquidService();
-    this.driftService = new DriftService();
-  }
-
-  /**
-   * Get funding rates from Hyperliquid
-   */
-  async getHyperliquidFundingRates(coins: string[]): Promise<Map<string, number>> {
-    const fundingRates = new Map<string, number>();
-
-    for (const coin of coins) {
-      try {
-        const response = await fetch('https://api.hyperliquid.xyz/info', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            type: 'fundingHistory',
-            coin: coin,
-            startTime: Date.now() - 3600000 // Last hour
-          })
-        });
-
-        if (response.ok) {
-          const data = await response.json() as FundingRateData[];
-          
-          if (data && data.length > 0) {
-            const latestRate = data[data.length - 1];
-            fundingRates.set(coin, parseFloat(latestRate.fundingRate));
-            
-            logger.info(`Hyperliquid funding rate for ${coin}:`, {
-              coin,
-              fundingRate: latestRate.fundingRate,
-              time: latestRate.time
-            });
-          }
-        }
-      } catch (error) {
-        logger.error(`Failed to get funding rate for ${coin}:`, { error, coin });
-      }
-    }
-
-    return fundingRates;
-  }
-
-  /**
-   * Get funding rates from Drift using SDK
-   */
-  async getDriftFundingRates(marketIndices: number[]): Promise<Map<number, number>> {
-    const fundingRates = new Map<number, number>();
-
-    if (marketIndices.length === 0) {
-      return fundingRates;
-    }
-
-    try {
-      // Get the backend private key from environment
-      const privateKeyString = process.env.MAGNOLIA_SOLANA_PRIVATE_KEY;
-      if (!privateKeyString) {
-        logger.warn('No Drift private key configured, skipping Drift funding rates');
-        return fundingRates;
-      }
-
-      // Use dynamic imports with proper destructuring
-      const {
-        DriftClient,
-        BN
-      } = await import('@drift-labs/sdk');
-      const { PublicKey, Keypair, Connection } = await import('@solana/web3.js');
-      const bs58Module = await import('bs58');
-      const { driftClientConfig } = await import('@/services/drift-client');
-
-      // Initialize connection
-      const config = driftClientConfig.getConfig();
-      const privateKeyBytes = bs58Module.default.decode(privateKeyString);
-      const keypair = Keypair.fromSecretKey(privateKeyBytes);
-      const connection = new Connection(config.rpcUrl, 'confirmed');
-
-      // Create wallet adapter following the pattern from drift.ts
-      const wallet = {
-        publicKey: keypair.publicKey,
-        signTransaction: async (tx: any) => {
-          if (tx.sign && !tx.partialSign) {
-            tx.sign([keypair]);
-          } else if (tx.partialSign) {
-            tx.partialSign(keypair);
-          } else {
-            try {
-              tx.sign([keypair]);
-            } catch {
-              tx.partialSign(keypair);
-            }
-          }
-          return tx;
-        },
-        signAllTransactions: async (txs: any[]) => {
-          txs.forEach(tx => {
-            if (tx.sign && !tx.partialSign) {
-              tx.sign([keypair]);
-            } else if (tx.partialSign) {
-              tx.partialSign(keypair);
-            } else {
-              try {
-                tx.sign([keypair]);
-              } catch {
-                tx.partialSign(keypair);
-              }
-            }
-          });
-          return txs;
-        }
-      };
-
-      // Initialize Drift client
-      const driftClient = new DriftClient({
-        connection,
-        wallet,
-        env: config.env as 'mainnet-beta' | 'devnet',
-        programID: new PublicKey(config.programId),
-      });
-
-      await driftClient.subscribe();
-
-      // Get funding rates for each market
-      for (const marketIndex of marketIndices) {
-        try {
-          // Get perp market account
-          const perpMarket = driftClient.getPerpMarketAccount(marketIndex);
-          
-          if (perpMarket) {
-            // Get the actual funding rate - this varies based on Drift SDK version
-            // Using a simple approach that should work across versions
-            const fundingRateLong = perpMarket.amm?.cumulativeFundingRateLong || new BN(0);
-            const fundingRate = fundingRateLong.toNumber() / 1e9; // Convert from Drift precision
-            
-            fundingRates.set(marketIndex, fundingRate);
-            
-            logger.info(`Drift funding rate for market ${marketIndex}:`, {
-              marketIndex,
-              fundingRate,
-              timestamp: Date.now()
-            });
-          }
-        } catch (error) {
-          logger.error(`Failed to get funding rate for Drift market ${marketIndex}:`, { 
-            error: error instanceof Error ? error.message : error,
-            marketIndex 
-          });
-        }
-      }
-
-      await driftClient.unsubscribe();
-
-    } catch (error) {
-      logger.error('Failed to initialize Drift client for funding rates:', { 
-        error: error instanceof Error ? error.message : error 
-      });
-    }
-
-    return fundingRates;
+    this.fundingRates = getFundingRateService();
+    this.policies = new StrategyPolicyService();
+    this.legExecutor = new LegExecutionCoordinator();
+    this.locks = new DistributedLockService();
   }
 
   /**
-   * Check all delta neutral positions for rebalancing opportunities
+   * Check all delta neutral positions for rebalancing opportunities.
+   * Positions left alone are returned as unchanged outcomes with the reasons the checks gave.
    */
-  async checkPositionsForRebalancing(): Promise<PositionToRebalance[]> {
+  async checkPositionsForRebalancing(): Promise<{
+    checkedPositions: number;
+    positionsToRebalance: PositionToRebalance[];
+    unchanged: JobPositionOutcome[];
+  }> {
     const positionsToRebalance: PositionToRebalance[] = [];
+    const unchanged: JobPositionOutcome[] = [];
+    let checkedPositions = 0;
 
     try {
       const positions = await this.db.getOpenPositionsWithFundingOptimization();
 
       if (!positions || positions.length === 0) {
         logger.info('No delta neutral positions with funding optimization found');
-        return positionsToRebalance;
+        return { checkedPositions, positionsToRebalance, unchanged };
       }
 
       logger.info(`Found ${positions.length} positions to check for funding rebalancing`);
 
-      // Group positions by DEX type to batch funding rate requests
-      const hyperliquidCoins = new Set<string>();
-      const driftMarkets = new Set<number>();
-
-      for (const position of positions) {
-        const snapshots = await this.db.getPositionSnapshots(position.id);
-        
-        for (const snapshot of snapshots) {
-          if (snapshot.dexType === 'hyperliquid') {
-            const coin = snapshot.symbol.split('-')[0];
-            hyperliquidCoins.add(coin);
-          } else if (snapshot.dexType === 'drift') {
-            const marketIndex = (snapshot.metadata as any)?.marketIndex || 
-              this.extractMarketIndexFromSymbol(snapshot.symbol);
-            if (marketIndex !== undefined) {
-              driftMarkets.add(marketIndex);
-            }
-          }
-        }
-      }
-
-      // Fetch funding rates for all relevant assets
-      const hlFundingRates = await this.getHyperliquidFundingRates(Array.from(hyperliquidCoins));
-      const driftFundingRates = await this.getDriftFundingRates(Array.from(driftMarkets));
-
       // Analyze each position to see if it needs rebalancing
       for (const position of positions) {
         const snapshots = await this.db.getPositionSnapshots(position.id);
         
-        const rebalanceAction = await this.determineRebalanceAction(
-          position,
-          snapshots, 
-          hlFundingRates, 
-          driftFundingRates
-        );
-
-        if (rebalanceAction) {
+        const { rebalanceAction, reasons } = await this.determineRebalanceAction(position, snapshots);
+        checkedPositions++;
+
+        if (!rebalanceAction) {
+          unchanged.push({ positionId: position.id, userId: position.userId, status: 'unchanged', reasons });
+        } else {
           positionsToRebalance.push(rebalanceAction);
           
           logger.info(`Position ${position.id} flagged for rebalancing`, {
             positionId: position.id,
             reason: rebalanceAction.reason,
+            action: rebalanceAction.action,
             fundingRate: rebalanceAction.currentFundingRate,
             symbol: rebalanceAction.legToClose.symbol,
             fromSide: rebalanceAction.legToClose.side,
-            toSide: rebalanceAction.legToOpen.side,
+            toSide: rebalanceAction.legToOpen?.side,
           });
         }
       }
@@ -284,280 +124,449 @@ export class DeltaNeutralFundingService {
       logger.error('Error checking positions for funding rebalancing:', { error });
     }
 
-    return positionsToRebalance;
+    return { checkedPositions, positionsToRebalance, unchanged };
   }
 
   /**
-   * Determine if a position should be rebalanced based on funding rates
+   * Determine if a position should be rebalanced based on funding rates.
+   * Reads the position's strategy policy and live rates, then applies `evaluateRebalance`.
    */
   private async determineRebalanceAction(
     position: { id: number; userId: number },
-    snapshots: Array<typeof positionSnapshots.$inferSelect>,
-    hlFundingRates: Map<string, number>, 
-    driftFundingRates: Map<number, number>
-  ): Promise<PositionToRebalance | null> {
-    
+    snapshots: Array<typeof positionSnapshots.$inferSelect>
+  ): Promise<{ rebalanceAction: PositionToRebalance | null; reasons: string[] }> {
+    const policy = await this.policies.resolvePolicy(position.userId, position.id);
+    const flipsInLastDay = policy.maxFlipsPerDay !== null
+      ? await this.db.countPositionExecutionsSince(position.id, 'rebalance', new Date(Date.now() - 86_400_000), 'funding_rate_flipped')
+      : 0;
+
+    const rates = new Map<number, DecisionRate>();
     for (const snapshot of snapshots) {
-      // We only care about perpetual legs, not spot
       if (snapshot.side === 'spot') {
         continue;
       }
 
-      let fundingRate: number | undefined;
-
-      if (snapshot.dexType === 'hyperliquid') {
-        const coin = snapshot.symbol.split('-')[0];
-        fundingRate = hlFundingRates.get(coin);
-      } else if (snapshot.dexType === 'drift') {
-        const marketIndex = (snapshot.metadata as any)?.marketIndex || 
-          this.extractMarketIndexFromSymbol(snapshot.symbol);
-        if (marketIndex !== undefined) {
-          fundingRate = driftFundingRates.get(marketIndex);
+      try {
+        const adapter = getExchangeAdapter(snapshot.dexType);
+        const rate = await this.fundingRates.getFundingRate(snapshot.dexType, adapter.resolveMarket(snapshot));
+        if (rate) {
+          rates.set(snapshot.id, rate);
         }
+      } catch (error) {
+        logger.error(`Failed to get ${snapshot.dexType} funding rate for ${snapshot.symbol}:`, {
+          error: error instanceof Error ? error.message : error,
+        });
       }
+    }
 
-      if (fundingRate !== undefined && Math.abs(fundingRate) > DeltaNeutralFundingService.MIN_PROFITABLE_RATE) {
-        // Check if this leg is unfavorable and should be flipped
-        const isUnfavorableLong = fundingRate > 0 && snapshot.side === 'long';
-        const isUnfavorableShort = fundingRate < 0 && snapshot.side === 'short';
+    const { decision, skipped } = evaluateRebalance({
+      legs: snapshots.map(snapshot => ({
+        id: snapshot.id,
+        dexType: snapshot.dexType,
+        side: snapshot.side,
+        size: parseFloat(snapshot.size),
+        price: parseFloat(snapshot.markPrice || snapshot.currentPrice || snapshot.entryPrice),
+        openedAt: new Date(snapshot.snapshotAt),
+      })),
+      rates,
+      policy,
+      now: new Date(),
+      flipsInLastDay,
+    });
+
+    if (skipped.length > 0) {
+      logger.debug(`Position ${position.id} skipped rebalance checks`, { positionId: position.id, skipped });
+    }
 
-        if (isUnfavorableLong || isUnfavorableShort) {
-          return {
-            positionId: position.id,
-            userId: position.userId,
-            reason: 'funding_rate_flipped',
-            currentFundingRate: fundingRate,
-            legToClose: {
-              snapshotId: snapshot.id,
-              dexType: snapshot.dexType as 'hyperliquid' | 'drift',
-              symbol: snapshot.symbol,
-              side: snapshot.side as 'long' | 'short',
-              dexAccountId: snapshot.dexAccountId,
-              metadata: snapshot.metadata,
-              size: parseFloat(snapshot.size),
-            },
-            legToOpen: {
-              dexType: snapshot.dexType as 'hyperliquid' | 'drift',
-              symbol: snapshot.symbol,
-              side: snapshot.side === 'long' ? 'short' : 'long', // Flip the side
-              size: parseFloat(snapshot.size), // Use the same size
-              dexAccountId: snapshot.dexAccountId,
-              metadata: snapshot.metadata,
-            },
-          };
-        }
-      }
+    const reasons = skipped.map(skip => skip.reason);
+
+    if (!decision) {
+      return { rebalanceAction: null, reasons }; // No rebalancing needed
     }
 
-    return null; // No rebalancing needed
+    const snapshot = snapshots.find(leg => leg.id === decision.legId)!;
+    const size = parseFloat(snapshot.size);
+
+    const rebalanceAction: PositionToRebalance = {
+      positionId: position.id,
+      userId: position.userId,
+      reason: 'funding_rate_flipped',
+      action: decision.action,
+      currentFundingRate: decision.currentFundingRate,
+      expectedFundingRate: decision.expectedFundingRate,
+      projectedGainUsd: decision.projectedGainUsd,
+      estimatedCostUsd: decision.estimatedCostUsd,
+      slippageBps: policy.slippageBps,
+      legToClose: {
+        snapshotId: snapshot.id,
+        dexType: snapshot.dexType,
+        symbol: snapshot.symbol,
+        side: snapshot.side as 'long' | 'short',
+        dexAccountId: snapshot.dexAccountId,
+        metadata: snapshot.metadata,
+        size,
+      },
+      legToOpen: decision.action === 'flip' ? {
+        dexType: snapshot.dexType,
+        symbol: snapshot.symbol,
+        side: snapshot.side === 'long' ? 'short' : 'long', // Flip the side
+        size, // Use the same size
+        dexAccountId: snapshot.dexAccountId,
+        metadata: snapshot.metadata,
+      } : undefined,
+    };
+
+    return { rebalanceAction, reasons };
   }
 
   /**
    * Execute rebalancing: close unfavorable leg and open favorable one
    */
-  async rebalanceUnfavorablePositions(positionsToRebalance: PositionToRebalance[]): Promise<void> {
+  async rebalanceUnfavorablePositions(positionsToRebalance: PositionToRebalance[]): Promise<JobPositionOutcome[]> {
     logger.info(`Attempting to rebalance ${positionsToRebalance.length} positions`);
 
-    for (const action of positionsToRebalance) {
-      try {
-        // Create request context for the user
-        const ctx: RequestContext = {
-          userId: action.userId,
-          timestamp: new Date(),
-          requestId: `rebalance-${action.positionId}-${Date.now()}`
-        };
-
-        const { legToClose, legToOpen } = action;
-        
-        // Step 1: Close the unfavorable leg
-        logger.info(`Closing unfavorable leg for position ${action.positionId}`, {
-          symbol: legToClose.symbol,
-          side: legToClose.side,
-          size: legToClose.size,
-          fundingRate: action.currentFundingRate
-        });
-
-        await this.closeLeg(ctx, legToClose);
+    const outcomes: JobPositionOutcome[] = [];
 
-        // Step 2: Open the new favorable leg
-        logger.info(`Opening favorable leg for position ${action.positionId}`, {
-          symbol: legToOpen.symbol,
-          side: legToOpen.side,
-          size: legToOpen.size
-        });
-
-        const newLegResult = await this.openLeg(ctx, legToOpen);
+    for (const action of positionsToRebalance) {
+      const outcome: JobPositionOutcome = {
+        positionId: action.positionId,
+        userId: action.userId,
+        status: 'failed',
+        action: action.action,
+        fundingRate: action.currentFundingRate,
+      };
+      outcomes.push(outcome);
 
-        // Step 3: Update database - remove old snapshot and create new one
-        await this.db.transaction(async () => {
-          // Delete old snapshot
-          await this.db.deletePositionSnapshot(legToClose.snapshotId);
-          
-          // Create new snapshot for the flipped position
-          await this.db.createPositionSnapshot({
-            positionId: action.positionId,
-            dexType: legToOpen.dexType,
-            dexAccountId: legToOpen.dexAccountId,
-            symbol: legToOpen.symbol,
-            side: legToOpen.side,
-            size: legToOpen.size.toString(),
-            entryPrice: newLegResult.entryPrice,
-            currentPrice: newLegResult.entryPrice,
-            notionalValue: (legToOpen.size * parseFloat(newLegResult.entryPrice)).toString(),
-            metadata: legToOpen.metadata,
-            // Link to the new order if available
-            hyperliquidOrderId: legToOpen.dexType === 'hyperliquid' ? newLegResult.orderId || undefined : undefined,
-            driftOrderId: legToOpen.dexType === 'drift' ? newLegResult.orderId || undefined : undefined,
-          });
-        });
+      try {
+        const lock = await this.locks.withPositionLock(action.positionId, () => this.rebalancePosition(action, outcome));
 
-        logger.info(`Successfully rebalanced position ${action.positionId}`, {
-          positionId: action.positionId,
-          oldSide: legToClose.side,
-          newSide: legToOpen.side,
-          symbol: legToOpen.symbol,
-          fundingRate: action.currentFundingRate
-        });
+        if (!lock.acquired) {
+          outcome.status = 'skipped';
+          outcome.reasons = ['another run is acting on this position'];
+          logger.warn(`Skipping position ${action.positionId} - locked by another run`);
+        }
 
       } catch (error) {
+        outcome.error = error instanceof Error ? error.message : String(error);
         logger.error(`Failed to rebalance position ${action.positionId}:`, { 
-          error: error instanceof Error ? error.message : String(error),
+          error: outcome.error,
           action 
         });
       }
     }
+
+    return outcomes;
   }
 
   /**
-   * Close a position leg
+   * Flip or close one position. Runs under the position lock, so the position is re-read first
+   * in case another run changed it after it was flagged.
    */
-  private async closeLeg(ctx: RequestContext, leg: PositionToRebalance['legToClose']): Promise<void> {
-    if (leg.dexType === 'hyperliquid') {
-      const assetId = (leg.metadata as any)?.assetId || (leg.metadata as any)?.assetIndex;
-      if (assetId === undefined) {
-        throw new Error(`Missing assetId for Hyperliquid position ${leg.symbol}`);
-      }
+  private async rebalancePosition(action: PositionToRebalance, outcome: JobPositionOutcome): Promise<void> {
+    const position = await this.db.getPositionWithSnapshots(action.positionId);
+    const current = position?.status === 'open'
+      && position.snapshots.some(snapshot => snapshot.id === action.legToClose.snapshotId);
+
+    if (!current) {
+      outcome.status = 'skipped';
+      outcome.reasons = ['position changed since it was checked'];
+      logger.info(`Skipping position ${action.positionId} - changed since it was checked`);
+      return;
+    }
 
-      await this.hyperliquidService.closePosition(ctx, leg.dexAccountId, {
-        assetSymbol: leg.symbol.split('-')[0],
-        assetIndex: assetId,
-      });
-    } else if (leg.dexType === 'drift') {
-      const marketIndex = (leg.metadata as any)?.marketIndex;
-      const marketType = (leg.metadata as any)?.marketType;
+    // Create request context for the user
+    const ctx: RequestContext = {
+      userId: action.userId,
+      timestamp: new Date(),
+      requestId: `rebalance-${action.positionId}-${Date.now()}`
+    };
 
-      if (marketIndex === undefined || !marketType) {
-        throw new Error(`Missing market data for Drift position ${leg.symbol}`);
-      }
+    const { legToClose, legToOpen } = action;
 
-      await this.driftService.closePosition(ctx, leg.dexAccountId, {
-        marketIndex,
-        marketType: marketType.toUpperCase() as 'PERP' | 'SPOT',
-      });
+    if (!legToOpen) {
+      await this.closeUnfavorablePosition(ctx, action, outcome);
+      return;
     }
-  }
 
-  /**
-   * Open a new position leg
-   */
-  private async openLeg(ctx: RequestContext, leg: PositionToRebalance['legToOpen']): Promise<{
-    entryPrice: string;
-    orderId?: number;
-  }> {
-    if (leg.dexType === 'hyperliquid') {
-      const assetId = (leg.metadata as any)?.assetId || (leg.metadata as any)?.assetIndex;
-      if (assetId === undefined) {
-        throw new Error(`Missing assetId for Hyperliquid position ${leg.symbol}`);
-      }
+    logger.info(`Flipping unfavorable leg for position ${action.positionId}`, {
+      symbol: legToClose.symbol,
+      oldSide: legToClose.side,
+      newSide: legToOpen.side,
+      size: legToClose.size,
+      fundingRate: action.currentFundingRate,
+      expectedFundingRate: action.expectedFundingRate,
+      projectedGainUsd: action.projectedGainUsd,
+      estimatedCostUsd: action.estimatedCostUsd,
+    });
+
+    // Step 1 & 2: Close the unfavorable leg, then open the favorable one.
+    // If the open fails the closed leg is restored so the position stays hedged.
+    const execution = await this.legExecutor.execute(ctx, {
+      kind: 'rebalance',
+      positionId: action.positionId,
+      reason: action.reason,
+      legs: await this.buildRebalanceOrders(action),
+    });
+    outcome.executionId = execution.executionId;
+
+    if (execution.status !== 'completed') {
+      throw new Error(`Execution ${execution.executionId} ${execution.status}: ${execution.error}`);
+    }
 
-      const result = await this.hyperliquidService.placeOrder(ctx, leg.dexAccountId, {
-        orders: [{
-          assetSymbol: leg.symbol.split('-')[0],
-          assetIndex: assetId,
-          side: leg.side === 'long' ? 'buy' : 'sell',
-          orderType: 'market',
-          size: leg.size.toString(),
-          reduceOnly: false,
-        }],
-        grouping: 'na' as const
+    const newLegResult = {
+      entryPrice: execution.legs[1].fillPrice,
+      orderId: execution.legs[1].placed?.orderId,
+    };
+
+    // Step 3: Update database - remove old snapshot and create new one
+    await this.db.transaction(async () => {
+      // Delete old snapshot
+      await this.db.deletePositionSnapshot(legToClose.snapshotId);
+      
+      // Create new snapshot for the flipped position
+      await this.db.createPositionSnapshot({
+        positionId: action.positionId,
+        dexType: legToOpen.dexType,
+        dexAccountId: legToOpen.dexAccountId,
+        symbol: legToOpen.symbol,
+        side: legToOpen.side,
+        size: legToOpen.size.toString(),
+        entryPrice: newLegResult.entryPrice,
+        currentPrice: newLegResult.entryPrice,
+        notionalValue: (legToOpen.size * parseFloat(newLegResult.entryPrice)).toString(),
+        metadata: legToOpen.metadata,
+        // Link to the new order if available
+        hyperliquidOrderId: legToOpen.dexType === 'hyperliquid' ? newLegResult.orderId || undefined : undefined,
+        driftOrderId: legToOpen.dexType === 'drift' ? newLegResult.orderId || undefined : undefined,
+        lighterOrderId: legToOpen.dexType === 'lighter' ? newLegResult.orderId || undefined : undefined,
       });
+    });
+
+    logger.info(`Successfully rebalanced position ${action.positionId}`, {
+      positionId: action.positionId,
+      oldSide: legToClose.side,
+      newSide: legToOpen.side,
+      symbol: legToOpen.symbol,
+      fundingRate: action.currentFundingRate
+    });
+    outcome.status = 'rebalanced';
+  }
 
-      return {
-        entryPrice: (result as any)?.data?.statuses?.[0]?.filled?.avgPx || '0',
-        orderId: (result as any)?.data?.statuses?.[0]?.resting?.oid,
-      };
-    } else if (leg.dexType === 'drift') {
-      const marketIndex = (leg.metadata as any)?.marketIndex;
-      const marketType = (leg.metadata as any)?.marketType;
+  /**
+   * Close every leg of a position whose policy prefers closing over flipping
+   */
+  private async closeUnfavorablePosition(
+    ctx: RequestContext,
+    action: PositionToRebalance,
+    outcome: JobPositionOutcome
+  ): Promise<void> {
+    logger.info(`Closing position ${action.positionId} on unfavorable funding`, {
+      symbol: action.legToClose.symbol,
+      side: action.legToClose.side,
+      fundingRate: action.currentFundingRate,
+      expectedFundingRate: action.expectedFundingRate,
+      projectedGainUsd: action.projectedGainUsd,
+      estimatedCostUsd: action.estimatedCostUsd,
+    });
+
+    const execution = await this.legExecutor.execute(ctx, {
+      kind: 'close',
+      positionId: action.positionId,
+      reason: action.reason,
+      legs: await this.buildRebalanceOrders(action),
+    });
+    outcome.executionId = execution.executionId;
+
+    if (execution.status !== 'completed') {
+      throw new Error(`Execution ${execution.executionId} ${execution.status}: ${execution.error}`);
+    }
 
-      if (marketIndex === undefined || !marketType) {
-        throw new Error(`Missing market data for Drift position ${leg.symbol}`);
-      }
+    await this.db.updatePosition(action.positionId, {
+      status: 'closed',
+      closedAt: new Date(),
+    });
 
-      const result = await this.driftService.placeOrder(ctx, leg.dexAccountId, {
-        marketIndex,
-        marketType: marketType.toUpperCase() as 'PERP' | 'SPOT',
-        direction: leg.side,
-        amount: leg.size.toString(),
-        orderType: 'market',
-      });
+    logger.info(`Closed position ${action.positionId} on unfavorable funding`, {
+      executionId: execution.executionId,
+    });
+    outcome.status = 'closed';
+  }
 
-      return {
-        entryPrice: result.averagePrice || result.price || '0',
-        orderId: result.orderId,
-      };
+  /**
+   * The orders a rebalance places, in execution order.
+   * Flip: reduce-only close of the paying leg, then the same size on the other side.
+   * Close: one closing order per leg of the position.
+   */
+  private async buildRebalanceOrders(action: PositionToRebalance): Promise<LegOrder[]> {
+    const { legToClose, legToOpen } = action;
+
+    if (legToOpen) {
+      return [
+        {
+          dexType: legToClose.dexType,
+          dexAccountId: legToClose.dexAccountId,
+          market: getExchangeAdapter(legToClose.dexType).resolveMarket(legToClose),
+          side: legToClose.side === 'long' ? 'sell' : 'buy',
+          size: legToClose.size.toString(),
+          reduceOnly: true,
+        },
+        {
+          dexType: legToOpen.dexType,
+          dexAccountId: legToOpen.dexAccountId,
+          market: getExchangeAdapter(legToOpen.dexType).resolveMarket(legToOpen),
+          side: legToOpen.side === 'long' ? 'buy' : 'sell',
+          size: legToOpen.size.toString(),
+        },
+      ];
     }
 
-    throw new Error(`Unsupported DEX type: ${leg.dexType}`);
+    const snapshots = await this.db.getPositionSnapshots(action.positionId);
+
+    return snapshots.map(snapshot => ({
+      dexType: snapshot.dexType,
+      dexAccountId: snapshot.dexAccountId,
+      market: getExchangeAdapter(snapshot.dexType).resolveMarket(snapshot),
+      side: snapshot.side === 'short' ? 'buy' as const : 'sell' as const,
+      size: snapshot.size,
+      reduceOnly: snapshot.side !== 'spot', // Spot balances are sold outright
+    }));
   }
 
   /**
-   * Extract market index from Drift symbol (fallback method)
+   * Price the orders each rebalance would place and the resulting legs, without submitting anything
    */
-  private extractMarketIndexFromSymbol(symbol: string): number | undefined {
-    const symbolMatch = symbol.match(/MARKET_(\d+)_(\w+)/);
-    if (symbolMatch) {
-      return parseInt(symbolMatch[1]);
-    }
+  async simulateRebalances(positionsToRebalance: PositionToRebalance[]): Promise<SimulatedRebalance[]> {
+    const simulations: SimulatedRebalance[] = [];
 
-    const driftMarketMap: Record<string, number> = {
-      'BTC-PERP': 1,
-      'ETH-PERP': 2,
-      'SOL-PERP': 0,
-      'BTC-SPOT': 1,
-      'ETH-SPOT': 2,
-      'SOL-SPOT': 0,
-      'USDC-SPOT': 0,
-    };
+    for (const action of positionsToRebalance) {
+      try {
+        const [orders, snapshots] = await Promise.all([
+          this.buildRebalanceOrders(action),
+          this.db.getPositionSnapshots(action.positionId),
+        ]);
+
+        const simulatedOrders: SimulatedOrder[] = await Promise.all(orders.map(async order => {
+          const snapshot = snapshots.find(leg =>
+            leg.dexAccountId === order.dexAccountId && leg.symbol === order.market.symbol
+          );
+          let referencePrice: number | null = null;
+
+          try {
+            referencePrice = await getExchangeAdapter(order.dexType).getMarkPrice(order.market);
+          } catch (error) {
+            logger.warn(`Failed to get ${order.dexType} mark price for ${order.market.symbol}`, {
+              error: error instanceof Error ? error.message : error,
+            });
+          }
+
+          referencePrice = referencePrice ?? (snapshot ? parseFloat(snapshot.markPrice || snapshot.currentPrice) : null);
+          const notionalUsd = referencePrice !== null ? parseFloat(order.size) * referencePrice : null;
+          const cost = notionalUsd !== null ? orderCostUsd(order.dexType, notionalUsd, action.slippageBps) : null;
+
+          return {
+            ...order,
+            referencePrice,
+            notionalUsd,
+            estimatedFeeUsd: cost?.feeUsd ?? null,
+            estimatedSlippageUsd: cost?.slippageUsd ?? null,
+          };
+        }));
+
+        // Flip changes the side of one leg, close leaves nothing open
+        const postTradeLegs = action.legToOpen
+          ? snapshots.map(snapshot => ({
+              snapshotId: snapshot.id,
+              dexType: snapshot.dexType,
+              symbol: snapshot.symbol,
+              side: snapshot.id === action.legToClose.snapshotId ? action.legToOpen!.side : snapshot.side,
+              size: snapshot.size,
+            }))
+          : [];
+
+        simulations.push({
+          positionId: action.positionId,
+          userId: action.userId,
+          action: action.action,
+          currentFundingRate: action.currentFundingRate,
+          expectedFundingRate: action.expectedFundingRate,
+          projectedGainUsd: action.projectedGainUsd,
+          estimatedCostUsd: action.estimatedCostUsd,
+          orders: simulatedOrders,
+          totalFeeUsd: simulatedOrders.reduce((total, order) => total + (order.estimatedFeeUsd || 0), 0),
+          totalSlippageUsd: simulatedOrders.reduce((total, order) => total + (order.estimatedSlippageUsd || 0), 0),
+          postTrade: {
+            legs: postTradeLegs,
+            netSize: postTradeLegs.reduce(
+              (net, leg) => net + (leg.side === 'short' ? -1 : 1) * parseFloat(leg.size),
+              0
+            ),
+          },
+        });
+      } catch (error) {
+        logger.error(`Failed to simulate rebalance of position ${action.positionId}:`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
 
-    return driftMarketMap[symbol.toUpperCase()];
+    return simulations;
   }
 
   /**
-   * Main method to run the delta neutral funding engine
+   * Main method to run the delta neutral funding engine.
+   * With `dryRun` the rebalances are only simulated and returned as `plan`.
    */
-  async runFundingEngine(): Promise<{ 
-    checkedPositions: number, 
-    positionsToRebalance: number, 
-    successfullyRebalanced: number 
-  }> {
-    logger.info('Starting delta neutral funding engine');
+  async runFundingEngine(options: { dryRun?: boolean } = {}): Promise<FundingEngineResult> {
+    const dryRun = options.dryRun || false;
+    logger.info('Starting delta neutral funding engine', { dryRun });
 
     try {
-      const positionsToRebalance = await this.checkPositionsForRebalancing();
-      
-      if (positionsToRebalance.length > 0) {
-        await this.rebalanceUnfavorablePositions(positionsToRebalance);
+      const { checkedPositions, positionsToRebalance, unchanged } = await this.checkPositionsForRebalancing();
+
+      if (dryRun) {
+        const plan = await this.simulateRebalances(positionsToRebalance);
+
+        logger.info('Delta neutral funding engine dry run completed', {
+          positionsToRebalance: positionsToRebalance.length,
+          plan,
+        });
+
+        return {
+          checkedPositions,
+          positionsToRebalance: positionsToRebalance.length,
+          successfullyRebalanced: 0,
+          dryRun,
+          outcomes: [
+            ...unchanged,
+            ...positionsToRebalance.map(action => ({
+              positionId: action.positionId,
+              userId: action.userId,
+              status: 'simulated' as const,
+              action: action.action,
+              fundingRate: action.currentFundingRate,
+            })),
+          ],
+          plan,
+        };
       }
+      
+      const outcomes = positionsToRebalance.length > 0
+        ? await this.rebalanceUnfavorablePositions(positionsToRebalance)
+        : [];
+      const successfullyRebalanced = outcomes.filter(outcome => outcome.status === 'rebalanced' || outcome.status === 'closed').length;
 
       logger.info('Delta neutral funding engine completed', {
-        positionsToRebalance: positionsToRebalance.length
+        checkedPositions,
+        positionsToRebalance: positionsToRebalance.length,
+        successfullyRebalanced,
       });
 
       return {
-        checkedPositions: positionsToRebalance.length, // This could be tracked separately
+        checkedPositions,
         positionsToRebalance: positionsToRebalance.length,
-        successfullyRebalanced: positionsToRebalance.length // Assumes all succeeded - could track failures
+        successfullyRebalanced,
+        dryRun,
+        outcomes: [...unchanged, ...outcomes],
       };
 
     } catch (error) {
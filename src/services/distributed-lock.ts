@@ -0,0 +1,35 @@
+import { DatabaseRepository } from '@/db/repository';
+
+// Advisory lock namespaces, so job and position keys never collide
+const JOB_LOCK_NAMESPACE = 1;
+const POSITION_LOCK_NAMESPACE = 2;
+
+export type LockResult<T> = { acquired: true; result: T } | { acquired: false };
+
+/**
+ * Postgres advisory locks shared by every app instance and Lambda invocation on the same database.
+ *
+ * - Job locks elect one runner per job: an instance that cannot take the lock skips the run.
+ * - Position locks stop the scheduled engine and a manual run from trading the same position at once.
+ */
+export class DistributedLockService {
+  private db: DatabaseRepository;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+  }
+
+  /**
+   * Run a job only if no other instance is running it
+   */
+  async withJobLock<T>(jobName: string, fn: () => Promise<T>): Promise<LockResult<T>> {
+    return await this.db.withAdvisoryLock(JOB_LOCK_NAMESPACE, jobName, fn);
+  }
+
+  /**
+   * Act on a position only if nothing else is acting on it
+   */
+  async withPositionLock<T>(positionId: number, fn: () => Promise<T>): Promise<LockResult<T>> {
+    return await this.db.withAdvisoryLock(POSITION_LOCK_NAMESPACE, positionId, fn);
+  }
+}
@@ -10,6 +10,7 @@ export class DriftClientConfig {
     programId: string;
     rpcUrl: string;
     dataApiUrl: string;
+    dlobUrl: string;
     env: 'mainnet-beta' | 'devnet';
   };
 
@@ -23,6 +24,7 @@ export class DriftClientConfig {
       programId: driftConfig.programId,
       rpcUrl,
       dataApiUrl: driftConfig.dataApiUrl,
+      dlobUrl: driftConfig.dlobUrl,
       env: driftConfig.env,
     };
 
@@ -1,5 +1,6 @@
 import { DatabaseRepository } from '@/db/repository';
 import { ApiError, ErrorCode, RequestContext } from '@/types/common';
+import { DriftOpenOrder, DriftTradeRecord } from '@/types/drift';
 import { logger } from '@/utils/logger';
 import { driftClientConfig } from '@/services/drift-client';
 import { 
@@ -10,11 +11,32 @@ import {
   MarketType,
   PostOnlyParams,
   OrderTriggerCondition,
-  PRICE_PRECISION
+  PRICE_PRECISION,
+  BASE_PRECISION,
+  QUOTE_PRECISION,
+  calculateEntryPrice,
+  convertToNumber,
+  getUserAccountPublicKeySync
 } from '@drift-labs/sdk';
 import { PublicKey, Keypair, Connection } from '@solana/web3.js';
 import bs58 from 'bs58';
 
+/**
+ * Market entry from the Drift data API /contracts endpoint (CoinGecko derivatives format).
+ * Funding rates are hourly percentages.
+ */
+export interface DriftMarketContract {
+  ticker_id: string;
+  contract_index: number;
+  product_type?: string;
+  last_price: string;
+  index_price: string;
+  open_interest: string;
+  funding_rate: string;
+  next_funding_rate: string;
+  next_funding_rate_timestamp: string;
+}
+
 export class DriftService {
   private db: DatabaseRepository;
   private config: ReturnType<typeof driftClientConfig.getConfig>;
@@ -163,6 +185,46 @@ export class DriftService {
     });
   }
 
+  /**
+   * Get stored fills for an account, newest first.
+   * Fills are collected from the data API by the fill-collector job.
+   */
+  async getFills(
+    ctx: RequestContext,
+    dexAccountId: number,
+    filters: {
+      limit: number;
+      offset: number;
+      startDate?: Date;
+      endDate?: Date;
+      symbol?: string;
+    }
+  ) {
+    // Verify access
+    const dexAccount = await this.db.getDexAccount(dexAccountId);
+    if (!dexAccount || dexAccount.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'Access denied to this account');
+    }
+
+    const { fills, total } = await this.db.getFills({
+      dexAccountIds: [dexAccountId],
+      asset: filters.symbol,
+      from: filters.startDate,
+      to: filters.endDate,
+      limit: filters.limit,
+      offset: filters.offset,
+    });
+
+    return {
+      fills,
+      pagination: {
+        limit: filters.limit,
+        offset: filters.offset,
+        total,
+      },
+    };
+  }
+
   /**
    * Create delta neutral position (Drift + Hyperliquid)
    */
@@ -1166,6 +1228,7 @@ export class DriftService {
       amount: string;
       orderType: 'market' | 'limit';
       price?: string;
+      reduceOnly?: boolean;
     }
   ) {
     const result = await this.placeDelegateOrder(ctx, dexAccountId, {
@@ -1175,6 +1238,7 @@ export class DriftService {
       baseAssetAmount: params.amount,
       orderType: params.orderType,
       price: params.price,
+      reduceOnly: params.reduceOnly,
       immediateOrCancel: params.orderType === 'market',
     });
 
@@ -1303,4 +1367,386 @@ export class DriftService {
       );
     }
   }
+
+  /**
+   * Get the open perp position for a market, read on-chain through the delegate client
+   */
+  async getPerpPosition(
+    ctx: RequestContext,
+    dexAccountId: number,
+    marketIndex: number
+  ): Promise<{
+    baseAssetAmount: number;
+    entryPrice: number;
+    oraclePrice: number;
+    unrealizedPnl: number;
+    liquidationPrice: number | null;
+  } | null> {
+    const dexAccount = await this.db.getDexAccount(dexAccountId);
+    if (!dexAccount || dexAccount.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'Access denied to this account');
+    }
+
+    const driftClient = this.createDelegateClient(dexAccount);
+    await driftClient.subscribe();
+
+    try {
+      const user = driftClient.getUser();
+      const perpPosition = user.getPerpPosition(marketIndex);
+
+      if (!perpPosition || perpPosition.baseAssetAmount.eq(new BN(0))) {
+        return null;
+      }
+
+      const liquidationPrice = user.liquidationPrice(marketIndex);
+
+      return {
+        baseAssetAmount: convertToNumber(perpPosition.baseAssetAmount, BASE_PRECISION),
+        entryPrice: convertToNumber(calculateEntryPrice(perpPosition), PRICE_PRECISION),
+        oraclePrice: convertToNumber(driftClient.getOracleDataForPerpMarket(marketIndex).price, PRICE_PRECISION),
+        unrealizedPnl: convertToNumber(user.getUnrealizedPNL(true, marketIndex), QUOTE_PRECISION),
+        // The SDK returns -1 when the position cannot be liquidated
+        liquidationPrice: liquidationPrice.lte(new BN(0))
+          ? null
+          : convertToNumber(liquidationPrice, PRICE_PRECISION),
+      };
+    } finally {
+      await driftClient.unsubscribe();
+    }
+  }
+
+  /**
+   * Get the orders resting in the account's order slots, read on-chain through the delegate client.
+   * Filled, cancelled and expired orders leave their slot, so they are not returned.
+   */
+  async getOpenOrders(ctx: RequestContext, dexAccountId: number): Promise<DriftOpenOrder[]> {
+    const dexAccount = await this.db.getDexAccount(dexAccountId);
+    if (!dexAccount || dexAccount.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'Access denied to this account');
+    }
+
+    const driftClient = this.createDelegateClient(dexAccount);
+    await driftClient.subscribe();
+
+    try {
+      return driftClient.getUser().getOpenOrders().map(order => ({
+        orderId: order.orderId,
+        userOrderId: order.userOrderId,
+        marketIndex: order.marketIndex,
+        baseAssetAmount: convertToNumber(order.baseAssetAmount, BASE_PRECISION),
+        baseAssetAmountFilled: convertToNumber(order.baseAssetAmountFilled, BASE_PRECISION),
+        quoteAssetAmountFilled: convertToNumber(order.quoteAssetAmountFilled, QUOTE_PRECISION),
+      }));
+    } finally {
+      await driftClient.unsubscribe();
+    }
+  }
+
+  /**
+   * Build a DriftClient that reads/trades the user's account through the backend delegate wallet
+   */
+  private createDelegateClient(dexAccount: { address: string; subaccountId: number | null }): DriftClient {
+    const privateKeyString = process.env.MAGNOLIA_SOLANA_PRIVATE_KEY;
+    if (!privateKeyString) {
+      throw new ApiError(ErrorCode.INTERNAL_ERROR, 'Backend wallet not configured for delegate trading');
+    }
+
+    const keypair = Keypair.fromSecretKey(bs58.decode(privateKeyString));
+    const connection = new Connection(this.config.rpcUrl, 'confirmed');
+
+    const signTx = (tx: any) => {
+      if (tx.sign && !tx.partialSign) {
+        tx.sign([keypair]);
+      } else if (tx.partialSign) {
+        tx.partialSign(keypair);
+      } else {
+        try {
+          tx.sign([keypair]);
+        } catch {
+          tx.partialSign(keypair);
+        }
+      }
+      return tx;
+    };
+
+    const wallet = {
+      publicKey: keypair.publicKey,
+      signTransaction: async (tx: any) => signTx(tx),
+      signAllTransactions: async (txs: any[]) => txs.map(signTx),
+    };
+
+    return new DriftClient({
+      connection,
+      wallet,
+      env: this.config.env as 'mainnet-beta' | 'devnet',
+      programID: new PublicKey(this.config.programId),
+      authority: new PublicKey(dexAccount.address),
+      activeSubAccountId: dexAccount.subaccountId || 0,
+      includeDelegates: false,
+      authoritySubAccountMap: new Map([
+        [dexAccount.address, [dexAccount.subaccountId || 0]]
+      ]),
+    });
+  }
+
+  /**
+   * Get the latest hourly funding rate for a perp market from the Drift data API
+   * fundingRatePct = (fundingRate / 1e9) / (oraclePriceTwap / 1e6)
+   */
+  async getFundingRate(marketName: string): Promise<number | null> {
+    try {
+      const response = await fetch(`${this.config.dataApiUrl}/fundingRates?marketName=${marketName}`);
+      if (!response.ok) {
+        logger.error('Failed to fetch Drift funding rates', { marketName, status: response.status });
+        return null;
+      }
+
+      const data = await response.json() as {
+        fundingRates?: Array<{ fundingRate: string; oraclePriceTwap: string }>;
+      };
+      const latest = data.fundingRates?.[data.fundingRates.length - 1];
+      if (!latest) {
+        return null;
+      }
+
+      const oraclePriceTwap = parseFloat(latest.oraclePriceTwap) / 1e6;
+      if (oraclePriceTwap <= 0) {
+        return null;
+      }
+
+      return (parseFloat(latest.fundingRate) / 1e9) / oraclePriceTwap;
+    } catch (error) {
+      logger.error('Failed to get Drift funding rate', {
+        marketName,
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get settled funding payment records for a Drift user account from the data API, newest first.
+   * Pages back from `fromPage` (or the newest record) until records are older than `since`. Amounts are
+   * USDC, positive when received. The API only pages newest first, so when the page cap is hit before
+   * `since` is reached, `nextPage` is returned to continue with the older records.
+   */
+  async getFundingPaymentRecords(
+    authority: string,
+    subAccountId: number,
+    since: Date,
+    fromPage?: string
+  ): Promise<{
+    records: Array<{
+      ts: number; // Unix seconds
+      txSig: string;
+      txSigIndex?: number;
+      marketIndex: number;
+      fundingPayment: string;
+      baseAssetAmount: string;
+    }>;
+    nextPage: string | null;
+  }> {
+    const MAX_PAGES = 20;
+    const userAccount = getUserAccountPublicKeySync(
+      new PublicKey(this.config.programId),
+      new PublicKey(authority),
+      subAccountId
+    ).toBase58();
+
+    const records: any[] = [];
+    let page: string | undefined = fromPage;
+
+    for (let i = 0; i < MAX_PAGES; i++) {
+      const url = `${this.config.dataApiUrl}/user/${userAccount}/fundingPayments${page ? `?page=${page}` : ''}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Failed to fetch Drift funding payments: ${response.status} ${response.statusText}`,
+          502
+        );
+      }
+
+      const data = await response.json() as { records?: any[]; meta?: { nextPage?: string | null } };
+      const batch = data.records || [];
+      const recent = batch.filter(record => Number(record.ts) * 1000 >= since.getTime());
+      records.push(...recent);
+
+      if (recent.length < batch.length || !data.meta?.nextPage) {
+        return { records, nextPage: null };
+      }
+      page = data.meta.nextPage;
+    }
+
+    logger.warn('Drift funding payment records exceed the page cap; older records are left for the next call', {
+      userAccount,
+      since,
+    });
+    return { records, nextPage: page || null };
+  }
+
+  /**
+   * Get fills for a Drift user account from the data API, newest first.
+   * Pages back from `fromPage` (or the newest record) until records are older than `since`. Each fill is
+   * reported from the account's side, as taker or maker. When the page cap is hit before `since` is
+   * reached, `nextPage` is returned to continue with the older records.
+   */
+  async getTradeRecords(
+    authority: string,
+    subAccountId: number,
+    since: Date,
+    fromPage?: string
+  ): Promise<{ records: DriftTradeRecord[]; nextPage: string | null }> {
+    const MAX_PAGES = 20;
+    const userAccount = getUserAccountPublicKeySync(
+      new PublicKey(this.config.programId),
+      new PublicKey(authority),
+      subAccountId
+    ).toBase58();
+
+    const records: DriftTradeRecord[] = [];
+    let page: string | undefined = fromPage;
+
+    for (let i = 0; i < MAX_PAGES; i++) {
+      const url = `${this.config.dataApiUrl}/user/${userAccount}/trades${page ? `?page=${page}` : ''}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Failed to fetch Drift trades: ${response.status} ${response.statusText}`,
+          502
+        );
+      }
+
+      const data = await response.json() as { records?: any[]; meta?: { nextPage?: string | null } };
+      const batch = data.records || [];
+      const recent = batch.filter(record => Number(record.ts) * 1000 >= since.getTime());
+
+      for (const record of recent) {
+        const isTaker = record.taker === userAccount;
+        records.push({
+          ts: Number(record.ts),
+          txSig: record.txSig,
+          fillRecordId: String(record.fillRecordId),
+          marketIndex: Number(record.marketIndex),
+          marketType: record.marketType,
+          symbol: record.symbol || `MARKET_${record.marketIndex}_${String(record.marketType).toUpperCase()}`,
+          orderId: Number(isTaker ? record.takerOrderId : record.makerOrderId),
+          direction: isTaker ? record.takerOrderDirection : record.makerOrderDirection,
+          baseAssetAmountFilled: String(record.baseAssetAmountFilled),
+          quoteAssetAmountFilled: String(record.quoteAssetAmountFilled),
+          fee: String((isTaker ? record.takerFee : record.makerFee) ?? '0'),
+          oraclePrice: String(record.oraclePrice ?? '0'),
+          isTaker,
+        });
+      }
+
+      if (recent.length < batch.length || !data.meta?.nextPage) {
+        return { records, nextPage: null };
+      }
+      page = data.meta.nextPage;
+    }
+
+    logger.warn('Drift trade records exceed the page cap; older records are left for the next call', {
+      userAccount,
+      since,
+    });
+    return { records, nextPage: page || null };
+  }
+
+  /**
+   * Get the L2 order book for a market (e.g. "SOL-PERP") from the Drift DLOB server, including vAMM liquidity
+   * Levels are sorted best first: bids descending, asks ascending
+   */
+  async getL2OrderBook(marketName: string, depth: number = 20): Promise<{
+    bids: Array<{ price: number; size: number }>;
+    asks: Array<{ price: number; size: number }>;
+  }> {
+    const response = await fetch(
+      `${this.config.dlobUrl}/l2?marketName=${marketName}&depth=${depth}&includeVamm=true`
+    );
+    if (!response.ok) {
+      throw new ApiError(
+        ErrorCode.EXTERNAL_API_ERROR,
+        `Failed to fetch Drift order book for ${marketName}: ${response.status} ${response.statusText}`,
+        502
+      );
+    }
+
+    const data = await response.json() as {
+      bids?: Array<{ price: string; size: string }>;
+      asks?: Array<{ price: string; size: string }>;
+    };
+
+    // Prices use PRICE_PRECISION (1e6), sizes BASE_PRECISION (1e9)
+    const toLevel = (level: { price: string; size: string }) => ({
+      price: Number(level.price) / PRICE_PRECISION.toNumber(),
+      size: Number(level.size) / BASE_PRECISION.toNumber(),
+    });
+
+    return {
+      bids: (data.bids || []).map(toLevel),
+      asks: (data.asks || []).map(toLevel),
+    };
+  }
+
+  /**
+   * Get contract data (last price, index price, open interest, funding) for every market from the Drift data API
+   */
+  async getMarketContracts(): Promise<DriftMarketContract[]> {
+    try {
+      const response = await fetch(`${this.config.dataApiUrl}/contracts`);
+      if (!response.ok) {
+        logger.error('Failed to fetch Drift contracts', { status: response.status });
+        return [];
+      }
+
+      const data = await response.json() as { contracts?: DriftMarketContract[] } | DriftMarketContract[];
+      return Array.isArray(data) ? data : data.contracts || [];
+    } catch (error) {
+      logger.error('Failed to get Drift market contracts', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get oracle prices for all perp markets, keyed by market index.
+   * The data API reports each market's oracle price as the contract index_price.
+   */
+  async getOraclePrices(): Promise<Map<number, number>> {
+    const contracts = await this.getMarketContracts();
+    const prices = new Map<number, number>();
+
+    for (const contract of contracts) {
+      const price = this.oraclePrice(contract);
+      if (contract.ticker_id.endsWith('-PERP') && price !== null) {
+        prices.set(contract.contract_index, price);
+      }
+    }
+
+    return prices;
+  }
+
+  /**
+   * Get the oracle price of a single market, e.g. "SOL-PERP"
+   */
+  async getOraclePrice(tickerId: string): Promise<number | null> {
+    const contract = await this.getMarketContract(tickerId);
+    return contract ? this.oraclePrice(contract) : null;
+  }
+
+  /**
+   * Get market contract data for a single market, e.g. "SOL-PERP"
+   */
+  async getMarketContract(tickerId: string): Promise<DriftMarketContract | null> {
+    const contracts = await this.getMarketContracts();
+    return contracts.find(contract => contract.ticker_id === tickerId) || null;
+  }
+
+  private oraclePrice(contract: DriftMarketContract): number | null {
+    const price = parseFloat(contract.index_price);
+    return Number.isFinite(price) && price > 0 ? price : null;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { DriftService } from '@/services/drift';
+import { getFundingRateService } from '@/services/funding-rates';
+import { ApiError, ErrorCode, RequestContext } from '@/types/common';
+import {
+  CancelOrderParams,
+  ClosePositionParams,
+  ExchangeAdapter,
+  ExchangePosition,
+  MarketRef,
+  PlacedOrder,
+  PlaceOrderParams,
+} from '@/types/exchange';
+
+// Fallback symbol -> market index mapping for legs stored without a marketIndex
+const DRIFT_MARKET_INDEXES: Record<string, number> = {
+  'SOL-PERP': 0,
+  'BTC-PERP': 1,
+  'ETH-PERP': 2,
+  'SOL-SPOT': 0,
+  'BTC-SPOT': 1,
+  'ETH-SPOT': 2,
+  'USDC-SPOT': 0,
+};
+
+/**
+ * Drift adapter - wraps DriftService (delegate wallet signing)
+ */
+export class DriftExchangeAdapter implements ExchangeAdapter {
+  readonly dexType = 'drift' as const;
+  private service: DriftService;
+
+  constructor(service?: DriftService) {
+    this.service = service || new DriftService();
+  }
+
+  resolveMarket(leg: { symbol: string; metadata?: any }, override?: Partial<MarketRef>): MarketRef {
+    const metadata = leg.metadata || {};
+
+    // Old snapshots use "MARKET_0_PERP" symbols
+    const legacyMatch = leg.symbol.match(/MARKET_(\d+)_(\w+)/);
+
+    const marketType = (
+      override?.marketType ||
+      metadata.marketType ||
+      legacyMatch?.[2] ||
+      (leg.symbol.toUpperCase().endsWith('-SPOT') ? 'spot' : 'perp')
+    ).toLowerCase() as 'perp' | 'spot';
+
+    const marketIndex = override?.marketIndex ??
+      metadata.marketIndex ??
+      (legacyMatch ? parseInt(legacyMatch[1]) : undefined) ??
+      DRIFT_MARKET_INDEXES[this.marketName({ symbol: leg.symbol, marketType })];
+
+    if (marketIndex === undefined) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        `Unknown Drift market: ${leg.symbol}. Please provide marketIndex.`
+      );
+    }
+
+    return { symbol: leg.symbol, marketType, marketIndex };
+  }
+
+  async placeOrder(ctx: RequestContext, dexAccountId: number, params: PlaceOrderParams): Promise<PlacedOrder> {
+    const result = await this.service.placeOrder(ctx, dexAccountId, {
+      marketIndex: this.requireMarketIndex(params.market),
+      marketType: params.market.marketType === 'spot' ? 'SPOT' : 'PERP',
+      direction: params.side === 'buy' ? 'long' : 'short',
+      amount: params.size,
+      orderType: params.orderType,
+      price: params.price,
+      reduceOnly: params.reduceOnly,
+    });
+
+    let fillPrice = result.averagePrice || result.price || undefined;
+    if (!fillPrice || fillPrice === '0') {
+      const markPrice = await this.getMarkPrice(params.market);
+      fillPrice = markPrice ? markPrice.toString() : undefined;
+    }
+
+    return {
+      dexType: this.dexType,
+      orderId: result.orderId,
+      exchangeOrderId: result.order.driftOrderId || undefined,
+      status: result.order.status === 'filled' ? 'filled' : 'open',
+      fillPrice,
+      raw: result,
+    };
+  }
+
+  async cancelOrder(ctx: RequestContext, dexAccountId: number, params: CancelOrderParams): Promise<void> {
+    if (!params.orderId) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, 'orderId is required to cancel Drift orders');
+    }
+
+    await this.service.cancelOrder(ctx, dexAccountId, params.orderId);
+  }
+
+  async closePosition(ctx: RequestContext, dexAccountId: number, params: ClosePositionParams): Promise<any> {
+    return await this.service.closePosition(ctx, dexAccountId, {
+      marketIndex: this.requireMarketIndex(params.market),
+      marketType: params.market.marketType === 'spot' ? 'SPOT' : 'PERP',
+      size: params.size,
+    });
+  }
+
+  async getPosition(ctx: RequestContext, dexAccountId: number, market: MarketRef): Promise<ExchangePosition | null> {
+    const position = await this.service.getPerpPosition(ctx, dexAccountId, this.requireMarketIndex(market));
+    if (!position) {
+      return null;
+    }
+
+    return {
+      market,
+      side: position.baseAssetAmount > 0 ? 'long' : 'short',
+      size: Math.abs(position.baseAssetAmount).toString(),
+      entryPrice: position.entryPrice.toString(),
+      markPrice: position.oraclePrice.toString(),
+      unrealizedPnl: position.unrealizedPnl.toString(),
+      liquidationPrice: position.liquidationPrice !== null ? position.liquidationPrice.toString() : undefined,
+    };
+  }
+
+  async getFundingRate(market: MarketRef): Promise<number | null> {
+    const rate = await getFundingRateService().getFundingRate(this.dexType, market);
+    return rate ? rate.currentHourly : null;
+  }
+
+  async getMarkPrice(market: MarketRef): Promise<number | null> {
+    // The oracle price, which Drift margins against and valuation uses
+    return await this.service.getOraclePrice(this.marketName(market));
+  }
+
+  private requireMarketIndex(market: MarketRef): number {
+    if (market.marketIndex === undefined) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `marketIndex is required for Drift market ${market.symbol}`);
+    }
+    return market.marketIndex;
+  }
+
+  /**
+   * Drift market name, e.g. "SOL-PERP"
+   */
+  private marketName(market: Pick<MarketRef, 'symbol' | 'marketType' | 'marketIndex'>): string {
+    const suffix = market.marketType === 'spot' ? 'SPOT' : 'PERP';
+
+    // Legacy "MARKET_0_PERP" symbols carry no asset name, look it up by index
+    if (/^MARKET_\d+_/.test(market.symbol)) {
+      const name = Object.keys(DRIFT_MARKET_INDEXES).find(key =>
+        key.endsWith(`-${suffix}`) && DRIFT_MARKET_INDEXES[key] === market.marketIndex
+      );
+      if (name) {
+        return name;
+      }
+    }
+
+    return `${market.symbol.split('-')[0].toUpperCase()}-${suffix}`;
+  }
+}
@@ -0,0 +1,201 @@
+import { HyperliquidService } from '@/services/hyperliquid';
+import { getFundingRateService } from '@/services/funding-rates';
+import { ApiError, ErrorCode, RequestContext } from '@/types/common';
+import {
+  CancelOrderParams,
+  ClosePositionParams,
+  ExchangeAdapter,
+  ExchangePosition,
+  MarketRef,
+  PlacedOrder,
+  PlaceOrderParams,
+} from '@/types/exchange';
+import { logger } from '@/utils/logger';
+
+/**
+ * Hyperliquid adapter - wraps HyperliquidService (agent wallet signing)
+ */
+export class HyperliquidExchangeAdapter implements ExchangeAdapter {
+  readonly dexType = 'hyperliquid' as const;
+  private service: HyperliquidService;
+
+  constructor(service?: HyperliquidService) {
+    this.service = service || new HyperliquidService();
+  }
+
+  resolveMarket(leg: { symbol: string; metadata?: any }, override?: Partial<MarketRef>): MarketRef {
+    const metadata = leg.metadata || {};
+    const marketType = override?.marketType || metadata.marketType || 'perp';
+    const storedAssetId = metadata.assetId ?? metadata.assetIndex;
+
+    // Spot asset ids (10000 + index) are fixed at entry, so never override them
+    let assetId: number | undefined;
+    if (marketType === 'spot') {
+      assetId = storedAssetId;
+      if (override?.assetId !== undefined && override.assetId !== assetId) {
+        logger.warn('Override assetId does not match stored spot assetId, using stored value', {
+          overrideAssetId: override.assetId,
+          storedAssetId: assetId,
+          symbol: leg.symbol,
+        });
+      }
+    } else {
+      assetId = override?.assetId ?? storedAssetId;
+    }
+
+    if (assetId === undefined || assetId === null) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        marketType === 'spot'
+          ? `Spot position ${leg.symbol} requires assetId. For spot assets, use assetId = 10000 + index.`
+          : `Missing assetId for Hyperliquid position ${leg.symbol}`
+      );
+    }
+
+    return { symbol: leg.symbol, marketType, assetId };
+  }
+
+  async placeOrder(ctx: RequestContext, dexAccountId: number, params: PlaceOrderParams): Promise<PlacedOrder> {
+    const assetId = this.requireAssetId(params.market);
+
+    const result = await this.service.placeOrder(ctx, dexAccountId, {
+      orders: [{
+        assetSymbol: params.market.symbol,
+        assetIndex: assetId,
+        side: params.side,
+        orderType: params.orderType,
+        size: params.size,
+        price: params.price,
+        reduceOnly: params.reduceOnly || false,
+        isSpot: params.market.marketType === 'spot',
+      }],
+      grouping: 'na' as const,
+    });
+
+    const status = result.statuses?.[0];
+    if (status?.error) {
+      throw new ApiError(ErrorCode.ORDER_REJECTED, `Hyperliquid rejected order: ${status.error}`);
+    }
+
+    let fillPrice = status?.filled?.avgPx;
+    if (!fillPrice) {
+      // Resting orders have no fill yet - use the mark price as a reference
+      const markPrice = await this.getMarkPrice(params.market);
+      fillPrice = markPrice ? markPrice.toString() : undefined;
+    }
+
+    const exchangeOrderId = status?.resting?.oid ?? status?.filled?.oid;
+
+    return {
+      dexType: this.dexType,
+      orderId: result.dbOrderIds?.[0],
+      exchangeOrderId: exchangeOrderId !== undefined ? exchangeOrderId.toString() : undefined,
+      status: status?.filled ? 'filled' : status?.resting ? 'open' : 'pending',
+      fillPrice,
+      filledSize: status?.filled?.totalSz,
+      raw: result,
+    };
+  }
+
+  async cancelOrder(ctx: RequestContext, dexAccountId: number, params: CancelOrderParams): Promise<void> {
+    if (!params.exchangeOrderId) {
+      // Filled market orders have nothing left to cancel
+      return;
+    }
+
+    await this.service.cancelOrder(ctx, dexAccountId, {
+      cancels: [{
+        asset: params.market.symbol,
+        assetId: this.requireAssetId(params.market),
+        orderId: params.exchangeOrderId,
+      }],
+    });
+  }
+
+  async closePosition(ctx: RequestContext, dexAccountId: number, params: ClosePositionParams): Promise<any> {
+    return await this.service.closePosition(ctx, dexAccountId, {
+      assetSymbol: params.market.marketType === 'spot' ? params.market.symbol : this.coin(params.market),
+      assetIndex: this.requireAssetId(params.market),
+      size: params.size,
+    });
+  }
+
+  async getPosition(ctx: RequestContext, dexAccountId: number, market: MarketRef): Promise<ExchangePosition | null> {
+    const assetId = this.requireAssetId(market);
+    if (assetId >= 10000) {
+      return await this.getSpotPosition(ctx, dexAccountId, market, assetId);
+    }
+
+    const position = await this.service.getPerpPosition(ctx, dexAccountId, this.coin(market));
+    if (!position) {
+      return null;
+    }
+
+    const size = parseFloat(position.szi);
+    const markPrice = await this.getMarkPrice(market);
+
+    return {
+      market,
+      side: size > 0 ? 'long' : 'short',
+      size: Math.abs(size).toString(),
+      entryPrice: position.entryPx,
+      markPrice: markPrice ? markPrice.toString() : undefined,
+      unrealizedPnl: position.unrealizedPnl,
+      liquidationPrice: position.liquidationPx || undefined,
+    };
+  }
+
+  /**
+   * A spot holding as a long position: the base token balance, valued at the spot mark. It cannot be liquidated.
+   */
+  private async getSpotPosition(
+    ctx: RequestContext,
+    dexAccountId: number,
+    market: MarketRef,
+    assetId: number
+  ): Promise<ExchangePosition | null> {
+    const balance = await this.service.getSpotBalance(ctx, dexAccountId, assetId);
+    if (!balance) {
+      return null;
+    }
+
+    const size = parseFloat(balance.total);
+    const entryNotional = parseFloat(balance.entryNtl);
+    const markPrice = await this.getMarkPrice(market);
+
+    return {
+      market,
+      side: 'long',
+      size: balance.total,
+      entryPrice: (entryNotional / size).toString(),
+      markPrice: markPrice ? markPrice.toString() : undefined,
+      unrealizedPnl: markPrice ? (size * markPrice - entryNotional).toString() : undefined,
+    };
+  }
+
+  async getFundingRate(market: MarketRef): Promise<number | null> {
+    const rate = await getFundingRateService().getFundingRate(this.dexType, market);
+    return rate ? rate.currentHourly : null;
+  }
+
+  async getMarkPrice(market: MarketRef): Promise<number | null> {
+    const assetId = this.requireAssetId(market);
+    // Perp contexts are keyed by perp index; spot asset ids (10000 + index) have their own contexts
+    const prices = assetId >= 10000
+      ? await this.service.getSpotAssetPrices()
+      : await this.service.getAssetPrices();
+    const price = prices.get(assetId);
+    return price?.markPx || price?.midPx || null;
+  }
+
+  private requireAssetId(market: MarketRef): number {
+    if (market.assetId === undefined) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `assetId is required for Hyperliquid market ${market.symbol}`);
+    }
+    return market.assetId;
+  }
+
+  private coin(market: MarketRef): string {
+    return market.symbol.split('-')[0].toUpperCase();
+  }
+}
@@ -0,0 +1,142 @@
+import { LighterService } from '@/services/lighter';
+import { getFundingRateService } from '@/services/funding-rates';
+import { ApiError, ErrorCode, RequestContext } from '@/types/common';
+import {
+  CancelOrderParams,
+  ClosePositionParams,
+  ExchangeAdapter,
+  ExchangePosition,
+  MarketRef,
+  PlacedOrder,
+  PlaceOrderParams,
+} from '@/types/exchange';
+import { logger } from '@/utils/logger';
+
+/**
+ * Lighter adapter - wraps LighterService (API key signing)
+ */
+export class LighterExchangeAdapter implements ExchangeAdapter {
+  readonly dexType = 'lighter' as const;
+  private service: LighterService;
+
+  constructor(service?: LighterService) {
+    this.service = service || new LighterService();
+  }
+
+  resolveMarket(leg: { symbol: string; metadata?: any }, override?: Partial<MarketRef>): MarketRef {
+    const metadata = leg.metadata || {};
+    const marketId = override?.marketId ?? metadata.marketId;
+
+    if (marketId === undefined || marketId === null) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `Missing marketId for Lighter position ${leg.symbol}`);
+    }
+
+    return {
+      symbol: leg.symbol,
+      marketType: override?.marketType || metadata.marketType || 'perp',
+      marketId,
+    };
+  }
+
+  async placeOrder(ctx: RequestContext, dexAccountId: number, params: PlaceOrderParams): Promise<PlacedOrder> {
+    const result = await this.service.createOrder(ctx, dexAccountId, {
+      marketId: this.requireMarketId(params.market),
+      side: params.side,
+      orderType: params.orderType === 'market' ? 'ORDER_TYPE_MARKET' : 'ORDER_TYPE_LIMIT',
+      baseAmount: params.size,
+      price: params.price,
+      reduceOnly: params.reduceOnly,
+    });
+
+    // Market orders carry a worst-case price, so report the last trade as the reference fill
+    let fillPrice = params.orderType === 'limit' ? result.price : undefined;
+    if (!fillPrice) {
+      const markPrice = await this.getMarkPrice(params.market);
+      fillPrice = markPrice ? markPrice.toString() : undefined;
+    }
+
+    return {
+      dexType: this.dexType,
+      orderId: result.orderId,
+      exchangeOrderId: result.clientOrderIndex.toString(),
+      status: params.orderType === 'market' ? 'pending' : 'open',
+      fillPrice,
+      raw: result,
+    };
+  }
+
+  async cancelOrder(ctx: RequestContext, dexAccountId: number, params: CancelOrderParams): Promise<void> {
+    if (!params.exchangeOrderId) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, 'exchangeOrderId (client order index) is required to cancel Lighter orders');
+    }
+
+    await this.service.cancelOrder(ctx, dexAccountId, {
+      marketId: this.requireMarketId(params.market),
+      clientOrderIndex: Number(params.exchangeOrderId),
+    });
+  }
+
+  async closePosition(ctx: RequestContext, dexAccountId: number, params: ClosePositionParams): Promise<any> {
+    const position = await this.getPosition(ctx, dexAccountId, params.market);
+    if (!position) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `No open position found for Lighter market ${params.market.symbol}`);
+    }
+
+    return await this.placeOrder(ctx, dexAccountId, {
+      market: params.market,
+      side: position.side === 'long' ? 'sell' : 'buy',
+      size: params.size || position.size,
+      orderType: 'market',
+      reduceOnly: true,
+    });
+  }
+
+  async getPosition(ctx: RequestContext, dexAccountId: number, market: MarketRef): Promise<ExchangePosition | null> {
+    const positions = await this.service.getAccountPositions(ctx, dexAccountId);
+
+    const position = positions.find(p => p.market_id === this.requireMarketId(market));
+    if (!position) {
+      return null;
+    }
+
+    const markPrice = await this.getMarkPrice(market);
+
+    return {
+      market,
+      side: position.sign > 0 ? 'long' : 'short',
+      size: Math.abs(parseFloat(position.position)).toString(),
+      entryPrice: position.avg_entry_price,
+      markPrice: markPrice ? markPrice.toString() : undefined,
+      unrealizedPnl: position.unrealized_pnl,
+      liquidationPrice: position.liquidation_price && parseFloat(position.liquidation_price) > 0
+        ? position.liquidation_price
+        : undefined,
+    };
+  }
+
+  async getFundingRate(market: MarketRef): Promise<number | null> {
+    const rate = await getFundingRateService().getFundingRate(this.dexType, market);
+    return rate ? rate.currentHourly : null;
+  }
+
+  async getMarkPrice(market: MarketRef): Promise<number | null> {
+    try {
+      const details = await this.service.getOrderBookDetails(this.requireMarketId(market));
+      const price = parseFloat(details?.order_book_details?.[0]?.last_trade_price);
+      return Number.isFinite(price) && price > 0 ? price : null;
+    } catch (error) {
+      logger.error('Failed to get Lighter mark price', {
+        marketId: market.marketId,
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+  }
+
+  private requireMarketId(market: MarketRef): number {
+    if (market.marketId === undefined) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `marketId is required for Lighter market ${market.symbol}`);
+    }
+    return market.marketId;
+  }
+}
@@ -0,0 +1,64 @@
+import { dexTypeEnum } from '@/db/schema';
+import { ApiError, ErrorCode } from '@/types/common';
+import { DexType, ExchangeAdapter } from '@/types/exchange';
+import { HyperliquidExchangeAdapter } from './hyperliquid';
+import { DriftExchangeAdapter } from './drift';
+import { LighterExchangeAdapter } from './lighter';
+
+/**
+ * Exchange Adapter Registry
+ *
+ * Maps every `dexTypeEnum` value to its ExchangeAdapter, so handlers and engines
+ * can work with any venue without branching on dexType.
+ */
+export class ExchangeRegistry {
+  private adapters = new Map<DexType, ExchangeAdapter>();
+
+  register(adapter: ExchangeAdapter): void {
+    this.adapters.set(adapter.dexType, adapter);
+  }
+
+  has(dexType: string): dexType is DexType {
+    return this.adapters.has(dexType as DexType);
+  }
+
+  /**
+   * Get the adapter for a venue
+   */
+  get(dexType: string): ExchangeAdapter {
+    const adapter = this.adapters.get(dexType as DexType);
+    if (!adapter) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `Unsupported DEX type: ${dexType}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Venues with a registered adapter, in `dexTypeEnum` order
+   */
+  getSupportedDexTypes(): DexType[] {
+    return dexTypeEnum.enumValues.filter(dexType => this.adapters.has(dexType));
+  }
+}
+
+let registryInstance: ExchangeRegistry | null = null;
+
+/**
+ * Get the singleton registry with all built-in adapters registered
+ */
+export function getExchangeRegistry(): ExchangeRegistry {
+  if (!registryInstance) {
+    registryInstance = new ExchangeRegistry();
+    registryInstance.register(new HyperliquidExchangeAdapter());
+    registryInstance.register(new DriftExchangeAdapter());
+    registryInstance.register(new LighterExchangeAdapter());
+  }
+  return registryInstance;
+}
+
+/**
+ * Shorthand for getExchangeRegistry().get(dexType)
+ */
+export function getExchangeAdapter(dexType: string): ExchangeAdapter {
+  return getExchangeRegistry().get(dexType);
+}
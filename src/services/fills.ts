@@ -0,0 +1,293 @@
+import { DatabaseRepository } from '@/db/repository';
+import { dexAccounts, fills } from '@/db/schema';
+import { DriftService } from '@/services/drift';
+import { HyperliquidService } from '@/services/hyperliquid';
+import { NotificationService } from '@/services/notifications';
+import { DexType } from '@/types/exchange';
+import { logger } from '@/utils/logger';
+
+// How far back the first collection for an account reaches
+const INITIAL_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Filled amounts that differ by less than this are treated as unchanged
+const AMOUNT_EPSILON = 1e-9;
+
+type DexAccount = typeof dexAccounts.$inferSelect;
+type Fill = typeof fills.$inferSelect;
+
+/**
+ * Where a Drift fetch that hit its page cap stopped, kept in the account's metadata as `tradeBackfill`
+ */
+interface DriftBackfill {
+  page: string;
+  since: string; // ISO time the interrupted fetch reached back to
+}
+
+/**
+ * Fill Service
+ *
+ * Collects executed trades for every active account into the fills table, resuming from the
+ * latest stored fill.
+ *
+ * - Hyperliquid fills come from `userFillsByTime` of the master wallet, once for all of its agent accounts,
+ *   and are matched to hyperliquid_orders by oid, then by cloid
+ * - Drift fills come from the data API trade records of each subaccount and are matched to drift_orders
+ *   by order id. The matched orders' filled amount and average fill price are recomputed from their fills.
+ *   Trade records page newest first: when a fetch hits its page cap, the older records are fetched from the
+ *   saved page on the following runs before newer fills are.
+ *
+ * New fills on orders that opened a position's legs are sent as Telegram alerts, one per position.
+ */
+export class FillService {
+  private db: DatabaseRepository;
+  private hyperliquidService: HyperliquidService;
+  private driftService: DriftService;
+  private notifications: NotificationService;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.hyperliquidService = new HyperliquidService();
+    this.driftService = new DriftService();
+    this.notifications = new NotificationService();
+  }
+
+  /**
+   * Collect new fills for all active accounts on venues with fill history.
+   * Hyperliquid accounts trading for the same master wallet are collected once, under the lowest account id.
+   */
+  async collectFills(): Promise<{ accounts: number; fetched: number; stored: number; linked: number; failed: number }> {
+    const dexTypes: DexType[] = ['hyperliquid', 'drift'];
+    const accounts = (await Promise.all(dexTypes.map(dexType => this.db.getActiveDexAccounts(dexType)))).flat();
+
+    // Accounts are ordered by id, so the first of each wallet is the one fills are stored under
+    const accountsByWallet = new Map<string, DexAccount[]>();
+    for (const dexAccount of accounts) {
+      const key = this.walletKey(dexAccount);
+      accountsByWallet.set(key, [...(accountsByWallet.get(key) || []), dexAccount]);
+    }
+
+    const result = { accounts: accounts.length, fetched: 0, stored: 0, linked: 0, failed: 0 };
+
+    for (const walletAccounts of accountsByWallet.values()) {
+      try {
+        const walletResult = await this.collectForWallet(walletAccounts);
+        result.fetched += walletResult.fetched;
+        result.stored += walletResult.stored;
+        result.linked += walletResult.linked;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to collect fills for DEX account ${walletAccounts[0].id}`, {
+          dexType: walletAccounts[0].dexType,
+          dexAccountIds: walletAccounts.map(dexAccount => dexAccount.id),
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The wallet fills are reported for: the user's master address on Hyperliquid, the subaccount on Drift
+   */
+  private walletKey(dexAccount: DexAccount): string {
+    return dexAccount.dexType === 'hyperliquid'
+      ? `hyperliquid:${dexAccount.userId}:${((dexAccount.metadata as any)?.masterAddress || dexAccount.address).toLowerCase()}`
+      : `${dexAccount.dexType}:${dexAccount.id}`;
+  }
+
+  private async collectForWallet(walletAccounts: DexAccount[]): Promise<{ fetched: number; stored: number; linked: number }> {
+    const dexAccount = walletAccounts[0];
+    const backfill: DriftBackfill | undefined = dexAccount.dexType === 'drift' ? (dexAccount.metadata as any)?.tradeBackfill : undefined;
+
+    // Finish an interrupted Drift fetch first; otherwise resume from the last stored fill.
+    // Fills sharing its timestamp are de-duplicated on insert.
+    const lastFilledAt = backfill ? null : await this.db.getLatestFillTime(walletAccounts.map(account => account.id));
+    const since = backfill ? new Date(backfill.since) : lastFilledAt || new Date(Date.now() - INITIAL_LOOKBACK_MS);
+
+    const { rows, nextPage } = dexAccount.dexType === 'drift'
+      ? await this.fetchDriftFills(dexAccount, since, backfill?.page)
+      : { rows: await this.fetchHyperliquidFills(dexAccount, since), nextPage: null };
+    const stored = await this.db.insertFills(rows);
+
+    if (nextPage || backfill) {
+      const next: DriftBackfill | null = nextPage ? { page: nextPage, since: since.toISOString() } : null;
+      await this.db.setDexAccountMetadataKey(dexAccount.id, 'tradeBackfill', next);
+    }
+
+    if (dexAccount.dexType === 'drift') {
+      await this.updateDriftOrderFills(stored);
+    }
+
+    // Backfilled history is not alerted
+    if (lastFilledAt) {
+      await this.notifyFills(dexAccount, stored);
+    }
+
+    return {
+      fetched: rows.length,
+      stored: stored.length,
+      linked: stored.filter(row => row.orderId !== null).length,
+    };
+  }
+
+  /**
+   * Send one fill alert per position whose leg orders received new fills
+   */
+  private async notifyFills(dexAccount: DexAccount, stored: Fill[]): Promise<void> {
+    const linked = stored.filter(fill => fill.orderId !== null);
+    const positionOrders = await this.db.getPositionIdsByOrders(
+      dexAccount.dexType,
+      [...new Set(linked.map(fill => fill.orderId!))]
+    );
+
+    for (const positionId of new Set(positionOrders.map(row => row.positionId))) {
+      const orderIds = new Set(positionOrders.filter(row => row.positionId === positionId).map(row => row.orderId));
+      const lines = linked
+        .filter(fill => orderIds.has(fill.orderId!))
+        .map(fill => `${fill.side} ${fill.size} ${fill.asset} on ${fill.dexType} at ${fill.price}`);
+
+      await this.notifications.notifyPosition(positionId, 'fill', lines.join('\n'));
+    }
+  }
+
+  private async fetchHyperliquidFills(
+    dexAccount: DexAccount,
+    since: Date
+  ): Promise<Array<typeof fills.$inferInsert>> {
+    // Fills belong to the master wallet, not the agent
+    const masterAddress = (dexAccount.metadata as any)?.masterAddress || dexAccount.address;
+    const venueFills = await this.hyperliquidService.getUserFillsByTime(masterAddress, since.getTime());
+    if (venueFills.length === 0) {
+      return [];
+    }
+
+    const orders = await this.db.getHyperliquidOrdersByExchangeIds(
+      dexAccount.userId,
+      [...new Set(venueFills.map(fill => fill.oid.toString()))],
+      [...new Set(venueFills.flatMap(fill => (fill.cloid ? [fill.cloid] : [])))]
+    );
+    const ordersByOid = new Map(orders.filter(order => order.hlOrderId).map(order => [order.hlOrderId!, order]));
+    const ordersByCloid = new Map(orders.filter(order => order.clientOrderId).map(order => [order.clientOrderId!, order]));
+
+    return venueFills.map(fill => {
+      const order = ordersByOid.get(fill.oid.toString()) ?? (fill.cloid ? ordersByCloid.get(fill.cloid) : undefined);
+
+      return {
+        userId: dexAccount.userId,
+        dexAccountId: dexAccount.id,
+        dexType: 'hyperliquid' as const,
+        orderId: order?.id,
+        exchangeOrderId: fill.oid.toString(),
+        clientOrderId: fill.cloid ?? undefined,
+        asset: fill.coin,
+        side: fill.side === 'B' ? 'buy' as const : 'sell' as const,
+        price: fill.px,
+        size: fill.sz,
+        fee: fill.fee,
+        feeToken: fill.feeToken,
+        liquidity: fill.crossed ? 'taker' as const : 'maker' as const,
+        crossed: fill.crossed,
+        closedPnl: fill.closedPnl,
+        direction: fill.dir,
+        startPosition: fill.startPosition,
+        externalId: fill.tid.toString(),
+        txHash: fill.hash,
+        filledAt: new Date(fill.time),
+        metadata: { source: 'hyperliquid:userFillsByTime' },
+      };
+    });
+  }
+
+  private async fetchDriftFills(
+    dexAccount: DexAccount,
+    since: Date,
+    fromPage?: string
+  ): Promise<{ rows: Array<typeof fills.$inferInsert>; nextPage: string | null }> {
+    const { records: trades, nextPage } = await this.driftService.getTradeRecords(
+      dexAccount.address,
+      dexAccount.subaccountId || 0,
+      since,
+      fromPage
+    );
+    if (trades.length === 0) {
+      return { rows: [], nextPage };
+    }
+
+    const orders = await this.db.getDriftOrdersByExchangeIds(
+      dexAccount.id,
+      [...new Set(trades.map(trade => trade.orderId.toString()))]
+    );
+    const ordersById = new Map(orders.map(order => [order.driftOrderId!, order]));
+
+    const rows = trades.map(trade => {
+      const size = parseFloat(trade.baseAssetAmountFilled);
+
+      return {
+        userId: dexAccount.userId,
+        dexAccountId: dexAccount.id,
+        dexType: 'drift' as const,
+        orderId: ordersById.get(trade.orderId.toString())?.id,
+        exchangeOrderId: trade.orderId.toString(),
+        asset: trade.symbol,
+        marketIndex: trade.marketIndex,
+        side: trade.direction === 'long' ? 'buy' as const : 'sell' as const,
+        price: (size > 0 ? parseFloat(trade.quoteAssetAmountFilled) / size : 0).toString(),
+        size: trade.baseAssetAmountFilled,
+        fee: trade.fee,
+        feeToken: 'USDC',
+        liquidity: trade.isTaker ? 'taker' as const : 'maker' as const,
+        crossed: trade.isTaker,
+        externalId: `${trade.marketType}:${trade.marketIndex}:${trade.fillRecordId}`,
+        txHash: trade.txSig,
+        filledAt: new Date(trade.ts * 1000),
+        metadata: { source: 'drift:trades', oraclePrice: trade.oraclePrice },
+      };
+    });
+
+    return { rows, nextPage };
+  }
+
+  /**
+   * Recompute filled amount and average fill price for Drift orders that received new fills.
+   * Statuses are left to order reconciliation.
+   */
+  private async updateDriftOrderFills(stored: Fill[]): Promise<void> {
+    const orderIds = [...new Set(stored.flatMap(fill => (fill.orderId !== null ? [fill.orderId] : [])))];
+    if (orderIds.length === 0) {
+      return;
+    }
+
+    const totals = await this.db.getFillTotalsByOrder('drift', orderIds);
+    const orders = await this.db.getDriftOrdersByExchangeIds(
+      stored[0].dexAccountId,
+      [...new Set(stored.flatMap(fill => (fill.orderId !== null && fill.exchangeOrderId ? [fill.exchangeOrderId] : [])))]
+    );
+
+    for (const total of totals) {
+      const order = orders.find(candidate => candidate.id === total.orderId);
+      const filledAmount = parseFloat(total.size);
+      if (!order || Math.abs(filledAmount - parseFloat(order.filledAmount || '0')) < AMOUNT_EPSILON) {
+        continue;
+      }
+
+      const avgFillPrice = filledAmount > 0 ? (parseFloat(total.notional) / filledAmount).toString() : null;
+      await this.db.updateDriftOrder(order.id, {
+        filledAmount: filledAmount.toString(),
+        ...(avgFillPrice !== null ? { avgFillPrice } : {}),
+      });
+      await this.db.createOrderStatusEvent({
+        userId: order.userId,
+        dexAccountId: order.dexAccountId,
+        dexType: 'drift',
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: order.status,
+        filledSize: filledAmount.toString(),
+        avgFillPrice,
+        source: 'fill-collector',
+        detail: { previousFilledAmount: order.filledAmount },
+      });
+    }
+  }
+}
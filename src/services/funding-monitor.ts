@@ -3,6 +3,7 @@ import { HyperliquidService } from '@/services/hyperliquid';
 import { DriftService } from '@/services/drift';
 import { logger } from '@/utils/logger';
 import { RequestContext } from '@/types/common';
+import { evaluateFundingClose } from '@/services/rebalance-decision';
 
 interface FundingRateData {
   coin: string;
@@ -266,7 +267,8 @@ export class DeltaNeutralFundingService {
     driftFundingRates: Map<number, number>
   ): Promise<{ reason: 'unfavorable_funding_long' | 'unfavorable_funding_short', fundingRate: number } | null> {
     
-    for (const snapshot of snapshots) {
+    const rates = new Map<number, number>();
+    snapshots.forEach((snapshot, index) => {
       let fundingRate: number | undefined;
 
       if (snapshot.dexType === 'hyperliquid') {
@@ -281,28 +283,17 @@ export class DeltaNeutralFundingService {
       }
 
       if (fundingRate !== undefined) {
-        // Delta neutral strategy logic:
-        // - If funding rate is positive (longs pay shorts) and we're long, close
-        // - If funding rate is negative (shorts pay longs) and we're short, close
-        // This ensures we always receive funding payments instead of paying them
-
-        if (fundingRate > 0 && snapshot.side === 'long') {
-          return {
-            reason: 'unfavorable_funding_long',
-            fundingRate: fundingRate
-          };
-        }
-
-        if (fundingRate < 0 && snapshot.side === 'short') {
-          return {
-            reason: 'unfavorable_funding_short',
-            fundingRate: fundingRate
-          };
-        }
+        rates.set(index, fundingRate);
       }
-    }
+    });
+
+    // Delta neutral strategy logic: close when a leg pays funding, so we always receive it instead
+    const decision = evaluateFundingClose(
+      snapshots.map((snapshot, index) => ({ id: index, side: snapshot.side })),
+      rates
+    );
 
-    return null;
+    return decision ? { reason: decision.reason, fundingRate: decision.fundingRate } : null;
   }
 
   /**
@@ -0,0 +1,287 @@
+import { DatabaseRepository } from '@/db/repository';
+import { fundingPayments } from '@/db/schema';
+import { HyperliquidService } from '@/services/hyperliquid';
+import { DriftService } from '@/services/drift';
+import { getExchangeAdapter } from '@/services/exchanges/registry';
+import { DexType } from '@/types/exchange';
+import { logger } from '@/utils/logger';
+
+// Keep collecting for recently closed positions so the last payments before close are attributed
+const CLOSED_POSITION_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+type AttributionLeg = Awaited<ReturnType<DatabaseRepository['getFundingAttributionLegs']>>[number];
+
+/**
+ * Where a Drift fetch that hit its page cap stopped, kept in the account's metadata as `fundingBackfill`
+ */
+interface DriftBackfill {
+  page: string;
+  since: string; // ISO time the interrupted fetch reached back to
+}
+
+interface VenuePayment {
+  asset: string;
+  marketIndex?: number;
+  amount: number;
+  positionSize?: string;
+  fundingRate?: string;
+  externalId: string;
+  paidAt: Date;
+  metadata: any;
+}
+
+/**
+ * Funding Payment Service
+ *
+ * Pulls realized funding payments for every account with an open (or recently closed)
+ * position leg and attributes each payment to the leg that held the market when it was paid.
+ * Hyperliquid payments come from `userFunding`, fetched once per master wallet for all of its agent
+ * accounts. Drift payments come from the data API funding payment records, which page newest first:
+ * when a fetch hits its page cap, the rest is fetched from the saved page on the following runs before
+ * newer payments are. Lighter does not expose per-account funding history yet.
+ */
+export class FundingPaymentService {
+  private db: DatabaseRepository;
+  private hyperliquidService: HyperliquidService;
+  private driftService: DriftService;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.hyperliquidService = new HyperliquidService();
+    this.driftService = new DriftService();
+  }
+
+  /**
+   * Collect new funding payments for all accounts with attributable legs
+   */
+  async collectFundingPayments(): Promise<{ accounts: number; fetched: number; stored: number; attributed: number; failed: number }> {
+    const legs = await this.db.getFundingAttributionLegs(new Date(Date.now() - CLOSED_POSITION_LOOKBACK_MS));
+
+    // Hyperliquid agents trade for their master wallet, which is paid the funding of all of them
+    const legsByPayee = new Map<string, AttributionLeg[]>();
+    for (const leg of legs) {
+      const key = this.payeeKey(leg);
+      legsByPayee.set(key, [...(legsByPayee.get(key) || []), leg]);
+    }
+
+    const result = { accounts: legsByPayee.size, fetched: 0, stored: 0, attributed: 0, failed: 0 };
+
+    for (const [payee, payeeLegs] of legsByPayee) {
+      try {
+        const payeeResult = await this.collectForPayee(payeeLegs);
+        result.fetched += payeeResult.fetched;
+        result.stored += payeeResult.stored;
+        result.attributed += payeeResult.attributed;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to collect funding payments for ${payee}`, {
+          dexAccountIds: [...new Set(payeeLegs.map(leg => leg.dexAccount.id))],
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The wallet funding is paid to: the master address on Hyperliquid, the subaccount on Drift
+   */
+  private payeeKey(leg: AttributionLeg): string {
+    return leg.snapshot.dexType === 'hyperliquid'
+      ? `hyperliquid:${((leg.dexAccount.metadata as any)?.masterAddress || leg.dexAccount.address).toLowerCase()}`
+      : `${leg.snapshot.dexType}:${leg.dexAccount.id}`;
+  }
+
+  /**
+   * Fetch the payments of one payee and attribute each to a single leg among all of its accounts' legs.
+   * Attributed payments are stored under the leg's account, the rest under the payee's first account.
+   */
+  private async collectForPayee(legs: AttributionLeg[]): Promise<{ fetched: number; stored: number; attributed: number }> {
+    const dexType = legs[0].snapshot.dexType;
+    const dexAccount = legs[0].dexAccount;
+    const dexAccountIds = [...new Set(legs.map(leg => leg.dexAccount.id))].sort((a, b) => a - b);
+    const backfill: DriftBackfill | undefined = dexType === 'drift' ? (dexAccount.metadata as any)?.fundingBackfill : undefined;
+
+    // Finish an interrupted Drift fetch first; otherwise resume from the last stored payment, or from when the oldest leg was opened
+    const lastPaidAt = backfill ? null : await this.db.getLatestFundingPaymentTime(dexAccountIds);
+    const since = backfill
+      ? new Date(backfill.since)
+      : lastPaidAt
+        ? new Date(lastPaidAt.getTime() + 1)
+        : new Date(Math.min(...legs.map(leg => new Date(leg.snapshot.snapshotAt).getTime())));
+
+    const { payments, nextPage } = await this.fetchVenuePayments(dexType, dexAccount, since, backfill?.page);
+
+    const rows: Array<typeof fundingPayments.$inferInsert> = payments.map(payment => {
+      const leg = this.attributePayment(dexType, payment, legs);
+      return {
+        userId: (leg || legs[0]).position.userId,
+        dexAccountId: leg ? leg.dexAccount.id : dexAccountIds[0],
+        dexType,
+        positionId: leg?.position.id,
+        positionSnapshotId: leg?.snapshot.id,
+        asset: leg ? this.baseAsset(leg.snapshot.symbol) : payment.asset,
+        marketIndex: payment.marketIndex,
+        amount: payment.amount.toString(),
+        positionSize: payment.positionSize,
+        fundingRate: payment.fundingRate,
+        externalId: payment.externalId,
+        paidAt: payment.paidAt,
+        metadata: payment.metadata,
+      };
+    });
+
+    const stored = await this.db.insertFundingPayments(rows);
+
+    if (nextPage || backfill) {
+      const next: DriftBackfill | null = nextPage ? { page: nextPage, since: since.toISOString() } : null;
+      await this.db.setDexAccountMetadataKey(dexAccount.id, 'fundingBackfill', next);
+    }
+
+    return {
+      fetched: payments.length,
+      stored: stored.length,
+      attributed: stored.filter(row => row.positionSnapshotId !== null).length,
+    };
+  }
+
+  private async fetchVenuePayments(
+    dexType: DexType,
+    dexAccount: AttributionLeg['dexAccount'],
+    since: Date,
+    fromPage?: string
+  ): Promise<{ payments: VenuePayment[]; nextPage?: string | null }> {
+    switch (dexType) {
+      case 'hyperliquid': {
+        // Funding is paid to the master wallet, not the agent
+        const masterAddress = (dexAccount.metadata as any)?.masterAddress || dexAccount.address;
+        const entries = await this.hyperliquidService.getUserFunding(masterAddress, since.getTime());
+
+        const payments = entries.map(entry => ({
+          asset: entry.delta.coin.toUpperCase(),
+          amount: parseFloat(entry.delta.usdc),
+          positionSize: entry.delta.szi,
+          fundingRate: entry.delta.fundingRate,
+          // Funding entries carry a zero hash, so the payment time identifies them
+          externalId: `${entry.time}:${entry.delta.coin}`,
+          paidAt: new Date(entry.time),
+          metadata: { source: 'hyperliquid:userFunding', raw: entry },
+        }));
+        return { payments };
+      }
+
+      case 'drift': {
+        const { records, nextPage } = await this.driftService.getFundingPaymentRecords(
+          dexAccount.address,
+          dexAccount.subaccountId || 0,
+          since,
+          fromPage
+        );
+
+        const payments = records.map(record => ({
+          asset: `MARKET_${record.marketIndex}`,
+          marketIndex: Number(record.marketIndex),
+          amount: parseFloat(record.fundingPayment),
+          positionSize: record.baseAssetAmount,
+          externalId: `${record.txSig}:${record.txSigIndex ?? 0}:${record.marketIndex}`,
+          paidAt: new Date(Number(record.ts) * 1000),
+          metadata: { source: 'drift:fundingPayments', raw: record },
+        }));
+        return { payments, nextPage };
+      }
+
+      default:
+        return { payments: [] };
+    }
+  }
+
+  /**
+   * Find the leg that held this market when the payment was made.
+   * If several legs of the payee qualify, the most recently opened one wins.
+   */
+  private attributePayment(dexType: DexType, payment: VenuePayment, legs: AttributionLeg[]): AttributionLeg | undefined {
+    const paidAt = payment.paidAt.getTime();
+
+    const candidates = legs.filter(leg => {
+      if (new Date(leg.snapshot.snapshotAt).getTime() > paidAt) {
+        return false;
+      }
+      if (leg.position.closedAt && new Date(leg.position.closedAt).getTime() < paidAt) {
+        return false;
+      }
+
+      if (dexType === 'drift') {
+        try {
+          const market = getExchangeAdapter('drift').resolveMarket(leg.snapshot);
+          return market.marketType === 'perp' && market.marketIndex === payment.marketIndex;
+        } catch {
+          return false;
+        }
+      }
+
+      return this.baseAsset(leg.snapshot.symbol) === payment.asset;
+    });
+
+    return candidates.sort(
+      (a, b) => new Date(b.snapshot.snapshotAt).getTime() - new Date(a.snapshot.snapshotAt).getTime()
+    )[0];
+  }
+
+  /**
+   * Cumulative funding earned and paid for a position, overall and per leg
+   */
+  async getPositionFunding(positionId: number): Promise<{
+    earned: string;
+    paid: string;
+    net: string;
+    payments: number;
+    legs: Array<{
+      positionSnapshotId: number | null;
+      dexType: DexType;
+      asset: string;
+      earned: string;
+      paid: string;
+      net: string;
+      payments: number;
+      lastPaidAt: string | null;
+    }>;
+  }> {
+    const rows = await this.db.getPositionFundingSummary(positionId);
+
+    let earned = 0;
+    let paid = 0;
+    let payments = 0;
+
+    const legs = rows.map(row => {
+      const legEarned = Number(row.earned);
+      const legPaid = Number(row.paid);
+      earned += legEarned;
+      paid += legPaid;
+      payments += row.payments;
+
+      return {
+        positionSnapshotId: row.positionSnapshotId,
+        dexType: row.dexType,
+        asset: row.asset,
+        earned: legEarned.toString(),
+        paid: legPaid.toString(),
+        net: (legEarned - legPaid).toString(),
+        payments: row.payments,
+        lastPaidAt: row.lastPaidAt ? new Date(row.lastPaidAt).toISOString() : null,
+      };
+    });
+
+    return {
+      earned: earned.toString(),
+      paid: paid.toString(),
+      net: (earned - paid).toString(),
+      payments,
+      legs,
+    };
+  }
+
+  private baseAsset(symbol: string): string {
+    return symbol.split('-')[0].toUpperCase();
+  }
+}
@@ -0,0 +1,381 @@
+import { DatabaseRepository } from '@/db/repository';
+import { HyperliquidService } from '@/services/hyperliquid';
+import { DriftService } from '@/services/drift';
+import { LighterService } from '@/services/lighter';
+import { DexType, MarketRef } from '@/types/exchange';
+import {
+  FUNDING_RATE_BUCKETS,
+  FundingRateBucket,
+  FundingRateBucketPoint,
+  FundingRateFilter,
+  FundingSpreadPoint,
+  HOURS_PER_YEAR,
+  NormalizedFundingRate,
+} from '@/types/funding';
+import { ApiError, ErrorCode } from '@/types/common';
+import { logger } from '@/utils/logger';
+
+// Venue snapshots are reused for this long so per-leg lookups don't refetch every market
+const SNAPSHOT_TTL_MS = 30_000;
+
+// Upper bound on buckets per venue and asset in a history query
+const MAX_HISTORY_BUCKETS = 5000;
+
+interface VenueSnapshot {
+  fetchedAt: number;
+  rates: NormalizedFundingRate[];
+}
+
+/**
+ * Funding Rate Service
+ *
+ * Single source of funding rates for every venue. Each venue reports funding differently
+ * (Hyperliquid: hourly decimal, Drift contracts: hourly percentage, Lighter: hourly decimal),
+ * so rates are converted to an hourly decimal and an annualized APR before they are returned.
+ */
+export class FundingRateService {
+  private db: DatabaseRepository;
+  private hyperliquidService: HyperliquidService;
+  private driftService: DriftService;
+  private lighterService: LighterService;
+  private snapshots = new Map<DexType, VenueSnapshot>();
+  private pending = new Map<DexType, Promise<NormalizedFundingRate[]>>();
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.hyperliquidService = new HyperliquidService();
+    this.driftService = new DriftService();
+    this.lighterService = new LighterService();
+  }
+
+  /**
+   * Get current and predicted funding for every perp market, optionally filtered by venue and asset
+   */
+  async getFundingRates(filter: FundingRateFilter = {}): Promise<NormalizedFundingRate[]> {
+    const dexTypes = filter.dexTypes || (['hyperliquid', 'drift', 'lighter'] as DexType[]);
+    const assets = filter.assets?.map(asset => asset.toUpperCase());
+
+    const venueRates = await Promise.all(dexTypes.map(dexType => this.getVenueRates(dexType)));
+
+    return venueRates
+      .flat()
+      .filter(rate => !assets || assets.includes(rate.asset));
+  }
+
+  /**
+   * Get funding for a single market. Returns null for spot markets and markets the venue doesn't list.
+   */
+  async getFundingRate(dexType: DexType, market: MarketRef): Promise<NormalizedFundingRate | null> {
+    if (market.marketType === 'spot') {
+      return null;
+    }
+
+    const rates = await this.getVenueRates(dexType);
+    const asset = this.baseAsset(market.symbol);
+
+    return rates.find(rate => {
+      switch (dexType) {
+        case 'hyperliquid':
+          return market.assetId !== undefined ? rate.market.assetId === market.assetId : rate.asset === asset;
+        case 'drift':
+          return market.marketIndex !== undefined ? rate.market.marketIndex === market.marketIndex : rate.asset === asset;
+        case 'lighter':
+          return market.marketId !== undefined ? rate.market.marketId === market.marketId : rate.asset === asset;
+        default:
+          return false;
+      }
+    }) || null;
+  }
+
+  /**
+   * Fetch fresh rates from every venue and store them in funding_rates.
+   * Samples are stamped to the minute, so overlapping runs don't store duplicates.
+   */
+  async collectFundingRates(): Promise<{ collected: number; stored: number; byDex: Record<string, number> }> {
+    this.clearCache();
+    const rates = await this.getFundingRates();
+
+    const recordedAt = new Date();
+    recordedAt.setUTCSeconds(0, 0);
+
+    const stored = await this.db.insertFundingRates(rates.map(rate => ({
+      dexType: rate.dexType,
+      asset: rate.asset,
+      symbol: rate.market.symbol,
+      marketIndex: rate.market.assetId ?? rate.market.marketIndex ?? rate.market.marketId,
+      hourlyRate: rate.currentHourly.toString(),
+      predictedHourlyRate: rate.predictedHourly !== null ? rate.predictedHourly.toString() : null,
+      apr: rate.currentApr.toString(),
+      markPrice: rate.markPrice !== null ? rate.markPrice.toString() : null,
+      fundingIntervalHours: rate.fundingIntervalHours,
+      nextFundingTime: rate.nextFundingTime,
+      source: rate.source,
+      recordedAt,
+    })));
+
+    const byDex: Record<string, number> = {};
+    for (const rate of rates) {
+      byDex[rate.dexType] = (byDex[rate.dexType] || 0) + 1;
+    }
+
+    return { collected: rates.length, stored: stored.length, byDex };
+  }
+
+  /**
+   * Stored funding history aggregated into buckets, plus the widest cross-venue spread per asset and bucket
+   */
+  async getFundingRateHistory(query: {
+    asset?: string;
+    dexType?: DexType;
+    from: Date;
+    to: Date;
+    bucket: FundingRateBucket;
+  }): Promise<{ series: FundingRateBucketPoint[]; spreads: FundingSpreadPoint[] }> {
+    if (query.from >= query.to) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, '"from" must be before "to"');
+    }
+
+    const bucketSeconds = FUNDING_RATE_BUCKETS[query.bucket];
+    if ((query.to.getTime() - query.from.getTime()) / 1000 / bucketSeconds > MAX_HISTORY_BUCKETS) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        `Time range too large for ${query.bucket} buckets. Use a larger bucket or a shorter range.`
+      );
+    }
+
+    const rows = await this.db.getFundingRateBuckets({
+      asset: query.asset,
+      dexType: query.dexType,
+      from: query.from,
+      to: query.to,
+      bucketSeconds,
+    });
+
+    const series: FundingRateBucketPoint[] = rows.map(row => {
+      const avgHourlyRate = Number(row.avgHourlyRate);
+      return {
+        bucketStart: new Date(row.bucketStart).toISOString(),
+        dexType: row.dexType,
+        asset: row.asset,
+        avgHourlyRate,
+        minHourlyRate: Number(row.minHourlyRate),
+        maxHourlyRate: Number(row.maxHourlyRate),
+        avgApr: avgHourlyRate * HOURS_PER_YEAR,
+        samples: row.samples,
+      };
+    });
+
+    return { series, spreads: this.computeSpreads(series) };
+  }
+
+  /**
+   * Drop cached venue snapshots so the next lookup refetches
+   */
+  clearCache(): void {
+    this.snapshots.clear();
+  }
+
+  private async getVenueRates(dexType: DexType): Promise<NormalizedFundingRate[]> {
+    const snapshot = this.snapshots.get(dexType);
+    if (snapshot && Date.now() - snapshot.fetchedAt < SNAPSHOT_TTL_MS) {
+      return snapshot.rates;
+    }
+
+    // Concurrent lookups for the same venue share one fetch
+    let pending = this.pending.get(dexType);
+    if (!pending) {
+      pending = this.fetchVenueRates(dexType)
+        .then(rates => {
+          this.snapshots.set(dexType, { fetchedAt: Date.now(), rates });
+          return rates;
+        })
+        .catch(error => {
+          logger.error(`Failed to fetch ${dexType} funding rates`, {
+            error: error instanceof Error ? error.message : error,
+          });
+          // Serve the stale snapshot rather than nothing
+          return snapshot?.rates || [];
+        })
+        .finally(() => this.pending.delete(dexType));
+      this.pending.set(dexType, pending);
+    }
+
+    return pending;
+  }
+
+  private async fetchVenueRates(dexType: DexType): Promise<NormalizedFundingRate[]> {
+    switch (dexType) {
+      case 'hyperliquid':
+        return this.fetchHyperliquidRates();
+      case 'drift':
+        return this.fetchDriftRates();
+      case 'lighter':
+        return this.fetchLighterRates();
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Hyperliquid settles hourly. metaAndAssetCtxs carries the rate accruing for the current hour,
+   * predictedFundings the rate expected at the next settlement.
+   */
+  private async fetchHyperliquidRates(): Promise<NormalizedFundingRate[]> {
+    const [assetPrices, predictions] = await Promise.all([
+      this.hyperliquidService.getAssetPrices(),
+      this.hyperliquidService.getPredictedFundings(),
+    ]);
+    const observedAt = new Date();
+
+    const rates: NormalizedFundingRate[] = [];
+    for (const [assetId, ctx] of assetPrices) {
+      if (!ctx.assetName || ctx.funding === undefined || !Number.isFinite(ctx.funding)) {
+        continue;
+      }
+
+      const prediction = predictions.get(ctx.assetName);
+      rates.push(this.normalize({
+        dexType: 'hyperliquid',
+        market: { symbol: ctx.assetName, marketType: 'perp', assetId },
+        currentHourly: ctx.funding,
+        predictedHourly: prediction ? prediction.fundingRate / prediction.fundingIntervalHours : null,
+        markPrice: Number.isFinite(ctx.markPx) ? ctx.markPx : null,
+        fundingIntervalHours: 1,
+        timestamp: observedAt,
+        nextFundingTime: prediction ? new Date(prediction.nextFundingTime) : this.nextHour(observedAt),
+        source: 'hyperliquid:metaAndAssetCtxs+predictedFundings',
+      }));
+    }
+
+    return rates;
+  }
+
+  /**
+   * Drift settles hourly. The contracts endpoint reports the last settled rate and the
+   * next rate as hourly percentages.
+   */
+  private async fetchDriftRates(): Promise<NormalizedFundingRate[]> {
+    const contracts = await this.driftService.getMarketContracts();
+    const observedAt = new Date();
+
+    const rates: NormalizedFundingRate[] = [];
+    for (const contract of contracts) {
+      if (!contract.ticker_id?.toUpperCase().endsWith('-PERP')) {
+        continue;
+      }
+
+      const current = parseFloat(contract.funding_rate);
+      if (!Number.isFinite(current)) {
+        continue;
+      }
+
+      const predicted = parseFloat(contract.next_funding_rate);
+      const lastPrice = parseFloat(contract.last_price);
+      // Reported in seconds by some deployments and milliseconds by others
+      const nextFundingTimestamp = Number(contract.next_funding_rate_timestamp);
+
+      rates.push(this.normalize({
+        dexType: 'drift',
+        market: { symbol: contract.ticker_id, marketType: 'perp', marketIndex: Number(contract.contract_index) },
+        currentHourly: current / 100,
+        predictedHourly: Number.isFinite(predicted) ? predicted / 100 : null,
+        markPrice: Number.isFinite(lastPrice) ? lastPrice : null,
+        fundingIntervalHours: 1,
+        timestamp: observedAt,
+        nextFundingTime: nextFundingTimestamp > 0
+          ? new Date(nextFundingTimestamp < 1e12 ? nextFundingTimestamp * 1000 : nextFundingTimestamp)
+          : this.nextHour(observedAt),
+        source: 'drift:contracts',
+      }));
+    }
+
+    return rates;
+  }
+
+  /**
+   * Lighter settles hourly and only publishes the rate for the current interval
+   */
+  private async fetchLighterRates(): Promise<NormalizedFundingRate[]> {
+    const fundingRates = await this.lighterService.getFundingRates();
+    const observedAt = new Date();
+
+    return fundingRates
+      .filter(rate => rate.exchange === 'lighter' && Number.isFinite(Number(rate.rate)))
+      .map(rate => this.normalize({
+        dexType: 'lighter',
+        market: { symbol: rate.symbol, marketType: 'perp', marketId: rate.market_id },
+        currentHourly: Number(rate.rate),
+        predictedHourly: null,
+        markPrice: null,
+        fundingIntervalHours: 1,
+        timestamp: observedAt,
+        nextFundingTime: this.nextHour(observedAt),
+        source: 'lighter:funding-rates',
+      }));
+  }
+
+  private computeSpreads(series: FundingRateBucketPoint[]): FundingSpreadPoint[] {
+    const groups = new Map<string, FundingRateBucketPoint[]>();
+    for (const point of series) {
+      const key = `${point.asset}|${point.bucketStart}`;
+      groups.set(key, [...(groups.get(key) || []), point]);
+    }
+
+    const spreads: FundingSpreadPoint[] = [];
+    for (const points of groups.values()) {
+      if (points.length < 2) {
+        continue;
+      }
+
+      const sorted = [...points].sort((a, b) => b.avgHourlyRate - a.avgHourlyRate);
+      const high = sorted[0];
+      const low = sorted[sorted.length - 1];
+      const spreadHourly = high.avgHourlyRate - low.avgHourlyRate;
+
+      spreads.push({
+        bucketStart: high.bucketStart,
+        asset: high.asset,
+        highDex: high.dexType,
+        lowDex: low.dexType,
+        spreadHourly,
+        spreadApr: spreadHourly * HOURS_PER_YEAR,
+      });
+    }
+
+    return spreads;
+  }
+
+  private normalize(
+    rate: Omit<NormalizedFundingRate, 'asset' | 'currentApr' | 'predictedApr'>
+  ): NormalizedFundingRate {
+    return {
+      ...rate,
+      asset: this.baseAsset(rate.market.symbol),
+      currentApr: rate.currentHourly * HOURS_PER_YEAR,
+      predictedApr: rate.predictedHourly !== null ? rate.predictedHourly * HOURS_PER_YEAR : null,
+    };
+  }
+
+  private baseAsset(symbol: string): string {
+    return symbol.split('-')[0].toUpperCase();
+  }
+
+  private nextHour(from: Date): Date {
+    const next = new Date(from);
+    next.setUTCMinutes(0, 0, 0);
+    next.setUTCHours(next.getUTCHours() + 1);
+    return next;
+  }
+}
+
+let fundingRateServiceInstance: FundingRateService | null = null;
+
+/**
+ * Get the shared service so every caller reads from the same venue snapshots
+ */
+export function getFundingRateService(): FundingRateService {
+  if (!fundingRateServiceInstance) {
+    fundingRateServiceInstance = new FundingRateService();
+  }
+  return fundingRateServiceInstance;
+}
@@ -4,15 +4,20 @@ import {
   CancelOrderRequestSchema,
   CancelResponse,
   Chain,
+  HistoricalOrder,
   HyperliquidAction,
   HyperliquidRequest,
   HyperliquidResponse,
   OrderResponse,
   PlaceOrderRequestSchema,
+  TopUpIsolatedMarginAction,
+  UpdateIsolatedMarginAction,
+  UserFill,
 } from "@/types/hyperliquid";
 import { ApiError, ErrorCode, RequestContext } from "@/types/common";
 import { logger } from "@/utils/logger";
 import { NonceManager } from "@/utils/nonce";
+import { keyCustodyService } from "@/services/key-custody";
 import { dexConfig } from "@/config/dex.config";
 import axios, { AxiosInstance } from "axios";
 import { ethers } from "ethers";
@@ -88,6 +93,8 @@ export class HyperliquidService {
         midPx: number;
         prevDayPx: number;
         oraclePx?: number;
+        funding?: number;
+        openInterest?: number;
         szDecimals: number;
         tickSize?: number;
         assetName?: string;
@@ -106,6 +113,8 @@ export class HyperliquidService {
           midPx: number;
           prevDayPx: number;
           oraclePx?: number;
+          funding?: number;
+          openInterest?: number;
           szDecimals: number;
           tickSize?: number;
           assetName?: string;
@@ -127,6 +136,8 @@ export class HyperliquidService {
                 midPx: parseFloat(ctx.midPx || "0"),
                 prevDayPx: parseFloat(ctx.prevDayPx || "0"),
                 oraclePx: parseFloat(ctx.oraclePx || "0"),
+                funding: parseFloat(ctx.funding || "0"), // Current hourly funding rate
+                openInterest: parseFloat(ctx.openInterest || "0"), // In coins
                 szDecimals: asset.szDecimals || 0,
                 // Check if there's tick size information in the metadata
                 tickSize: asset.tickSize || asset.minTick || asset.priceTick ||
@@ -157,6 +168,106 @@ export class HyperliquidService {
     }
   }
 
+  /**
+   * Get spot prices keyed by spot asset id (10000 + pair index), from spotMetaAndAssetCtxs
+   */
+  async getSpotAssetPrices(): Promise<Map<number, { markPx: number; midPx: number; pairName?: string }>> {
+    try {
+      const response = await this.client.post("/info", {
+        type: "spotMetaAndAssetCtxs",
+      });
+
+      const priceMap = new Map<number, { markPx: number; midPx: number; pairName?: string }>();
+
+      if (Array.isArray(response.data) && response.data.length >= 2) {
+        const [spotMeta, assetCtxs] = response.data;
+
+        if (spotMeta?.universe && Array.isArray(assetCtxs)) {
+          spotMeta.universe.forEach((pair: any, position: number) => {
+            const ctx = assetCtxs[position];
+            if (ctx) {
+              priceMap.set(10000 + (pair.index ?? position), {
+                markPx: parseFloat(ctx.markPx || "0"),
+                midPx: parseFloat(ctx.midPx || "0"),
+                pairName: pair.name,
+              });
+            }
+          });
+        }
+      }
+
+      return priceMap;
+    } catch (error) {
+      logger.error("Failed to fetch spot asset prices", { error });
+      return new Map();
+    }
+  }
+
+  /**
+   * Get the L2 order book for a coin
+   * Levels are sorted best first: bids descending, asks ascending
+   */
+  async getL2Book(coin: string): Promise<{
+    bids: Array<{ px: number; sz: number }>;
+    asks: Array<{ px: number; sz: number }>;
+  }> {
+    const response = await this.client.post("/info", {
+      type: "l2Book",
+      coin,
+    });
+
+    const [bids = [], asks = []] = response.data?.levels || [];
+    const toLevel = (level: any) => ({
+      px: parseFloat(level.px),
+      sz: parseFloat(level.sz),
+    });
+
+    return { bids: bids.map(toLevel), asks: asks.map(toLevel) };
+  }
+
+  /**
+   * Get predicted funding rates for the next interval
+   * Returns a map of coin -> Hyperliquid perp prediction
+   */
+  async getPredictedFundings(): Promise<
+    Map<
+      string,
+      { fundingRate: number; nextFundingTime: number; fundingIntervalHours: number }
+    >
+  > {
+    const predictions = new Map<
+      string,
+      { fundingRate: number; nextFundingTime: number; fundingIntervalHours: number }
+    >();
+
+    try {
+      const response = await this.client.post("/info", {
+        type: "predictedFundings",
+      });
+
+      // [[coin, [[venue, { fundingRate, nextFundingTime, fundingIntervalHours }], ...]], ...]
+      if (Array.isArray(response.data)) {
+        for (const [coin, venues] of response.data) {
+          const hlPerp = Array.isArray(venues)
+            ? venues.find(([venue]: [string, any]) => venue === "HlPerp")?.[1]
+            : undefined;
+
+          if (hlPerp?.fundingRate !== undefined) {
+            predictions.set(coin, {
+              fundingRate: parseFloat(hlPerp.fundingRate),
+              nextFundingTime: hlPerp.nextFundingTime,
+              fundingIntervalHours: hlPerp.fundingIntervalHours || 1,
+            });
+          }
+        }
+      }
+    } catch (error) {
+      logger.error("Failed to fetch predicted fundings", { error });
+    }
+
+    return predictions;
+  }
+
   private getTickSize(assetSymbol: string): number {
     const HYPERLIQUID_TICK_SIZES: { [symbol: string]: number } = {
       // Major assets
@@ -287,9 +398,35 @@ export class HyperliquidService {
       userId: ctx.userId!,
       dexType: "hyperliquid",
       ...data,
+      ...(data.encryptedPrivateKey
+        ? await keyCustodyService.encryptForStorage(
+          data.encryptedPrivateKey,
+          data.address,
+        )
+        : {}),
     });
   }
 
+  /**
+   * Decrypt the stored agent private key for server-side signing
+   */
+  private async getAgentPrivateKey(dexAccount: {
+    address: string;
+    encryptedPrivateKey: string | null;
+  }): Promise<string> {
+    if (!dexAccount.encryptedPrivateKey) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        "Cannot sign orders for accounts without stored private keys",
+      );
+    }
+
+    return await keyCustodyService.decryptPrivateKey(
+      dexAccount.encryptedPrivateKey,
+      dexAccount.address,
+    );
+  }
+
   /**
    * Get user's DEX accounts
    */
@@ -367,7 +504,7 @@ export class HyperliquidService {
         );
       }
 
-      const wallet = new ethers.Wallet(dexAccount.encryptedPrivateKey);
+      const wallet = new ethers.Wallet(await this.getAgentPrivateKey(dexAccount));
 
       signature = await signL1Action({
         wallet: wallet,
@@ -450,7 +587,7 @@ export class HyperliquidService {
         );
       }
 
-      const wallet = new ethers.Wallet(dexAccount.encryptedPrivateKey);
+      const wallet = new ethers.Wallet(await this.getAgentPrivateKey(dexAccount));
 
       signature = await signL1Action({
         wallet: wallet,
@@ -769,6 +906,169 @@ export class HyperliquidService {
     };
   }
 
+  /**
+   * Get the open perp position for a coin from the master wallet's clearinghouse state
+   */
+  async getPerpPosition(
+    ctx: RequestContext,
+    dexAccountId: number,
+    coin: string,
+  ): Promise<
+    {
+      coin: string;
+      szi: string;
+      entryPx: string;
+      unrealizedPnl: string;
+      liquidationPx: string | null;
+      positionValue: string;
+      marginUsed: string;
+      leverage: { type: "cross" | "isolated"; value: number };
+    } | null
+  > {
+    const dexAccount = await this.db.getDexAccount(dexAccountId);
+    if (!dexAccount || dexAccount.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, "Access denied to this account");
+    }
+
+    // Positions are held by the master wallet, not the agent
+    const masterAddress = (dexAccount.metadata as any)?.masterAddress ||
+      dexAccount.address;
+
+    const response = await this.client.post("/info", {
+      type: "clearinghouseState",
+      user: masterAddress,
+    });
+
+    const assetPosition = response.data?.assetPositions?.find((p: any) =>
+      p.position?.coin === coin
+    );
+
+    if (!assetPosition || parseFloat(assetPosition.position.szi || "0") === 0) {
+      return null;
+    }
+
+    return assetPosition.position;
+  }
+
+  /**
+   * Get the master wallet's balance of the base token of a spot pair (assetId = 10000 + pair index).
+   * Returns null when nothing is held.
+   */
+  async getSpotBalance(
+    ctx: RequestContext,
+    dexAccountId: number,
+    assetId: number,
+  ): Promise<{ coin: string; total: string; entryNtl: string } | null> {
+    const dexAccount = await this.db.getDexAccount(dexAccountId);
+    if (!dexAccount || dexAccount.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, "Access denied to this account");
+    }
+
+    // Balances are held by the master wallet, not the agent
+    const masterAddress = (dexAccount.metadata as any)?.masterAddress ||
+      dexAccount.address;
+
+    const [stateResponse, spotMeta] = await Promise.all([
+      this.client.post("/info", { type: "spotClearinghouseState", user: masterAddress }),
+      this.getSpotMetadata(),
+    ]);
+
+    const pairIndex = assetId - 10000;
+    const pair = spotMeta?.universe?.find((candidate: any) => candidate.index === pairIndex) ||
+      spotMeta?.universe?.[pairIndex];
+    if (!pair) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `Unknown Hyperliquid spot asset ${assetId}`);
+    }
+
+    // Balances are per token; the pair's first token is the one bought and sold
+    const balance = stateResponse.data?.balances?.find((candidate: any) =>
+      candidate.token === pair.tokens[0]
+    );
+
+    if (!balance || parseFloat(balance.total || "0") === 0) {
+      return null;
+    }
+
+    return { coin: balance.coin, total: balance.total, entryNtl: balance.entryNtl || "0" };
+  }
+
+  /**
+   * Get the master wallet's perp account value, margin in use and USDC withdrawable from the clearinghouse state
+   */
+  async getMarginSummary(
+    ctx: RequestContext,
+    dexAccountId: number,
+  ): Promise<{ accountValue: number; totalMarginUsed: number; withdrawable: number }> {
+    const dexAccount = await this.db.getDexAccount(dexAccountId);
+    if (!dexAccount || dexAccount.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, "Access denied to this account");
+    }
+
+    const masterAddress = (dexAccount.metadata as any)?.masterAddress ||
+      dexAccount.address;
+
+    const response = await this.client.post("/info", {
+      type: "clearinghouseState",
+      user: masterAddress,
+    });
+
+    return {
+      accountValue: parseFloat(response.data?.marginSummary?.accountValue || "0"),
+      totalMarginUsed: parseFloat(response.data?.marginSummary?.totalMarginUsed || "0"),
+      withdrawable: parseFloat(response.data?.withdrawable || "0"),
+    };
+  }
+
+  /**
+   * Move USDC into (or out of) the margin of an isolated position, signed with the agent key.
+   * `updateIsolatedMargin` adds `ntli` (USDC with 6 decimals); `topUpIsolatedOnlyMargin` adds
+   * whatever brings the position down to the target leverage.
+   */
+  async adjustIsolatedMargin(
+    ctx: RequestContext,
+    dexAccountId: number,
+    action: UpdateIsolatedMarginAction | TopUpIsolatedMarginAction,
+  ): Promise<void> {
+    const dexAccount = await this.db.getDexAccount(dexAccountId);
+    if (!dexAccount || dexAccount.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, "Access denied to this account");
+    }
+
+    const nonce = await this.nonceManager.getNextNonce(dexAccount.address);
+    const wallet = new ethers.Wallet(await this.getAgentPrivateKey(dexAccount));
+
+    const signature = await signL1Action({
+      wallet: wallet,
+      action: action as any,
+      nonce: Number(nonce),
+      isTestnet: this.config.chain === "Testnet",
+    });
+
+    const request: HyperliquidRequest = {
+      action,
+      nonce: Number(nonce),
+      signature,
+    };
+
+    const response = await this.client.post<HyperliquidResponse>(
+      "/exchange",
+      request,
+    );
+
+    if (response.data?.status !== "ok") {
+      throw new ApiError(
+        ErrorCode.EXTERNAL_API_ERROR,
+        `Hyperliquid rejected ${action.type}: ${JSON.stringify(response.data?.response)}`,
+      );
+    }
+
+    logger.info("Adjusted isolated margin", {
+      userId: ctx.userId,
+      dexAccountId,
+      action,
+    });
+  }
+
   /**
    * Get open orders from Hyperliquid API
    */
@@ -786,6 +1086,74 @@ export class HyperliquidService {
     }
   }
 
+  /**
+   * Get the status of a single order by order id or cloid.
+   * Returns null when Hyperliquid does not know the order.
+   */
+  async getOrderStatusFromAPI(address: string, oid: number | string): Promise<HistoricalOrder | null> {
+    const response = await this.client.post("/info", {
+      type: "orderStatus",
+      user: address,
+      oid,
+    });
+
+    if (response.data?.status !== "order" || !response.data.order) {
+      return null;
+    }
+
+    return response.data.order;
+  }
+
+  /**
+   * Get the user's most recent orders (up to 2000) with their latest status
+   */
+  async getHistoricalOrdersFromAPI(address: string): Promise<HistoricalOrder[]> {
+    const response = await this.client.post("/info", {
+      type: "historicalOrders",
+      user: address,
+    });
+
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
+  /**
+   * Get fills for a user since startTime (ms), oldest first
+   * The API returns at most 2000 fills per call, so this pages forward by time. Each page after the first
+   * starts at the last fill's time, since fills of one order share a timestamp; repeated fills are dropped by tid.
+   */
+  async getUserFillsByTime(address: string, startTime: number, endTime?: number): Promise<UserFill[]> {
+    const MAX_PAGES = 10;
+    const fills: UserFill[] = [];
+    const seen = new Set<number>();
+    let cursor = startTime;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await this.client.post("/info", {
+        type: "userFillsByTime",
+        user: address,
+        startTime: cursor,
+        ...(endTime ? { endTime } : {}),
+      });
+
+      const batch: UserFill[] = Array.isArray(response.data) ? response.data : [];
+      for (const fill of batch) {
+        if (!seen.has(fill.tid)) {
+          seen.add(fill.tid);
+          fills.push(fill);
+        }
+      }
+
+      if (batch.length < 2000) {
+        break;
+      }
+      // A full page within one timestamp cannot move the cursor, so it steps past it
+      const lastTime = batch[batch.length - 1].time;
+      cursor = lastTime > cursor ? lastTime : lastTime + 1;
+    }
+
+    return fills;
+  }
+
   /**
    * Get frontend open orders from Hyperliquid API (includes additional UI-friendly data)
    */
@@ -828,6 +1196,57 @@ export class HyperliquidService {
     }
   }
 
+  /**
+   * Get funding payments for a user since startTime (ms)
+   * The API returns at most 500 entries per call, so this pages forward by time. Each page after the first
+   * starts at the last entry's time, since other coins may be paid at the same hour; repeated entries are dropped.
+   */
+  async getUserFunding(address: string, startTime: number, endTime?: number): Promise<
+    Array<{
+      time: number;
+      hash: string;
+      delta: {
+        type: string;
+        coin: string;
+        usdc: string; // Positive when received
+        szi: string;
+        fundingRate: string;
+      };
+    }>
+  > {
+    const MAX_PAGES = 20;
+    const entries: any[] = [];
+    const seen = new Set<string>();
+    let cursor = startTime;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response = await this.client.post("/info", {
+        type: "userFunding",
+        user: address,
+        startTime: cursor,
+        ...(endTime ? { endTime } : {}),
+      });
+
+      const batch = Array.isArray(response.data) ? response.data : [];
+      for (const entry of batch) {
+        const key = `${entry.time}:${entry.delta?.coin}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          entries.push(entry);
+        }
+      }
+
+      if (batch.length < 500) {
+        break;
+      }
+      // A full page within one timestamp cannot move the cursor, so it steps past it
+      const lastTime = batch[batch.length - 1].time;
+      cursor = lastTime > cursor ? lastTime : lastTime + 1;
+    }
+
+    return entries.filter((entry) => entry.delta?.type === "funding");
+  }
+
   /**
    * Get orders
    */
@@ -1021,17 +1440,19 @@ export class HyperliquidService {
   }
 
   /**
-   * Get fills/trades for an account
+   * Get stored fills for an account, newest first.
+   * Fills are collected from Hyperliquid by the fill-collector job, once per master wallet,
+   * so every account of the user trading for the same master wallet sees the same fills.
    */
   async getFills(
     ctx: RequestContext,
     dexAccountId: number,
     filters: {
-      limit?: number;
+      limit: number;
+      offset: number;
       startDate?: Date;
       endDate?: Date;
       assetSymbol?: string;
-      assetIndex?: number;
     },
   ) {
     // Verify access
@@ -1040,33 +1461,28 @@ export class HyperliquidService {
       throw new ApiError(ErrorCode.FORBIDDEN, "Access denied to this account");
     }
 
-    // For now, return filled orders as fills
-    const orders = await this.db.getHyperliquidOrders({
-      dexAccountId,
-      status: "filled",
-      assetSymbol: filters.assetSymbol,
-      assetIndex: filters.assetIndex,
+    // Fills belong to the master wallet, shared by every account trading for it
+    const masterAddress = ((dexAccount.metadata as any)?.masterAddress || dexAccount.address).toLowerCase();
+    const walletAccounts = (await this.db.getUserDexAccounts(ctx.userId!, 'hyperliquid'))
+      .filter(account => ((account.metadata as any)?.masterAddress || account.address).toLowerCase() === masterAddress);
+
+    const { fills, total } = await this.db.getFills({
+      dexAccountIds: [...new Set([dexAccountId, ...walletAccounts.map(account => account.id)])],
+      asset: filters.assetSymbol,
+      from: filters.startDate,
+      to: filters.endDate,
+      limit: filters.limit,
+      offset: filters.offset,
     });
 
-    // Apply date filters if provided
-    let filteredOrders = orders;
-    if (filters.startDate) {
-      filteredOrders = filteredOrders.filter((o) =>
-        new Date(o.createdAt) >= filters.startDate!
-      );
-    }
-    if (filters.endDate) {
-      filteredOrders = filteredOrders.filter((o) =>
-        new Date(o.createdAt) <= filters.endDate!
-      );
-    }
-
-    // Apply limit
-    if (filters.limit) {
-      filteredOrders = filteredOrders.slice(0, filters.limit);
-    }
-
-    return filteredOrders;
+    return {
+      fills,
+      pagination: {
+        limit: filters.limit,
+        offset: filters.offset,
+        total,
+      },
+    };
   }
 
   /**
@@ -1225,13 +1641,13 @@ export class HyperliquidService {
         throw new ApiError(ErrorCode.INTERNAL_ERROR, errorMessage);
       }
 
-      // Save the agent wallet to the database
+      // Save the agent wallet to the database (private key is envelope-encrypted)
       const agentAccount = await this.db.createDexAccount({
         userId: ctx.userId!,
         dexType: "hyperliquid",
         address: agentAddress,
         accountType: "agent_wallet",
-        encryptedPrivateKey: privateKey, // Storing plain text for now as requested
+        ...(await keyCustodyService.encryptForStorage(privateKey, agentAddress)),
         agentName: data.agentName,
         metadata: {
           masterAddress: data.masterAddress,
@@ -1624,7 +2040,7 @@ export class HyperliquidService {
       });
 
       // IMPORTANT: We need to verify that the private key derives to the correct address
-      let privateKey = dexAccount.encryptedPrivateKey;
+      let privateKey = await this.getAgentPrivateKey(dexAccount);
 
       // Ensure private key has 0x prefix
       if (!privateKey.startsWith("0x")) {
@@ -1963,15 +2379,22 @@ export class HyperliquidService {
         });
 
         // Store orders in database (same as original implementation)
-        const resultData = (result as any).data;
+        // SDK responses nest statuses under response.data
+        const resultData = (result as any).response?.data ?? (result as any).data;
+        const dbOrderIds: number[] = [];
         if (resultData?.statuses) {
           for (let i = 0; i < validated.orders.length; i++) {
             const order = validated.orders[i];
             const orderResponse = resultData.statuses[i];
 
-            await this.db.createHyperliquidOrder({
+            const exchangeOrderId = orderResponse?.resting?.oid ??
+              orderResponse?.filled?.oid;
+            const dbOrder = await this.db.createHyperliquidOrder({
               dexAccountId,
               userId: ctx.userId!,
+              hlOrderId: exchangeOrderId !== undefined
+                ? exchangeOrderId.toString()
+                : undefined,
               clientOrderId: order.clientOrderId,
               assetSymbol: order.assetSymbol || order.asset || '', // Fallback for compatibility
               assetIndex: order.assetIndex || order.assetId || 0, // Fallback for compatibility
@@ -1983,6 +2406,8 @@ export class HyperliquidService {
                 ? "rejected"
                 : orderResponse?.filled
                 ? "filled"
+                : orderResponse?.resting
+                ? "open"
                 : "pending",
               reduceOnly: order.reduceOnly,
               postOnly: order.postOnly,
@@ -1998,11 +2423,16 @@ export class HyperliquidService {
               builderFee: validated.builderFee?.toString(),
               rawResponse: orderResponse,
             });
+            dbOrderIds.push(dbOrder.id);
           }
         }
 
-        // Return SDK response as OrderResponse
-        return result as unknown as OrderResponse;
+        // Return SDK response with statuses flattened, as OrderResponse
+        return {
+          ...(result as any),
+          statuses: resultData?.statuses || [],
+          dbOrderIds,
+        } as OrderResponse;
       } catch (sdkError) {
         // Log detailed SDK error
         logger.error("SDK: Order placement failed with SDK error", {
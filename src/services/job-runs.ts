@@ -0,0 +1,65 @@
+import { DatabaseRepository } from '@/db/repository';
+import { JobRunReport, JobTrigger } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+/**
+ * Records every job execution in job_runs: who or what triggered it, when it started and
+ * finished, and the summary and per-position outcomes the job reports.
+ */
+export class JobRunService {
+  private db: DatabaseRepository;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+  }
+
+  /**
+   * Run a job and record its outcome. Errors are stored on the run and re-thrown.
+   * If the run row cannot be created the job still executes and runId is null.
+   */
+  async record<T extends JobRunReport | void>(
+    jobName: string,
+    options: { trigger: JobTrigger; triggeredBy?: number; dryRun?: boolean },
+    job: () => Promise<T>
+  ): Promise<{ runId: number | null; report: T }> {
+    const run = await this.db.createJobRun({
+      jobName,
+      trigger: options.trigger,
+      triggeredBy: options.triggeredBy,
+      dryRun: options.dryRun || false,
+    }).catch(error => {
+      logger.error(`Failed to record job run for ${jobName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    });
+
+    try {
+      const report = await job();
+
+      if (run) {
+        await this.db.updateJobRun(run.id, {
+          status: 'completed',
+          dryRun: report?.dryRun ?? run.dryRun,
+          summary: report?.summary || {},
+          positionOutcomes: report?.positionOutcomes || [],
+          finishedAt: new Date(),
+        });
+      }
+
+      return { runId: run?.id ?? null, report };
+    } catch (error) {
+      if (run) {
+        await this.db.updateJobRun(run.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        }).catch(updateError => {
+          logger.error(`Failed to record failure of job run ${run.id}`, { error: updateError });
+        });
+      }
+
+      throw error;
+    }
+  }
+}
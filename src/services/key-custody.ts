@@ -0,0 +1,357 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+import { SecretsService } from '@/services/secrets';
+import { ApiError, ErrorCode } from '@/types/common';
+import { logger } from '@/utils/logger';
+
+/**
+ * Key Custody Service
+ *
+ * Envelope encryption for agent wallet private keys stored in
+ * `dex_accounts.encrypted_private_key`:
+ * - Every record gets its own random 256-bit data key (DEK)
+ * - The private key is encrypted with the DEK (AES-256-GCM), bound to the account address
+ * - The DEK is wrapped with a master key (AES-256-GCM) supplied by a MasterKeyProvider
+ *
+ * Only the wrapped DEK is persisted, so a database dump alone does not expose any key.
+ */
+
+const ENVELOPE_PREFIX = 'envelope:v1:';
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+export interface MasterKey {
+  version: string;
+  key: Buffer;
+}
+
+/**
+ * Source of the master (key-encryption) keys. Retired versions stay resolvable
+ * so rows wrapped with them can still be read while a rotation is in progress.
+ */
+export interface MasterKeyProvider {
+  readonly name: string;
+  /** Get a master key by version (the active key when no version is given) */
+  getMasterKey(version?: string): Promise<MasterKey>;
+}
+
+interface EncryptedEnvelope {
+  kid: string; // Master key version used to wrap the DEK
+  wdek: string; // Wrapped data key
+  wiv: string;
+  wtag: string;
+  iv: string;
+  tag: string;
+  ct: string; // Encrypted private key
+}
+
+/**
+ * Parse master key material (64 hex chars, optionally 0x-prefixed, or base64 of 32 bytes)
+ */
+export function parseMasterKeyMaterial(material: string): Buffer {
+  const trimmed = material.trim();
+  const hex = trimmed.startsWith('0x') ? trimmed.slice(2) : trimmed;
+
+  if (/^[0-9a-fA-F]{64}$/.test(hex)) {
+    return Buffer.from(hex, 'hex');
+  }
+
+  const decoded = Buffer.from(trimmed, 'base64');
+  if (decoded.length === KEY_LENGTH) {
+    return decoded;
+  }
+
+  throw new ApiError(
+    ErrorCode.INTERNAL_ERROR,
+    'Master key must be 32 bytes encoded as hex or base64'
+  );
+}
+
+/**
+ * Version of the master key used for new encryptions
+ */
+export function getActiveMasterKeyVersion(): string {
+  return process.env.AGENT_KEY_MASTER_KEY_VERSION || 'v1';
+}
+
+function toMasterKey(version: string, material: string | undefined | null): MasterKey {
+  if (!material) {
+    throw new ApiError(ErrorCode.INTERNAL_ERROR, `Master key version ${version} is not configured`);
+  }
+
+  return { version, key: parseMasterKeyMaterial(material) };
+}
+
+/**
+ * Reads master keys from the environment (local development):
+ * - AGENT_KEY_MASTER_KEY: the active key
+ * - AGENT_KEY_MASTER_KEYS: optional keyring of retired keys, e.g. `v1:<key>,v2:<key>`
+ */
+export class EnvMasterKeyProvider implements MasterKeyProvider {
+  readonly name = 'env';
+
+  async getMasterKey(version?: string): Promise<MasterKey> {
+    const activeVersion = getActiveMasterKeyVersion();
+    const targetVersion = version || activeVersion;
+
+    if (targetVersion === activeVersion && process.env.AGENT_KEY_MASTER_KEY) {
+      return toMasterKey(targetVersion, process.env.AGENT_KEY_MASTER_KEY);
+    }
+
+    const keyring = (process.env.AGENT_KEY_MASTER_KEYS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+
+    const entry = keyring.find(item => item.split(':')[0] === targetVersion);
+    return toMasterKey(targetVersion, entry?.slice(targetVersion.length + 1));
+  }
+}
+
+/**
+ * Reads master keys from a local file (AGENT_KEY_MASTER_KEY_FILE) holding either a
+ * single key for the active version or a JSON keyring, e.g. `{"v1": "<key>", "v2": "<key>"}`
+ */
+export class FileMasterKeyProvider implements MasterKeyProvider {
+  readonly name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async getMasterKey(version?: string): Promise<MasterKey> {
+    const activeVersion = getActiveMasterKeyVersion();
+    const targetVersion = version || activeVersion;
+
+    let contents: string;
+    try {
+      contents = readFileSync(this.filePath, 'utf-8').trim();
+    } catch (error) {
+      logger.error('Failed to read master key file', { error, filePath: this.filePath });
+      throw new ApiError(ErrorCode.INTERNAL_ERROR, 'Master key file could not be read');
+    }
+
+    if (contents.startsWith('{')) {
+      let keyring: Record<string, string>;
+      try {
+        keyring = JSON.parse(contents);
+      } catch {
+        throw new ApiError(ErrorCode.INTERNAL_ERROR, 'Master key file is not a valid keyring');
+      }
+      return toMasterKey(targetVersion, keyring[targetVersion]);
+    }
+
+    return toMasterKey(targetVersion, targetVersion === activeVersion ? contents : undefined);
+  }
+}
+
+/**
+ * Reads master keys from SecureString parameters in SSM Parameter Store for Lambda:
+ * /magnolia/agent_key_master_key holds the active key and
+ * /magnolia/agent_key_master_key_<version> holds retired keys
+ */
+export class SsmMasterKeyProvider implements MasterKeyProvider {
+  readonly name = 'ssm';
+
+  async getMasterKey(version?: string): Promise<MasterKey> {
+    const activeVersion = getActiveMasterKeyVersion();
+    const targetVersion = version || activeVersion;
+
+    const parameterName = targetVersion === activeVersion
+      ? 'agent_key_master_key'
+      : `agent_key_master_key_${targetVersion}`;
+
+    return toMasterKey(targetVersion, await SecretsService.getSecret(parameterName, true));
+  }
+}
+
+/**
+ * Select a provider from AGENT_KEY_PROVIDER (env | file | ssm).
+ * Defaults to SSM under Lambda, the key file when one is configured, and the environment otherwise.
+ */
+export function createMasterKeyProvider(): MasterKeyProvider {
+  const keyFile = process.env.AGENT_KEY_MASTER_KEY_FILE;
+  const providerName = process.env.AGENT_KEY_PROVIDER ||
+    (process.env.AWS_LAMBDA_FUNCTION_NAME ? 'ssm' : keyFile ? 'file' : 'env');
+
+  switch (providerName) {
+    case 'ssm':
+      return new SsmMasterKeyProvider();
+    case 'file':
+      if (!keyFile) {
+        throw new ApiError(ErrorCode.INTERNAL_ERROR, 'AGENT_KEY_MASTER_KEY_FILE is not configured');
+      }
+      return new FileMasterKeyProvider(keyFile);
+    case 'env':
+      return new EnvMasterKeyProvider();
+    default:
+      throw new ApiError(ErrorCode.INTERNAL_ERROR, `Unknown AGENT_KEY_PROVIDER: ${providerName}`);
+  }
+}
+
+export class KeyCustodyService {
+  private provider: MasterKeyProvider | null;
+
+  constructor(provider?: MasterKeyProvider) {
+    this.provider = provider || null;
+  }
+
+  /**
+   * Check whether a stored value is an encrypted envelope (as opposed to a legacy plain-text key)
+   */
+  static isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * Get the master key version a stored value is wrapped with (null for legacy plain-text keys)
+   */
+  static getKeyVersion(stored: string): string | null {
+    if (!KeyCustodyService.isEncrypted(stored)) {
+      return null;
+    }
+    return KeyCustodyService.parseEnvelope(stored).kid;
+  }
+
+  /**
+   * Encrypt a private key for storage. The address is bound as additional authenticated data,
+   * so an envelope copied onto another account row will not decrypt.
+   */
+  async encryptPrivateKey(privateKey: string, address: string): Promise<string> {
+    const masterKey = await this.getProvider().getMasterKey();
+
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+    try {
+      const data = this.seal(dataKey, Buffer.from(privateKey, 'utf-8'), this.addressAad(address));
+      const wrapped = this.seal(masterKey.key, dataKey, Buffer.from(masterKey.version, 'utf-8'));
+
+      const envelope: EncryptedEnvelope = {
+        kid: masterKey.version,
+        wdek: wrapped.ciphertext,
+        wiv: wrapped.iv,
+        wtag: wrapped.tag,
+        iv: data.iv,
+        tag: data.tag,
+        ct: data.ciphertext,
+      };
+
+      return ENVELOPE_PREFIX + Buffer.from(JSON.stringify(envelope), 'utf-8').toString('base64');
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * Encrypt a private key and return the columns to persist on dex_accounts
+   */
+  async encryptForStorage(privateKey: string, address: string): Promise<{
+    encryptedPrivateKey: string;
+    keyVersion: string;
+  }> {
+    const encryptedPrivateKey = await this.encryptPrivateKey(privateKey, address);
+    return {
+      encryptedPrivateKey,
+      keyVersion: KeyCustodyService.getKeyVersion(encryptedPrivateKey)!,
+    };
+  }
+
+  /**
+   * Re-encrypt a stored value (envelope of any version, or legacy plain text)
+   * under a fresh data key wrapped by the active master key
+   */
+  async reencryptPrivateKey(stored: string, address: string) {
+    const privateKey = await this.decryptPrivateKey(stored, address);
+    return await this.encryptForStorage(privateKey, address);
+  }
+
+  /**
+   * Version of the master key currently used for new encryptions
+   */
+  async getActiveKeyVersion(): Promise<string> {
+    return (await this.getProvider().getMasterKey()).version;
+  }
+
+  /**
+   * Decrypt a stored private key. Legacy plain-text values are returned as-is (with a warning)
+   * until the encrypt-agent-keys migration has been run.
+   */
+  async decryptPrivateKey(stored: string, address: string): Promise<string> {
+    if (!KeyCustodyService.isEncrypted(stored)) {
+      logger.warn('Using plain-text agent private key - run the encrypt-agent-keys migration', { address });
+      return stored;
+    }
+
+    const envelope = KeyCustodyService.parseEnvelope(stored);
+    const masterKey = await this.getProvider().getMasterKey(envelope.kid);
+
+    let dataKey: Buffer | null = null;
+    try {
+      dataKey = this.open(
+        masterKey.key,
+        { iv: envelope.wiv, tag: envelope.wtag, ciphertext: envelope.wdek },
+        Buffer.from(envelope.kid, 'utf-8')
+      );
+      const plaintext = this.open(
+        dataKey,
+        { iv: envelope.iv, tag: envelope.tag, ciphertext: envelope.ct },
+        this.addressAad(address)
+      );
+      return plaintext.toString('utf-8');
+    } catch (error) {
+      logger.error('Failed to decrypt agent private key', {
+        error: error instanceof Error ? error.message : error,
+        address,
+        keyVersion: envelope.kid,
+      });
+      throw new ApiError(ErrorCode.INTERNAL_ERROR, 'Failed to decrypt stored private key');
+    } finally {
+      dataKey?.fill(0);
+    }
+  }
+
+  private getProvider(): MasterKeyProvider {
+    if (!this.provider) {
+      this.provider = createMasterKeyProvider();
+      logger.info('Key custody initialized', { provider: this.provider.name });
+    }
+    return this.provider;
+  }
+
+  private static parseEnvelope(stored: string): EncryptedEnvelope {
+    try {
+      const json = Buffer.from(stored.slice(ENVELOPE_PREFIX.length), 'base64').toString('utf-8');
+      return JSON.parse(json) as EncryptedEnvelope;
+    } catch {
+      throw new ApiError(ErrorCode.INTERNAL_ERROR, 'Stored private key envelope is malformed');
+    }
+  }
+
+  private addressAad(address: string): Buffer {
+    return Buffer.from(address.toLowerCase(), 'utf-8');
+  }
+
+  private seal(key: Buffer, plaintext: Buffer, aad: Buffer) {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+    cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+  }
+
+  private open(key: Buffer, sealed: { iv: string; tag: string; ciphertext: string }, aad: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(sealed.iv, 'base64'));
+    decipher.setAAD(aad);
+    decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(sealed.ciphertext, 'base64')),
+      decipher.final(),
+    ]);
+  }
+}
+
+// Export singleton instance
+export const keyCustodyService = new KeyCustodyService();
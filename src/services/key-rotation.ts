@@ -0,0 +1,147 @@
+import { DatabaseRepository } from '@/db/repository';
+import { KeyCustodyService, keyCustodyService } from '@/services/key-custody';
+import { logger } from '@/utils/logger';
+
+/**
+ * Agent Key Rotation Service
+ *
+ * Re-encrypts every stored agent private key under the active master key version.
+ * - Rows are selected by `dex_accounts.key_version`, so an interrupted run resumes
+ *   where it left off simply by running again
+ * - Each row is written with a compare-and-swap on the old ciphertext, so concurrent
+ *   writes (e.g. a newly approved agent) are never overwritten
+ * - Retired master keys stay readable through the provider keyring, so trading
+ *   continues during the rotation
+ */
+
+export interface KeyRotationOptions {
+  batchSize?: number;
+  maxBatches?: number; // Stop after N batches (the next run picks up the rest)
+  dryRun?: boolean;
+}
+
+export interface KeyRotationResult {
+  targetVersion: string;
+  processed: number;
+  rotated: number;
+  skipped: number;
+  failed: number;
+  remaining: number;
+  dryRun: boolean;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+export class KeyRotationService {
+  private db: DatabaseRepository;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+  }
+
+  /**
+   * Rotate all agent keys not yet wrapped by the active master key
+   */
+  async rotateAgentKeys(options: KeyRotationOptions = {}): Promise<KeyRotationResult> {
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const dryRun = options.dryRun || false;
+    const targetVersion = await keyCustodyService.getActiveKeyVersion();
+
+    logger.info('Starting agent key rotation', { targetVersion, batchSize, dryRun });
+
+    const result: KeyRotationResult = {
+      targetVersion,
+      processed: 0,
+      rotated: 0,
+      skipped: 0,
+      failed: 0,
+      remaining: 0,
+      dryRun,
+    };
+
+    let lastId = 0;
+    let batches = 0;
+
+    while (!options.maxBatches || batches < options.maxBatches) {
+      const accounts = await this.db.getDexAccountsPendingKeyRotation(targetVersion, lastId, batchSize);
+      if (accounts.length === 0) {
+        break;
+      }
+
+      for (const account of accounts) {
+        lastId = account.id;
+        result.processed++;
+
+        try {
+          const rotated = await this.rotateAccountKey(account, targetVersion, dryRun);
+          if (rotated) {
+            result.rotated++;
+          } else {
+            result.skipped++;
+          }
+        } catch (error) {
+          result.failed++;
+          logger.error('Failed to rotate agent key', {
+            accountId: account.id,
+            address: account.address,
+            keyVersion: account.keyVersion,
+            error: error instanceof Error ? error.message : error,
+          });
+        }
+      }
+
+      batches++;
+      logger.info('Agent key rotation batch completed', { batch: batches, lastId, ...result });
+    }
+
+    result.remaining = await this.db.countDexAccountsPendingKeyRotation(targetVersion);
+
+    logger.info('Agent key rotation finished', result);
+
+    return result;
+  }
+
+  /**
+   * Re-encrypt a single account's key. Returns false when the row changed underneath us.
+   */
+  private async rotateAccountKey(
+    account: { id: number; address: string; encryptedPrivateKey: string | null },
+    targetVersion: string,
+    dryRun: boolean
+  ): Promise<boolean> {
+    const stored = account.encryptedPrivateKey!;
+
+    // Envelope already on the target key, only the version column needs backfilling
+    if (KeyCustodyService.getKeyVersion(stored) === targetVersion) {
+      if (dryRun) {
+        return true;
+      }
+      const updated = await this.db.swapDexAccountPrivateKey(account.id, stored, {
+        encryptedPrivateKey: stored,
+        keyVersion: targetVersion,
+      });
+      return !!updated;
+    }
+
+    const reencrypted = await keyCustodyService.reencryptPrivateKey(stored, account.address);
+
+    // Verify the new envelope before replacing the old one
+    const original = await keyCustodyService.decryptPrivateKey(stored, account.address);
+    const roundTrip = await keyCustodyService.decryptPrivateKey(reencrypted.encryptedPrivateKey, account.address);
+    if (roundTrip !== original) {
+      throw new Error('Round-trip decryption mismatch');
+    }
+
+    if (dryRun) {
+      return true;
+    }
+
+    const updated = await this.db.swapDexAccountPrivateKey(account.id, stored, reencrypted);
+    if (!updated) {
+      logger.warn('Agent key changed during rotation, skipping', { accountId: account.id });
+      return false;
+    }
+
+    return true;
+  }
+}
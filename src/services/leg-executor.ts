@@ -0,0 +1,398 @@
+import { DatabaseRepository } from '@/db/repository';
+import { getExchangeAdapter } from '@/services/exchanges/registry';
+import { NotificationService } from '@/services/notifications';
+import { RequestContext } from '@/types/common';
+import { ExchangePosition, PlacedOrder } from '@/types/exchange';
+import {
+  ExecutedLeg,
+  ExecutionStatus,
+  ExecutionStep,
+  LegExecutionResult,
+  LegOrder,
+} from '@/types/execution';
+import { AlertType } from '@/types/notifications';
+import { logger } from '@/utils/logger';
+
+// Orders the venue only acknowledged are checked against the account position this many times
+const FILL_CHECK_ATTEMPTS = 5;
+const FILL_CHECK_INTERVAL_MS = 1000;
+// A leg counts as filled once this share of its size shows up on the position
+const FILL_TOLERANCE = 0.01;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Completed executions with these reasons are alerted here; liquidation_risk is alerted by its monitor
+const REASON_ALERTS: Record<string, AlertType> = {
+  funding_rate_flipped: 'funding_flip',
+  delta_drift: 'rebalance',
+};
+
+/**
+ * Leg Execution Coordinator
+ *
+ * Places the legs of a delta neutral position one after another and verifies each fill
+ * before moving on. If a leg is rejected or does not fill, every leg already filled is
+ * reversed with a market order (reduce-only for legs that opened exposure), so a failure
+ * never leaves a naked directional leg behind. Each step is written to `position_executions`
+ * as it happens. Failed executions and automated rebalances are sent as Telegram alerts.
+ */
+export class LegExecutionCoordinator {
+  private db: DatabaseRepository;
+  private notifications: NotificationService;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.notifications = new NotificationService();
+  }
+
+  /**
+   * Execute all legs, unwinding filled legs if any leg fails.
+   * Venue errors are captured in the result rather than thrown.
+   */
+  async execute(
+    ctx: RequestContext,
+    params: {
+      kind: 'open' | 'rebalance' | 'close';
+      positionId?: number;
+      reason?: string; // Why an automated execution ran, e.g. funding_rate_flipped
+      legs: LegOrder[];
+    }
+  ): Promise<LegExecutionResult> {
+    const execution = await this.db.createPositionExecution({
+      userId: ctx.userId!,
+      positionId: params.positionId,
+      kind: params.kind,
+      reason: params.reason,
+      legs: params.legs,
+    });
+
+    const steps: ExecutionStep[] = [];
+    const executed: ExecutedLeg[] = [];
+    const record = async (step: Omit<ExecutionStep, 'at'>) => {
+      steps.push({ ...step, at: new Date().toISOString() });
+      await this.saveSteps(execution.id, steps);
+    };
+
+    let failure: { leg: number; error: string; partialFill?: ExecutedLeg } | null = null;
+
+    for (const [index, order] of params.legs.entries()) {
+      if (order.prefilled) {
+        const leg = {
+          order,
+          fillPrice: order.prefilled.fillPrice,
+          filledSize: order.prefilled.filledSize || order.size,
+        };
+        executed.push(leg);
+        await record({ leg: index, action: 'record', status: 'ok', size: leg.filledSize, fillPrice: leg.fillPrice });
+        continue;
+      }
+
+      const adapter = getExchangeAdapter(order.dexType);
+      const baseline = await this.getSignedSize(ctx, order);
+
+      let placed: PlacedOrder;
+      try {
+        placed = await adapter.placeOrder(ctx, order.dexAccountId, {
+          market: order.market,
+          side: order.side,
+          size: order.size,
+          orderType: 'market',
+          reduceOnly: order.reduceOnly,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await record({ leg: index, action: 'place', status: 'failed', size: order.size, detail: message });
+        failure = { leg: index, error: message };
+        break;
+      }
+
+      await record({
+        leg: index,
+        action: 'place',
+        status: 'ok',
+        orderId: placed.orderId,
+        exchangeOrderId: placed.exchangeOrderId,
+        size: order.size,
+        fillPrice: placed.fillPrice,
+        detail: `venue status: ${placed.status}`,
+      });
+
+      const filledSize = await this.verifyFill(ctx, index, order, placed, baseline, record);
+      const leg = { order, placed, fillPrice: placed.fillPrice || '0', filledSize: filledSize.toString() };
+
+      if (filledSize >= parseFloat(order.size) * (1 - FILL_TOLERANCE)) {
+        executed.push(leg);
+        continue;
+      }
+
+      if (placed.status === 'open') {
+        await this.cancelResting(ctx, index, order, placed, record);
+      }
+
+      failure = {
+        leg: index,
+        error: `${order.dexType} ${order.market.symbol} order filled ${filledSize} of ${order.size}`,
+        partialFill: filledSize > 0 ? leg : undefined,
+      };
+      break;
+    }
+
+    let status: ExecutionStatus = 'completed';
+
+    if (failure) {
+      const toUnwind = failure.partialFill ? [...executed, failure.partialFill] : executed;
+      status = toUnwind.length === 0 ? 'failed' : 'unwound';
+
+      logger.warn(`Leg ${failure.leg} of execution ${execution.id} failed`, {
+        positionId: params.positionId,
+        error: failure.error,
+        legsToUnwind: toUnwind.length,
+      });
+
+      // Reverse in the opposite order they were opened
+      for (const leg of [...toUnwind].reverse()) {
+        const unwound = await this.unwindLeg(ctx, params.legs.indexOf(leg.order), leg, record);
+        if (!unwound) {
+          status = 'unwind_failed';
+        }
+      }
+
+      if (status === 'unwind_failed') {
+        logger.error(`Execution ${execution.id} could not unwind all legs - venue exposure needs manual attention`, {
+          userId: ctx.userId,
+          positionId: params.positionId,
+          steps,
+        });
+      }
+    }
+
+    await this.db.updatePositionExecution(execution.id, {
+      status,
+      steps,
+      error: failure?.error ?? null,
+      completedAt: new Date(),
+    });
+
+    await this.notifyExecution(ctx, params, execution.id, status, executed, failure?.error);
+
+    return {
+      executionId: execution.id,
+      status,
+      legs: status === 'completed' ? executed : [],
+      steps,
+      error: failure?.error,
+    };
+  }
+
+  /**
+   * Alert the user about a failed execution, or a completed one with a reason in REASON_ALERTS
+   */
+  private async notifyExecution(
+    ctx: RequestContext,
+    params: { kind: 'open' | 'rebalance' | 'close'; positionId?: number; reason?: string },
+    executionId: number,
+    status: ExecutionStatus,
+    executed: ExecutedLeg[],
+    error?: string
+  ): Promise<void> {
+    if (status === 'completed') {
+      const type = params.reason ? REASON_ALERTS[params.reason] : undefined;
+      if (!type || !params.positionId) {
+        return;
+      }
+
+      const legs = executed.map(leg =>
+        `${leg.order.side} ${leg.filledSize} ${leg.order.market.symbol} on ${leg.order.dexType} at ${leg.fillPrice}`
+      );
+      await this.notifications.notifyPosition(
+        params.positionId,
+        type,
+        [`${params.kind} execution ${executionId} (${params.reason}) completed:`, ...legs].join('\n')
+      );
+      return;
+    }
+
+    const lines = [`${params.kind} execution ${executionId} ${status}: ${error}`];
+    if (status === 'unwind_failed') {
+      lines.push('Some filled legs could not be reversed. Exposure is left on the venue and needs manual attention.');
+    }
+
+    if (params.positionId) {
+      await this.notifications.notifyPosition(params.positionId, 'leg_failed', lines.join('\n'));
+    } else {
+      await this.notifications.notifyUser(ctx.userId!, 'leg_failed', lines.join('\n'));
+    }
+  }
+
+  /**
+   * Attach an execution to the position it created
+   */
+  async linkPosition(executionId: number, positionId: number): Promise<void> {
+    await this.db.updatePositionExecution(executionId, { positionId });
+  }
+
+  /**
+   * Confirm a placed order filled, returning the filled size.
+   * Orders the venue reports as filled are trusted; anything else is checked against the
+   * change in the account's position for the market.
+   */
+  private async verifyFill(
+    ctx: RequestContext,
+    index: number,
+    order: LegOrder,
+    placed: PlacedOrder,
+    baseline: number | null,
+    record: (step: Omit<ExecutionStep, 'at'>) => Promise<void>
+  ): Promise<number> {
+    if (placed.status === 'filled') {
+      const filledSize = parseFloat(placed.filledSize || order.size);
+      await record({ leg: index, action: 'verify', status: 'ok', size: filledSize.toString(), detail: 'reported filled by venue' });
+      return filledSize;
+    }
+
+    // Spot balances are not exposed as positions, and without a baseline there is nothing to compare against
+    if (order.market.marketType === 'spot' || baseline === null) {
+      await record({
+        leg: index,
+        action: 'verify',
+        status: 'skipped',
+        size: order.size,
+        detail: 'fill cannot be checked against the position, relying on the venue acknowledgement',
+      });
+      return parseFloat(order.size);
+    }
+
+    const direction = order.side === 'buy' ? 1 : -1;
+    let filledSize = 0;
+
+    for (let attempt = 1; attempt <= FILL_CHECK_ATTEMPTS; attempt++) {
+      await sleep(FILL_CHECK_INTERVAL_MS);
+
+      const current = await this.getSignedSize(ctx, order);
+      if (current === null) {
+        continue;
+      }
+
+      filledSize = Math.max(0, (current - baseline) * direction);
+      if (filledSize >= parseFloat(order.size) * (1 - FILL_TOLERANCE)) {
+        await record({ leg: index, action: 'verify', status: 'ok', size: filledSize.toString(), detail: `position changed after ${attempt} check(s)` });
+        return filledSize;
+      }
+    }
+
+    await record({
+      leg: index,
+      action: 'verify',
+      status: 'failed',
+      size: filledSize.toString(),
+      detail: `position changed by ${filledSize} of ${order.size} after ${FILL_CHECK_ATTEMPTS} checks`,
+    });
+    return filledSize;
+  }
+
+  private async cancelResting(
+    ctx: RequestContext,
+    index: number,
+    order: LegOrder,
+    placed: PlacedOrder,
+    record: (step: Omit<ExecutionStep, 'at'>) => Promise<void>
+  ): Promise<void> {
+    try {
+      await getExchangeAdapter(order.dexType).cancelOrder(ctx, order.dexAccountId, {
+        market: order.market,
+        orderId: placed.orderId,
+        exchangeOrderId: placed.exchangeOrderId,
+      });
+      await record({ leg: index, action: 'cancel', status: 'ok', orderId: placed.orderId, exchangeOrderId: placed.exchangeOrderId });
+    } catch (error) {
+      await record({
+        leg: index,
+        action: 'cancel',
+        status: 'failed',
+        orderId: placed.orderId,
+        exchangeOrderId: placed.exchangeOrderId,
+        detail: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Reverse a filled leg with a market order for the filled size
+   */
+  private async unwindLeg(
+    ctx: RequestContext,
+    index: number,
+    leg: ExecutedLeg,
+    record: (step: Omit<ExecutionStep, 'at'>) => Promise<void>
+  ): Promise<boolean> {
+    const { order } = leg;
+
+    try {
+      const placed = await getExchangeAdapter(order.dexType).placeOrder(ctx, order.dexAccountId, {
+        market: order.market,
+        side: order.side === 'buy' ? 'sell' : 'buy',
+        size: leg.filledSize,
+        orderType: 'market',
+        // A leg that closed exposure is restored by reopening it, so only opening legs unwind reduce-only
+        reduceOnly: !order.reduceOnly,
+      });
+
+      await record({
+        leg: index,
+        action: 'unwind',
+        status: 'ok',
+        orderId: placed.orderId,
+        exchangeOrderId: placed.exchangeOrderId,
+        size: leg.filledSize,
+        fillPrice: placed.fillPrice,
+        detail: `venue status: ${placed.status}`,
+      });
+      return true;
+    } catch (error) {
+      await record({
+        leg: index,
+        action: 'unwind',
+        status: 'failed',
+        size: leg.filledSize,
+        detail: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Signed position size (long positive), 0 when flat, null when it cannot be read
+   */
+  private async getSignedSize(ctx: RequestContext, order: LegOrder): Promise<number | null> {
+    if (order.market.marketType === 'spot') {
+      return null;
+    }
+
+    try {
+      const position: ExchangePosition | null = await getExchangeAdapter(order.dexType)
+        .getPosition(ctx, order.dexAccountId, order.market);
+      if (!position) {
+        return 0;
+      }
+      const size = parseFloat(position.size);
+      return position.side === 'long' ? size : -size;
+    } catch (error) {
+      logger.warn(`Failed to read ${order.dexType} position for ${order.market.symbol}`, {
+        dexAccountId: order.dexAccountId,
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+  }
+
+  private async saveSteps(executionId: number, steps: ExecutionStep[]): Promise<void> {
+    try {
+      await this.db.updatePositionExecution(executionId, { steps });
+    } catch (error) {
+      // The in-memory log is written again when the execution finishes
+      logger.error(`Failed to save steps for execution ${executionId}`, {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
@@ -1,213 +0,0 @@
-/**
- * REFERENCE IMPLEMENTATION ONLY - NOT FOR BACKEND USE
- * 
- * This file contains reference implementations of the cryptographic functions
- * that should be implemented on the FRONTEND using proper crypto libraries.
- * 
- * Based on lighter-go SDK signer/key_manager.go patterns:
- * - Uses Schnorr signatures on elliptic curves
- * - Requires Poseidon hash functions
- * - Private keys should never be on the backend
- * 
- * For actual implementation, use:
- * - Web Assembly (WASM) versions of the crypto libraries
- * - Frontend JavaScript crypto libraries
- * - Browser-based signing
- */
-
-/**
- * FRONTEND SIGNING WORKFLOW (Reference Only)
- * 
- * This is how the frontend should handle Lighter order signing:
- * 
- * 1. User initiates trade on Lighter frontend
- * 2. Frontend collects order parameters
- * 3. Frontend signs transaction using user's private key
- * 4. Frontend submits signed transaction to Lighter API
- * 5. Frontend collects execution results (price, amount, etc.)
- * 6. Frontend sends execution data to your backend via custom-order endpoint
- */
-
-// Reference types based on Go SDK
-export interface LighterKeyManager {
-  privateKey: Uint8Array; // 40-byte private key
-  publicKey: Uint8Array;
-}
-
-export interface LighterSignature {
-  signature: Uint8Array;
-}
-
-export interface LighterTransactionData {
-  accountIndex: number;
-  apiKeyIndex: number;
-  nonce: string;
-  marketId: number;
-  side: 'buy' | 'sell';
-  orderType: string;
-  baseAmount: string;
-  price?: string;
-  timeInForce?: string;
-  clientOrderIndex?: number;
-  expiredAt?: number;
-}
-
-/**
- * REFERENCE IMPLEMENTATION - Frontend Only
- * DO NOT USE IN BACKEND - PRIVATE KEYS SHOULD NEVER BE ON SERVER
- */
-export class LighterCryptoReference {
-  
-  /**
-   * Create key manager from private key (FRONTEND ONLY)
-   * Based on Go SDK NewKeyManager()
-   */
-  static createKeyManager(privateKey: string): LighterKeyManager {
-    // This should be implemented on the frontend using:
-    // - Web Assembly versions of elliptic curve crypto
-    // - Browser crypto APIs
-    // - Proper key validation
-    
-    throw new Error('REFERENCE ONLY - Implement on frontend with proper crypto libraries');
-  }
-
-  /**
-   * Sign transaction hash (FRONTEND ONLY)
-   * Based on Go SDK Sign() method
-   */
-  static signTransaction(keyManager: LighterKeyManager, transactionHash: Uint8Array): LighterSignature {
-    // This should be implemented on the frontend using:
-    // - Schnorr signature algorithm
-    // - Proper curve operations
-    // - Secure random number generation
-    
-    throw new Error('REFERENCE ONLY - Implement on frontend with proper crypto libraries');
-  }
-
-  /**
-   * Hash transaction data for signing (FRONTEND ONLY)
-   * Based on Poseidon hash used in Go SDK
-   */
-  static hashTransactionData(txData: LighterTransactionData): Uint8Array {
-    // This should be implemented on the frontend using:
-    // - Poseidon hash function
-    // - Proper field element encoding
-    // - Transaction serialization
-    
-    throw new Error('REFERENCE ONLY - Implement on frontend with proper crypto libraries');
-  }
-
-  /**
-   * Create auth token for API access (FRONTEND ONLY)
-   * Based on Go SDK GetAuthToken()
-   */
-  static createAuthToken(keyManager: LighterKeyManager, deadline: number): string {
-    // This should be implemented on the frontend using:
-    // - Proper timestamp validation
-    // - Message signing
-    // - Token formatting
-    
-    throw new Error('REFERENCE ONLY - Implement on frontend with proper crypto libraries');
-  }
-}
-
-/**
- * FRONTEND INTEGRATION EXAMPLE
- * 
- * This is how your frontend should integrate with Lighter:
- * 
- * ```javascript
- * // 1. Frontend places order on Lighter
- * const orderParams = {
- *   marketId: 5,
- *   side: 'buy',
- *   orderType: 'ORDER_TYPE_MARKET',
- *   baseAmount: '1000000', // Integer representation
- *   accountIndex: 123,
- *   apiKeyIndex: 2,
- *   clientOrderIndex: 456
- * };
- * 
- * // 2. Sign transaction with user's private key
- * const signedTx = await LighterCrypto.signOrder(privateKey, orderParams);
- * 
- * // 3. Submit to Lighter API
- * const executionResult = await lighterAPI.submitOrder(signedTx);
- * 
- * // 4. Send execution results to your backend
- * const positionData = {
- *   name: "My Position",
- *   asset: "ETH",
- *   legs: [{
- *     dexType: "lighter",
- *     entryPrice: executionResult.fillPrice, // Actual execution price
- *     size: executionResult.filledAmount,
- *     marketId: 5,
- *     accountIndex: 123,
- *     clientOrderIndex: 456,
- *     signature: executionResult.signature,
- *     // ... other execution metadata
- *   }, {
- *     dexType: "hyperliquid", 
- *     assetId: 1,
- *     size: "1.0",
- *     side: "short"
- *     // Backend will place this order
- *   }]
- * };
- * 
- * await yourAPI.post('/api/positions/custom-order', positionData);
- * ```
- */
-
-/**
- * SECURITY NOTES FOR FRONTEND IMPLEMENTATION:
- * 
- * 1. NEVER send private keys to backend
- * 2. Use proper entropy for key generation
- * 3. Validate all transaction parameters before signing
- * 4. Use secure storage for keys (hardware wallets, secure enclaves)
- * 5. Implement proper error handling for crypto operations
- * 6. Use established crypto libraries, don't implement crypto yourself
- * 7. Audit crypto implementations thoroughly
- */
-
-export const LIGHTER_CRYPTO_LIBRARIES = {
-  recommended: [
-    {
-      name: 'elliptic',
-      description: 'Elliptic curve cryptography',
-      url: 'https://www.npmjs.com/package/elliptic'
-    },
-    {
-      name: 'noble-curves',
-      description: 'Modern elliptic curve cryptography',
-      url: 'https://www.npmjs.com/package/@noble/curves'
-    },
-    {
-      name: 'poseidon-lite',
-      description: 'Poseidon hash implementation',
-      url: 'https://www.npmjs.com/package/poseidon-lite'
-    }
-  ],
-  notes: [
-    'Always verify library authenticity and security',
-    'Use deterministic builds when possible', 
-    'Keep crypto libraries updated',
-    'Consider using WebAssembly for performance'
-  ]
-};
-
-/**
- * INTEGRATION WITH LIGHTER FRONTEND:
- * 
- * The typical flow should be:
- * 1. User connects wallet to your frontend
- * 2. Frontend generates/manages Lighter API keys
- * 3. User initiates trade through your UI
- * 4. Frontend signs and submits to Lighter directly  
- * 5. Frontend gets execution results from Lighter
- * 6. Frontend sends execution data to your backend
- * 7. Backend creates position record using custom-order endpoint
- * 8. Backend may place hedge orders on other DEXes
- */
\ No newline at end of file
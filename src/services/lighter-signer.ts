@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { readFile } from 'fs/promises';
+import { pathToFileURL } from 'url';
+import { ApiError, ErrorCode } from '@/types/common';
+import { logger } from '@/utils/logger';
+
+/**
+ * Lighter Transaction Signer
+ *
+ * Lighter transactions are signed with the account's API key (Schnorr over ECgFp5 with
+ * Poseidon2 hashing). Rather than re-implementing that curve in TypeScript we load the
+ * official lighter-go signer compiled to WebAssembly, the same code the Go and Python
+ * SDKs use.
+ *
+ * Build the signer from https://github.com/elliottech/lighter-go:
+ *   GOOS=js GOARCH=wasm go build -o lighter-signer.wasm ./wasm
+ * and point LIGHTER_SIGNER_WASM_PATH at the output and LIGHTER_WASM_EXEC_PATH at the
+ * matching `$(go env GOROOT)/lib/wasm/wasm_exec.js`.
+ *
+ * The module registers these globals, each returning `{ txInfo?: string, error?: string }`:
+ * - CreateClient(url, privateKey, chainId, apiKeyIndex, accountIndex)
+ * - SignCreateOrder(marketIndex, clientOrderIndex, baseAmount, price, isAsk, orderType,
+ *     timeInForce, reduceOnly, triggerPrice, orderExpiry, nonce, apiKeyIndex, accountIndex)
+ * - SignCancelOrder(marketIndex, orderIndex, nonce, apiKeyIndex, accountIndex)
+ * - SignModifyOrder(marketIndex, index, baseAmount, price, triggerPrice, nonce, apiKeyIndex, accountIndex)
+ */
+
+// Transaction types accepted by sendTx / sendTxBatch
+export const LIGHTER_TX_TYPES = {
+  CREATE_ORDER: 14,
+  CANCEL_ORDER: 15,
+  MODIFY_ORDER: 17,
+} as const;
+
+export const LIGHTER_ORDER_TYPES = {
+  ORDER_TYPE_LIMIT: 0,
+  ORDER_TYPE_MARKET: 1,
+  ORDER_TYPE_STOP_LOSS: 2,
+  ORDER_TYPE_STOP_LOSS_LIMIT: 3,
+  ORDER_TYPE_TAKE_PROFIT: 4,
+  ORDER_TYPE_TAKE_PROFIT_LIMIT: 5,
+  ORDER_TYPE_TWAP: 6,
+} as const;
+
+export const LIGHTER_TIME_IN_FORCE = {
+  ORDER_TIME_IN_FORCE_IMMEDIATE_OR_CANCEL: 0,
+  ORDER_TIME_IN_FORCE_GOOD_TILL_TIME: 1,
+  ORDER_TIME_IN_FORCE_POST_ONLY: 2,
+} as const;
+
+// Order expiry sentinels understood by the signer
+export const LIGHTER_IOC_EXPIRY = 0;
+export const LIGHTER_DEFAULT_28_DAY_EXPIRY = -1;
+
+export const LIGHTER_MAINNET_CHAIN_ID = 304;
+
+export interface LighterSigningKey {
+  privateKey: string;
+  accountIndex: number;
+  apiKeyIndex: number;
+}
+
+export interface SignedLighterTx {
+  txType: number;
+  txInfo: string;
+}
+
+/**
+ * Integer-encoded create order fields (amounts already scaled by the market decimals)
+ */
+export interface LighterCreateOrderTx {
+  marketIndex: number;
+  clientOrderIndex: number;
+  baseAmount: number;
+  price: number;
+  isAsk: boolean;
+  orderType: number;
+  timeInForce: number;
+  reduceOnly: boolean;
+  triggerPrice: number;
+  orderExpiry: number;
+  nonce: number;
+}
+
+export interface LighterCancelOrderTx {
+  marketIndex: number;
+  orderIndex: number;
+  nonce: number;
+}
+
+export interface LighterModifyOrderTx {
+  marketIndex: number;
+  index: number;
+  baseAmount: number;
+  price: number;
+  triggerPrice: number;
+  nonce: number;
+}
+
+export interface LighterSigner {
+  signCreateOrder(key: LighterSigningKey, tx: LighterCreateOrderTx): Promise<SignedLighterTx>;
+  signCancelOrder(key: LighterSigningKey, tx: LighterCancelOrderTx): Promise<SignedLighterTx>;
+  signModifyOrder(key: LighterSigningKey, tx: LighterModifyOrderTx): Promise<SignedLighterTx>;
+  createAuthToken(key: LighterSigningKey, deadline: number): Promise<string>; // deadline in Unix seconds
+}
+
+interface WasmSignerResult {
+  txInfo?: string;
+  authToken?: string;
+  error?: string;
+}
+
+/**
+ * Signer backed by the lighter-go WebAssembly build
+ */
+export class WasmLighterSigner implements LighterSigner {
+  private loading: Promise<void> | null = null;
+  // "accountIndex:apiKeyIndex" -> fingerprint of the key the client was created with
+  private clients = new Map<string, string>();
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly chainId: number = Number(process.env.LIGHTER_CHAIN_ID || LIGHTER_MAINNET_CHAIN_ID),
+    private readonly wasmPath: string | undefined = process.env.LIGHTER_SIGNER_WASM_PATH,
+    private readonly wasmExecPath: string | undefined = process.env.LIGHTER_WASM_EXEC_PATH,
+  ) {}
+
+  async signCreateOrder(key: LighterSigningKey, tx: LighterCreateOrderTx): Promise<SignedLighterTx> {
+    await this.ensureClient(key);
+    return {
+      txType: LIGHTER_TX_TYPES.CREATE_ORDER,
+      txInfo: this.call('SignCreateOrder', [
+        tx.marketIndex,
+        tx.clientOrderIndex,
+        tx.baseAmount,
+        tx.price,
+        tx.isAsk ? 1 : 0,
+        tx.orderType,
+        tx.timeInForce,
+        tx.reduceOnly ? 1 : 0,
+        tx.triggerPrice,
+        tx.orderExpiry,
+        tx.nonce,
+        key.apiKeyIndex,
+        key.accountIndex,
+      ]),
+    };
+  }
+
+  async signCancelOrder(key: LighterSigningKey, tx: LighterCancelOrderTx): Promise<SignedLighterTx> {
+    await this.ensureClient(key);
+    return {
+      txType: LIGHTER_TX_TYPES.CANCEL_ORDER,
+      txInfo: this.call('SignCancelOrder', [
+        tx.marketIndex,
+        tx.orderIndex,
+        tx.nonce,
+        key.apiKeyIndex,
+        key.accountIndex,
+      ]),
+    };
+  }
+
+  async signModifyOrder(key: LighterSigningKey, tx: LighterModifyOrderTx): Promise<SignedLighterTx> {
+    await this.ensureClient(key);
+    return {
+      txType: LIGHTER_TX_TYPES.MODIFY_ORDER,
+      txInfo: this.call('SignModifyOrder', [
+        tx.marketIndex,
+        tx.index,
+        tx.baseAmount,
+        tx.price,
+        tx.triggerPrice,
+        tx.nonce,
+        key.apiKeyIndex,
+        key.accountIndex,
+      ]),
+    };
+  }
+
+  /**
+   * Create an auth token for the account's authenticated read endpoints (active/inactive orders)
+   */
+  async createAuthToken(key: LighterSigningKey, deadline: number): Promise<string> {
+    await this.ensureClient(key);
+
+    const result = (globalThis as any).CreateAuthToken(deadline, key.apiKeyIndex, key.accountIndex) as WasmSignerResult | undefined;
+    if (!result || result.error || !result.authToken) {
+      throw new ApiError(
+        ErrorCode.SIGNATURE_INVALID,
+        `Lighter signer CreateAuthToken failed: ${result?.error || 'no token returned'}`
+      );
+    }
+
+    return result.authToken;
+  }
+
+  /**
+   * Register the API key with the signer, re-creating the client if the key changed
+   */
+  private async ensureClient(key: LighterSigningKey): Promise<void> {
+    await this.load();
+
+    const clientKey = `${key.accountIndex}:${key.apiKeyIndex}`;
+    const fingerprint = crypto.createHash('sha256').update(key.privateKey).digest('hex');
+    if (this.clients.get(clientKey) === fingerprint) {
+      return;
+    }
+
+    const privateKey = key.privateKey.startsWith('0x') ? key.privateKey.slice(2) : key.privateKey;
+    const result = (globalThis as any).CreateClient(
+      this.apiUrl,
+      privateKey,
+      this.chainId,
+      key.apiKeyIndex,
+      key.accountIndex,
+    ) as WasmSignerResult | undefined;
+
+    if (result?.error) {
+      throw new ApiError(ErrorCode.SIGNATURE_INVALID, `Failed to load Lighter API key: ${result.error}`);
+    }
+
+    this.clients.set(clientKey, fingerprint);
+  }
+
+  private call(fn: string, args: Array<number | string>): string {
+    const result = (globalThis as any)[fn](...args) as WasmSignerResult | undefined;
+
+    if (!result || result.error || !result.txInfo) {
+      throw new ApiError(
+        ErrorCode.SIGNATURE_INVALID,
+        `Lighter signer ${fn} failed: ${result?.error || 'no transaction returned'}`
+      );
+    }
+
+    return result.txInfo;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.instantiate().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async instantiate(): Promise<void> {
+    if (!this.wasmPath || !this.wasmExecPath) {
+      throw new ApiError(
+        ErrorCode.SERVICE_UNAVAILABLE,
+        'Lighter signer is not configured. Set LIGHTER_SIGNER_WASM_PATH and LIGHTER_WASM_EXEC_PATH.',
+        503
+      );
+    }
+
+    // wasm_exec.js expects the Node globals that wasm_exec_node.js would normally provide
+    (globalThis as any).fs ??= fs;
+    await import(pathToFileURL(this.wasmExecPath).href);
+
+    const go = new (globalThis as any).Go();
+    const { instance } = await (globalThis as any).WebAssembly.instantiate(await readFile(this.wasmPath), go.importObject);
+
+    // run() resolves when the Go program exits, which the signer never does
+    void go.run(instance);
+
+    if (typeof (globalThis as any).SignCreateOrder !== 'function') {
+      throw new ApiError(
+        ErrorCode.SERVICE_UNAVAILABLE,
+        `Lighter signer at ${this.wasmPath} did not register its signing functions`,
+        503
+      );
+    }
+
+    logger.info('Lighter WASM signer loaded', { wasmPath: this.wasmPath, chainId: this.chainId });
+  }
+}
@@ -1,6 +1,20 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import crypto from 'crypto';
+import { DatabaseRepository } from '@/db/repository';
+import { lighterOrders } from '@/db/schema';
 import { RequestContext, ApiError, ErrorCode } from '@/types/common';
 import { logger } from '@/utils/logger';
+import { keyCustodyService } from '@/services/key-custody';
+import {
+  LighterSigner,
+  LighterSigningKey,
+  SignedLighterTx,
+  WasmLighterSigner,
+  LIGHTER_ORDER_TYPES,
+  LIGHTER_TIME_IN_FORCE,
+  LIGHTER_IOC_EXPIRY,
+  LIGHTER_DEFAULT_28_DAY_EXPIRY,
+} from '@/services/lighter-signer';
 
 /**
  * TypeScript implementation based on lighter-go SDK patterns
@@ -17,44 +31,60 @@ export interface LighterTransactionOptions {
 }
 
 // Order Creation Request (based on CreateOrderTxReq from Go SDK)
+// Amounts and prices are decimal strings; they are scaled by the market decimals before signing
 export interface CreateOrderRequest {
-  accountIndex: number;
-  apiKeyIndex: number;
   marketId: number;
   side: 'buy' | 'sell';
   orderType: 'ORDER_TYPE_LIMIT' | 'ORDER_TYPE_MARKET' | 'ORDER_TYPE_STOP_LOSS' | 'ORDER_TYPE_STOP_LOSS_LIMIT' | 'ORDER_TYPE_TAKE_PROFIT' | 'ORDER_TYPE_TAKE_PROFIT_LIMIT' | 'ORDER_TYPE_TWAP';
-  baseAmount: string; // Should be passed as integer in actual requests
-  price?: string; // Should be passed as integer in actual requests
+  baseAmount: string;
+  price?: string; // Worst acceptable price for market orders; derived from the last trade if omitted
   timeInForce?: 'ORDER_TIME_IN_FORCE_IMMEDIATE_OR_CANCEL' | 'ORDER_TIME_IN_FORCE_GOOD_TILL_TIME' | 'ORDER_TIME_IN_FORCE_POST_ONLY';
   clientOrderIndex?: number;
   reduceOnly?: boolean;
-  nonce?: string;
-  signature?: string;
-  priceProtection?: boolean;
+  triggerPrice?: string;
 }
 
 // Cancel Order Request
 export interface CancelOrderRequest {
-  accountIndex: number;
-  apiKeyIndex: number;
+  marketId: number;
   clientOrderIndex: number;
-  nonce?: string;
-  signature?: string;
+}
+
+// Modify Order Request
+export interface ModifyOrderRequest {
+  marketId: number;
+  clientOrderIndex: number;
+  baseAmount: string;
+  price: string;
+  triggerPrice?: string;
+}
+
+// Account Position (AccountPosition in the API)
+export interface LighterAccountPosition {
+  market_id: number;
+  symbol: string;
+  open_order_count: number;
+  sign: number; // 1 for Long, -1 for Short
+  position: string;
+  avg_entry_price: string;
+  position_value: string;
+  unrealized_pnl: string;
+  realized_pnl: string;
+  liquidation_price?: string;
 }
 
 // Account Data Response
 export interface AccountDataResponse {
-  status: number; // 1 = active, 0 = inactive
-  collateral: string;
-  positions: Array<{
-    marketId: number;
-    openOrderCount: number;
-    sign: number; // 1 for Long, -1 for Short
-    position: string;
-    avgEntryPrice: string;
-    positionValue: string;
-    unrealizedPnl: string;
-    realizedPnl: string;
+  code: number;
+  total: number;
+  accounts: Array<{
+    index: number;
+    l1_address: string;
+    status: number; // 1 = active, 0 = inactive
+    collateral: string;
+    available_balance?: string;
+    total_asset_value?: string;
+    positions: LighterAccountPosition[];
   }>;
 }
 
@@ -67,25 +97,72 @@ export interface ApiKeyResponse {
 
 // Nonce Response
 export interface NonceResponse {
-  nonce: string;
+  code?: number;
+  nonce: number;
 }
 
-// Order Response
+// sendTx Response
 export interface OrderResponse {
-  orderId?: string;
-  clientOrderIndex?: number;
-  status: string;
-  txHash?: string;
+  code: number;
   message?: string;
+  tx_hash?: string;
+  predicted_execution_time_ms?: number;
+}
+
+// sendTxBatch Response
+export interface BatchTxResponse {
+  code: number;
+  message?: string;
+  tx_hash?: string[];
+}
+
+// Order from the accountActiveOrders / accountInactiveOrders endpoints
+export interface LighterAccountOrder {
+  order_index: number;
+  client_order_index: number;
+  market_index: number;
+  initial_base_amount: string;
+  remaining_base_amount: string;
+  filled_base_amount: string;
+  filled_quote_amount: string;
+  price: string;
+  is_ask: boolean;
+  status: string; // open, filled, canceled, canceled-expired, canceled-margin-not-allowed, ...
+  timestamp: number;
+}
+
+// Result of a signed order transaction, with the lighter_orders record it was persisted to
+export interface LighterOrderResult {
+  orderId: number;
+  clientOrderIndex: number;
+  txHash?: string;
+  price: string;
+  order: typeof lighterOrders.$inferSelect;
 }
 
+// Slippage applied to the last trade price when a market order has no explicit price
+const MARKET_ORDER_SLIPPAGE = 0.05;
+
+// Client order indexes are stored in an int4 column
+const MAX_CLIENT_ORDER_INDEX = 2 ** 31 - 1;
+
+// Lifetime of auth tokens created for authenticated reads
+const AUTH_TOKEN_TTL_SECONDS = 10 * 60;
+
 export class LighterService {
   private httpClient: AxiosInstance;
   private baseUrl: string;
   private fatFingerProtection: boolean = true;
+  private db: DatabaseRepository;
+  private signer: LighterSigner;
+  private marketDecimals = new Map<number, { sizeDecimals: number; priceDecimals: number }>();
+  // Serializes nonce allocation per "accountIndex:apiKeyIndex"
+  private nonceLocks = new Map<string, Promise<unknown>>();
 
-  constructor(baseUrl: string = 'https://mainnet.zklighter.elliot.ai') {
+  constructor(baseUrl: string = process.env.LIGHTER_API_URL || 'https://mainnet.zklighter.elliot.ai', signer?: LighterSigner) {
     this.baseUrl = baseUrl;
+    this.db = new DatabaseRepository();
+    this.signer = signer || new WasmLighterSigner(baseUrl);
     
     // HTTP client configuration based on Go SDK http_client.go
     this.httpClient = axios.create({
@@ -172,6 +249,7 @@ export class LighterService {
         throw new ApiError(
           ErrorCode.EXTERNAL_API_ERROR,
           `Lighter API request failed: ${error.message}`,
+          502,
           { status: error.response?.status, data: error.response?.data }
         );
       }
@@ -204,6 +282,7 @@ export class LighterService {
         throw new ApiError(
           ErrorCode.EXTERNAL_API_ERROR,
           `Lighter API request failed: ${error.message}`,
+          502,
           { status: error.response?.status, data: error.response?.data }
         );
       }
@@ -216,9 +295,7 @@ export class LighterService {
    */
   async getNextNonce(accountIndex: number, apiKeyIndex: number): Promise<NonceResponse> {
     try {
-      // Note: Implementation depends on actual Lighter API endpoint structure
-      // This follows the pattern from Go SDK but may need adjustment
-      const response = await this.httpClient.get('/api/v1/nonce', {
+      const response = await this.httpClient.get('/api/v1/nextNonce', {
         params: {
           account_index: accountIndex,
           api_key_index: apiKeyIndex
@@ -238,6 +315,7 @@ export class LighterService {
         throw new ApiError(
           ErrorCode.EXTERNAL_API_ERROR,
           `Lighter API request failed: ${error.message}`,
+          502,
           { status: error.response?.status, data: error.response?.data }
         );
       }
@@ -247,7 +325,6 @@ export class LighterService {
 
   /**
    * Send raw transaction (based on Go SDK SendRawTx)
-   * Note: In practice, transactions should be signed on the frontend with proper crypto libraries
    */
   async sendRawTransaction(txType: number, txInfo: string, priceProtection: boolean = true): Promise<OrderResponse> {
     try {
@@ -275,6 +352,7 @@ export class LighterService {
         throw new ApiError(
           ErrorCode.EXTERNAL_API_ERROR,
           `Lighter transaction request failed: ${error.message}`,
+          502,
           { status: error.response?.status, data: error.response?.data }
         );
       }
@@ -284,12 +362,18 @@ export class LighterService {
 
   /**
    * Send multiple transactions in batch
+   * txTypes and txInfos are JSON arrays of the same length
    */
-  async sendTransactionBatch(txTypes: string, txInfos: string): Promise<OrderResponse[]> {
+  async sendTransactionBatch(txTypes: string, txInfos: string): Promise<BatchTxResponse> {
     try {
-      const response = await this.httpClient.post('/api/v1/sendTxBatch', {
-        tx_types: txTypes,
-        tx_infos: txInfos
+      const formData = new FormData();
+      formData.append('tx_types', txTypes);
+      formData.append('tx_infos', txInfos);
+
+      const response = await this.httpClient.post('/api/v1/sendTxBatch', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        }
       });
 
       if (response.status !== 200) {
@@ -305,6 +389,7 @@ export class LighterService {
         throw new ApiError(
           ErrorCode.EXTERNAL_API_ERROR,
           `Lighter batch transaction request failed: ${error.message}`,
+          502,
           { status: error.response?.status, data: error.response?.data }
         );
       }
@@ -334,6 +419,42 @@ export class LighterService {
         throw new ApiError(
           ErrorCode.EXTERNAL_API_ERROR,
           `Lighter API request failed: ${error.message}`,
+          502,
+          { status: error.response?.status, data: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get transactions for an account, newest first
+   */
+  async getAccountTransactions(accountIndex: number, limit: number = 100, index?: number): Promise<any> {
+    try {
+      const response = await this.httpClient.get('/api/v1/accountTxs', {
+        params: {
+          by: 'account_index',
+          value: accountIndex.toString(),
+          limit,
+          index,
+        }
+      });
+
+      if (response.status !== 200) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API error: ${response.data?.message || 'Unknown error'}`
+        );
+      }
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API request failed: ${error.message}`,
+          502,
           { status: error.response?.status, data: error.response?.data }
         );
       }
@@ -363,6 +484,43 @@ export class LighterService {
         throw new ApiError(
           ErrorCode.EXTERNAL_API_ERROR,
           `Lighter API request failed: ${error.message}`,
+          502,
+          { status: error.response?.status, data: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get resting orders on both sides of a market's order book, best price first
+   */
+  async getOrderBookOrders(marketId: number, limit: number = 50): Promise<{
+    asks: Array<{ price: string; remaining_base_amount: string }>;
+    bids: Array<{ price: string; remaining_base_amount: string }>;
+  }> {
+    try {
+      const response = await this.httpClient.get('/api/v1/orderBookOrders', {
+        params: { market_id: marketId, limit }
+      });
+
+      if (response.status !== 200) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API error: ${response.data?.message || 'Unknown error'}`
+        );
+      }
+
+      return {
+        asks: response.data?.asks || [],
+        bids: response.data?.bids || [],
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API request failed: ${error.message}`,
+          502,
           { status: error.response?.status, data: error.response?.data }
         );
       }
@@ -415,6 +573,7 @@ export class LighterService {
         throw new ApiError(
           ErrorCode.EXTERNAL_API_ERROR,
           `Lighter API request failed: ${error.message}`,
+          502,
           { status: error.response?.status, data: error.response?.data }
         );
       }
@@ -423,33 +582,594 @@ export class LighterService {
   }
 
   /**
-   * IMPORTANT: Order placement methods are placeholders
-   * In the actual implementation, orders should be signed on the frontend using proper cryptographic libraries
-   * and then the signed transaction data should be sent to the backend for database storage only
+   * Get order book details (last trade price, open interest, etc.) for a market
    */
+  async getOrderBookDetails(marketId: number): Promise<any> {
+    try {
+      const response = await this.httpClient.get('/api/v1/orderBookDetails', {
+        params: { market_id: marketId }
+      });
+
+      if (response.status !== 200) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API error: ${response.data?.message || 'Unknown error'}`
+        );
+      }
+
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API request failed: ${error.message}`,
+          502,
+          { status: error.response?.status, data: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
 
   /**
-   * Placeholder for order creation - NOT FOR ACTUAL USE
-   * Orders should be placed on the frontend and execution data sent to backend
+   * Get current funding rates for all markets
    */
-  async createOrderPlaceholder(ctx: RequestContext, dexAccountId: number, orderData: CreateOrderRequest): Promise<OrderResponse> {
-    logger.warn('createOrderPlaceholder called - this should not be used for actual order placement');
-    
-    throw new ApiError(
-      ErrorCode.NOT_IMPLEMENTED,
-      'Order placement should be done on the frontend. Use the custom-order endpoint to record already-executed orders.'
+  async getFundingRates(): Promise<Array<{
+    market_id: number;
+    exchange: string;
+    symbol: string;
+    rate: number;
+  }>> {
+    try {
+      const response = await this.httpClient.get('/api/v1/funding-rates');
+
+      if (response.status !== 200) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API error: ${response.data?.message || 'Unknown error'}`
+        );
+      }
+
+      return response.data?.funding_rates || [];
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API request failed: ${error.message}`,
+          502,
+          { status: error.response?.status, data: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  // ========== Accounts ==========
+
+  /**
+   * Create or update a Lighter DEX account. The API key private key is
+   * envelope-encrypted before it is stored.
+   */
+  async createOrUpdateDexAccount(ctx: RequestContext, data: {
+    address: string;
+    accountIndex: number;
+    apiKeyIndex: number;
+    apiKeyPrivateKey?: string;
+    metadata?: any;
+  }) {
+    const address = data.address.toLowerCase();
+    const metadata = {
+      ...data.metadata,
+      accountIndex: data.accountIndex,
+      apiKeyIndex: data.apiKeyIndex,
+    };
+    const keyFields = data.apiKeyPrivateKey
+      ? await keyCustodyService.encryptForStorage(data.apiKeyPrivateKey, address)
+      : {};
+
+    const existingAccount = await this.db.getDexAccountByAddress(address, 'lighter');
+    if (existingAccount) {
+      if (existingAccount.userId !== ctx.userId) {
+        throw new ApiError(ErrorCode.FORBIDDEN, 'Access denied to this account');
+      }
+
+      return this.toPublicDexAccount(await this.db.updateDexAccount(existingAccount.id, {
+        metadata: { ...(existingAccount.metadata as any), ...metadata },
+        ...keyFields,
+      }));
+    }
+
+    return this.toPublicDexAccount(await this.db.createDexAccount({
+      userId: ctx.userId!,
+      dexType: 'lighter',
+      address,
+      accountType: 'master',
+      metadata,
+      ...keyFields,
+    }));
+  }
+
+  /**
+   * Get user's Lighter DEX accounts
+   */
+  async getUserDexAccounts(ctx: RequestContext) {
+    const accounts = await this.db.getUserDexAccounts(ctx.userId!, 'lighter');
+    return accounts.map(account => this.toPublicDexAccount(account));
+  }
+
+  /**
+   * Get orders recorded for a Lighter account
+   */
+  async getOrders(
+    ctx: RequestContext,
+    dexAccountId: number,
+    filters: {
+      marketId?: number;
+      status?: 'open' | 'filled' | 'cancelled' | 'failed' | 'pending' | 'rejected' | 'triggered' | 'marginCanceled' | 'liquidatedCanceled' | 'expired';
+    }
+  ) {
+    await this.getLighterDexAccount(ctx, dexAccountId);
+    return await this.db.getLighterOrders({ dexAccountId, ...filters });
+  }
+
+  /**
+   * Get open positions for a Lighter account straight from the exchange
+   */
+  async getAccountPositions(ctx: RequestContext, dexAccountId: number): Promise<LighterAccountPosition[]> {
+    const { accountIndex } = await this.getLighterDexAccount(ctx, dexAccountId);
+    const data = await this.getAccountData('index', accountIndex.toString());
+    const account = data.accounts?.[0];
+
+    return (account?.positions || []).filter(position => parseFloat(position.position) !== 0);
+  }
+
+  /**
+   * Get tracked positions that have a Lighter leg
+   */
+  async getUserLighterPositions(
+    ctx: RequestContext,
+    filters?: { status?: string; positionType?: string }
+  ) {
+    const allPositions = await this.db.getUserPositions(ctx.userId!, filters);
+
+    const lighterPositions = [];
+    for (const position of allPositions) {
+      const positionWithSnapshots = await this.db.getPositionWithSnapshots(position.id);
+      if (positionWithSnapshots && positionWithSnapshots.snapshots.some(s => s.dexType === 'lighter')) {
+        lighterPositions.push(positionWithSnapshots);
+      }
+    }
+
+    return lighterPositions;
+  }
+
+  /**
+   * Get PnL chart for a Lighter account
+   */
+  async getAccountPnL(
+    ctx: RequestContext,
+    dexAccountId: number,
+    params: {
+      resolution: '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+      startTimestamp: number;
+      endTimestamp: number;
+      countBack: number;
+      ignoreTransfers?: boolean;
+    }
+  ) {
+    const { accountIndex } = await this.getLighterDexAccount(ctx, dexAccountId);
+    return await this.getPnLChart(
+      accountIndex,
+      params.resolution,
+      params.startTimestamp,
+      params.endTimestamp,
+      params.countBack,
+      params.ignoreTransfers
     );
   }
 
   /**
-   * Placeholder for order cancellation - NOT FOR ACTUAL USE
+   * Get transaction history for a Lighter account
    */
-  async cancelOrderPlaceholder(ctx: RequestContext, dexAccountId: number, cancelData: CancelOrderRequest): Promise<OrderResponse> {
-    logger.warn('cancelOrderPlaceholder called - this should not be used for actual order cancellation');
-    
-    throw new ApiError(
-      ErrorCode.NOT_IMPLEMENTED,
-      'Order cancellation should be done on the frontend.'
+  async getAccountTransactionHistory(
+    ctx: RequestContext,
+    dexAccountId: number,
+    params: { limit?: number; index?: number }
+  ) {
+    const { accountIndex } = await this.getLighterDexAccount(ctx, dexAccountId);
+    return await this.getAccountTransactions(accountIndex, params.limit, params.index);
+  }
+
+  /**
+   * Get a transaction by hash, only if it belongs to the user's Lighter account
+   */
+  async getAccountTransaction(ctx: RequestContext, dexAccountId: number, txHash: string) {
+    const { accountIndex } = await this.getLighterDexAccount(ctx, dexAccountId);
+    const tx = await this.getTransaction('hash', txHash);
+
+    if (tx?.account_index !== undefined && Number(tx.account_index) !== accountIndex) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Transaction not found', 404);
+    }
+
+    return tx;
+  }
+
+  /**
+   * Get the account's resting (active) or finished (inactive, most recent first) orders in a market.
+   * Both endpoints need an auth token, so the account must have a stored API key.
+   */
+  async getAccountOrders(
+    ctx: RequestContext,
+    dexAccountId: number,
+    marketId: number,
+    state: 'active' | 'inactive',
+    limit: number = 100
+  ): Promise<LighterAccountOrder[]> {
+    const key = await this.getSigningKey(ctx, dexAccountId);
+    const auth = await this.signer.createAuthToken(key, Math.floor(Date.now() / 1000) + AUTH_TOKEN_TTL_SECONDS);
+
+    try {
+      const response = await this.httpClient.get(
+        state === 'active' ? '/api/v1/accountActiveOrders' : '/api/v1/accountInactiveOrders',
+        {
+          params: {
+            account_index: key.accountIndex,
+            market_id: marketId,
+            auth,
+            ...(state === 'inactive' ? { limit } : {}),
+          },
+        }
+      );
+
+      if (response.status !== 200 || (response.data?.code && response.data.code !== 200)) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API error: ${response.data?.message || 'Unknown error'}`
+        );
+      }
+
+      return response.data?.orders || [];
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Lighter API request failed: ${error.message}`,
+          502,
+          { status: error.response?.status, data: error.response?.data }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load a Lighter DEX account owned by the requesting user
+   */
+  private async getLighterDexAccount(ctx: RequestContext, dexAccountId: number) {
+    const dexAccount = await this.db.getDexAccount(dexAccountId);
+    if (!dexAccount || dexAccount.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'Access denied to this account');
+    }
+
+    if (dexAccount.dexType !== 'lighter') {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, 'Account is not a Lighter account');
+    }
+
+    const metadata = dexAccount.metadata as any;
+    if (metadata?.accountIndex === undefined) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `Lighter account index not configured for account ${dexAccountId}`);
+    }
+
+    return {
+      dexAccount,
+      accountIndex: Number(metadata.accountIndex),
+      apiKeyIndex: Number(metadata.apiKeyIndex ?? 0),
+    };
+  }
+
+  /**
+   * Never return stored key material to clients
+   */
+  private toPublicDexAccount<T extends { encryptedPrivateKey: string | null }>(account: T) {
+    const { encryptedPrivateKey, ...rest } = account;
+    return { ...rest, hasApiKey: !!encryptedPrivateKey };
+  }
+
+  // ========== Signed Order Transactions ==========
+
+  /**
+   * Sign and submit a create order transaction, persisting it to lighter_orders
+   */
+  async createOrder(ctx: RequestContext, dexAccountId: number, orderData: CreateOrderRequest): Promise<LighterOrderResult> {
+    const [result] = await this.createOrders(ctx, dexAccountId, [orderData]);
+    return result;
+  }
+
+  /**
+   * Sign several create order transactions with consecutive nonces and submit them
+   * in a single sendTxBatch call
+   */
+  async createOrders(ctx: RequestContext, dexAccountId: number, orders: CreateOrderRequest[]): Promise<LighterOrderResult[]> {
+    const key = await this.getSigningKey(ctx, dexAccountId);
+
+    const prepared = await Promise.all(orders.map(async (orderData) => {
+      const decimals = await this.getMarketDecimals(orderData.marketId);
+      const isMarket = orderData.orderType === 'ORDER_TYPE_MARKET';
+      const price = orderData.price || await this.getMarketOrderPrice(orderData.marketId, orderData.side);
+      const timeInForce = orderData.timeInForce || (isMarket
+        ? 'ORDER_TIME_IN_FORCE_IMMEDIATE_OR_CANCEL'
+        : 'ORDER_TIME_IN_FORCE_GOOD_TILL_TIME');
+
+      return {
+        orderData: { ...orderData, price, timeInForce },
+        clientOrderIndex: orderData.clientOrderIndex ?? crypto.randomInt(1, MAX_CLIENT_ORDER_INDEX),
+        tx: {
+          marketIndex: orderData.marketId,
+          baseAmount: this.toScaledInt(orderData.baseAmount, decimals.sizeDecimals),
+          price: this.toScaledInt(price, decimals.priceDecimals),
+          isAsk: orderData.side === 'sell',
+          orderType: LIGHTER_ORDER_TYPES[orderData.orderType],
+          timeInForce: LIGHTER_TIME_IN_FORCE[timeInForce],
+          reduceOnly: orderData.reduceOnly || false,
+          triggerPrice: orderData.triggerPrice ? this.toScaledInt(orderData.triggerPrice, decimals.priceDecimals) : 0,
+          orderExpiry: timeInForce === 'ORDER_TIME_IN_FORCE_IMMEDIATE_OR_CANCEL' ? LIGHTER_IOC_EXPIRY : LIGHTER_DEFAULT_28_DAY_EXPIRY,
+        },
+      };
+    }));
+
+    return await this.withNonceLock(key, async () => {
+      const { nonce } = await this.getNextNonce(key.accountIndex, key.apiKeyIndex);
+
+      const signed: SignedLighterTx[] = [];
+      for (const [i, item] of prepared.entries()) {
+        signed.push(await this.signer.signCreateOrder(key, {
+          ...item.tx,
+          clientOrderIndex: item.clientOrderIndex,
+          nonce: Number(nonce) + i,
+        }));
+      }
+
+      const records: Array<typeof lighterOrders.$inferSelect> = [];
+      for (const [i, item] of prepared.entries()) {
+        records.push(await this.db.createLighterOrder({
+          dexAccountId,
+          userId: ctx.userId!,
+          clientOrderIndex: item.clientOrderIndex,
+          marketId: item.orderData.marketId,
+          side: item.orderData.side,
+          orderType: item.orderData.orderType,
+          price: item.orderData.price,
+          baseAmount: item.orderData.baseAmount,
+          status: 'pending',
+          timeInForce: item.orderData.timeInForce,
+          reduceOnly: item.orderData.reduceOnly || false,
+          postOnly: item.orderData.timeInForce === 'ORDER_TIME_IN_FORCE_POST_ONLY',
+          triggerPrice: item.orderData.triggerPrice,
+          apiKeyIndex: key.apiKeyIndex,
+          nonce: (Number(nonce) + i).toString(),
+          accountIndex: key.accountIndex,
+          signature: this.getTxSignature(signed[i]),
+          rawParams: { request: item.orderData },
+        }));
+      }
+
+      let txHashes: Array<string | undefined>;
+      try {
+        txHashes = await this.submitSignedTransactions(signed);
+      } catch (error) {
+        await Promise.all(records.map(record => this.db.updateLighterOrder(record.id, {
+          status: 'failed',
+          rawParams: {
+            ...(record.rawParams as any),
+            error: error instanceof Error ? error.message : String(error),
+          },
+        })));
+        throw error;
+      }
+
+      logger.info('Lighter orders submitted', {
+        dexAccountId,
+        accountIndex: key.accountIndex,
+        count: records.length,
+        txHashes,
+      });
+
+      return await Promise.all(records.map(async (record, i) => {
+        const order = await this.db.updateLighterOrder(record.id, {
+          // Market orders stay pending until their fill is reconciled
+          status: record.orderType === 'ORDER_TYPE_MARKET' ? 'pending' : 'open',
+          rawParams: { ...(record.rawParams as any), txHash: txHashes[i] },
+        });
+
+        return {
+          orderId: order.id,
+          clientOrderIndex: order.clientOrderIndex!,
+          txHash: txHashes[i],
+          price: order.price!,
+          order,
+        };
+      }));
+    });
+  }
+
+  /**
+   * Sign and submit a cancel order transaction
+   */
+  async cancelOrder(ctx: RequestContext, dexAccountId: number, cancelData: CancelOrderRequest): Promise<OrderResponse> {
+    const key = await this.getSigningKey(ctx, dexAccountId);
+
+    const result = await this.withNonceLock(key, async () => {
+      const { nonce } = await this.getNextNonce(key.accountIndex, key.apiKeyIndex);
+      const tx = await this.signer.signCancelOrder(key, {
+        marketIndex: cancelData.marketId,
+        orderIndex: cancelData.clientOrderIndex,
+        nonce: Number(nonce),
+      });
+      return await this.submitSignedTransaction(tx);
+    });
+
+    const order = await this.db.getLighterOrderByClientIndex(cancelData.clientOrderIndex);
+    if (order && order.dexAccountId === dexAccountId) {
+      await this.db.updateLighterOrder(order.id, {
+        status: 'cancelled',
+        rawParams: { ...(order.rawParams as any), cancelTxHash: result.tx_hash },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Sign and submit a modify order transaction
+   */
+  async modifyOrder(ctx: RequestContext, dexAccountId: number, modifyData: ModifyOrderRequest): Promise<OrderResponse> {
+    const key = await this.getSigningKey(ctx, dexAccountId);
+    const decimals = await this.getMarketDecimals(modifyData.marketId);
+
+    const result = await this.withNonceLock(key, async () => {
+      const { nonce } = await this.getNextNonce(key.accountIndex, key.apiKeyIndex);
+      const tx = await this.signer.signModifyOrder(key, {
+        marketIndex: modifyData.marketId,
+        index: modifyData.clientOrderIndex,
+        baseAmount: this.toScaledInt(modifyData.baseAmount, decimals.sizeDecimals),
+        price: this.toScaledInt(modifyData.price, decimals.priceDecimals),
+        triggerPrice: modifyData.triggerPrice ? this.toScaledInt(modifyData.triggerPrice, decimals.priceDecimals) : 0,
+        nonce: Number(nonce),
+      });
+      return await this.submitSignedTransaction(tx);
+    });
+
+    const order = await this.db.getLighterOrderByClientIndex(modifyData.clientOrderIndex);
+    if (order && order.dexAccountId === dexAccountId) {
+      await this.db.updateLighterOrder(order.id, {
+        baseAmount: modifyData.baseAmount,
+        price: modifyData.price,
+        triggerPrice: modifyData.triggerPrice,
+        rawParams: { ...(order.rawParams as any), modifyTxHash: result.tx_hash },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Load the account's Lighter API key from custody
+   */
+  private async getSigningKey(ctx: RequestContext, dexAccountId: number): Promise<LighterSigningKey> {
+    const { dexAccount, accountIndex, apiKeyIndex } = await this.getLighterDexAccount(ctx, dexAccountId);
+
+    if (!dexAccount.encryptedPrivateKey) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, 'Cannot sign orders for accounts without a stored API key');
+    }
+
+    return {
+      privateKey: await keyCustodyService.decryptPrivateKey(dexAccount.encryptedPrivateKey, dexAccount.address),
+      accountIndex,
+      apiKeyIndex,
+    };
+  }
+
+  private async submitSignedTransaction(tx: SignedLighterTx): Promise<OrderResponse> {
+    const result = await this.sendRawTransaction(tx.txType, tx.txInfo, this.fatFingerProtection);
+    if (result.code !== 200) {
+      throw new ApiError(
+        ErrorCode.ORDER_REJECTED,
+        `Lighter rejected transaction: ${result.message || `code ${result.code}`}`,
+        400,
+        result
+      );
+    }
+    return result;
+  }
+
+  private async submitSignedTransactions(txs: SignedLighterTx[]): Promise<Array<string | undefined>> {
+    if (txs.length === 1) {
+      const result = await this.submitSignedTransaction(txs[0]);
+      return [result.tx_hash];
+    }
+
+    const result = await this.sendTransactionBatch(
+      JSON.stringify(txs.map(tx => tx.txType)),
+      JSON.stringify(txs.map(tx => tx.txInfo))
     );
+    if (result.code !== 200) {
+      throw new ApiError(
+        ErrorCode.ORDER_REJECTED,
+        `Lighter rejected transaction batch: ${result.message || `code ${result.code}`}`,
+        400,
+        result
+      );
+    }
+    return txs.map((_, i) => result.tx_hash?.[i]);
   }
-}
\ No newline at end of file
+
+  /**
+   * Nonces are per API key, so concurrent transactions on the same key must not
+   * fetch the same next nonce
+   */
+  private async withNonceLock<T>(key: LighterSigningKey, fn: () => Promise<T>): Promise<T> {
+    const lockKey = `${key.accountIndex}:${key.apiKeyIndex}`;
+    const previous = this.nonceLocks.get(lockKey) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    this.nonceLocks.set(lockKey, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.nonceLocks.get(lockKey) === current) {
+        this.nonceLocks.delete(lockKey);
+      }
+    }
+  }
+
+  private async getMarketDecimals(marketId: number): Promise<{ sizeDecimals: number; priceDecimals: number }> {
+    const cached = this.marketDecimals.get(marketId);
+    if (cached) {
+      return cached;
+    }
+
+    const details = await this.getOrderBookDetails(marketId);
+    const market = details?.order_book_details?.find((d: any) => d.market_id === marketId) ||
+      details?.order_book_details?.[0];
+    if (!market || market.size_decimals === undefined || market.price_decimals === undefined) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `Unknown Lighter market: ${marketId}`);
+    }
+
+    const decimals = {
+      sizeDecimals: Number(market.size_decimals),
+      priceDecimals: Number(market.price_decimals),
+    };
+    this.marketDecimals.set(marketId, decimals);
+    return decimals;
+  }
+
+  /**
+   * Worst acceptable price for a market order, from the last trade plus slippage
+   */
+  private async getMarketOrderPrice(marketId: number, side: 'buy' | 'sell'): Promise<string> {
+    const details = await this.getOrderBookDetails(marketId);
+    const lastTradePrice = parseFloat(details?.order_book_details?.[0]?.last_trade_price);
+    if (!Number.isFinite(lastTradePrice) || lastTradePrice <= 0) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `No reference price available for Lighter market ${marketId}`);
+    }
+
+    const multiplier = side === 'buy' ? 1 + MARKET_ORDER_SLIPPAGE : 1 - MARKET_ORDER_SLIPPAGE;
+    return (lastTradePrice * multiplier).toString();
+  }
+
+  private toScaledInt(value: string, decimals: number): number {
+    const scaled = Math.round(parseFloat(value) * 10 ** decimals);
+    if (!Number.isSafeInteger(scaled) || scaled <= 0) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, `Invalid Lighter amount: ${value}`);
+    }
+    return scaled;
+  }
+
+  private getTxSignature(tx: SignedLighterTx): string | undefined {
+    try {
+      return JSON.parse(tx.txInfo).Sig;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,465 @@
+import { DatabaseRepository } from '@/db/repository';
+import { positions, positionSnapshots } from '@/db/schema';
+import { getExchangeAdapter } from '@/services/exchanges/registry';
+import { HyperliquidService } from '@/services/hyperliquid';
+import { LegExecutionCoordinator } from '@/services/leg-executor';
+import { NotificationService } from '@/services/notifications';
+import { StrategyPolicyService } from '@/services/strategy-policies';
+import { DistributedLockService } from '@/services/distributed-lock';
+import { RequestContext } from '@/types/common';
+import { MarketRef } from '@/types/exchange';
+import { LegOrder } from '@/types/execution';
+import { JobPositionOutcome } from '@/types/jobs';
+import { logger } from '@/utils/logger';
+
+// Top-ups and deleveraging aim for this multiple of the minimum distance, so the next run does not act again at once
+const TARGET_DISTANCE_MULTIPLE = 2;
+// Share of every leg one deleveraging run may remove
+const MIN_DELEVERAGE_SHARE = 0.1;
+const MAX_DELEVERAGE_SHARE = 0.5;
+// Decimals kept on deleveraging order sizes
+const SIZE_DECIMALS = 6;
+
+type Position = typeof positions.$inferSelect;
+type Snapshot = typeof positionSnapshots.$inferSelect;
+
+/**
+ * A perp leg as held on its venue, with its distance to liquidation
+ */
+interface LegRisk {
+  snapshot: Snapshot;
+  market: MarketRef;
+  side: 'long' | 'short';
+  size: number; // Absolute size in base units
+  markPrice: number;
+  liquidationPrice: number | null;
+  distance: number | null; // (mark - liquidation) / mark for longs, (liquidation - mark) / mark for shorts; null when it cannot be liquidated
+}
+
+export interface LiquidationRiskResult {
+  checkedPositions: number;
+  atRisk: number; // Positions with a leg closer to liquidation than their policy allows
+  toppedUp: number;
+  deleveraged: number;
+  closed: number; // Positions closed because a leg was gone from its venue
+  dryRun: boolean;
+  outcomes: JobPositionOutcome[]; // One per checked position
+}
+
+/**
+ * Liquidation Risk Service
+ *
+ * Tracks each perp leg's distance to liquidation on every open delta neutral position, from the
+ * liquidation price the venue reports (Hyperliquid `clearinghouseState`, Drift user margin, Lighter
+ * account positions). The latest mark, liquidation price and distance are written to the leg's snapshot.
+ *
+ * When a leg is closer than the position's `minLiquidationDistance`:
+ * - `onLiquidationRisk: 'top_up'` moves USDC from the Hyperliquid account into the margin of an isolated
+ *   leg (`updateIsolatedMargin`). Cross-margined legs, other venues and accounts without enough
+ *   withdrawable USDC fall back to deleveraging.
+ * - `onLiquidationRisk: 'deleverage'` reduces every leg by the same share, the riskiest first, so the
+ *   position stays neutral. The orders are a `rebalance` execution with reason `liquidation_risk`.
+ *
+ * Both aim to bring the leg back to twice the minimum distance.
+ *
+ * When a perp leg is gone from its venue, e.g. a liquidated short, the legs that survive are unhedged.
+ * They are closed, with reduce-only orders for perp legs and a sale of spot legs, as a `close` execution
+ * with reason `liquidation_risk`, and the position is marked closed.
+ *
+ * Every position at risk or with a missing leg is sent as a Telegram alert, dry runs included.
+ */
+export class LiquidationRiskService {
+  private db: DatabaseRepository;
+  private hyperliquidService: HyperliquidService;
+  private policies: StrategyPolicyService;
+  private legExecutor: LegExecutionCoordinator;
+  private locks: DistributedLockService;
+  private notifications: NotificationService;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.hyperliquidService = new HyperliquidService();
+    this.policies = new StrategyPolicyService();
+    this.legExecutor = new LegExecutionCoordinator();
+    this.locks = new DistributedLockService();
+    this.notifications = new NotificationService();
+  }
+
+  /**
+   * Check every open delta neutral position and act on legs near liquidation.
+   * With `dryRun` the legs are still measured and recorded, but no margin is moved and no order is placed.
+   */
+  async checkOpenPositions(options: { dryRun?: boolean } = {}): Promise<LiquidationRiskResult> {
+    const dryRun = options.dryRun || false;
+    const openPositions = (await this.db.getOpenPositions())
+      .filter(position => position.positionType === 'delta_neutral');
+
+    const result: LiquidationRiskResult = {
+      checkedPositions: openPositions.length,
+      atRisk: 0,
+      toppedUp: 0,
+      deleveraged: 0,
+      closed: 0,
+      dryRun,
+      outcomes: [],
+    };
+
+    for (const position of openPositions) {
+      const outcome: JobPositionOutcome = { positionId: position.id, userId: position.userId, status: 'failed' };
+      result.outcomes.push(outcome);
+
+      try {
+        const lock = await this.locks.withPositionLock(position.id, () => this.checkPosition(position, dryRun, outcome));
+
+        if (!lock.acquired) {
+          outcome.status = 'skipped';
+          outcome.reasons = ['another run is acting on this position'];
+        }
+      } catch (error) {
+        outcome.error = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to check liquidation risk of position ${position.id}`, { error: outcome.error });
+      }
+
+      if (outcome.action) {
+        result.atRisk++;
+        await this.notifications.notifyPosition(position.id, 'liquidation_risk', this.describeOutcome(outcome));
+      }
+      if (outcome.status === 'rebalanced') {
+        result[outcome.action === 'top_up' ? 'toppedUp' : 'deleveraged']++;
+      }
+      if (outcome.status === 'closed') {
+        result.closed++;
+      }
+    }
+
+    return result;
+  }
+
+  private async checkPosition(position: Position, dryRun: boolean, outcome: JobPositionOutcome): Promise<void> {
+    const snapshots = await this.db.getPositionSnapshots(position.id);
+    const ctx: RequestContext = {
+      userId: position.userId,
+      timestamp: new Date(),
+      requestId: `liquidation-risk-${position.id}-${Date.now()}`,
+    };
+
+    const legs: LegRisk[] = [];
+    const missing: Snapshot[] = [];
+    for (const snapshot of snapshots.filter(leg => leg.side !== 'spot')) {
+      const leg = await this.measureLeg(ctx, snapshot);
+      if (leg) {
+        legs.push(leg);
+      } else {
+        missing.push(snapshot);
+      }
+    }
+
+    if (missing.length > 0) {
+      outcome.reasons = missing.map(snapshot => `${snapshot.dexType} ${snapshot.symbol} leg has no venue position; the other legs are unhedged`);
+      logger.error(`Position ${position.id} has legs missing on their venues`, {
+        snapshotIds: missing.map(snapshot => snapshot.id),
+      });
+      await this.closeUnhedgedLegs(ctx, position, snapshots, legs, missing, dryRun, outcome);
+      return;
+    }
+
+    const riskiest = legs
+      .filter(leg => leg.distance !== null)
+      .sort((a, b) => a.distance! - b.distance!)[0];
+    if (!riskiest) {
+      outcome.status = 'unchanged';
+      outcome.reasons = ['no leg can be liquidated'];
+      return;
+    }
+
+    const policy = await this.policies.resolvePolicy(position.userId, position.id);
+    const distance = riskiest.distance!;
+    const measurement = `${riskiest.snapshot.dexType} ${riskiest.snapshot.symbol} ${riskiest.side} is ${(distance * 100).toFixed(2)}% from liquidation at ${riskiest.liquidationPrice}`;
+    outcome.liquidationDistance = distance;
+
+    if (distance >= policy.minLiquidationDistance) {
+      outcome.status = 'unchanged';
+      outcome.reasons = [`${measurement}, minimum ${(policy.minLiquidationDistance * 100).toFixed(2)}%`];
+      return;
+    }
+
+    logger.warn(`Position ${position.id} is near liquidation`, {
+      snapshotId: riskiest.snapshot.id,
+      distance,
+      minLiquidationDistance: policy.minLiquidationDistance,
+      markPrice: riskiest.markPrice,
+      liquidationPrice: riskiest.liquidationPrice,
+    });
+
+    outcome.reasons = [`${measurement}, below minimum of ${(policy.minLiquidationDistance * 100).toFixed(2)}%`];
+    const targetDistance = policy.minLiquidationDistance * TARGET_DISTANCE_MULTIPLE;
+
+    if (policy.onLiquidationRisk === 'top_up') {
+      const topUp = await this.planTopUp(ctx, riskiest, targetDistance);
+      if ('amountUsd' in topUp) {
+        outcome.action = 'top_up';
+        outcome.reasons.push(`add ${topUp.amountUsd.toFixed(2)} USDC of isolated margin`);
+
+        if (dryRun) {
+          outcome.status = 'simulated';
+          return;
+        }
+
+        await this.hyperliquidService.adjustIsolatedMargin(ctx, riskiest.snapshot.dexAccountId, {
+          type: 'updateIsolatedMargin',
+          asset: riskiest.market.assetId!,
+          isBuy: riskiest.side === 'long',
+          ntli: Math.round(topUp.amountUsd * 1e6),
+        });
+        await this.db.updatePositionSnapshot(riskiest.snapshot.id, {
+          metadata: {
+            ...(riskiest.snapshot.metadata as Record<string, unknown>),
+            liquidationRisk: {
+              ...((riskiest.snapshot.metadata as any)?.liquidationRisk || {}),
+              lastTopUp: { amountUsd: topUp.amountUsd, at: new Date().toISOString() },
+            },
+          },
+        });
+
+        outcome.status = 'rebalanced';
+        return;
+      }
+
+      outcome.reasons.push(`cannot top up: ${topUp.reason}`);
+    }
+
+    await this.deleverage(ctx, position, snapshots, legs, riskiest, targetDistance, dryRun, outcome);
+  }
+
+  /**
+   * Alert text for a position at risk: the measurement, the action and how it went
+   */
+  private describeOutcome(outcome: JobPositionOutcome): string {
+    const result = outcome.status === 'simulated'
+      ? 'Dry run: no margin was moved and no order was placed.'
+      : outcome.status === 'rebalanced'
+        ? outcome.action === 'top_up' ? 'Margin added.' : 'Position deleveraged.'
+        : outcome.status === 'closed'
+          ? 'Unhedged legs closed.'
+          : `Not done: ${outcome.error || 'see the job run'}.`;
+
+    return [...(outcome.reasons || []), result].join('\n');
+  }
+
+  /**
+   * Read a leg from its venue and record its mark, liquidation price and distance on the snapshot.
+   * Returns null when the venue holds no position for the leg.
+   */
+  private async measureLeg(ctx: RequestContext, snapshot: Snapshot): Promise<LegRisk | null> {
+    const adapter = getExchangeAdapter(snapshot.dexType);
+    const market = adapter.resolveMarket(snapshot);
+    const venuePosition = await adapter.getPosition(ctx, snapshot.dexAccountId, market);
+    if (!venuePosition) {
+      return null;
+    }
+
+    const markPrice = venuePosition.markPrice
+      ? parseFloat(venuePosition.markPrice)
+      : (await adapter.getMarkPrice(market)) ?? parseFloat(snapshot.markPrice || snapshot.currentPrice);
+    const liquidationPrice = venuePosition.liquidationPrice ? parseFloat(venuePosition.liquidationPrice) : null;
+    const distance = liquidationPrice !== null && markPrice > 0
+      ? (venuePosition.side === 'long' ? markPrice - liquidationPrice : liquidationPrice - markPrice) / markPrice
+      : null;
+
+    const updated = await this.db.updatePositionSnapshot(snapshot.id, {
+      markPrice: markPrice.toString(),
+      ...(liquidationPrice !== null ? { liquidationPrice: liquidationPrice.toString() } : {}),
+      metadata: {
+        ...(snapshot.metadata as Record<string, unknown>),
+        liquidationRisk: {
+          ...((snapshot.metadata as any)?.liquidationRisk || {}),
+          distance,
+          checkedAt: new Date().toISOString(),
+        },
+      },
+    });
+
+    return {
+      snapshot: updated || snapshot,
+      market,
+      side: venuePosition.side,
+      size: parseFloat(venuePosition.size),
+      markPrice,
+      liquidationPrice,
+      distance,
+    };
+  }
+
+  /**
+   * USDC to add to an isolated Hyperliquid leg so its distance to liquidation reaches the target.
+   * Adding margin moves the liquidation price away by roughly amount / size.
+   */
+  private async planTopUp(
+    ctx: RequestContext,
+    leg: LegRisk,
+    targetDistance: number
+  ): Promise<{ amountUsd: number } | { reason: string }> {
+    if (leg.snapshot.dexType !== 'hyperliquid') {
+      return { reason: `${leg.snapshot.dexType} legs are cross-margined` };
+    }
+
+    const coin = leg.market.symbol.split('-')[0].toUpperCase();
+    const [venuePosition, margin] = await Promise.all([
+      this.hyperliquidService.getPerpPosition(ctx, leg.snapshot.dexAccountId, coin),
+      this.hyperliquidService.getMarginSummary(ctx, leg.snapshot.dexAccountId),
+    ]);
+
+    if (venuePosition?.leverage?.type !== 'isolated') {
+      return { reason: 'the leg is cross-margined' };
+    }
+
+    const amountUsd = Math.ceil((targetDistance - leg.distance!) * leg.size * leg.markPrice * 100) / 100;
+    if (amountUsd > margin.withdrawable) {
+      return { reason: `${amountUsd.toFixed(2)} USDC needed, ${margin.withdrawable.toFixed(2)} withdrawable` };
+    }
+
+    return { amountUsd };
+  }
+
+  /**
+   * Reduce every leg by the same share, the riskiest leg first
+   */
+  private async deleverage(
+    ctx: RequestContext,
+    position: Position,
+    snapshots: Snapshot[],
+    legs: LegRisk[],
+    riskiest: LegRisk,
+    targetDistance: number,
+    dryRun: boolean,
+    outcome: JobPositionOutcome
+  ): Promise<void> {
+    // Leverage, and so distance to liquidation, scales roughly with size at constant margin
+    const share = Math.min(
+      MAX_DELEVERAGE_SHARE,
+      Math.max(MIN_DELEVERAGE_SHARE, 1 - riskiest.distance! / targetDistance)
+    );
+
+    const ordered = [riskiest.snapshot, ...snapshots.filter(snapshot => snapshot.id !== riskiest.snapshot.id)];
+    const orders: Array<{ snapshot: Snapshot; held: number; order: LegOrder }> = ordered.map(snapshot => {
+      const leg = legs.find(candidate => candidate.snapshot.id === snapshot.id);
+      const held = leg ? leg.size : parseFloat(snapshot.size); // Spot legs are not read from the venue
+      const side = leg ? leg.side : snapshot.side;
+
+      return {
+        snapshot,
+        held,
+        order: {
+          dexType: snapshot.dexType,
+          dexAccountId: snapshot.dexAccountId,
+          market: leg ? leg.market : getExchangeAdapter(snapshot.dexType).resolveMarket(snapshot),
+          side: side === 'short' ? 'buy' : 'sell',
+          size: (held * share).toFixed(SIZE_DECIMALS),
+          reduceOnly: snapshot.side !== 'spot', // Spot balances are sold outright
+        },
+      };
+    });
+
+    outcome.action = 'deleverage';
+    outcome.reasons!.push(`reduce every leg by ${(share * 100).toFixed(1)}%`);
+
+    if (dryRun) {
+      outcome.status = 'simulated';
+      return;
+    }
+
+    const execution = await this.legExecutor.execute(ctx, {
+      kind: 'rebalance',
+      positionId: position.id,
+      reason: 'liquidation_risk',
+      legs: orders.map(({ order }) => order),
+    });
+    outcome.executionId = execution.executionId;
+
+    if (execution.status !== 'completed') {
+      throw new Error(`Execution ${execution.executionId} ${execution.status}: ${execution.error}`);
+    }
+
+    for (const [index, { snapshot, held }] of orders.entries()) {
+      const size = Math.max(held - parseFloat(execution.legs[index].filledSize), 0);
+      await this.db.updatePositionSnapshot(snapshot.id, {
+        size: size.toString(),
+        notionalValue: (size * parseFloat(snapshot.entryPrice)).toString(),
+      });
+    }
+
+    outcome.status = 'rebalanced';
+  }
+
+  /**
+   * Close the legs that survive a leg missing on its venue, so they are not left unhedged
+   */
+  private async closeUnhedgedLegs(
+    ctx: RequestContext,
+    position: Position,
+    snapshots: Snapshot[],
+    legs: LegRisk[],
+    missing: Snapshot[],
+    dryRun: boolean,
+    outcome: JobPositionOutcome
+  ): Promise<void> {
+    const survivors = [
+      ...legs.map(leg => ({ snapshot: leg.snapshot, market: leg.market, side: leg.side, held: leg.size })),
+      ...snapshots
+        .filter(snapshot => snapshot.side === 'spot' && parseFloat(snapshot.size) > 0)
+        .map(snapshot => ({
+          snapshot,
+          market: getExchangeAdapter(snapshot.dexType).resolveMarket(snapshot),
+          side: snapshot.side,
+          held: parseFloat(snapshot.size), // Spot legs are not read from the venue
+        })),
+    ];
+
+    outcome.action = 'close';
+    if (survivors.length === 0) {
+      outcome.status = 'skipped';
+      outcome.reasons!.push('no leg is left to close');
+      return;
+    }
+
+    const orders: LegOrder[] = survivors.map(({ snapshot, market, side, held }) => ({
+      dexType: snapshot.dexType,
+      dexAccountId: snapshot.dexAccountId,
+      market,
+      side: side === 'short' ? 'buy' : 'sell',
+      size: held.toFixed(SIZE_DECIMALS),
+      reduceOnly: side !== 'spot', // Spot balances are sold outright
+    }));
+    outcome.reasons!.push(`close ${survivors.map(({ snapshot }) => `${snapshot.dexType} ${snapshot.symbol} ${snapshot.side}`).join(', ')}`);
+
+    if (dryRun) {
+      outcome.status = 'simulated';
+      return;
+    }
+
+    const execution = await this.legExecutor.execute(ctx, {
+      kind: 'close',
+      positionId: position.id,
+      reason: 'liquidation_risk',
+      legs: orders,
+    });
+    outcome.executionId = execution.executionId;
+
+    if (execution.status !== 'completed') {
+      throw new Error(`Execution ${execution.executionId} ${execution.status}: ${execution.error}`);
+    }
+
+    for (const snapshot of [...survivors.map(survivor => survivor.snapshot), ...missing]) {
+      await this.db.updatePositionSnapshot(snapshot.id, { size: '0', notionalValue: '0' });
+    }
+    await this.db.updatePosition(position.id, {
+      status: 'closed',
+      closedAt: new Date(),
+    });
+
+    logger.warn(`Closed position ${position.id} after a leg went missing on its venue`, {
+      executionId: execution.executionId,
+    });
+    outcome.status = 'closed';
+  }
+}
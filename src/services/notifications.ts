@@ -0,0 +1,215 @@
+import { randomBytes } from 'crypto';
+import { DatabaseRepository } from '@/db/repository';
+import { TelegramService, TelegramUpdate } from '@/services/telegram';
+import { RequestContext } from '@/types/common';
+import { AlertType, TelegramLinkStatus } from '@/types/notifications';
+import { logger } from '@/utils/logger';
+
+// How long a link code can be sent to the bot
+const LINK_CODE_TTL_MS = 15 * 60 * 1000;
+// Alerts that are sent even when the position was alerted within the throttle window
+const URGENT_ALERTS: AlertType[] = ['leg_failed', 'liquidation_risk'];
+
+const ALERT_TITLES: Record<AlertType, string> = {
+  fill: 'Fill',
+  rebalance: 'Rebalance',
+  funding_flip: 'Funding flip',
+  leg_failed: 'Execution failed',
+  liquidation_risk: 'Liquidation risk',
+};
+
+/**
+ * Minimum time between two non-urgent alerts for the same position
+ */
+function getAlertThrottleMs(): number {
+  const value = Number(process.env.ALERT_THROTTLE_MINUTES);
+  const minutes = process.env.ALERT_THROTTLE_MINUTES !== undefined && Number.isFinite(value) ? value : 15;
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Notification Service
+ *
+ * Links users to a Telegram chat and sends them position alerts.
+ *
+ * Linking: the user creates a one-time code and opens `t.me/<bot>?start=<code>`. The bot receives
+ * `/start <code>` through the webhook and stores the chat id on the user. `/stop` unlinks the chat.
+ *
+ * Alerts are sent only to linked users, for positions with `notificationsEnabled`. A position gets at most
+ * one alert per ALERT_THROTTLE_MINUTES (default 15), tracked in `lastAlertSentAt`. Throttled alerts are
+ * dropped. Failed executions and liquidation risk are always sent. An alert that fails to send does not count.
+ * Sending never throws; failures are logged so alerts cannot break the trading path that raised them.
+ */
+export class NotificationService {
+  private db: DatabaseRepository;
+  private telegram: TelegramService;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.telegram = new TelegramService();
+  }
+
+  /**
+   * Create a one-time code that links the user's Telegram chat when sent to the bot
+   */
+  async createTelegramLinkCode(ctx: RequestContext): Promise<{ code: string; url: string; expiresAt: Date }> {
+    const botUsername = await this.telegram.getBotUsername();
+    const linkCode = await this.db.createTelegramLinkCode({
+      userId: ctx.userId!,
+      code: randomBytes(12).toString('base64url'),
+      expiresAt: new Date(Date.now() + LINK_CODE_TTL_MS),
+    });
+
+    return {
+      code: linkCode.code,
+      url: `https://t.me/${botUsername}?start=${linkCode.code}`,
+      expiresAt: linkCode.expiresAt,
+    };
+  }
+
+  async getTelegramStatus(ctx: RequestContext): Promise<TelegramLinkStatus> {
+    const user = await this.db.getUser(ctx.userId!);
+
+    return {
+      linked: Boolean(user?.telegramVerified && user.telegramChatId),
+      username: user?.telegramUsername ?? null,
+    };
+  }
+
+  async unlinkTelegram(ctx: RequestContext): Promise<void> {
+    await this.db.updateUser(ctx.userId!, {
+      telegramChatId: null,
+      telegramUsername: null,
+      telegramVerified: false,
+    });
+  }
+
+  /**
+   * Handle an update the bot received. Only private chats are answered.
+   */
+  async handleTelegramUpdate(update: TelegramUpdate): Promise<void> {
+    const message = update.message;
+    if (!message?.text || message.chat.type !== 'private') {
+      return;
+    }
+
+    const chatId = message.chat.id.toString();
+    const [command, argument] = message.text.trim().split(/\s+/);
+
+    switch (command.split('@')[0]) {
+      case '/start': {
+        if (!argument) {
+          await this.reply(chatId, 'Open the Telegram link from Magnolia to connect this chat.');
+          return;
+        }
+
+        const linkCode = await this.db.consumeTelegramLinkCode(argument);
+        if (!linkCode) {
+          await this.reply(chatId, 'This link has expired or was already used. Create a new one in Magnolia.');
+          return;
+        }
+
+        // A chat receives the alerts of one user
+        const previous = await this.db.findUserByTelegramChatId(chatId);
+        if (previous && previous.id !== linkCode.userId) {
+          await this.db.updateUser(previous.id, { telegramChatId: null, telegramUsername: null, telegramVerified: false });
+        }
+
+        await this.db.updateUser(linkCode.userId, {
+          telegramChatId: chatId,
+          telegramUsername: message.from?.username ?? null,
+          telegramVerified: true,
+        });
+
+        logger.info(`Linked Telegram chat for user ${linkCode.userId}`);
+        await this.reply(chatId, 'Connected. Magnolia will send alerts for your positions here. Send /stop to disconnect.');
+        return;
+      }
+
+      case '/stop': {
+        const user = await this.db.findUserByTelegramChatId(chatId);
+        if (user) {
+          await this.db.updateUser(user.id, { telegramChatId: null, telegramUsername: null, telegramVerified: false });
+          logger.info(`Unlinked Telegram chat for user ${user.id}`);
+        }
+
+        await this.reply(chatId, 'Disconnected. You will not receive Magnolia alerts here.');
+        return;
+      }
+
+      default:
+        await this.reply(chatId, 'Magnolia sends alerts here. Send /stop to disconnect.');
+    }
+  }
+
+  /**
+   * Send an alert about a position. Returns whether it was sent.
+   */
+  async notifyPosition(positionId: number, type: AlertType, message: string): Promise<boolean> {
+    try {
+      const position = await this.db.getPosition(positionId);
+      if (!position) {
+        return false;
+      }
+
+      const user = await this.db.getUser(position.userId);
+      if (!user?.telegramVerified || !user.telegramChatId) {
+        return false;
+      }
+
+      const sentBefore = URGENT_ALERTS.includes(type) ? null : new Date(Date.now() - getAlertThrottleMs());
+      const claimed = await this.db.claimPositionAlert(positionId, sentBefore);
+      if (!claimed) {
+        logger.debug(`Skipped ${type} alert for position ${positionId}`, {
+          notificationsEnabled: position.notificationsEnabled,
+          lastAlertSentAt: position.lastAlertSentAt,
+        });
+        return false;
+      }
+
+      try {
+        await this.telegram.sendMessage(user.telegramChatId, `${ALERT_TITLES[type]}: ${position.name}\n${message}`);
+      } catch (error) {
+        await this.db.releasePositionAlert(positionId, claimed.lastAlertSentAt!, position.lastAlertSentAt);
+        throw error;
+      }
+      return true;
+    } catch (error) {
+      logger.error(`Failed to send ${type} alert for position ${positionId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Send an alert that has no position yet, e.g. a failed open. Not throttled.
+   */
+  async notifyUser(userId: number, type: AlertType, message: string): Promise<boolean> {
+    try {
+      const user = await this.db.getUser(userId);
+      if (!user?.telegramVerified || !user.telegramChatId) {
+        return false;
+      }
+
+      await this.telegram.sendMessage(user.telegramChatId, `${ALERT_TITLES[type]}\n${message}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to send ${type} alert to user ${userId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  // Replies are best effort: a failed reply must not make Telegram redeliver an update already applied
+  private async reply(chatId: string, text: string): Promise<void> {
+    try {
+      await this.telegram.sendMessage(chatId, text);
+    } catch (error) {
+      logger.warn('Failed to reply to Telegram chat', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { HyperliquidService } from '@/services/hyperliquid';
+import { DriftService } from '@/services/drift';
+import { LighterService } from '@/services/lighter';
+import { FundingRateService, getFundingRateService } from '@/services/funding-rates';
+import { TAKER_FEES } from '@/config/rebalance.config';
+import { DexType } from '@/types/exchange';
+import {
+  FundingOpportunity,
+  FundingOpportunityLeg,
+  HOURS_PER_YEAR,
+  NormalizedFundingRate,
+} from '@/types/funding';
+import { logger } from '@/utils/logger';
+
+// Order-book depth is measured within this distance of the best price
+const DEPTH_BAND_BPS = 50;
+
+interface OrderBookLevel {
+  price: number;
+  size: number;
+}
+
+/**
+ * Opportunity Service
+ *
+ * Ranks assets by the funding spread between venues: short the venue paying the highest
+ * funding to longs, long the one paying the least. Spreads use each venue's predicted rate
+ * when available and are netted against round-trip taker fees over the expected holding period.
+ */
+export class OpportunityService {
+  private fundingRates: FundingRateService;
+  private hyperliquidService: HyperliquidService;
+  private driftService: DriftService;
+  private lighterService: LighterService;
+
+  constructor() {
+    this.fundingRates = getFundingRateService();
+    this.hyperliquidService = new HyperliquidService();
+    this.driftService = new DriftService();
+    this.lighterService = new LighterService();
+  }
+
+  /**
+   * Best long/short venue pair per asset, sorted by net APR
+   */
+  async getOpportunities(options: {
+    asset?: string;
+    dexTypes?: DexType[];
+    holdDays: number;
+    minNetApr?: number;
+    limit: number;
+  }): Promise<FundingOpportunity[]> {
+    const rates = await this.fundingRates.getFundingRates({
+      dexTypes: options.dexTypes,
+      assets: options.asset ? [options.asset] : undefined,
+    });
+
+    // One market per venue and asset
+    const ratesByAsset = new Map<string, Map<DexType, NormalizedFundingRate>>();
+    for (const rate of rates) {
+      const venues = ratesByAsset.get(rate.asset) || new Map<DexType, NormalizedFundingRate>();
+      if (!venues.has(rate.dexType)) {
+        venues.set(rate.dexType, rate);
+      }
+      ratesByAsset.set(rate.asset, venues);
+    }
+
+    const opportunities: FundingOpportunity[] = [];
+    for (const [asset, venues] of ratesByAsset) {
+      if (venues.size < 2) {
+        continue;
+      }
+
+      const ranked = [...venues.values()].sort((a, b) => this.expectedHourly(b) - this.expectedHourly(a));
+      const opportunity = this.buildOpportunity(asset, ranked[ranked.length - 1], ranked[0], options.holdDays);
+
+      if (options.minNetApr === undefined || opportunity.netApr >= options.minNetApr) {
+        opportunities.push(opportunity);
+      }
+    }
+
+    const top = opportunities
+      .sort((a, b) => b.netApr - a.netApr)
+      .slice(0, options.limit);
+
+    // Open interest and depth need per-market requests, so only fetch them for returned entries
+    await this.attachMarketData(top);
+
+    return top;
+  }
+
+  private buildOpportunity(
+    asset: string,
+    longRate: NormalizedFundingRate,
+    shortRate: NormalizedFundingRate,
+    holdDays: number
+  ): FundingOpportunity {
+    const long = this.buildLeg(longRate, 'long');
+    const short = this.buildLeg(shortRate, 'short');
+
+    // Shorts receive the short venue's rate, longs pay the long venue's rate
+    const spreadHourly = short.expectedHourly - long.expectedHourly;
+    const spreadApr = spreadHourly * HOURS_PER_YEAR;
+    const feeCost = 2 * (long.takerFee + short.takerFee);
+    const netApr = spreadApr - feeCost * (365 / holdDays);
+
+    return {
+      asset,
+      long,
+      short,
+      spreadHourly,
+      spreadApr,
+      feeCost,
+      netApr,
+      suggestedPosition: {
+        name: `${asset} funding arb ${long.dexType}/${short.dexType}`,
+        asset,
+        fundingOptimizationEnabled: true,
+        legs: [long, short].map(leg => ({
+          dexType: leg.dexType,
+          marketType: 'perp' as const,
+          symbol: leg.market.symbol,
+          side: leg.side,
+          assetId: leg.market.assetId,
+          marketIndex: leg.market.marketIndex,
+          marketId: leg.market.marketId,
+        })),
+      },
+    };
+  }
+
+  private buildLeg(rate: NormalizedFundingRate, side: 'long' | 'short'): FundingOpportunityLeg {
+    const expectedHourly = this.expectedHourly(rate);
+    return {
+      dexType: rate.dexType,
+      market: rate.market,
+      side,
+      currentHourly: rate.currentHourly,
+      expectedHourly,
+      expectedApr: expectedHourly * HOURS_PER_YEAR,
+      takerFee: TAKER_FEES[rate.dexType],
+      openInterestUsd: null,
+      depthUsd: null,
+    };
+  }
+
+  private expectedHourly(rate: NormalizedFundingRate): number {
+    return rate.predictedHourly ?? rate.currentHourly;
+  }
+
+  private async attachMarketData(opportunities: FundingOpportunity[]): Promise<void> {
+    const legs = opportunities.flatMap(opportunity => [opportunity.long, opportunity.short]);
+    if (legs.length === 0) {
+      return;
+    }
+
+    const venues = new Set(legs.map(leg => leg.dexType));
+    const [hlContexts, driftContracts] = await Promise.all([
+      venues.has('hyperliquid') ? this.hyperliquidService.getAssetPrices() : null,
+      venues.has('drift') ? this.driftService.getMarketContracts() : null,
+    ]);
+
+    await Promise.all(legs.map(async leg => {
+      try {
+        switch (leg.dexType) {
+          case 'hyperliquid': {
+            const ctx = hlContexts?.get(leg.market.assetId!);
+            if (ctx?.openInterest !== undefined) {
+              leg.openInterestUsd = ctx.openInterest * ctx.markPx;
+            }
+            const book = await this.hyperliquidService.getL2Book(leg.market.symbol);
+            leg.depthUsd = this.depthUsd(
+              (leg.side === 'long' ? book.asks : book.bids).map(level => ({ price: level.px, size: level.sz }))
+            );
+            break;
+          }
+
+          case 'drift': {
+            const contract = driftContracts?.find(c => Number(c.contract_index) === leg.market.marketIndex);
+            if (contract) {
+              leg.openInterestUsd = parseFloat(contract.open_interest) * parseFloat(contract.last_price);
+            }
+            const book = await this.driftService.getL2OrderBook(leg.market.symbol);
+            leg.depthUsd = this.depthUsd(leg.side === 'long' ? book.asks : book.bids);
+            break;
+          }
+
+          case 'lighter': {
+            const [details, book] = await Promise.all([
+              this.lighterService.getOrderBookDetails(leg.market.marketId!),
+              this.lighterService.getOrderBookOrders(leg.market.marketId!),
+            ]);
+            const market = details?.order_book_details?.[0];
+            if (market?.open_interest !== undefined) {
+              leg.openInterestUsd = parseFloat(market.open_interest) * parseFloat(market.last_trade_price);
+            }
+            leg.depthUsd = this.depthUsd(
+              (leg.side === 'long' ? book.asks : book.bids).map(order => ({
+                price: parseFloat(order.price),
+                size: parseFloat(order.remaining_base_amount),
+              }))
+            );
+            break;
+          }
+        }
+      } catch (error) {
+        logger.warn(`Failed to load market data for ${leg.dexType} ${leg.market.symbol}`, {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+
+      if (leg.openInterestUsd !== null && !Number.isFinite(leg.openInterestUsd)) {
+        leg.openInterestUsd = null;
+      }
+    }));
+  }
+
+  /**
+   * USD notional resting within DEPTH_BAND_BPS of the best level (levels sorted best first)
+   */
+  private depthUsd(levels: OrderBookLevel[]): number | null {
+    if (levels.length === 0) {
+      return null;
+    }
+
+    const best = levels[0].price;
+    const band = best * DEPTH_BAND_BPS / 10_000;
+
+    return levels
+      .filter(level => Math.abs(level.price - best) <= band)
+      .reduce((total, level) => total + level.price * level.size, 0);
+  }
+}
@@ -0,0 +1,437 @@
+import { DatabaseRepository } from '@/db/repository';
+import { dexAccounts, driftOrders, hyperliquidOrders, lighterOrders } from '@/db/schema';
+import { DriftService } from '@/services/drift';
+import { HyperliquidService } from '@/services/hyperliquid';
+import { LighterAccountOrder, LighterService } from '@/services/lighter';
+import { RequestContext } from '@/types/common';
+import { DriftTradeRecord } from '@/types/drift';
+import { HistoricalOrder } from '@/types/hyperliquid';
+import { logger } from '@/utils/logger';
+
+// Orders checked per venue and run, least recently checked first
+const MAX_ORDERS_PER_RUN = 500;
+
+// Orders younger than this are not finalized from their absence on the book,
+// since venues and the Drift data API can lag the placement
+const SETTLE_GRACE_MS = 2 * 60 * 1000;
+
+// Fill amounts within this fraction of the order size count as fully filled
+const FILL_TOLERANCE = 1e-6;
+
+type OrderStatus = typeof hyperliquidOrders.$inferSelect['status'];
+type DexType = typeof dexAccounts.$inferSelect['dexType'];
+type DexAccount = typeof dexAccounts.$inferSelect;
+type HyperliquidOrder = typeof hyperliquidOrders.$inferSelect;
+type DriftOrder = typeof driftOrders.$inferSelect;
+type LighterOrder = typeof lighterOrders.$inferSelect;
+
+export type ReconciliationCounts = {
+  checked: number;
+  updated: number;
+  failed: number; // Accounts that could not be reconciled
+};
+
+export type ReconciliationResult = ReconciliationCounts & { venues: Record<DexType, ReconciliationCounts> };
+
+interface OrderUpdate {
+  status: OrderStatus;
+  filledSize: number;
+  avgFillPrice: number | null;
+  detail: Record<string, unknown>; // Venue state the update was derived from, kept in the audit trail
+}
+
+interface TrackedOrder {
+  id: number;
+  userId: number;
+  dexAccountId: number;
+  status: OrderStatus;
+  filledSize: string | null;
+}
+
+/**
+ * Map a Hyperliquid order status onto our order_status enum.
+ * Every *Canceled variant other than margin and liquidation cancels is a plain cancel.
+ */
+function mapHyperliquidStatus(status: string): OrderStatus {
+  switch (status) {
+    case 'open':
+    case 'filled':
+    case 'triggered':
+    case 'rejected':
+    case 'marginCanceled':
+    case 'liquidatedCanceled':
+      return status;
+    case 'canceled':
+      return 'cancelled';
+    default:
+      return status.endsWith('Canceled') ? 'cancelled' : 'open';
+  }
+}
+
+/**
+ * Map a Lighter order status onto our order_status enum.
+ * Lighter reports the cancel reason as a suffix, e.g. "canceled-expired".
+ */
+function mapLighterStatus(status: string): OrderStatus {
+  switch (status) {
+    case 'filled':
+      return 'filled';
+    case 'canceled-expired':
+      return 'expired';
+    case 'canceled-margin-not-allowed':
+      return 'marginCanceled';
+    case 'canceled-liquidation':
+      return 'liquidatedCanceled';
+    default:
+      return status.startsWith('canceled') ? 'cancelled' : 'open';
+  }
+}
+
+/**
+ * Sum fills into a filled size and volume-weighted average price
+ */
+function summarizeFills(fills: Array<{ size: number; price: number }>): { filledSize: number; avgFillPrice: number | null } {
+  const filledSize = fills.reduce((total, fill) => total + fill.size, 0);
+  const notional = fills.reduce((total, fill) => total + fill.size * fill.price, 0);
+  return { filledSize, avgFillPrice: filledSize > 0 ? notional / filledSize : null };
+}
+
+/**
+ * Order Reconciliation Service
+ *
+ * Moves stored Hyperliquid, Drift and Lighter orders out of pending/open once the venue reports
+ * a final state, and keeps filled size and average fill price current while they rest.
+ * Every change is written to order_status_events.
+ *
+ * - Hyperliquid: open and historical orders, with average prices from the account's fills
+ * - Drift: the account's on-chain order slots; orders that left them are settled from data API fills
+ * - Lighter: active and inactive orders per market, for accounts with a stored API key
+ */
+export class OrderReconciliationService {
+  private db: DatabaseRepository;
+  private hyperliquidService: HyperliquidService;
+  private driftService: DriftService;
+  private lighterService: LighterService;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.hyperliquidService = new HyperliquidService();
+    this.driftService = new DriftService();
+    this.lighterService = new LighterService();
+  }
+
+  /**
+   * Reconcile active orders for every account that has them
+   */
+  async reconcileOrders(): Promise<ReconciliationResult> {
+    const venues = {
+      hyperliquid: await this.reconcileAccounts(
+        'hyperliquid',
+        await this.db.getActiveHyperliquidOrders(MAX_ORDERS_PER_RUN),
+        (dexAccount, orders) => this.reconcileHyperliquidAccount(dexAccount, orders)
+      ),
+      drift: await this.reconcileAccounts(
+        'drift',
+        await this.db.getActiveDriftOrders(MAX_ORDERS_PER_RUN),
+        (dexAccount, orders) => this.reconcileDriftAccount(dexAccount, orders)
+      ),
+      lighter: await this.reconcileAccounts(
+        'lighter',
+        await this.db.getActiveLighterOrders(MAX_ORDERS_PER_RUN),
+        (dexAccount, orders) => this.reconcileLighterAccount(dexAccount, orders)
+      ),
+    };
+
+    const totals = Object.values(venues).reduce(
+      (total, counts) => ({
+        checked: total.checked + counts.checked,
+        updated: total.updated + counts.updated,
+        failed: total.failed + counts.failed,
+      }),
+      { checked: 0, updated: 0, failed: 0 }
+    );
+
+    return { ...totals, venues };
+  }
+
+  private async reconcileAccounts<T extends { id: number; dexAccountId: number }>(
+    dexType: DexType,
+    orders: T[],
+    reconcileAccount: (dexAccount: DexAccount, orders: T[]) => Promise<number>
+  ): Promise<ReconciliationCounts> {
+    const ordersByAccount = new Map<number, T[]>();
+    for (const order of orders) {
+      ordersByAccount.set(order.dexAccountId, [...(ordersByAccount.get(order.dexAccountId) || []), order]);
+    }
+
+    const result = { checked: orders.length, updated: 0, failed: 0 };
+
+    for (const [dexAccountId, accountOrders] of ordersByAccount) {
+      try {
+        const dexAccount = await this.db.getDexAccount(dexAccountId);
+        if (dexAccount) {
+          result.updated += await reconcileAccount(dexAccount, accountOrders);
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to reconcile ${dexType} orders for DEX account ${dexAccountId}`, {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+
+      // Failed accounts move to the back too, so they cannot starve the other orders
+      await this.db.markOrdersChecked(dexType, accountOrders.map(order => order.id));
+    }
+
+    return result;
+  }
+
+  private async reconcileHyperliquidAccount(dexAccount: DexAccount, orders: HyperliquidOrder[]): Promise<number> {
+    // Orders placed by an agent wallet belong to its master wallet
+    const userAddress = (dexAccount.metadata as any)?.masterAddress || dexAccount.address;
+
+    const [openOrders, historicalOrders] = await Promise.all([
+      this.hyperliquidService.getOpenOrdersFromAPI(userAddress) as Promise<Array<{ oid: number }>>,
+      this.hyperliquidService.getHistoricalOrdersFromAPI(userAddress),
+    ]);
+    const resting = new Set(openOrders.map(order => order.oid.toString()));
+
+    const byOid = new Map<string, HistoricalOrder>();
+    const byCloid = new Map<string, HistoricalOrder>();
+    // Entries are newest first; keep each order's latest status
+    for (const entry of historicalOrders) {
+      const oid = entry.order.oid.toString();
+      if (!byOid.has(oid)) {
+        byOid.set(oid, entry);
+      }
+      if (entry.order.cloid && !byCloid.has(entry.order.cloid)) {
+        byCloid.set(entry.order.cloid, entry);
+      }
+    }
+
+    // Fills since the oldest order, for average fill prices
+    const since = Math.min(...orders.map(order => order.createdAt.getTime())) - SETTLE_GRACE_MS;
+    const fills = await this.hyperliquidService.getUserFillsByTime(userAddress, since);
+    const fillsByOid = new Map<string, Array<{ size: number; price: number }>>();
+    for (const fill of fills) {
+      const oid = fill.oid.toString();
+      fillsByOid.set(oid, [...(fillsByOid.get(oid) || []), { size: parseFloat(fill.sz), price: parseFloat(fill.px) }]);
+    }
+
+    let updated = 0;
+    for (const order of orders) {
+      const oid = order.hlOrderId ?? order.clientOrderId;
+      if (!oid || (order.hlOrderId && order.status === 'open' && resting.has(order.hlOrderId))) {
+        continue;
+      }
+
+      // historicalOrders only covers the most recent orders; older ones are looked up individually
+      const venueOrder = (order.hlOrderId ? byOid.get(order.hlOrderId) : undefined)
+        ?? (order.clientOrderId ? byCloid.get(order.clientOrderId) : undefined)
+        ?? await this.hyperliquidService.getOrderStatusFromAPI(
+          userAddress,
+          order.hlOrderId ? Number(order.hlOrderId) : oid
+        );
+      if (!venueOrder) {
+        continue;
+      }
+
+      const venueOid = venueOrder.order.oid.toString();
+      const { avgFillPrice } = summarizeFills(fillsByOid.get(venueOid) || []);
+      const update: OrderUpdate = {
+        status: mapHyperliquidStatus(venueOrder.status),
+        filledSize: parseFloat(venueOrder.order.origSz) - parseFloat(venueOrder.order.sz),
+        avgFillPrice,
+        detail: { status: venueOrder.status, statusTimestamp: venueOrder.statusTimestamp, oid: venueOrder.order.oid },
+      };
+
+      const changed = await this.applyUpdate('hyperliquid', order, update, () =>
+        this.db.updateHyperliquidOrder(order.id, {
+          status: update.status,
+          filledSize: update.filledSize.toString(),
+          ...(update.avgFillPrice !== null ? { avgFillPrice: update.avgFillPrice.toString() } : {}),
+          hlOrderId: venueOid,
+        })
+      );
+      if (changed) {
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  private async reconcileDriftAccount(dexAccount: DexAccount, orders: DriftOrder[]): Promise<number> {
+    const openOrders = await this.driftService.getOpenOrders(this.systemContext(dexAccount), dexAccount.id);
+    const openById = new Map(openOrders.map(order => [order.orderId, order]));
+
+    // Only fetch fills when an order has left the book
+    let trades: { records: DriftTradeRecord[]; coveredSince: number } | undefined;
+    const getTrades = async () => {
+      if (!trades) {
+        const since = Math.min(...orders.map(order => order.createdAt.getTime())) - SETTLE_GRACE_MS;
+        const { records, nextPage } = await this.driftService.getTradeRecords(dexAccount.address, dexAccount.subaccountId || 0, new Date(since));
+        // Past the page cap only the newest records were read, so older orders may be missing fills
+        trades = { records, coveredSince: nextPage ? Math.min(...records.map(trade => trade.ts * 1000)) : since };
+      }
+      return trades;
+    };
+
+    let updated = 0;
+    for (const order of orders) {
+      // Orders stored without their venue order id cannot be matched
+      if (!order.driftOrderId) {
+        continue;
+      }
+
+      const driftOrderId = Number(order.driftOrderId);
+      const open = openById.get(driftOrderId);
+      let update: OrderUpdate;
+
+      if (open) {
+        update = {
+          status: 'open',
+          filledSize: open.baseAssetAmountFilled,
+          avgFillPrice: open.baseAssetAmountFilled > 0 ? open.quoteAssetAmountFilled / open.baseAssetAmountFilled : null,
+          detail: { onBook: true, orderId: driftOrderId },
+        };
+      } else {
+        if (Date.now() - order.createdAt.getTime() < SETTLE_GRACE_MS) {
+          continue;
+        }
+
+        const { records, coveredSince } = await getTrades();
+        if (order.createdAt.getTime() < coveredSince) {
+          logger.warn(`Skipping Drift order ${order.id}: its fills are older than the trade records read`, { dexAccountId: dexAccount.id });
+          continue;
+        }
+
+        const orderFills = records.filter(
+          trade => trade.orderId === driftOrderId && trade.marketIndex === order.marketIndex
+        );
+        const { filledSize, avgFillPrice } = summarizeFills(orderFills.map(trade => ({
+          size: parseFloat(trade.baseAssetAmountFilled),
+          price: parseFloat(trade.quoteAssetAmountFilled) / parseFloat(trade.baseAssetAmountFilled),
+        })));
+
+        const size = parseFloat(order.baseAssetAmount);
+        const expired = order.maxTs !== null && Number(order.maxTs) > 0 && Date.now() > Number(order.maxTs) * 1000;
+        update = {
+          status: filledSize >= size * (1 - FILL_TOLERANCE) ? 'filled' : expired ? 'expired' : 'cancelled',
+          filledSize,
+          avgFillPrice,
+          detail: { onBook: false, orderId: driftOrderId, fills: orderFills.map(trade => trade.fillRecordId) },
+        };
+      }
+
+      const changed = await this.applyUpdate('drift', { ...order, filledSize: order.filledAmount }, update, () =>
+        this.db.updateDriftOrder(order.id, {
+          status: update.status,
+          filledAmount: update.filledSize.toString(),
+          ...(update.avgFillPrice !== null ? { avgFillPrice: update.avgFillPrice.toString() } : {}),
+        })
+      );
+      if (changed) {
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  private async reconcileLighterAccount(dexAccount: DexAccount, orders: LighterOrder[]): Promise<number> {
+    // Order reads need an auth token signed with the account's API key
+    if (!dexAccount.encryptedPrivateKey) {
+      return 0;
+    }
+
+    const ctx = this.systemContext(dexAccount);
+    let updated = 0;
+
+    for (const marketId of new Set(orders.map(order => order.marketId))) {
+      const [active, inactive] = await Promise.all([
+        this.lighterService.getAccountOrders(ctx, dexAccount.id, marketId, 'active'),
+        this.lighterService.getAccountOrders(ctx, dexAccount.id, marketId, 'inactive'),
+      ]);
+
+      const byClientIndex = new Map<number, LighterAccountOrder>();
+      for (const venueOrder of [...inactive, ...active]) {
+        byClientIndex.set(venueOrder.client_order_index, venueOrder);
+      }
+
+      for (const order of orders.filter(order => order.marketId === marketId)) {
+        const venueOrder = order.clientOrderIndex !== null ? byClientIndex.get(order.clientOrderIndex) : undefined;
+        if (!venueOrder) {
+          continue;
+        }
+
+        const filledSize = parseFloat(venueOrder.filled_base_amount);
+        const update: OrderUpdate = {
+          status: mapLighterStatus(venueOrder.status),
+          filledSize,
+          avgFillPrice: filledSize > 0 ? parseFloat(venueOrder.filled_quote_amount) / filledSize : null,
+          detail: { status: venueOrder.status, orderIndex: venueOrder.order_index },
+        };
+
+        const changed = await this.applyUpdate('lighter', { ...order, filledSize: order.filledAmount }, update, () =>
+          this.db.updateLighterOrder(order.id, {
+            status: update.status,
+            filledAmount: update.filledSize.toString(),
+            ...(update.avgFillPrice !== null ? { avgFillPrice: update.avgFillPrice.toString() } : {}),
+            lighterOrderId: venueOrder.order_index.toString(),
+          })
+        );
+        if (changed) {
+          updated++;
+        }
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Persist an update through `persist` and record it in the audit trail, unless nothing changed
+   */
+  private async applyUpdate(
+    dexType: DexType,
+    order: TrackedOrder,
+    update: OrderUpdate,
+    persist: () => Promise<unknown>
+  ): Promise<boolean> {
+    if (update.status === order.status && update.filledSize === parseFloat(order.filledSize || '0')) {
+      return false;
+    }
+
+    await persist();
+    await this.db.createOrderStatusEvent({
+      userId: order.userId,
+      dexAccountId: order.dexAccountId,
+      dexType,
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: update.status,
+      filledSize: update.filledSize.toString(),
+      avgFillPrice: update.avgFillPrice !== null ? update.avgFillPrice.toString() : null,
+      source: 'reconciler',
+      detail: update.detail,
+    });
+
+    logger.info(`Reconciled ${dexType} order ${order.id}`, {
+      dexAccountId: order.dexAccountId,
+      from: order.status,
+      to: update.status,
+      filledSize: update.filledSize,
+    });
+
+    return true;
+  }
+
+  private systemContext(dexAccount: DexAccount): RequestContext {
+    return {
+      userId: dexAccount.userId,
+      timestamp: new Date(),
+      requestId: `order-reconciliation-${dexAccount.id}-${Date.now()}`,
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import { DatabaseRepository } from '@/db/repository';
+import { positions } from '@/db/schema';
+import { ApiError, ErrorCode, RequestContext } from '@/types/common';
+import { PNL_HISTORY_INTERVALS, PnlHistoryInterval, PnlHistoryPoint } from '@/types/valuation';
+
+// Keeps a single response bounded; larger ranges need a coarser interval
+const MAX_HISTORY_POINTS = 5000;
+
+const DEFAULT_EQUITY_RANGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+type Position = typeof positions.$inferSelect;
+
+type Mark = { unrealizedPnl: number; netDelta: number; grossNotional: number };
+
+/**
+ * PnL History Service
+ *
+ * Builds bucketed, cumulative PnL series for one position or for all of a user's positions from:
+ * - position_valuations for mark-to-market (the last valuation in or before each bucket is carried forward)
+ * - funding_payments for funding
+ * - fills on the orders behind the position's legs for fees and realized PnL. Only Hyperliquid
+ *   reports closed PnL per fill, so realized PnL of Drift and Lighter legs is not included.
+ */
+export class PnlHistoryService {
+  private db: DatabaseRepository;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+  }
+
+  /**
+   * PnL history of one position. Defaults to the position's lifetime.
+   */
+  async getPositionHistory(
+    ctx: RequestContext,
+    positionId: number,
+    query: { interval: PnlHistoryInterval; from?: Date; to?: Date }
+  ): Promise<{ from: Date; to: Date; points: PnlHistoryPoint[] }> {
+    const position = await this.db.getPositionWithSnapshots(positionId);
+
+    if (!position) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Position not found', 404);
+    }
+
+    if (position.userId !== ctx.userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'You do not have permission to view this position', 403);
+    }
+
+    const to = query.to || position.closedAt || new Date();
+    const from = query.from || position.createdAt;
+
+    return { from, to, points: await this.buildSeries([position], from, to, query.interval) };
+  }
+
+  /**
+   * Combined PnL history of every position the user holds or has held. Defaults to the last 30 days.
+   */
+  async getPortfolioEquity(
+    ctx: RequestContext,
+    query: { interval: PnlHistoryInterval; from?: Date; to?: Date }
+  ): Promise<{ from: Date; to: Date; positions: number; points: PnlHistoryPoint[] }> {
+    const userPositions = await this.db.getUserPositions(ctx.userId!);
+
+    const to = query.to || new Date();
+    const from = query.from || new Date(to.getTime() - DEFAULT_EQUITY_RANGE_MS);
+
+    return {
+      from,
+      to,
+      positions: userPositions.length,
+      points: await this.buildSeries(userPositions, from, to, query.interval),
+    };
+  }
+
+  private async buildSeries(
+    positionList: Position[],
+    from: Date,
+    to: Date,
+    interval: PnlHistoryInterval
+  ): Promise<PnlHistoryPoint[]> {
+    if (from >= to) {
+      throw new ApiError(ErrorCode.INVALID_REQUEST, '"from" must be before "to"');
+    }
+
+    const bucketSeconds = PNL_HISTORY_INTERVALS[interval];
+    const bucketMs = bucketSeconds * 1000;
+    const start = Math.floor(from.getTime() / bucketMs) * bucketMs;
+    if ((to.getTime() - start) / bucketMs > MAX_HISTORY_POINTS) {
+      throw new ApiError(
+        ErrorCode.INVALID_REQUEST,
+        `Time range too large for ${interval} interval. Use a larger interval or a shorter range.`
+      );
+    }
+
+    const positionIds = positionList.map(position => position.id);
+    const [valuationRows, openingMarks, fundingRows, fillRows] = await Promise.all([
+      this.db.getPositionValuationBuckets({ positionIds, from: new Date(start), to, bucketSeconds }),
+      this.db.getLatestPositionValuationsBefore(positionIds, new Date(start)),
+      this.db.getPositionFundingBuckets({ positionIds, to, bucketSeconds }),
+      this.db.getPositionFillBuckets({ positionIds, to, bucketSeconds }),
+    ]);
+
+    const marks = new Map<number, Mark>(openingMarks.map(row => [row.positionId, {
+      unrealizedPnl: parseFloat(row.unrealizedPnl),
+      netDelta: parseFloat(row.netDelta),
+      grossNotional: parseFloat(row.grossNotional),
+    }]));
+
+    const valuationsByBucket = new Map<number, typeof valuationRows>();
+    for (const row of valuationRows) {
+      const time = new Date(row.bucketStart).getTime();
+      valuationsByBucket.set(time, [...(valuationsByBucket.get(time) || []), row]);
+    }
+
+    // Funding, fees and realized PnL summed over positions per bucket; earlier buckets form the opening totals
+    const flows = new Map<number, { funding: number; fees: number; realizedPnl: number }>();
+    const addFlow = (bucketStart: string, flow: Partial<{ funding: number; fees: number; realizedPnl: number }>) => {
+      const time = Math.max(new Date(bucketStart).getTime(), start - bucketMs);
+      const current = flows.get(time) || { funding: 0, fees: 0, realizedPnl: 0 };
+      flows.set(time, {
+        funding: current.funding + (flow.funding || 0),
+        fees: current.fees + (flow.fees || 0),
+        realizedPnl: current.realizedPnl + (flow.realizedPnl || 0),
+      });
+    };
+    fundingRows.forEach(row => addFlow(row.bucketStart, { funding: parseFloat(row.amount) }));
+    fillRows.forEach(row => addFlow(row.bucketStart, { fees: parseFloat(row.fees), realizedPnl: parseFloat(row.realizedPnl) }));
+
+    const totals = { funding: 0, fees: 0, realizedPnl: 0, ...flows.get(start - bucketMs) };
+    const points: PnlHistoryPoint[] = [];
+
+    for (let time = start; time <= to.getTime(); time += bucketMs) {
+      for (const row of valuationsByBucket.get(time) || []) {
+        marks.set(row.positionId, {
+          unrealizedPnl: parseFloat(row.unrealizedPnl),
+          netDelta: parseFloat(row.netDelta),
+          grossNotional: parseFloat(row.grossNotional),
+        });
+      }
+
+      // Closed positions stop contributing mark-to-market from the bucket they closed in
+      for (const position of positionList) {
+        if (position.closedAt && position.closedAt.getTime() < time + bucketMs) {
+          marks.delete(position.id);
+        }
+      }
+
+      const flow = flows.get(time);
+      if (flow) {
+        totals.funding += flow.funding;
+        totals.fees += flow.fees;
+        totals.realizedPnl += flow.realizedPnl;
+      }
+
+      let unrealizedPnl = 0;
+      let netDelta = 0;
+      let grossNotional = 0;
+      for (const mark of marks.values()) {
+        unrealizedPnl += mark.unrealizedPnl;
+        netDelta += mark.netDelta;
+        grossNotional += mark.grossNotional;
+      }
+
+      points.push({
+        timestamp: new Date(time).toISOString(),
+        unrealizedPnl,
+        realizedPnl: totals.realizedPnl,
+        funding: totals.funding,
+        fees: totals.fees,
+        totalPnl: unrealizedPnl + totals.realizedPnl + totals.funding - totals.fees,
+        netDelta,
+        grossNotional,
+      });
+    }
+
+    return points;
+  }
+}
@@ -0,0 +1,135 @@
+import { DatabaseRepository } from '@/db/repository';
+import { getExchangeAdapter } from '@/services/exchanges/registry';
+import { RequestContext } from '@/types/common';
+import { logger } from '@/utils/logger';
+
+// Relative size difference tolerated between our legs and the venue position
+const SIZE_TOLERANCE = 0.01;
+
+type Snapshot = NonNullable<Awaited<ReturnType<DatabaseRepository['getPositionWithSnapshots']>>>['snapshots'][number];
+
+export type LegSyncStatus = 'in_sync' | 'size_mismatch' | 'side_mismatch' | 'missing';
+
+/**
+ * Position Sync Service
+ *
+ * Compares the perp legs of every open position with the positions actually held on each venue.
+ * Legs on the same account and market are summed, since the venue nets them into one position.
+ * Hyperliquid agent accounts of one master wallet trade the master's position, so their legs are summed too.
+ * The result is written to each leg's snapshot metadata as `venueSync`; sizes are not changed.
+ */
+export class PositionSyncService {
+  private db: DatabaseRepository;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+  }
+
+  async syncOpenPositions(): Promise<{ positions: number; markets: number } & Record<LegSyncStatus | 'failed', number>> {
+    const positions = await this.db.getOpenPositions();
+
+    // Group legs by the venue position they contribute to
+    const groups = new Map<string, { userId: number; legs: Snapshot[] }>();
+    for (const position of positions) {
+      const snapshots = (await this.db.getPositionWithSnapshots(position.id))?.snapshots || [];
+
+      for (const snapshot of snapshots) {
+        if (snapshot.side === 'spot') {
+          continue;
+        }
+
+        const market = getExchangeAdapter(snapshot.dexType).resolveMarket(snapshot);
+        const wallet = snapshot.dexType === 'hyperliquid' && snapshot.dexAccount
+          ? ((snapshot.dexAccount.metadata as any)?.masterAddress || snapshot.dexAccount.address).toLowerCase()
+          : snapshot.dexAccountId;
+        const key = JSON.stringify([snapshot.dexType, wallet, market]);
+        const group = groups.get(key) || { userId: position.userId, legs: [] };
+        group.legs.push(snapshot);
+        groups.set(key, group);
+      }
+    }
+
+    const result = {
+      positions: positions.length,
+      markets: groups.size,
+      in_sync: 0,
+      size_mismatch: 0,
+      side_mismatch: 0,
+      missing: 0,
+      failed: 0,
+    };
+
+    for (const { userId, legs } of groups.values()) {
+      const { dexType, dexAccountId } = legs[0];
+
+      try {
+        const status = await this.syncMarket(userId, legs);
+        result[status]++;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to sync ${dexType} position for DEX account ${dexAccountId}`, {
+          symbol: legs[0].symbol,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private async syncMarket(userId: number, legs: Snapshot[]): Promise<LegSyncStatus> {
+    const { dexType, dexAccountId } = legs[0];
+    const adapter = getExchangeAdapter(dexType);
+
+    const ctx: RequestContext = {
+      userId,
+      timestamp: new Date(),
+      requestId: `position-sync-${dexAccountId}-${Date.now()}`,
+    };
+
+    const venuePosition = await adapter.getPosition(ctx, dexAccountId, adapter.resolveMarket(legs[0]));
+
+    // Signed sizes: long positive, short negative
+    const expected = legs.reduce((total, leg) => total + (leg.side === 'long' ? 1 : -1) * parseFloat(leg.size), 0);
+    const actual = venuePosition
+      ? (venuePosition.side === 'long' ? 1 : -1) * parseFloat(venuePosition.size)
+      : 0;
+
+    let status: LegSyncStatus;
+    if (!venuePosition) {
+      status = expected === 0 ? 'in_sync' : 'missing';
+    } else if (Math.sign(actual) !== Math.sign(expected)) {
+      status = 'side_mismatch';
+    } else if (Math.abs(actual - expected) > Math.abs(expected) * SIZE_TOLERANCE) {
+      status = 'size_mismatch';
+    } else {
+      status = 'in_sync';
+    }
+
+    if (status !== 'in_sync') {
+      logger.warn(`Position legs out of sync with ${dexType}`, {
+        dexAccountId,
+        symbol: legs[0].symbol,
+        snapshotIds: legs.map(leg => leg.id),
+        expectedSize: expected,
+        venueSize: actual,
+        status,
+      });
+    }
+
+    const venueSync = {
+      status,
+      expectedSize: expected.toString(),
+      venueSize: actual.toString(),
+      syncedAt: new Date().toISOString(),
+    };
+
+    for (const leg of legs) {
+      await this.db.updatePositionSnapshot(leg.id, {
+        metadata: { ...(leg.metadata as Record<string, unknown>), venueSync },
+      });
+    }
+
+    return status;
+  }
+}
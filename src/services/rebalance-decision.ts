@@ -0,0 +1,178 @@
+import { RebalancePolicy, TAKER_FEES } from '@/config/rebalance.config';
+import { DexType } from '@/types/exchange';
+
+/**
+ * Position leg as seen by the rebalance decision
+ */
+export interface DecisionLeg {
+  id: number;
+  dexType: DexType;
+  side: 'long' | 'short' | 'spot';
+  size: number; // Base units
+  price: number; // Latest known price
+  openedAt: Date;
+}
+
+export interface DecisionRate {
+  currentHourly: number;
+  predictedHourly: number | null;
+}
+
+export interface RebalanceDecision {
+  legId: number;
+  action: RebalancePolicy['onUnfavorable'];
+  currentFundingRate: number;
+  expectedFundingRate: number;
+  projectedGainUsd: number; // Funding improvement over the policy horizon
+  estimatedCostUsd: number; // Fees and slippage of the orders the action places
+}
+
+export interface DecisionSkip {
+  legId: number | null; // null when the whole position is skipped
+  reason: string;
+}
+
+export const legNotionalUsd = (leg: Pick<DecisionLeg, 'size' | 'price'>): number => Math.abs(leg.size * leg.price);
+
+/**
+ * Taker fee and slippage of one market order
+ */
+export const orderCostUsd = (dexType: DexType, notionalUsd: number, slippageBps: number) => ({
+  feeUsd: notionalUsd * TAKER_FEES[dexType],
+  slippageUsd: notionalUsd * slippageBps / 10_000,
+});
+
+/**
+ * Decide whether a position should flip (or close, per policy) one of its legs.
+ * Pure - shared by the live funding engine and the backtester. A leg is only acted on when:
+ * - the position has not used up `maxFlipsPerDay`
+ * - it has been held for at least `minHoldHours`
+ * - the current and expected rates are both beyond the `rateBandHourly` band against it,
+ *   so a flip is not undone by the next small move back across zero
+ * - the venues involved are in `allowedVenues` and a flip stays within `maxNotionalPerFlip`
+ * - the funding improvement projected over `horizonHours` exceeds the fees and slippage of the orders
+ */
+export function evaluateRebalance(params: {
+  legs: DecisionLeg[];
+  rates: Map<number, DecisionRate>; // By leg id, missing when unavailable
+  policy: RebalancePolicy;
+  now: Date;
+  flipsInLastDay: number;
+}): { decision: RebalanceDecision | null; skipped: DecisionSkip[] } {
+  const { legs, rates, policy, now } = params;
+  const skipped: DecisionSkip[] = [];
+
+  if (policy.maxFlipsPerDay !== null && params.flipsInLastDay >= policy.maxFlipsPerDay) {
+    skipped.push({ legId: null, reason: `reached the limit of ${policy.maxFlipsPerDay} flips per day` });
+    return { decision: null, skipped };
+  }
+
+  for (const leg of legs) {
+    // We only care about perpetual legs, not spot
+    if (leg.side === 'spot') {
+      continue;
+    }
+
+    const heldHours = (now.getTime() - leg.openedAt.getTime()) / 3_600_000;
+    if (heldHours < policy.minHoldHours) {
+      skipped.push({ legId: leg.id, reason: `held for ${heldHours.toFixed(2)}h, below minimum hold of ${policy.minHoldHours}h` });
+      continue;
+    }
+
+    // Closing trades every leg, flipping only this one
+    const otherLegs = legs.filter(other => other.id !== leg.id);
+    const venues = policy.onUnfavorable === 'close'
+      ? [leg.dexType, ...otherLegs.map(other => other.dexType)]
+      : [leg.dexType];
+    if (policy.allowedVenues && venues.some(venue => !policy.allowedVenues!.includes(venue))) {
+      skipped.push({ legId: leg.id, reason: 'venue not allowed by policy' });
+      continue;
+    }
+
+    const rate = rates.get(leg.id);
+    if (!rate) {
+      continue;
+    }
+
+    // Positive funding: longs pay shorts. Express both rates as what this leg pays per hour.
+    const direction = leg.side === 'long' ? 1 : -1;
+    const expectedRate = rate.predictedHourly ?? rate.currentHourly;
+    const currentPaid = rate.currentHourly * direction;
+    const expectedPaid = expectedRate * direction;
+
+    if (currentPaid <= policy.rateBandHourly || expectedPaid <= policy.rateBandHourly) {
+      continue;
+    }
+
+    const notional = legNotionalUsd(leg);
+
+    if (policy.onUnfavorable === 'flip' && policy.maxNotionalPerFlip !== null && notional > policy.maxNotionalPerFlip) {
+      skipped.push({ legId: leg.id, reason: `notional ${notional.toFixed(2)} above policy limit of ${policy.maxNotionalPerFlip}` });
+      continue;
+    }
+
+    // Flipping turns paying `expectedPaid` into receiving it; closing only stops paying it
+    const projectedGainUsd = (policy.onUnfavorable === 'flip' ? 2 : 1) * expectedPaid * policy.horizonHours * notional;
+    // Flip: close and reopen on the same venue. Close: one market order per leg.
+    const orders = policy.onUnfavorable === 'flip'
+      ? [leg, leg]
+      : [leg, ...otherLegs];
+    const estimatedCostUsd = orders.reduce((cost, order) => {
+      const { feeUsd, slippageUsd } = orderCostUsd(order.dexType, legNotionalUsd(order), policy.slippageBps);
+      return cost + feeUsd + slippageUsd;
+    }, 0);
+
+    if (projectedGainUsd <= estimatedCostUsd) {
+      skipped.push({
+        legId: leg.id,
+        reason: `projected funding ${projectedGainUsd.toFixed(2)} over ${policy.horizonHours}h does not cover ${estimatedCostUsd.toFixed(2)} of costs`,
+      });
+      continue;
+    }
+
+    return {
+      decision: {
+        legId: leg.id,
+        action: policy.onUnfavorable,
+        currentFundingRate: rate.currentHourly,
+        expectedFundingRate: expectedRate,
+        projectedGainUsd,
+        estimatedCostUsd,
+      },
+      skipped,
+    };
+  }
+
+  return { decision: null, skipped };
+}
+
+export interface FundingCloseDecision {
+  legId: number;
+  reason: 'unfavorable_funding_long' | 'unfavorable_funding_short';
+  fundingRate: number;
+}
+
+/**
+ * The funding monitor's close rule: close the position as soon as a leg pays funding, i.e. a long
+ * with a positive rate or a short with a negative one. Pure - shared by the funding monitor and the backtester.
+ */
+export function evaluateFundingClose(
+  legs: Array<Pick<DecisionLeg, 'id' | 'side'>>,
+  rates: Map<number, number> // Current hourly rate by leg id, missing when unavailable
+): FundingCloseDecision | null {
+  for (const leg of legs) {
+    const fundingRate = rates.get(leg.id);
+    if (fundingRate === undefined) {
+      continue;
+    }
+
+    if (fundingRate > 0 && leg.side === 'long') {
+      return { legId: leg.id, reason: 'unfavorable_funding_long', fundingRate };
+    }
+    if (fundingRate < 0 && leg.side === 'short') {
+      return { legId: leg.id, reason: 'unfavorable_funding_short', fundingRate };
+    }
+  }
+
+  return null;
+}
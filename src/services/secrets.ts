@@ -5,7 +5,7 @@ const ssmClient = new SSMClient({ region: process.env.AWS_REGION || 'us-east-1'
 export class SecretsService {
   private static cache = new Map<string, string>();
   
-  static async getSecret(name: string): Promise<string> {
+  static async getSecret(name: string, decrypt = false): Promise<string> {
     // Check cache first
     if (this.cache.has(name)) {
       return this.cache.get(name)!;
@@ -14,7 +14,7 @@ export class SecretsService {
     try {
       const command = new GetParameterCommand({
         Name: `/magnolia/${name}`,
-        WithDecryption: false // Free tier doesn't include encryption
+        WithDecryption: decrypt // Only SecureString parameters need decryption
       });
       
       const response = await ssmClient.send(command);
@@ -0,0 +1,50 @@
+import { DatabaseRepository } from '@/db/repository';
+import { strategyPolicies } from '@/db/schema';
+import { getDefaultRebalancePolicy, RebalancePolicy } from '@/config/rebalance.config';
+import { DexType } from '@/types/exchange';
+
+type StrategyPolicyRow = typeof strategyPolicies.$inferSelect;
+
+/**
+ * Strategy Policy Service
+ *
+ * Resolves the rules the funding engine, delta monitor and liquidation risk monitor apply to a position:
+ * engine defaults, overridden by the user's policy, overridden by a policy attached to the position.
+ * Null columns fall through to the next layer.
+ */
+export class StrategyPolicyService {
+  private db: DatabaseRepository;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+  }
+
+  async resolvePolicy(userId: number, positionId: number): Promise<RebalancePolicy> {
+    const [userPolicy, positionPolicy] = await Promise.all([
+      this.db.getStrategyPolicyForScope(userId, null),
+      this.db.getStrategyPolicyForScope(userId, positionId),
+    ]);
+
+    return [userPolicy, positionPolicy].reduce(
+      (policy, row) => (row ? this.applyOverrides(policy, row) : policy),
+      getDefaultRebalancePolicy()
+    );
+  }
+
+  private applyOverrides(policy: RebalancePolicy, row: StrategyPolicyRow): RebalancePolicy {
+    return {
+      rateBandHourly: row.rateBandHourly !== null ? Number(row.rateBandHourly) : policy.rateBandHourly,
+      horizonHours: row.horizonHours !== null ? Number(row.horizonHours) : policy.horizonHours,
+      minHoldHours: row.minHoldHours !== null ? Number(row.minHoldHours) : policy.minHoldHours,
+      slippageBps: row.slippageBps !== null ? Number(row.slippageBps) : policy.slippageBps,
+      maxFlipsPerDay: row.maxFlipsPerDay ?? policy.maxFlipsPerDay,
+      maxNotionalPerFlip: row.maxNotionalPerFlip !== null ? Number(row.maxNotionalPerFlip) : policy.maxNotionalPerFlip,
+      allowedVenues: (row.allowedVenues as DexType[] | null) ?? policy.allowedVenues,
+      onUnfavorable: row.onUnfavorable ?? policy.onUnfavorable,
+      deltaTolerance: row.deltaTolerance !== null ? Number(row.deltaTolerance) : policy.deltaTolerance,
+      deltaCorrection: row.deltaCorrection ?? policy.deltaCorrection,
+      minLiquidationDistance: row.minLiquidationDistance !== null ? Number(row.minLiquidationDistance) : policy.minLiquidationDistance,
+      onLiquidationRisk: row.onLiquidationRisk ?? policy.onLiquidationRisk,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import axios, { AxiosInstance } from 'axios';
+import { ApiError, ErrorCode } from '@/types/common';
+import { SecretsService } from '@/services/secrets';
+import { logger } from '@/utils/logger';
+
+/**
+ * The parts of a Bot API update the bot reads
+ */
+export interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    message_id: number;
+    text?: string;
+    chat: { id: number; type: string };
+    from?: { id: number; username?: string };
+  };
+}
+
+/**
+ * Telegram Bot API Client
+ *
+ * Sends messages from the Magnolia bot and manages its webhook. The token comes from
+ * TELEGRAM_TOKEN, or the /magnolia/telegram_token parameter under Lambda. TELEGRAM_API_URL
+ * points the client at another Bot API server, e.g. a local stub.
+ */
+export class TelegramService {
+  private httpClient: AxiosInstance;
+  private botUsername?: string;
+
+  constructor(baseUrl: string = process.env.TELEGRAM_API_URL || 'https://api.telegram.org') {
+    this.httpClient = axios.create({
+      baseURL: baseUrl,
+      timeout: 10000,
+      headers: { 'Content-Type': 'application/json' },
+      validateStatus: (status) => status < 500, // The Bot API explains 4xx errors in the body
+    });
+  }
+
+  /**
+   * Send a plain text message to a chat
+   */
+  async sendMessage(chatId: string, text: string): Promise<void> {
+    await this.call('sendMessage', {
+      chat_id: chatId,
+      text,
+      disable_web_page_preview: true,
+    });
+  }
+
+  /**
+   * The bot's username, used to build t.me links
+   */
+  async getBotUsername(): Promise<string> {
+    if (!this.botUsername) {
+      const me = await this.call<{ username: string }>('getMe');
+      this.botUsername = me.username;
+    }
+    return this.botUsername;
+  }
+
+  /**
+   * Have Telegram deliver updates to url, signed with secretToken in X-Telegram-Bot-Api-Secret-Token
+   */
+  async setWebhook(url: string, secretToken: string): Promise<void> {
+    await this.call('setWebhook', {
+      url,
+      secret_token: secretToken,
+      allowed_updates: ['message'],
+    });
+  }
+
+  private async call<T = unknown>(method: string, body?: Record<string, unknown>): Promise<T> {
+    const token = await this.getToken();
+
+    try {
+      const response = await this.httpClient.post(`/bot${token}/${method}`, body || {});
+
+      if (!response.data?.ok) {
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Telegram ${method} failed: ${response.data?.description || `HTTP ${response.status}`}`,
+          502
+        );
+      }
+
+      return response.data.result as T;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        // The request URL contains the token, so only the status is logged
+        logger.error(`Telegram ${method} request failed`, { status: error.response?.status });
+        throw new ApiError(
+          ErrorCode.EXTERNAL_API_ERROR,
+          `Telegram ${method} request failed`,
+          502,
+          { status: error.response?.status }
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async getToken(): Promise<string> {
+    const token = process.env.TELEGRAM_TOKEN || await SecretsService.getSecret('telegram_token');
+    if (!token) {
+      throw new ApiError(ErrorCode.SERVICE_UNAVAILABLE, 'Telegram bot token is not configured', 503);
+    }
+    return token;
+  }
+}
@@ -0,0 +1,187 @@
+import { DatabaseRepository } from '@/db/repository';
+import { positionSnapshots, positionValuations } from '@/db/schema';
+import { DriftService } from '@/services/drift';
+import { HyperliquidService } from '@/services/hyperliquid';
+import { LighterService } from '@/services/lighter';
+import { getExchangeAdapter } from '@/services/exchanges/registry';
+import { MarketRef } from '@/types/exchange';
+import { LegValuation } from '@/types/valuation';
+import { logger } from '@/utils/logger';
+
+type Snapshot = typeof positionSnapshots.$inferSelect;
+
+/**
+ * Mark prices fetched once per run and shared by every leg on the same venue
+ */
+class MarkPriceCache {
+  private hyperliquid?: Promise<Map<number, { markPx: number }>>;
+  private hyperliquidSpot?: Promise<Map<number, { markPx: number; midPx: number }>>;
+  private drift?: Promise<Map<number, number>>;
+  private lighter = new Map<number, Promise<number | null>>();
+
+  constructor(
+    private hyperliquidService: HyperliquidService,
+    private driftService: DriftService,
+    private lighterService: LighterService
+  ) {}
+
+  async getMark(snapshot: Snapshot, market: MarketRef): Promise<number | null> {
+    switch (snapshot.dexType) {
+      case 'hyperliquid': {
+        if (market.assetId === undefined) {
+          return null;
+        }
+
+        // Spot asset ids (10000 + index) are not in the perp contexts
+        if (market.assetId >= 10000) {
+          this.hyperliquidSpot ??= this.hyperliquidService.getSpotAssetPrices();
+          const spot = (await this.hyperliquidSpot).get(market.assetId);
+          return spot?.markPx || spot?.midPx || null;
+        }
+
+        this.hyperliquid ??= this.hyperliquidService.getAssetPrices();
+        return (await this.hyperliquid).get(market.assetId)?.markPx || null;
+      }
+
+      case 'drift': {
+        this.drift ??= this.driftService.getOraclePrices();
+        return market.marketIndex !== undefined ? (await this.drift).get(market.marketIndex) ?? null : null;
+      }
+
+      case 'lighter': {
+        if (market.marketId === undefined) {
+          return null;
+        }
+        if (!this.lighter.has(market.marketId)) {
+          this.lighter.set(market.marketId, this.lighterMid(market.marketId));
+        }
+        return await this.lighter.get(market.marketId)!;
+      }
+    }
+  }
+
+  /**
+   * Mid of the best bid and ask on the Lighter order book
+   */
+  private async lighterMid(marketId: number): Promise<number | null> {
+    const { bids, asks } = await this.lighterService.getOrderBookOrders(marketId, 1);
+    const bid = bids[0] ? parseFloat(bids[0].price) : NaN;
+    const ask = asks[0] ? parseFloat(asks[0].price) : NaN;
+
+    if (Number.isFinite(bid) && Number.isFinite(ask)) {
+      return (bid + ask) / 2;
+    }
+    const price = Number.isFinite(bid) ? bid : ask;
+    return Number.isFinite(price) ? price : null;
+  }
+}
+
+/**
+ * Position Valuation Service
+ *
+ * Marks every open position to market and appends a row to position_valuations with per-leg
+ * unrealized PnL, the position's net USD delta and the funding attributed to it so far.
+ * Marks come from Hyperliquid perp and spot asset contexts, Drift oracle prices and the Lighter order book mid.
+ * Entry snapshots are never modified; positions.totalPnl is set to unrealized PnL plus net funding.
+ */
+export class PositionValuationService {
+  private db: DatabaseRepository;
+  private hyperliquidService: HyperliquidService;
+  private driftService: DriftService;
+  private lighterService: LighterService;
+
+  constructor() {
+    this.db = new DatabaseRepository();
+    this.hyperliquidService = new HyperliquidService();
+    this.driftService = new DriftService();
+    this.lighterService = new LighterService();
+  }
+
+  async valueOpenPositions(): Promise<{ positions: number; valued: number; unpriced: number; failed: number }> {
+    const positions = await this.db.getOpenPositions();
+    const funding = new Map(
+      (await this.db.getNetFundingByPosition(positions.map(position => position.id)))
+        .map(row => [row.positionId, parseFloat(row.amount)])
+    );
+    const marks = new MarkPriceCache(this.hyperliquidService, this.driftService, this.lighterService);
+    const valuedAt = new Date();
+
+    const result = { positions: positions.length, valued: 0, unpriced: 0, failed: 0 };
+    const rows: Array<typeof positionValuations.$inferInsert> = [];
+
+    for (const position of positions) {
+      try {
+        const legs = await this.valueLegs(await this.db.getPositionSnapshots(position.id), marks);
+        if (!legs) {
+          result.unpriced++;
+          continue;
+        }
+
+        const unrealizedPnl = legs.reduce((total, leg) => total + leg.unrealizedPnl, 0);
+        const fundingPnl = funding.get(position.id) || 0;
+
+        rows.push({
+          positionId: position.id,
+          userId: position.userId,
+          unrealizedPnl: unrealizedPnl.toString(),
+          fundingPnl: fundingPnl.toString(),
+          netDelta: legs.reduce((total, leg) => total + leg.delta, 0).toString(),
+          grossNotional: legs.reduce((total, leg) => total + leg.notional, 0).toString(),
+          legs,
+          valuedAt,
+        });
+
+        await this.db.updatePosition(position.id, { totalPnl: (unrealizedPnl + fundingPnl).toString() });
+        result.valued++;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to value position ${position.id}`, {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    await this.db.insertPositionValuations(rows);
+
+    return result;
+  }
+
+  /**
+   * Value every leg at its venue mark. Returns null when any leg has no mark,
+   * so partial valuations are never stored.
+   */
+  private async valueLegs(snapshots: Snapshot[], marks: MarkPriceCache): Promise<LegValuation[] | null> {
+    const legs: LegValuation[] = [];
+
+    for (const snapshot of snapshots) {
+      const market = getExchangeAdapter(snapshot.dexType).resolveMarket(snapshot);
+      const markPrice = await marks.getMark(snapshot, market);
+      if (markPrice === null) {
+        logger.warn(`No mark price for ${snapshot.dexType} ${snapshot.symbol}`, {
+          positionId: snapshot.positionId,
+          snapshotId: snapshot.id,
+        });
+        return null;
+      }
+
+      const size = parseFloat(snapshot.size);
+      const entryPrice = parseFloat(snapshot.entryPrice);
+      const sign = snapshot.side === 'short' ? -1 : 1;
+
+      legs.push({
+        snapshotId: snapshot.id,
+        dexType: snapshot.dexType,
+        symbol: snapshot.symbol,
+        side: snapshot.side,
+        size,
+        entryPrice,
+        markPrice,
+        notional: size * markPrice,
+        delta: sign * size * markPrice,
+        unrealizedPnl: sign * size * (markPrice - entryPrice),
+      });
+    }
+
+    return legs;
+  }
+}
@@ -0,0 +1,67 @@
+import { RebalancePolicy } from '@/config/rebalance.config';
+import { DexType } from './exchange';
+
+/**
+ * One hour of funding history for a venue and asset.
+ * Rates are hourly decimals; positive means longs pay shorts.
+ */
+export interface FundingSample {
+  time: Date; // Start of the hour
+  dexType: DexType;
+  asset: string;
+  hourlyRate: number;
+  predictedHourlyRate: number | null;
+  markPrice: number | null;
+}
+
+/**
+ * A position and policy to replay over funding history
+ */
+export interface BacktestStrategy {
+  name: string;
+  asset: string;
+  notionalUsd: number; // Per leg, sized at the first available price
+  legs: Array<{
+    dexType: DexType;
+    side: 'long' | 'short';
+  }>;
+  policy?: Partial<RebalancePolicy>; // Overrides on top of the engine defaults
+  fundingMonitorClose?: boolean; // Also apply the funding monitor's close rule (close when any leg pays funding)
+}
+
+export interface BacktestAction {
+  time: string;
+  source: 'engine' | 'funding_monitor'; // The decision rule that acted
+  action: RebalancePolicy['onUnfavorable'];
+  dexType: DexType;
+  side: 'long' | 'short'; // Side of the leg before the action
+  currentFundingRate: number;
+  expectedFundingRate: number;
+  costUsd: number;
+}
+
+export interface BacktestResult {
+  name: string;
+  asset: string;
+  policy: RebalancePolicy;
+  openedAt: string | null; // null when no hour had a price for every leg
+  closedAt: string | null; // Set when the policy closed the position
+  hours: number; // Hours the position was held
+  pnlUsd: number; // fundingUsd + pricePnlUsd - feesUsd - slippageUsd
+  fundingUsd: number; // Positive = received
+  feesUsd: number;
+  slippageUsd: number;
+  pricePnlUsd: number; // Realized on flips and closes, plus unrealized at the last price
+  flips: number;
+  maxDrawdownUsd: number; // Largest drop in equity from a previous peak
+  maxDrawdownPct: number;
+  actions: BacktestAction[];
+}
+
+export interface BacktestReport {
+  generatedAt: string;
+  source: 'fixture' | 'database';
+  from: string | null;
+  to: string | null;
+  results: BacktestResult[];
+}
@@ -47,6 +47,7 @@ export enum ErrorCode {
   INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
   ORDER_REJECTED = 'ORDER_REJECTED',
   NOT_IMPLEMENTED = 'NOT_IMPLEMENTED',
+  EXTERNAL_API_ERROR = 'EXTERNAL_API_ERROR',
 }
 
 export class ApiError extends Error {
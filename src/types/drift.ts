@@ -59,6 +59,33 @@ export interface DriftOrder {
   rawParams?: any;
 }
 
+// An order resting in the user account's on-chain order slots
+export interface DriftOpenOrder {
+  orderId: number;
+  userOrderId: number;
+  marketIndex: number;
+  baseAssetAmount: number;
+  baseAssetAmountFilled: number;
+  quoteAssetAmountFilled: number;
+}
+
+// A fill from the data API /user/{account}/trades endpoint, seen from the user account's side
+export interface DriftTradeRecord {
+  ts: number; // Unix seconds
+  txSig: string;
+  fillRecordId: string; // Sequential per market
+  marketIndex: number;
+  marketType: string; // perp, spot
+  symbol: string; // e.g. "SOL-PERP"
+  orderId: number; // The user's order on this side of the fill
+  direction: 'long' | 'short';
+  baseAssetAmountFilled: string;
+  quoteAssetAmountFilled: string;
+  fee: string; // USDC, positive when paid, negative for maker rebates
+  oraclePrice: string;
+  isTaker: boolean;
+}
+
 // Schemas
 export const DriftOrderSchema = z.object({
   driftOrderId: z.string().optional(),
@@ -0,0 +1,75 @@
+import { dexTypeEnum } from '@/db/schema';
+import { RequestContext } from './common';
+
+export type DexType = typeof dexTypeEnum.enumValues[number];
+
+/**
+ * Venue-agnostic market reference.
+ * Each adapter reads the identifier it needs and ignores the others.
+ */
+export interface MarketRef {
+  symbol: string; // e.g. "ETH", "ETH-PERP"
+  marketType: 'perp' | 'spot';
+  assetId?: number; // Hyperliquid asset index (spot = 10000 + index)
+  marketIndex?: number; // Drift market index
+  marketId?: number; // Lighter market id
+}
+
+export interface PlaceOrderParams {
+  market: MarketRef;
+  side: 'buy' | 'sell';
+  size: string;
+  orderType: 'market' | 'limit';
+  price?: string;
+  reduceOnly?: boolean;
+}
+
+export interface PlacedOrder {
+  dexType: DexType;
+  orderId?: number; // Our order record id (hyperliquid_orders / drift_orders / lighter_orders)
+  exchangeOrderId?: string; // Order id on the venue
+  status: 'filled' | 'open' | 'pending';
+  fillPrice?: string;
+  filledSize?: string;
+  raw: any;
+}
+
+export interface CancelOrderParams {
+  market: MarketRef;
+  orderId?: number; // Our order record id
+  exchangeOrderId?: string;
+}
+
+export interface ClosePositionParams {
+  market: MarketRef;
+  size?: string; // Closes the entire position when omitted
+}
+
+export interface ExchangePosition {
+  market: MarketRef;
+  side: 'long' | 'short';
+  size: string; // Absolute size in base units
+  entryPrice: string;
+  markPrice?: string;
+  unrealizedPnl?: string;
+  liquidationPrice?: string;
+}
+
+/**
+ * Common contract implemented by every venue (Hyperliquid, Drift, Lighter)
+ */
+export interface ExchangeAdapter {
+  readonly dexType: DexType;
+
+  /** Build a MarketRef from a stored leg (symbol + snapshot metadata), applying request overrides */
+  resolveMarket(leg: { symbol: string; metadata?: any }, override?: Partial<MarketRef>): MarketRef;
+
+  placeOrder(ctx: RequestContext, dexAccountId: number, params: PlaceOrderParams): Promise<PlacedOrder>;
+  cancelOrder(ctx: RequestContext, dexAccountId: number, params: CancelOrderParams): Promise<void>;
+  closePosition(ctx: RequestContext, dexAccountId: number, params: ClosePositionParams): Promise<any>;
+  getPosition(ctx: RequestContext, dexAccountId: number, market: MarketRef): Promise<ExchangePosition | null>;
+
+  /** Current funding rate per hour as a decimal (0.0001 = 0.01%/h), null when unavailable */
+  getFundingRate(market: MarketRef): Promise<number | null>;
+  getMarkPrice(market: MarketRef): Promise<number | null>;
+}
@@ -0,0 +1,86 @@
+import { DexType, MarketRef, PlacedOrder } from './exchange';
+
+/**
+ * One leg of a multi-leg execution
+ */
+export interface LegOrder {
+  dexType: DexType;
+  dexAccountId: number;
+  market: MarketRef;
+  side: 'buy' | 'sell';
+  size: string;
+  reduceOnly?: boolean;
+  // Set when the leg was already executed elsewhere (e.g. a Lighter order signed on the frontend).
+  // The coordinator records it instead of placing it, and still reverses it on unwind.
+  prefilled?: {
+    fillPrice: string;
+    filledSize?: string;
+  };
+}
+
+export interface ExecutedLeg {
+  order: LegOrder;
+  placed?: PlacedOrder; // Missing for prefilled legs
+  fillPrice: string;
+  filledSize: string;
+}
+
+export type ExecutionStepAction = 'record' | 'place' | 'verify' | 'cancel' | 'unwind';
+
+export interface ExecutionStep {
+  leg: number; // Index into the requested legs
+  action: ExecutionStepAction;
+  status: 'ok' | 'failed' | 'skipped';
+  at: string; // ISO timestamp
+  orderId?: number;
+  exchangeOrderId?: string;
+  size?: string;
+  fillPrice?: string;
+  detail?: string;
+}
+
+export type ExecutionStatus = 'completed' | 'failed' | 'unwound' | 'unwind_failed';
+
+export interface LegExecutionResult {
+  executionId: number;
+  status: ExecutionStatus;
+  legs: ExecutedLeg[]; // Filled legs, in request order (complete only when status is 'completed')
+  steps: ExecutionStep[];
+  error?: string;
+}
+
+/**
+ * An order the funding engine would place, priced for a dry run
+ */
+export interface SimulatedOrder extends LegOrder {
+  referencePrice: number | null; // Current mark price, falling back to the leg's last known price
+  notionalUsd: number | null;
+  estimatedFeeUsd: number | null;
+  estimatedSlippageUsd: number | null;
+}
+
+/**
+ * What a rebalance would do to a position, without submitting anything
+ */
+export interface SimulatedRebalance {
+  positionId: number;
+  userId: number;
+  action: 'flip' | 'close';
+  currentFundingRate: number;
+  expectedFundingRate: number;
+  projectedGainUsd: number;
+  estimatedCostUsd: number;
+  orders: SimulatedOrder[]; // In the order they would be placed
+  totalFeeUsd: number;
+  totalSlippageUsd: number;
+  postTrade: {
+    legs: Array<{
+      snapshotId: number;
+      dexType: DexType;
+      symbol: string;
+      side: 'long' | 'short' | 'spot';
+      size: string;
+    }>;
+    netSize: number; // Long and spot minus short, in base units - 0 when fully hedged
+  };
+}
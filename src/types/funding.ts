@@ -0,0 +1,101 @@
+import { DexType, MarketRef } from './exchange';
+
+export const HOURS_PER_YEAR = 24 * 365;
+
+/**
+ * Funding rate for one market, normalized so venues can be compared directly.
+ * Rates are decimals (0.0001 = 0.01%); positive means longs pay shorts.
+ */
+export interface NormalizedFundingRate {
+  dexType: DexType;
+  asset: string; // Base asset, e.g. "ETH"
+  market: MarketRef;
+  currentHourly: number;
+  predictedHourly: number | null; // null when the venue publishes no prediction
+  currentApr: number;
+  predictedApr: number | null;
+  markPrice: number | null; // Venue mark price when it is published with the rate
+  fundingIntervalHours: number; // How often the venue settles funding
+  timestamp: Date; // When the current rate was observed
+  nextFundingTime: Date | null;
+  source: string; // Venue endpoint the rate was read from
+}
+
+export interface FundingRateFilter {
+  dexTypes?: DexType[];
+  assets?: string[];
+}
+
+export const FUNDING_RATE_BUCKETS = {
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+  '8h': 8 * 60 * 60,
+  '1d': 24 * 60 * 60,
+} as const;
+
+export type FundingRateBucket = keyof typeof FUNDING_RATE_BUCKETS;
+
+/**
+ * Average funding for one venue and asset over a history bucket
+ */
+export interface FundingRateBucketPoint {
+  bucketStart: string;
+  dexType: DexType;
+  asset: string;
+  avgHourlyRate: number;
+  minHourlyRate: number;
+  maxHourlyRate: number;
+  avgApr: number;
+  samples: number;
+}
+
+/**
+ * Widest venue spread for an asset within a bucket: short the high venue, long the low one
+ */
+export interface FundingSpreadPoint {
+  bucketStart: string;
+  asset: string;
+  highDex: DexType;
+  lowDex: DexType;
+  spreadHourly: number;
+  spreadApr: number;
+}
+
+export interface FundingOpportunityLeg {
+  dexType: DexType;
+  market: MarketRef;
+  side: 'long' | 'short';
+  currentHourly: number;
+  expectedHourly: number; // Predicted rate when the venue publishes one, otherwise current
+  expectedApr: number;
+  takerFee: number;
+  openInterestUsd: number | null;
+  depthUsd: number | null; // Liquidity on the side this leg takes, within the depth band
+}
+
+/**
+ * Long the low-funding venue, short the high-funding venue for the same asset
+ */
+export interface FundingOpportunity {
+  asset: string;
+  long: FundingOpportunityLeg;
+  short: FundingOpportunityLeg;
+  spreadHourly: number;
+  spreadApr: number;
+  feeCost: number; // Round-trip taker fees on both legs, as a fraction of notional
+  netApr: number; // spreadApr minus fees amortized over the holding period
+  suggestedPosition: {
+    name: string;
+    asset: string;
+    fundingOptimizationEnabled: boolean;
+    legs: Array<{
+      dexType: DexType;
+      marketType: 'perp';
+      symbol: string;
+      side: 'long' | 'short';
+      assetId?: number;
+      marketIndex?: number;
+      marketId?: number;
+    }>;
+  };
+}
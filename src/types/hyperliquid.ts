@@ -214,6 +214,7 @@ export interface HyperliquidResponse<T = any> {
 
 export interface OrderResponse {
   statuses: OrderStatus[];
+  dbOrderIds?: number[]; // hyperliquid_orders ids, in the same order as statuses
 }
 
 export interface CancelResponse {
@@ -222,6 +223,41 @@ export interface CancelResponse {
   }>;
 }
 
+// Info API entries for a user's orders (orderStatus, historicalOrders)
+export interface HistoricalOrder {
+  order: {
+    coin: string;
+    side: string;
+    limitPx: string;
+    sz: string; // Remaining size
+    origSz: string;
+    oid: number;
+    cloid?: string | null;
+    timestamp: number;
+  };
+  status: string; // open, filled, canceled, triggered, rejected, marginCanceled, ...
+  statusTimestamp: number;
+}
+
+// Info API userFills / userFillsByTime entry
+export interface UserFill {
+  coin: string;
+  px: string;
+  sz: string;
+  side: 'B' | 'A';
+  time: number;
+  startPosition: string;
+  dir: string; // e.g. "Open Long", "Close Short"
+  closedPnl: string;
+  hash: string;
+  oid: number;
+  crossed: boolean; // True when the fill took liquidity
+  fee: string;
+  tid: number;
+  feeToken: string;
+  cloid?: string | null;
+}
+
 // Validation Schemas
 export const OrderRequestSchema = z.object({
   asset: z.string().optional(), // Asset symbol for backward compatibility
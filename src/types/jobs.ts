@@ -0,0 +1,29 @@
+import { jobRunStatusEnum, jobTriggerEnum } from '@/db/schema';
+
+export type JobTrigger = typeof jobTriggerEnum.enumValues[number];
+export type JobRunStatus = typeof jobRunStatusEnum.enumValues[number];
+
+/**
+ * What a job run did to one position
+ */
+export interface JobPositionOutcome {
+  positionId: number;
+  userId: number;
+  status: 'unchanged' | 'skipped' | 'simulated' | 'rebalanced' | 'closed' | 'failed';
+  action?: 'flip' | 'close' | 'reduce' | 'add' | 'top_up' | 'deleverage'; // reduce / add: delta drift; top_up / deleverage: liquidation risk
+  executionId?: number; // Leg execution holding the orders, when any were placed
+  fundingRate?: number;
+  netExposure?: number; // Net base units across the legs, for delta drift checks
+  liquidationDistance?: number; // Closest leg's distance to liquidation as a share of its mark, for liquidation risk checks
+  reasons?: string[]; // Why the engine left the position alone or skipped it
+  error?: string;
+}
+
+/**
+ * Returned by a job runner and stored on its job run
+ */
+export interface JobRunReport {
+  dryRun?: boolean;
+  summary?: Record<string, unknown>;
+  positionOutcomes?: JobPositionOutcome[];
+}
@@ -0,0 +1,17 @@
+/**
+ * Kinds of alert sent to a user's linked Telegram chat
+ */
+export type AlertType =
+  | 'fill' // New fills on orders that opened a position's legs
+  | 'rebalance' // Automated correction of a position, e.g. delta drift
+  | 'funding_flip' // Funding engine flipped or closed legs on unfavorable funding
+  | 'leg_failed' // An execution failed, was unwound, or could not be unwound
+  | 'liquidation_risk'; // A leg is closer to liquidation than its policy allows
+
+/**
+ * Telegram link status of a user
+ */
+export interface TelegramLinkStatus {
+  linked: boolean;
+  username: string | null;
+}
@@ -0,0 +1,41 @@
+import { DexType } from './exchange';
+
+/**
+ * Mark-to-market of one position leg, stored in position_valuations.legs
+ */
+export interface LegValuation {
+  snapshotId: number;
+  dexType: DexType;
+  symbol: string;
+  side: 'long' | 'short' | 'spot';
+  size: number; // Absolute size in base units
+  entryPrice: number;
+  markPrice: number;
+  notional: number; // USD at the mark
+  delta: number; // USD, negative for short legs
+  unrealizedPnl: number; // USD
+}
+
+export const PNL_HISTORY_INTERVALS = {
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+  '1d': 24 * 60 * 60,
+} as const;
+
+export type PnlHistoryInterval = keyof typeof PNL_HISTORY_INTERVALS;
+
+/**
+ * Cumulative PnL at the end of one history bucket. All values are USD.
+ */
+export interface PnlHistoryPoint {
+  timestamp: string; // Bucket start
+  unrealizedPnl: number; // Latest mark-to-market in or before the bucket
+  realizedPnl: number; // Venue-reported closed PnL of the legs' fills
+  funding: number; // Net funding, positive = received
+  fees: number; // Trading fees paid in USDC
+  totalPnl: number; // unrealizedPnl + realizedPnl + funding - fees
+  netDelta: number;
+  grossNotional: number;
+}
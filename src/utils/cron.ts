@@ -0,0 +1,128 @@
+/**
+ * Minimal 5-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC.
+ * Supports `*`, lists (`1,15`), ranges (`1-5`) and steps (`*\/15`, `5-55/10`).
+ * As in standard cron, when both day fields are restricted a day matching either one fires.
+ */
+
+interface CronField {
+  values: Set<number>;
+  restricted: boolean; // False for `*`
+}
+
+export interface CronSchedule {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 6], // day of week, Sunday = 0 (7 is accepted as Sunday)
+];
+
+// Far enough to find any valid date (e.g. 29 February), short enough to reject impossible ones
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(field: string, index: number, expression: string): CronField {
+  const [min, max] = FIELD_RANGES[index];
+  const upper = index === 4 ? 7 : max;
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText !== undefined ? Number(stepText) : 1;
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      end = stepText !== undefined ? max : start;
+    }
+
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > upper || start > end) {
+      throw new Error(`Invalid cron field "${field}" in "${expression}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+
+  return { values, restricted: field !== '*' };
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, index) => parseField(field, index, expression));
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.dayOfMonth.values.has(date.getUTCDate());
+  const dowMatch = schedule.dayOfWeek.values.has(date.getUTCDay());
+
+  if (schedule.dayOfMonth.restricted && schedule.dayOfWeek.restricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * First time strictly after `after` that matches the schedule
+ */
+export function nextCronTime(expression: string | CronSchedule, after: Date = new Date()): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (next.getTime() <= limit) {
+    if (!schedule.month.values.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hour.values.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minute.values.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error('Cron expression never matches');
+}
+
+/**
+ * Whether the schedule fires in the minute containing `at`
+ */
+export function matchesCron(expression: string | CronSchedule, at: Date): boolean {
+  const minuteStart = new Date(at.getTime());
+  minuteStart.setUTCSeconds(0, 0);
+  return nextCronTime(expression, new Date(minuteStart.getTime() - 1)).getTime() === minuteStart.getTime();
+}
@@ -0,0 +1,272 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { DatabaseRepository } from '@/db/repository';
+import { NotificationService } from '@/services/notifications';
+import { TelegramService, TelegramUpdate } from '@/services/telegram';
+import { ApiError, RequestContext } from '@/types/common';
+import { MemoryRepository } from './support/memory-repository';
+import { TelegramBotApiStub } from './support/telegram-stub';
+
+const TOKEN = 'test-token';
+const CHAT_ID = 4242;
+
+function privateMessage(text: string, chatId: number = CHAT_ID): TelegramUpdate {
+  return {
+    update_id: Date.now(),
+    message: {
+      message_id: 1,
+      text,
+      chat: { id: chatId, type: 'private' },
+      from: { id: chatId, username: 'trader' },
+    },
+  };
+}
+
+function requestContext(userId: number): RequestContext {
+  return { userId, timestamp: new Date(), requestId: `test-${userId}` };
+}
+
+describe('NotificationService', () => {
+  const stub = new TelegramBotApiStub();
+  let repository: MemoryRepository;
+  let notifications: NotificationService;
+
+  before(async () => {
+    process.env.TELEGRAM_TOKEN = TOKEN;
+    process.env.TELEGRAM_API_URL = await stub.start();
+    delete process.env.ALERT_THROTTLE_MINUTES;
+  });
+
+  after(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    repository = new MemoryRepository();
+    notifications = new NotificationService();
+    // Swap the database for the in-memory repository; Telegram calls go to the stub
+    Object.assign(notifications, { db: repository as unknown as DatabaseRepository });
+  });
+
+  describe('linking', () => {
+    it('links the chat of the user who created the code on /start <code>', async () => {
+      repository.addUser({ id: 1 });
+
+      const link = await notifications.createTelegramLinkCode(requestContext(1));
+      assert.equal(link.url, `https://t.me/magnolia_test_bot?start=${link.code}`);
+      assert.equal(stub.callsTo('getMe').length, 1);
+
+      await notifications.handleTelegramUpdate(privateMessage(`/start ${link.code}`));
+
+      const user = await repository.getUser(1);
+      assert.equal(user?.telegramChatId, CHAT_ID.toString());
+      assert.equal(user?.telegramUsername, 'trader');
+      assert.equal(user?.telegramVerified, true);
+      assert.deepEqual(await notifications.getTelegramStatus(requestContext(1)), { linked: true, username: 'trader' });
+
+      const [reply] = stub.callsTo('sendMessage');
+      assert.equal(reply.token, TOKEN);
+      assert.equal(reply.body.chat_id, CHAT_ID.toString());
+      assert.match(reply.body.text, /^Connected/);
+    });
+
+    it('moves the chat to the new user when it was linked to another one', async () => {
+      repository.addUser({ id: 1, telegramChatId: CHAT_ID.toString(), telegramVerified: true });
+      repository.addUser({ id: 2 });
+
+      const link = await notifications.createTelegramLinkCode(requestContext(2));
+      await notifications.handleTelegramUpdate(privateMessage(`/start ${link.code}`));
+
+      assert.equal((await repository.getUser(1))?.telegramChatId, null);
+      assert.equal((await repository.getUser(2))?.telegramChatId, CHAT_ID.toString());
+    });
+
+    it('rejects an expired code', async () => {
+      repository.addUser({ id: 1 });
+      await repository.createTelegramLinkCode({ userId: 1, code: 'expired-code', expiresAt: new Date(Date.now() - 1000) });
+
+      await notifications.handleTelegramUpdate(privateMessage('/start expired-code'));
+
+      assert.equal((await repository.getUser(1))?.telegramVerified, false);
+      const [reply] = stub.callsTo('sendMessage');
+      assert.match(reply.body.text, /expired or was already used/);
+    });
+
+    it('rejects a code that was already used', async () => {
+      repository.addUser({ id: 1 });
+      const link = await notifications.createTelegramLinkCode(requestContext(1));
+
+      await notifications.handleTelegramUpdate(privateMessage(`/start ${link.code}`));
+      await notifications.handleTelegramUpdate(privateMessage(`/start ${link.code}`, 777));
+
+      assert.equal((await repository.getUser(1))?.telegramChatId, CHAT_ID.toString());
+      const replies = stub.callsTo('sendMessage');
+      assert.equal(replies.length, 2);
+      assert.equal(replies[1].body.chat_id, '777');
+      assert.match(replies[1].body.text, /expired or was already used/);
+    });
+
+    it('unlinks the chat on /stop', async () => {
+      repository.addUser({ id: 1, telegramChatId: CHAT_ID.toString(), telegramUsername: 'trader', telegramVerified: true });
+
+      await notifications.handleTelegramUpdate(privateMessage('/stop'));
+
+      const user = await repository.getUser(1);
+      assert.equal(user?.telegramChatId, null);
+      assert.equal(user?.telegramVerified, false);
+      assert.match(stub.callsTo('sendMessage')[0].body.text, /^Disconnected/);
+    });
+
+    it('ignores group chats', async () => {
+      repository.addUser({ id: 1, telegramChatId: CHAT_ID.toString(), telegramVerified: true });
+      const update = privateMessage('/stop');
+      update.message!.chat.type = 'group';
+
+      await notifications.handleTelegramUpdate(update);
+
+      assert.equal((await repository.getUser(1))?.telegramVerified, true);
+      assert.equal(stub.calls.length, 0);
+    });
+  });
+
+  describe('position alerts', () => {
+    beforeEach(() => {
+      repository.addUser({ id: 1, telegramChatId: CHAT_ID.toString(), telegramVerified: true });
+    });
+
+    it('sends one alert per position within the throttle window', async () => {
+      const position = repository.addPosition({ id: 10, userId: 1, name: 'ETH basis' });
+
+      assert.equal(await notifications.notifyPosition(10, 'fill', 'Bought 1 ETH'), true);
+      assert.equal(await notifications.notifyPosition(10, 'rebalance', 'Trimmed the short leg'), false);
+
+      const sent = stub.callsTo('sendMessage');
+      assert.equal(sent.length, 1);
+      assert.equal(sent[0].body.chat_id, CHAT_ID.toString());
+      assert.equal(sent[0].body.text, 'Fill: ETH basis\nBought 1 ETH');
+
+      // Once the last alert is older than the window, the next one goes out
+      position.lastAlertSentAt = new Date(Date.now() - 16 * 60 * 1000);
+      assert.equal(await notifications.notifyPosition(10, 'funding_flip', 'Funding flipped'), true);
+      assert.equal(stub.callsTo('sendMessage').length, 2);
+    });
+
+    it('sends urgent alerts within the throttle window', async () => {
+      repository.addPosition({ id: 10, userId: 1, lastAlertSentAt: new Date() });
+
+      assert.equal(await notifications.notifyPosition(10, 'liquidation_risk', 'Short leg 4% from liquidation'), true);
+      assert.equal(await notifications.notifyPosition(10, 'leg_failed', 'Hedge order rejected'), true);
+      assert.equal(await notifications.notifyPosition(10, 'fill', 'Bought 1 ETH'), false);
+
+      assert.deepEqual(
+        stub.callsTo('sendMessage').map(call => call.body.text.split(':')[0]),
+        ['Liquidation risk', 'Execution failed']
+      );
+    });
+
+    it('does not use up the throttle window when the send fails', async () => {
+      const sentAt = new Date(Date.now() - 20 * 60 * 1000);
+      repository.addPosition({ id: 10, userId: 1, lastAlertSentAt: sentAt });
+      stub.fail('sendMessage');
+
+      assert.equal(await notifications.notifyPosition(10, 'fill', 'Bought 1 ETH'), false);
+      assert.equal((await repository.getPosition(10))?.lastAlertSentAt, sentAt);
+
+      stub.reset();
+      assert.equal(await notifications.notifyPosition(10, 'fill', 'Bought 1 ETH'), true);
+      assert.equal(stub.callsTo('sendMessage').length, 1);
+    });
+
+    it('sends nothing for positions with notifications disabled', async () => {
+      repository.addPosition({ id: 10, userId: 1, notificationsEnabled: false });
+
+      assert.equal(await notifications.notifyPosition(10, 'fill', 'Bought 1 ETH'), false);
+      assert.equal(await notifications.notifyPosition(10, 'liquidation_risk', 'Short leg 4% from liquidation'), false);
+
+      assert.equal(stub.calls.length, 0);
+      assert.equal((await repository.getPosition(10))?.lastAlertSentAt, null);
+    });
+
+    it('sends nothing to users without a linked chat', async () => {
+      repository.addUser({ id: 2 });
+      repository.addPosition({ id: 20, userId: 2 });
+
+      assert.equal(await notifications.notifyPosition(20, 'liquidation_risk', 'Short leg 4% from liquidation'), false);
+      assert.equal(stub.calls.length, 0);
+    });
+  });
+});
+
+describe('TelegramService', () => {
+  const stub = new TelegramBotApiStub();
+  let telegram: TelegramService;
+
+  before(async () => {
+    process.env.TELEGRAM_TOKEN = TOKEN;
+    telegram = new TelegramService(await stub.start());
+  });
+
+  after(async () => {
+    await stub.stop();
+  });
+
+  it('registers the webhook with its secret token', async () => {
+    await telegram.setWebhook('https://api.example.com/api/telegram/webhook', 'webhook-secret');
+
+    const [call] = stub.callsTo('setWebhook');
+    assert.equal(call.token, TOKEN);
+    assert.deepEqual(call.body, {
+      url: 'https://api.example.com/api/telegram/webhook',
+      secret_token: 'webhook-secret',
+      allowed_updates: ['message'],
+    });
+  });
+
+  it('caches the bot username', async () => {
+    assert.equal(await telegram.getBotUsername(), 'magnolia_test_bot');
+    assert.equal(await telegram.getBotUsername(), 'magnolia_test_bot');
+    assert.equal(stub.callsTo('getMe').length, 1);
+  });
+});
+
+describe('telegramWebhookHandler', () => {
+  const stub = new TelegramBotApiStub();
+
+  before(async () => {
+    process.env.TELEGRAM_TOKEN = TOKEN;
+    process.env.TELEGRAM_API_URL = await stub.start();
+    process.env.TELEGRAM_WEBHOOK_SECRET = 'webhook-secret';
+  });
+
+  after(async () => {
+    delete process.env.TELEGRAM_WEBHOOK_SECRET;
+    await stub.stop();
+  });
+
+  async function callWebhook(secretHeader: string | undefined): Promise<unknown> {
+    const { telegramWebhookHandler } = await import('@/routes/telegram/webhook');
+    const req = {
+      header: (name: string) => (name.toLowerCase() === 'x-telegram-bot-api-secret-token' ? secretHeader : undefined),
+      body: { update_id: 1 },
+    } as unknown as Request;
+    const res = { json: () => undefined } as unknown as Response;
+
+    let forwarded: unknown;
+    await telegramWebhookHandler(req, res, error => { forwarded = error; });
+    return forwarded;
+  }
+
+  it('rejects a wrong secret, including one of another byte length', async () => {
+    for (const header of [undefined, 'wrong-secret!!', 'wébhook-secret', 'webhook-secreté']) {
+      const error = await callWebhook(header);
+      assert.ok(error instanceof ApiError, `expected ApiError for ${header}`);
+      assert.equal(error.statusCode, 401);
+    }
+  });
+
+  it('accepts the configured secret', async () => {
+    assert.equal(await callWebhook('webhook-secret'), undefined);
+  });
+});
@@ -0,0 +1,103 @@
+import { positions, telegramLinkCodes, users } from '@/db/schema';
+
+type User = typeof users.$inferSelect;
+type Position = typeof positions.$inferSelect;
+type TelegramLinkCode = typeof telegramLinkCodes.$inferSelect;
+
+/**
+ * In-memory stand-in for the DatabaseRepository methods the notification service uses.
+ * Conditional updates apply the same conditions as their SQL counterparts, and rows are returned as copies.
+ */
+export class MemoryRepository {
+  users = new Map<number, User>();
+  positions = new Map<number, Position>();
+  linkCodes: TelegramLinkCode[] = [];
+
+  addUser(data: Partial<User> & { id: number }): User {
+    const user = {
+      telegramChatId: null,
+      telegramUsername: null,
+      telegramVerified: false,
+      ...data,
+    } as User;
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  addPosition(data: Partial<Position> & { id: number; userId: number }): Position {
+    const position = {
+      name: `Position ${data.id}`,
+      status: 'open',
+      notificationsEnabled: true,
+      lastAlertSentAt: null,
+      ...data,
+    } as Position;
+    this.positions.set(position.id, position);
+    return position;
+  }
+
+  async getUser(userId: number) {
+    const user = this.users.get(userId);
+    return user && { ...user };
+  }
+
+  async findUserByTelegramChatId(chatId: string) {
+    const user = [...this.users.values()].find(candidate => candidate.telegramChatId === chatId);
+    return user && { ...user };
+  }
+
+  async updateUser(userId: number, data: Partial<User>) {
+    const user = this.users.get(userId);
+    if (user) {
+      Object.assign(user, data);
+    }
+    return user && { ...user };
+  }
+
+  async getPosition(positionId: number) {
+    const position = this.positions.get(positionId);
+    return position && { ...position };
+  }
+
+  async claimPositionAlert(positionId: number, sentBefore: Date | null) {
+    const position = this.positions.get(positionId);
+    if (!position?.notificationsEnabled) {
+      return undefined;
+    }
+    if (sentBefore && position.lastAlertSentAt && position.lastAlertSentAt >= sentBefore) {
+      return undefined;
+    }
+
+    position.lastAlertSentAt = new Date();
+    return { ...position };
+  }
+
+  async releasePositionAlert(positionId: number, claimedAt: Date, previousSentAt: Date | null) {
+    const position = this.positions.get(positionId);
+    if (position && position.lastAlertSentAt?.getTime() === claimedAt.getTime()) {
+      position.lastAlertSentAt = previousSentAt;
+    }
+  }
+
+  async createTelegramLinkCode(data: { userId: number; code: string; expiresAt: Date }) {
+    const linkCode: TelegramLinkCode = {
+      id: this.linkCodes.length + 1,
+      usedAt: null,
+      createdAt: new Date(),
+      ...data,
+    };
+    this.linkCodes.push(linkCode);
+    return linkCode;
+  }
+
+  async consumeTelegramLinkCode(code: string) {
+    const now = new Date();
+    const linkCode = this.linkCodes.find(candidate =>
+      candidate.code === code && !candidate.usedAt && candidate.expiresAt > now
+    );
+    if (linkCode) {
+      linkCode.usedAt = now;
+    }
+    return linkCode && { ...linkCode };
+  }
+}
@@ -0,0 +1,81 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+export interface BotApiCall {
+  token: string;
+  method: string;
+  body: Record<string, any>;
+}
+
+/**
+ * Local stand-in for the Telegram Bot API. Records every call and answers
+ * getMe, sendMessage and setWebhook the way the real API does.
+ */
+export class TelegramBotApiStub {
+  readonly calls: BotApiCall[] = [];
+  private failing = new Set<string>();
+  private server?: Server;
+
+  constructor(private botUsername = 'magnolia_test_bot') {}
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const match = req.url?.match(/^\/bot([^/]+)\/(\w+)$/);
+        if (!match) {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ ok: false, error_code: 404, description: 'Not Found' }));
+          return;
+        }
+
+        const [, token, method] = match;
+        this.calls.push({ token, method, body: raw ? JSON.parse(raw) : {} });
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(this.respond(method)));
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server?.close(error => (error ? reject(error) : resolve())));
+  }
+
+  callsTo(method: string): BotApiCall[] {
+    return this.calls.filter(call => call.method === method);
+  }
+
+  /**
+   * Answer calls to method with a Bot API error until reset
+   */
+  fail(method: string): void {
+    this.failing.add(method);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.failing.clear();
+  }
+
+  private respond(method: string) {
+    if (this.failing.has(method)) {
+      return { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' };
+    }
+
+    switch (method) {
+      case 'getMe':
+        return { ok: true, result: { id: 1, is_bot: true, first_name: 'Magnolia', username: this.botUsername } };
+      case 'sendMessage':
+        return { ok: true, result: { message_id: this.calls.length } };
+      case 'setWebhook':
+        return { ok: true, result: true, description: 'Webhook was set' };
+      default:
+        return { ok: false, error_code: 404, description: 'Not Found' };
+    }
+  }
+}